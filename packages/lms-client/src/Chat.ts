@@ -26,7 +26,31 @@ import {
   isChatMessageInputAsOpposeToChatHistoryData,
   isChatMessageInputAsOpposeToChatMessageData,
 } from "./ChatInput.js";
+import { ChatTree } from "./ChatTree.js";
 import { type LMStudioClient } from "./LMStudioClient.js";
+import {
+  type AnthropicMessagesTranscript,
+  anthropicMessagesTranscriptSchema,
+  internalChatHistoryDataFromAnthropicMessages,
+  internalChatHistoryDataToAnthropicMessages,
+} from "./chatFormats/anthropicChatFormat.js";
+import { internalExportChatArchive, internalImportChatArchive } from "./chatFormats/chatArchive.js";
+import {
+  type ChatFormatConversionOpts,
+  chatFormatConversionOptsSchema,
+} from "./chatFormats/ChatFormatConversionOpts.js";
+import {
+  type GeminiContentsTranscript,
+  geminiContentsTranscriptSchema,
+  internalChatHistoryDataFromGeminiContents,
+  internalChatHistoryDataToGeminiContents,
+} from "./chatFormats/geminiChatFormat.js";
+import {
+  internalChatHistoryDataFromOpenAIMessages,
+  internalChatHistoryDataToOpenAIMessages,
+  type OpenAIChatMessage,
+  openAIChatMessageSchema,
+} from "./chatFormats/openAIChatFormat.js";
 import { FileHandle } from "./files/FileHandle.js";
 
 /**
@@ -98,6 +122,10 @@ export class Chat extends MaybeMutable<ChatHistoryData> {
       // Chat
       return initializer.asMutableCopy();
     }
+    if (initializer instanceof ChatTree) {
+      // ChatTree
+      return initializer.activePath();
+    }
     if (typeof initializer === "string") {
       const chatHistory = Chat.empty();
       chatHistory.append("user", initializer);
@@ -116,6 +144,126 @@ export class Chat extends MaybeMutable<ChatHistoryData> {
     }
   }
 
+  /**
+   * Creates a mutable chat history from messages in the OpenAI Chat Completions format.
+   *
+   * System and developer messages become system messages. Images (either `data:` URLs or remote
+   * URLs) are uploaded to LM Studio using `client.files.prepareImageBase64`. Consecutive tool
+   * messages are merged into one tool message.
+   *
+   * @example
+   * ```ts
+   * const history = await Chat.fromOpenAIMessages(client, [
+   *   { role: "system", content: "You are a helpful assistant." },
+   *   { role: "user", content: "What is the weather in Paris?" },
+   * ]);
+   * ```
+   *
+   * @param client - LMStudio client, used to upload images
+   * @param messages - The messages in the OpenAI Chat Completions format
+   */
+  public static async fromOpenAIMessages(
+    client: LMStudioClient,
+    messages: Array<OpenAIChatMessage>,
+  ) {
+    const stack = getCurrentStack(1);
+    messages = sharedValidator.validateMethodParamOrThrow(
+      "Chat",
+      "fromOpenAIMessages",
+      "messages",
+      z.array(openAIChatMessageSchema),
+      messages,
+      stack,
+    );
+    return new Chat(await internalChatHistoryDataFromOpenAIMessages(client, messages, stack), true);
+  }
+
+  /**
+   * Creates a mutable chat history from a conversation in the Anthropic Messages format.
+   *
+   * The top-level system prompt becomes a system message, and `tool_result` blocks are moved into
+   * tool messages. Images are uploaded to LM Studio. Content that cannot be represented in a chat
+   * history (such as thinking blocks) causes an error, unless `onUnsupportedContent` is set to
+   * `"warn"`.
+   *
+   * @param client - LMStudio client, used to upload images
+   * @param transcript - The system prompt and messages in the Anthropic Messages format
+   * @param opts - Options for the conversion
+   */
+  public static async fromAnthropicMessages(
+    client: LMStudioClient,
+    transcript: AnthropicMessagesTranscript,
+    opts: ChatFormatConversionOpts = {},
+  ) {
+    const stack = getCurrentStack(1);
+    [transcript, opts] = sharedValidator.validateMethodParamsOrThrow(
+      "Chat",
+      "fromAnthropicMessages",
+      ["transcript", "opts"],
+      [anthropicMessagesTranscriptSchema, chatFormatConversionOptsSchema],
+      [transcript, opts],
+      stack,
+    );
+    return new Chat(
+      await internalChatHistoryDataFromAnthropicMessages(client, transcript, opts, stack),
+      true,
+    );
+  }
+
+  /**
+   * Creates a mutable chat history from a conversation in the Gemini `contents` format.
+   *
+   * The system instruction becomes a system message, and function responses are moved into tool
+   * messages. Inline images are uploaded to LM Studio. Content that cannot be represented in a chat
+   * history (such as thoughts or code execution results) causes an error, unless
+   * `onUnsupportedContent` is set to `"warn"`.
+   *
+   * @param client - LMStudio client, used to upload images
+   * @param transcript - The system instruction and contents in the Gemini format
+   * @param opts - Options for the conversion
+   */
+  public static async fromGeminiContents(
+    client: LMStudioClient,
+    transcript: GeminiContentsTranscript,
+    opts: ChatFormatConversionOpts = {},
+  ) {
+    const stack = getCurrentStack(1);
+    [transcript, opts] = sharedValidator.validateMethodParamsOrThrow(
+      "Chat",
+      "fromGeminiContents",
+      ["transcript", "opts"],
+      [geminiContentsTranscriptSchema, chatFormatConversionOptsSchema],
+      [transcript, opts],
+      stack,
+    );
+    return new Chat(
+      await internalChatHistoryDataFromGeminiContents(client, transcript, opts, stack),
+      true,
+    );
+  }
+
+  /**
+   * Creates a mutable chat history from an archive created with {@link Chat#exportArchive}.
+   *
+   * The files in the archive are added to LM Studio again, and the file references in the chat
+   * history are updated to point to them.
+   *
+   * @param client - LMStudio client, used to add the files
+   * @param archive - The content of the archive
+   */
+  public static async importArchive(client: LMStudioClient, archive: Uint8Array) {
+    const stack = getCurrentStack(1);
+    archive = sharedValidator.validateMethodParamOrThrow(
+      "Chat",
+      "importArchive",
+      "archive",
+      z.instanceof(Uint8Array),
+      archive,
+      stack,
+    );
+    return new Chat(await internalImportChatArchive(client, archive, stack), true);
+  }
+
   /**
    * Creates a chat history with raw data. This method is intended for internal use only.
    *
@@ -386,6 +534,102 @@ export class Chat extends MaybeMutable<ChatHistoryData> {
     return consumedFiles;
   }
 
+  /**
+   * Exports this chat history together with the content of all files in it as a single archive
+   * (a zip file), which can be imported on another machine with {@link Chat.importArchive}.
+   *
+   * Reading the files requires LM Studio to run on the same machine.
+   *
+   * @param client - LMStudio client, used to read files
+   */
+  public async exportArchive(client: LMStudioClient): Promise<Uint8Array> {
+    const stack = getCurrentStack(1);
+    return await internalExportChatArchive(client, this.data, stack);
+  }
+
+  /**
+   * Converts this chat history to messages in the OpenAI Chat Completions format.
+   *
+   * Images are converted to base64 `data:` URLs, which requires LM Studio to run on the same
+   * machine. Other files cannot be represented and cause an error, unless `onUnsupportedContent` is
+   * set to `"warn"`. Tool call requests without an ID are assigned one. Since tool messages cannot
+   * contain images in the OpenAI format, images attached to tool results are placed in a user
+   * message that follows the tool messages.
+   *
+   * @param client - LMStudio client, used to read files
+   * @param opts - Options for the conversion
+   */
+  public async toOpenAIMessages(
+    client: LMStudioClient,
+    opts: ChatFormatConversionOpts = {},
+  ): Promise<Array<OpenAIChatMessage>> {
+    const stack = getCurrentStack(1);
+    opts = sharedValidator.validateMethodParamOrThrow(
+      "chat",
+      "toOpenAIMessages",
+      "opts",
+      chatFormatConversionOptsSchema,
+      opts,
+      stack,
+    );
+    return await internalChatHistoryDataToOpenAIMessages(client, this.data, opts, stack);
+  }
+
+  /**
+   * Converts this chat history to a conversation in the Anthropic Messages format.
+   *
+   * System messages at the start become the top-level system prompt. Tool messages become user
+   * messages with `tool_result` blocks, and tool call requests without an ID are assigned one. Files
+   * are converted to base64, which requires LM Studio to run on the same machine. Content that
+   * cannot be represented (such as non-image files) causes an error, unless `onUnsupportedContent`
+   * is set to `"warn"`.
+   *
+   * @param client - LMStudio client, used to read files
+   * @param opts - Options for the conversion
+   */
+  public async toAnthropicMessages(
+    client: LMStudioClient,
+    opts: ChatFormatConversionOpts = {},
+  ): Promise<AnthropicMessagesTranscript> {
+    const stack = getCurrentStack(1);
+    opts = sharedValidator.validateMethodParamOrThrow(
+      "chat",
+      "toAnthropicMessages",
+      "opts",
+      chatFormatConversionOptsSchema,
+      opts,
+      stack,
+    );
+    return await internalChatHistoryDataToAnthropicMessages(client, this.data, opts, stack);
+  }
+
+  /**
+   * Converts this chat history to a conversation in the Gemini `contents` format.
+   *
+   * System messages at the start become the system instruction. Tool messages become user contents
+   * with `functionResponse` parts. Files are converted to base64, which requires LM Studio to run
+   * on the same machine. Content that cannot be represented (such as a tool call result whose
+   * function name is unknown) causes an error, unless `onUnsupportedContent` is set to `"warn"`.
+   *
+   * @param client - LMStudio client, used to read files
+   * @param opts - Options for the conversion
+   */
+  public async toGeminiContents(
+    client: LMStudioClient,
+    opts: ChatFormatConversionOpts = {},
+  ): Promise<GeminiContentsTranscript> {
+    const stack = getCurrentStack(1);
+    opts = sharedValidator.validateMethodParamOrThrow(
+      "chat",
+      "toGeminiContents",
+      "opts",
+      chatFormatConversionOptsSchema,
+      opts,
+      stack,
+    );
+    return await internalChatHistoryDataToGeminiContents(client, this.data, opts, stack);
+  }
+
   public getSystemPrompt() {
     return this.data.messages
       .filter(message => message.role === "system")
@@ -433,13 +677,15 @@ export class Chat extends MaybeMutable<ChatHistoryData> {
  * Chat, use {@link ChatInput}.
  *
  * If a string is provided, it will be converted to a chat history with a single user message with
- * the provided text.
+ * the provided text. If a {@link ChatTree} is provided, its active path is used.
  *
  * @public
  */
-export type ChatLike = ChatInput | string | Chat | ChatMessageInput | ChatHistoryData;
+export type ChatLike = ChatInput | string | Chat | ChatTree | ChatMessageInput | ChatHistoryData;
 export const chatHistoryLikeSchema = z.union([
   z.instanceof(Chat as any),
+  // ChatTree imports this module, so it may not be defined yet when this schema is created.
+  z.lazy(() => z.instanceof(ChatTree as any)),
   chatHistoryDataSchema,
   z.string(),
   chatHistoryInputSchema,
@@ -570,6 +816,30 @@ export class ChatMessage extends MaybeMutable<ChatMessageData> {
       }));
   }
 
+  /**
+   * Get all tool call results within this message, together with the files that are attached to
+   * each of them. (For example, images returned by the tool implementation.)
+   *
+   * @param client - LMStudio client
+   */
+  public getToolCallResultsWithFiles(
+    client: LMStudioClient,
+  ): Array<{ result: ToolCallResult; files: Array<FileHandle> }> {
+    const results: Array<{ result: ToolCallResult; files: Array<FileHandle> }> = [];
+    for (const part of this.data.content) {
+      if (part.type === "toolCallResult") {
+        results.push({
+          result: { content: part.content, toolCallId: part.toolCallId, name: part.name },
+          files: [],
+        });
+      } else if (part.type === "file" && results.length > 0) {
+        // Files belong to the closest tool call result that precedes them.
+        results.at(-1)!.files.push(client.files.createFileHandleFromChatMessagePartFileData(part));
+      }
+    }
+    return results;
+  }
+
   /**
    * Gets all file parts contained in this message.
    */
@@ -720,6 +990,9 @@ export class ChatMessage extends MaybeMutable<ChatMessageData> {
   /**
    * Append a file to the message. Takes in a FileHandle. You can obtain a FileHandle from
    * `client.files.prepareImage`.
+   *
+   * When appending to a message with the role "tool", the file is attached to the last tool call
+   * result in the message.
    */
   public appendFile(file: FileHandle) {
     this.guardMutable();
@@ -727,6 +1000,7 @@ export class ChatMessage extends MaybeMutable<ChatMessageData> {
       case "assistant":
       case "user":
       case "system":
+      case "tool":
         this.data.content.push({
           type: "file",
           name: file.name,
@@ -735,8 +1009,6 @@ export class ChatMessage extends MaybeMutable<ChatMessageData> {
           fileType: file.type,
         });
         break;
-      case "tool":
-        throw new Error(`Cannot append text to a message with role "${this.data.role}"`);
       default: {
         const exhaustiveCheck: never = this.data;
         throw new Error(`Unhandled role in switch statement: ${(exhaustiveCheck as any).role}`);
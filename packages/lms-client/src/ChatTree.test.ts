@@ -0,0 +1,59 @@
+import { Chat, chatHistoryLikeSchema } from "./Chat.js";
+import { ChatTree } from "./ChatTree.js";
+
+function getTexts(chat: Chat) {
+  return chat.getMessagesArray().map(message => message.getText());
+}
+
+describe("ChatTree", () => {
+  test("keeps alternatives and switches the active path", () => {
+    const tree = ChatTree.from([{ role: "user", content: "Tell me a joke" }]);
+    const firstReplyId = tree.append({ role: "assistant", content: "Joke 1" });
+    const followUpId = tree.append({ role: "user", content: "Another one" });
+    tree.append({ role: "assistant", content: "Joke 2" });
+
+    const regeneratedId = tree.fork(firstReplyId, { role: "assistant", content: "Joke 1b" });
+    expect(tree.alternatives(firstReplyId)).toEqual([firstReplyId, regeneratedId]);
+    expect(getTexts(tree.activePath())).toEqual(["Tell me a joke", "Joke 1b"]);
+
+    // Switching back restores the messages that were active below the alternative.
+    tree.select(firstReplyId);
+    expect(getTexts(tree.activePath())).toEqual([
+      "Tell me a joke",
+      "Joke 1",
+      "Another one",
+      "Joke 2",
+    ]);
+    expect(getTexts(tree.getPath(followUpId))).toEqual(["Tell me a joke", "Joke 1", "Another one"]);
+    expect(tree.getParentId(followUpId)).toBe(firstReplyId);
+  });
+
+  test("edits the first message", () => {
+    const tree = ChatTree.empty();
+    const questionId = tree.append("What is 1 + 1?");
+    tree.append({ role: "assistant", content: "2" });
+    tree.fork(questionId, "What is 2 + 2?");
+    expect(tree.getChildIds(null)).toHaveLength(2);
+    expect(getTexts(tree.activePath())).toEqual(["What is 2 + 2?"]);
+  });
+
+  test("round-trips through JSON", () => {
+    const tree = ChatTree.from([{ role: "user", content: "Hi" }]);
+    const replyId = tree.append({ role: "assistant", content: "Hello" });
+    tree.fork(replyId, { role: "assistant", content: "Hey" });
+    tree.select(replyId);
+
+    const restored = ChatTree.fromJSON(JSON.parse(JSON.stringify(tree)));
+    expect(restored.toJSON()).toEqual(tree.toJSON());
+    expect(getTexts(restored.activePath())).toEqual(["Hi", "Hello"]);
+    expect(() => ChatTree.fromJSON({ ...tree.toJSON(), activeRootId: "missing" })).toThrow(
+      "unknown active root",
+    );
+  });
+
+  test("can be used wherever a chat is accepted", () => {
+    const tree = ChatTree.from([{ role: "user", content: "Hi" }]);
+    expect(chatHistoryLikeSchema.safeParse(tree).success).toBe(true);
+    expect(getTexts(Chat.from(tree))).toEqual(["Hi"]);
+  });
+});
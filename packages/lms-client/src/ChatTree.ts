@@ -0,0 +1,298 @@
+import {
+  accessMaybeMutableInternals,
+  getCurrentStack,
+  sharedValidator,
+  text,
+} from "@lmstudio/lms-common";
+import { generateRandomBase64 } from "@lmstudio/lms-isomorphic";
+import { type ChatMessageData, chatMessageDataSchema } from "@lmstudio/lms-shared-types";
+import { z, type ZodSchema } from "zod";
+import { Chat, type ChatLike, ChatMessage, type ChatMessageLike } from "./Chat.js";
+
+/**
+ * A single message in a {@link ChatTree}, as stored in its JSON form.
+ *
+ * @public
+ */
+export interface ChatTreeNodeData {
+  id: string;
+  /**
+   * The ID of the message this message is a reply to, or `null` if this is the first message of
+   * the conversation.
+   */
+  parentId: string | null;
+  message: ChatMessageData;
+  /**
+   * Which of the replies to this message is on the active path. `null` if there are no replies.
+   */
+  activeChildId: string | null;
+}
+export const chatTreeNodeDataSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  message: chatMessageDataSchema,
+  activeChildId: z.string().nullable(),
+}) satisfies ZodSchema<ChatTreeNodeData>;
+
+/**
+ * The JSON form of a {@link ChatTree}. Nodes are ordered such that every node comes after its
+ * parent, and alternatives are ordered by when they were created.
+ *
+ * @public
+ */
+export interface ChatTreeData {
+  nodes: Array<ChatTreeNodeData>;
+  /**
+   * Which of the first messages is on the active path. `null` if the tree is empty.
+   */
+  activeRootId: string | null;
+}
+export const chatTreeDataSchema = z.object({
+  nodes: z.array(chatTreeNodeDataSchema),
+  activeRootId: z.string().nullable(),
+}) satisfies ZodSchema<ChatTreeData>;
+
+/**
+ * A conversation where every message can have multiple alternatives, like the chats in LM Studio.
+ * Editing a past message or regenerating a reply adds an alternative instead of overwriting the
+ * existing message, and the active path decides which alternatives are currently shown.
+ *
+ * Every message is identified by a node ID. The active path can be passed to `.respond` and `.act`
+ * by passing the tree itself.
+ *
+ * @example
+ * ```ts
+ * const tree = ChatTree.empty();
+ * tree.append({ role: "user", content: "Tell me a joke." });
+ * const replyId = tree.append({ role: "assistant", content: (await model.respond(tree)).content });
+ *
+ * // Regenerate the reply. The previous reply is kept as an alternative.
+ * const regenerated = await model.respond(tree.getPath(tree.getParentId(replyId)!));
+ * tree.fork(replyId, { role: "assistant", content: regenerated.content });
+ * console.info(tree.alternatives(replyId).length); // 2
+ * ```
+ *
+ * @public
+ */
+export class ChatTree {
+  private readonly nodes = new Map<string, ChatTreeNodeData>();
+  /**
+   * The IDs of the children of each node, in the order they were created. The first messages of
+   * the conversation are stored under `null`.
+   */
+  private readonly childIds = new Map<string | null, Array<string>>([[null, []]]);
+  private activeRootId: string | null = null;
+
+  private constructor() {}
+
+  /**
+   * Creates an empty chat tree.
+   */
+  public static empty() {
+    return new ChatTree();
+  }
+
+  /**
+   * Creates a chat tree with a single path that contains the messages of the given chat.
+   */
+  public static from(initializer: ChatLike) {
+    const tree = new ChatTree();
+    for (const message of Chat.from(initializer).getMessagesArray()) {
+      tree.append(message);
+    }
+    return tree;
+  }
+
+  /**
+   * Creates a chat tree from the data returned by {@link ChatTree#toJSON}.
+   */
+  public static fromJSON(data: ChatTreeData) {
+    const stack = getCurrentStack(1);
+    data = sharedValidator.validateMethodParamOrThrow(
+      "ChatTree",
+      "fromJSON",
+      "data",
+      chatTreeDataSchema,
+      data,
+      stack,
+    );
+    const tree = new ChatTree();
+    for (const node of data.nodes) {
+      if (tree.nodes.has(node.id)) {
+        throw new Error(`Invalid chat tree data: duplicate node ID "${node.id}".`);
+      }
+      const siblingIds = tree.childIds.get(node.parentId);
+      if (siblingIds === undefined) {
+        throw new Error(text`
+          Invalid chat tree data: the parent "${node.parentId}" of node "${node.id}" does not come
+          before it.
+        `);
+      }
+      tree.nodes.set(node.id, node);
+      tree.childIds.set(node.id, []);
+      siblingIds.push(node.id);
+    }
+    for (const node of data.nodes) {
+      if (
+        node.activeChildId !== null &&
+        !tree.childIds.get(node.id)!.includes(node.activeChildId)
+      ) {
+        throw new Error(text`
+          Invalid chat tree data: the active child "${node.activeChildId}" of node "${node.id}" is
+          not one of its children.
+        `);
+      }
+    }
+    if (data.activeRootId !== null && !tree.childIds.get(null)!.includes(data.activeRootId)) {
+      throw new Error(`Invalid chat tree data: unknown active root "${data.activeRootId}".`);
+    }
+    tree.activeRootId = data.activeRootId;
+    return tree;
+  }
+
+  /**
+   * Converts the tree to plain data that can be serialized with `JSON.stringify` and loaded back
+   * with {@link ChatTree.fromJSON}.
+   */
+  public toJSON(): ChatTreeData {
+    return chatTreeDataSchema.parse({
+      nodes: [...this.nodes.values()],
+      activeRootId: this.activeRootId,
+    });
+  }
+
+  private getNodeOrThrow(nodeId: string) {
+    const node = this.nodes.get(nodeId);
+    if (node === undefined) {
+      throw new Error(`There is no message with the node ID "${nodeId}" in the chat tree.`);
+    }
+    return node;
+  }
+
+  private addNode(parentId: string | null, messageLike: ChatMessageLike) {
+    const message = accessMaybeMutableInternals(ChatMessage.from(messageLike))._internalGetData();
+    let id: string;
+    do {
+      id = generateRandomBase64(9);
+    } while (this.nodes.has(id));
+    this.nodes.set(id, { id, parentId, message, activeChildId: null });
+    this.childIds.set(id, []);
+    this.childIds.get(parentId)!.push(id);
+    this.select(id);
+    return id;
+  }
+
+  /**
+   * Appends a message to the end of the active path. Returns the node ID of the new message.
+   */
+  public append(message: ChatMessageLike): string {
+    return this.addNode(this.getActiveLeafId(), message);
+  }
+
+  /**
+   * Adds an alternative to the message with the given node ID, for example an edited user message
+   * or a regenerated assistant reply. The alternative replies to the same message and becomes part
+   * of the active path. Returns the node ID of the alternative.
+   *
+   * Messages after `at` are not copied to the alternative: the alternative starts a new branch.
+   */
+  public fork(at: string, message: ChatMessageLike): string {
+    return this.addNode(this.getNodeOrThrow(at).parentId, message);
+  }
+
+  /**
+   * Gets the node IDs of all alternatives of the message with the given node ID (including the
+   * message itself), in the order they were created.
+   */
+  public alternatives(nodeId: string): Array<string> {
+    return [...this.childIds.get(this.getNodeOrThrow(nodeId).parentId)!];
+  }
+
+  /**
+   * Makes the message with the given node ID part of the active path. Further down, the active path
+   * follows the replies that were active the last time.
+   */
+  public select(nodeId: string) {
+    let node = this.getNodeOrThrow(nodeId);
+    while (node.parentId !== null) {
+      const parent = this.getNodeOrThrow(node.parentId);
+      parent.activeChildId = node.id;
+      node = parent;
+    }
+    this.activeRootId = node.id;
+  }
+
+  /**
+   * Gets the node IDs of the messages on the active path, from the first message to the last.
+   */
+  public getActivePathNodeIds(): Array<string> {
+    const nodeIds: Array<string> = [];
+    let nodeId = this.activeRootId;
+    while (nodeId !== null) {
+      nodeIds.push(nodeId);
+      nodeId = this.getNodeOrThrow(nodeId).activeChildId;
+    }
+    return nodeIds;
+  }
+
+  /**
+   * Gets the node ID of the last message on the active path, or `null` if the tree is empty.
+   */
+  public getActiveLeafId(): string | null {
+    return this.getActivePathNodeIds().at(-1) ?? null;
+  }
+
+  /**
+   * Gets the messages on the active path as a mutable chat history. Changing the returned chat does
+   * not change the tree.
+   */
+  public activePath(): Chat {
+    return this.toChat(this.getActivePathNodeIds());
+  }
+
+  /**
+   * Gets the messages from the first message up to (and including) the message with the given node
+   * ID as a mutable chat history. Pass `null` to get an empty chat history.
+   */
+  public getPath(nodeId: string | null): Chat {
+    const nodeIds: Array<string> = [];
+    while (nodeId !== null) {
+      nodeIds.unshift(nodeId);
+      nodeId = this.getNodeOrThrow(nodeId).parentId;
+    }
+    return this.toChat(nodeIds);
+  }
+
+  private toChat(nodeIds: Array<string>) {
+    return Chat.createRaw(
+      { messages: nodeIds.map(nodeId => this.getNodeOrThrow(nodeId).message) },
+      false,
+    ).asMutableCopy();
+  }
+
+  /**
+   * Gets the message with the given node ID. The returned message is immutable.
+   */
+  public getMessage(nodeId: string): ChatMessage {
+    return ChatMessage.createRaw(this.getNodeOrThrow(nodeId).message, false);
+  }
+
+  /**
+   * Gets the node ID of the message the given message replies to, or `null` if it is the first
+   * message of the conversation.
+   */
+  public getParentId(nodeId: string): string | null {
+    return this.getNodeOrThrow(nodeId).parentId;
+  }
+
+  /**
+   * Gets the node IDs of all replies to the given message, in the order they were created. Pass
+   * `null` to get the alternatives of the first message.
+   */
+  public getChildIds(nodeId: string | null): Array<string> {
+    if (nodeId !== null) {
+      this.getNodeOrThrow(nodeId);
+    }
+    return [...this.childIds.get(nodeId)!];
+  }
+}
@@ -0,0 +1,160 @@
+import { FakeLMStudio, silentLogger } from "@lmstudio/lms-communication-mock";
+import { z } from "zod";
+import { LMStudioClient } from "./LMStudioClient.js";
+import { tool } from "./llm/tool.js";
+
+function createFake() {
+  const fake = new FakeLMStudio({ logger: silentLogger });
+  const client = new LMStudioClient({ logger: silentLogger, ...fake.getClientOpts() });
+  return { fake, client };
+}
+
+describe("LMStudioClient with FakeLMStudio", () => {
+  it("runs a scripted act() flow with a tool call", async () => {
+    const { fake, client } = createFake();
+    fake.addLLM({ modelKey: "qwen3-4b", trainedForToolUse: true });
+    fake.queuePrediction({
+      events: [
+        { type: "promptProcessingProgress", progress: 1 },
+        { type: "toolCall", id: "call_0", name: "add", arguments: { a: 1, b: 2 } },
+      ],
+    });
+    fake.queuePrediction(request => {
+      const toolResult = request.history!.messages.at(-1)!.content[0] as { content: string };
+      return { events: [{ type: "fragment", content: `The answer is ${toolResult.content}.` }] };
+    });
+    const add = jest.fn(({ a, b }: { a: number; b: number }) => a + b);
+    const progress: Array<[number, number]> = [];
+    const messages: Array<string> = [];
+
+    const model = await client.llm.model("qwen3-4b");
+    const result = await model.act(
+      "What is 1 + 2?",
+      [
+        tool({
+          name: "add",
+          description: "Adds two numbers",
+          parameters: { a: z.number(), b: z.number() },
+          implementation: add,
+        }),
+      ],
+      {
+        onPromptProcessingProgress: (roundIndex, value) => progress.push([roundIndex, value]),
+        onMessage: message => messages.push(message.getText()),
+      },
+    );
+
+    expect(add).toHaveBeenCalledWith({ a: 1, b: 2 }, expect.anything());
+    expect(result.rounds).toBe(2);
+    expect(progress).toContainEqual([0, 1]);
+    expect(messages.at(-1)).toBe("The answer is 3.");
+    const requests = fake.getPredictionRequests();
+    expect(requests).toHaveLength(2);
+    expect(requests[1].history!.messages.map(message => message.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+    ]);
+    expect(fake.getQueuedPredictionCount()).toBe(0);
+  });
+
+  it("streams fragments and records the prediction config", async () => {
+    const { fake, client } = createFake();
+    fake.addLLM({ modelKey: "gemma" });
+    fake.queuePrediction({
+      events: [
+        { type: "fragment", content: "Hello" },
+        { type: "fragment", content: ", world" },
+      ],
+      stopReason: "maxPredictedTokensReached",
+    });
+
+    const model = await client.llm.model();
+    const fragments: Array<string> = [];
+    const result = await model.respond("Hi", {
+      temperature: 0.3,
+      onPredictionFragment: fragment => fragments.push(fragment.content),
+    });
+
+    expect(fragments).toEqual(["Hello", ", world"]);
+    expect(result.content).toBe("Hello, world");
+    expect(result.stats).toMatchObject({
+      stopReason: "maxPredictedTokensReached",
+      predictedTokensCount: 12,
+    });
+    expect(fake.getPredictionRequests()[0].predictionConfig.fields).toContainEqual({
+      key: "llm.prediction.temperature",
+      value: 0.3,
+    });
+  });
+
+  it("fails predictions with scripted errors and when nothing is queued", async () => {
+    const { fake, client } = createFake();
+    fake.addLLM({ modelKey: "gemma" });
+    fake.queuePrediction({
+      events: [
+        { type: "fragment", content: "Partial" },
+        { type: "error", error: "Model crashed" },
+      ],
+    });
+
+    const model = await client.llm.model("gemma");
+    await expect(model.respond("Hi")).rejects.toThrow("Model crashed");
+    await expect(model.respond("Hi")).rejects.toThrow("no prediction is queued");
+  });
+
+  it("stops a prediction held open by a delay when it is cancelled", async () => {
+    const { fake, client } = createFake();
+    fake.addLLM({ modelKey: "gemma" });
+    fake.queuePrediction({
+      events: [
+        { type: "fragment", content: "Thinking" },
+        { type: "delay", ms: 60_000 },
+        { type: "fragment", content: " never sent" },
+      ],
+    });
+
+    const model = await client.llm.model("gemma");
+    const prediction = model.respond("Hi", {
+      onPredictionFragment: () => prediction.cancel(),
+    });
+    const result = await prediction;
+
+    expect(result.content).toBe("Thinking");
+    expect(result.stats.stopReason).toBe("userStopped");
+  });
+
+  it("reports load progress and load errors", async () => {
+    const { fake, client } = createFake();
+    fake.addLLM({ modelKey: "llama", loaded: false, loadProgress: [0.25, 0.75, 1] });
+    fake.addLLM({ modelKey: "broken", loaded: false, loadError: "Out of memory" });
+
+    const progress: Array<number> = [];
+    const model = await client.llm.load("llama", {
+      identifier: "my-llama",
+      onProgress: value => progress.push(value),
+    });
+
+    expect(progress).toEqual([0.25, 0.75, 1]);
+    expect(model.identifier).toBe("my-llama");
+    expect((await client.llm.listLoaded()).map(({ identifier }) => identifier)).toEqual([
+      "my-llama",
+    ]);
+    await expect(client.llm.load("broken")).rejects.toThrow("Out of memory");
+    await model.unload();
+    expect(fake.getLoadedModels()).toEqual([]);
+  });
+
+  it("serves embeddings", async () => {
+    const { fake, client } = createFake();
+    fake.addEmbeddingModel({
+      modelKey: "nomic-embed",
+      embed: input => [input.length, 1],
+    });
+
+    const model = await client.embedding.model("nomic-embed");
+
+    expect(await model.embed("hello")).toMatchObject({ embedding: [5, 1] });
+    expect(await model.countTokens("hello")).toBe(5);
+  });
+});
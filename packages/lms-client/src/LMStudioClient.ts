@@ -14,7 +14,13 @@ import {
   type SignalEndpointsSpecBase,
   type WritableSignalEndpointsSpecBase,
 } from "@lmstudio/lms-communication";
-import { getHostedEnv, type ClientPort } from "@lmstudio/lms-communication-client";
+import {
+  CassettePlayer,
+  CassetteRecorder,
+  ClientPort,
+  type ClientPortEndpointError,
+  getHostedEnv,
+} from "@lmstudio/lms-communication-client";
 import {
   createDiagnosticsBackendInterface,
   createEmbeddingBackendInterface,
@@ -44,10 +50,16 @@ import { EmbeddingNamespace } from "./embedding/EmbeddingNamespace.js";
 import { FilesNamespace } from "./files/FilesNamespace.js";
 import { friendlyErrorDeserializer } from "./friendlyErrorDeserializer.js";
 import { LLMNamespace } from "./llm/LLMNamespace.js";
+import { ClientMetrics } from "./metrics/ClientMetrics.js";
 import { PluginsNamespace } from "./plugins/PluginsNamespace.js";
 import { RepositoryNamespace } from "./repository/RepositoryNamespace.js";
 import { RuntimeNamespace } from "./runtime/RuntimeNamespace.js";
 import { SystemNamespace } from "./system/SystemNamespace.js";
+import {
+  createTracer,
+  type LMStudioTracingOpts,
+  lmStudioTracingOptsSchema,
+} from "./tracing/tracing.js";
 
 /** @public */
 export interface LMStudioClientConstructorOpts {
@@ -105,6 +117,66 @@ export interface LMStudioClientConstructorOpts {
    * same `clientIdentifier` and `clientPasskey`.
    */
   clientPasskey?: string;
+  /**
+   * Records or replays the traffic between the client and LM Studio, for deterministic tests that
+   * do not need a running LM Studio.
+   *
+   * Pass a {@link CassetteRecorder} to record every request and its response while talking to LM
+   * Studio as usual. Pass a {@link CassettePlayer} to answer the requests from a recorded cassette
+   * instead. No connection is made in that case, and requests that were not recorded fail.
+   *
+   * ```typescript
+   * // Record
+   * const recorder = new CassetteRecorder();
+   * const client = new LMStudioClient({ cassette: recorder });
+   * // ... use the client ...
+   * await writeFile("cassette.json", JSON.stringify(recorder.getCassette()));
+   *
+   * // Replay
+   * const cassette = JSON.parse(await readFile("cassette.json", "utf-8"));
+   * const client = new LMStudioClient({
+   *   cassette: new CassettePlayer(cassette, { ignoreKeys: ["seed"] }),
+   * });
+   * ```
+   */
+  cassette?: CassetteRecorder | CassettePlayer;
+  /**
+   * Creates a span for every `.respond`, `.complete` and `.act` call, with child spans for the
+   * rounds and tool calls of `.act`. The spans carry the prediction statistics, such as token
+   * counts, tokens per second, time to first token and draft acceptance, and events for the first
+   * token and prompt processing progress.
+   *
+   * ```typescript
+   * import * as otel from "@opentelemetry/api";
+   * const client = new LMStudioClient({ tracing: { type: "openTelemetry", api: otel } });
+   *
+   * // Or, without OpenTelemetry, to inspect the spans locally:
+   * const client = new LMStudioClient({ tracing: { type: "file", path: "spans.jsonl" } });
+   * ```
+   *
+   * @experimental [EXP-TRACING] Tracing is experimental and may change in the future.
+   */
+  tracing?: LMStudioTracingOpts;
+
+  // Internal testing options
+  /** @internal */
+  disableConnection?: boolean;
+  /** @internal */
+  llmPort?: LLMPort;
+  /** @internal */
+  embeddingPort?: EmbeddingPort;
+  /** @internal */
+  systemPort?: SystemPort;
+  /** @internal */
+  diagnosticsPort?: DiagnosticsPort;
+  /** @internal */
+  filesPort?: FilesPort;
+  /** @internal */
+  repositoryPort?: RepositoryPort;
+  /** @internal */
+  pluginsPort?: PluginsPort;
+  /** @internal */
+  runtimePort?: RuntimePort;
 }
 const constructorOptsSchema = z
   .object({
@@ -114,6 +186,8 @@ const constructorOptsSchema = z
     apiToken: z.string().optional(),
     clientIdentifier: z.string().optional(),
     clientPasskey: z.string().optional(),
+    cassette: z.union([z.instanceof(CassetteRecorder), z.instanceof(CassettePlayer)]).optional(),
+    tracing: lmStudioTracingOptsSchema.optional(),
 
     // Internal testing options
     disableConnection: z.boolean().optional(),
@@ -167,6 +241,14 @@ export class LMStudioClient {
    */
   public readonly plugins: PluginsNamespace;
   public readonly runtime: RuntimeNamespace;
+  /**
+   * Cumulative metrics of the predictions, tool calls, model loads and server errors of this
+   * client. See {@link ClientMetrics}.
+   *
+   * @experimental [EXP-CLIENT-METRICS] Client metrics are experimental and may change in the
+   * future.
+   */
+  public readonly metrics: ClientMetrics;
 
   /** @internal */
   private validateBaseUrlOrThrow(baseUrl: string) {
@@ -298,6 +380,17 @@ export class LMStudioClient {
       TWritableSignalEndpoints
     >,
   ): ClientPort<TRpcEndpoints, TChannelEndpoints, TSignalEndpoints, TWritableSignalEndpoints> {
+    const cassette = this.cassette;
+    const onEndpointError = ({ type, endpoint }: ClientPortEndpointError) =>
+      this.metrics.recordEndpointError(namespace, type, endpoint);
+    if (cassette instanceof CassettePlayer) {
+      return new ClientPort(backendInterface, cassette.createTransportFactory(namespace), {
+        parentLogger: new SimpleLogger(name, this.logger),
+        errorDeserializer: friendlyErrorDeserializer,
+        verboseErrorMessage: this.verboseErrorMessages,
+        onEndpointError,
+      });
+    }
     return createAuthenticatedClientPort(
       backendInterface,
       this.resolvingBaseUrl,
@@ -308,12 +401,19 @@ export class LMStudioClient {
       {
         errorDeserializer: friendlyErrorDeserializer,
         verboseErrorMessage: this.verboseErrorMessages,
+        onEndpointError,
+        wrapTransportFactory:
+          cassette === undefined
+            ? undefined
+            : factory => cassette.wrapTransportFactory(namespace, factory),
       },
     );
   }
 
   private resolvingBaseUrl: string | Promise<string>;
   private verboseErrorMessages: boolean;
+  /** @internal */
+  private readonly cassette?: CassetteRecorder | CassettePlayer;
 
   public constructor(opts: LMStudioClientConstructorOpts = {}) {
     const {
@@ -323,6 +423,8 @@ export class LMStudioClient {
       apiToken,
       clientIdentifier: clientIdentifierInput,
       clientPasskey: clientPasskeyInput,
+      cassette,
+      tracing,
       disableConnection,
       llmPort,
       embeddingPort,
@@ -421,8 +523,10 @@ export class LMStudioClient {
     this.clientIdentifier = clientIdentifier ?? `guest:${generateRandomBase64(18)}`;
     this.clientPasskey = clientPasskey ?? generateRandomBase64(18);
 
+    this.cassette = cassette;
+
     const stack = getCurrentStack(1);
-    if (disableConnection) {
+    if (disableConnection || cassette instanceof CassettePlayer) {
       this.resolvingBaseUrl = new Promise(() => undefined);
     } else {
       if (baseUrl === undefined) {
@@ -433,6 +537,7 @@ export class LMStudioClient {
       }
     }
     this.verboseErrorMessages = verboseErrorMessages ?? true;
+    this.metrics = new ClientMetrics();
 
     this.llmPort = llmPort ?? this.createPort("llm", "LLM", createLlmBackendInterface());
     this.embeddingPort =
@@ -458,12 +563,17 @@ export class LMStudioClient {
       this.llmPort,
       new SimpleLogger("LLM", this.logger),
       validator,
+      tracing === undefined
+        ? null
+        : createTracer(tracing, new SimpleLogger("Tracing", this.logger)),
+      this.metrics,
     );
     this.embedding = new EmbeddingNamespace(
       this,
       this.embeddingPort,
       new SimpleLogger("Embedding", this.logger),
       validator,
+      this.metrics,
     );
     this.system = new SystemNamespace(this.systemPort, validator, this.logger);
     this.diagnostics = new DiagnosticsNamespace(this.diagnosticsPort, validator, this.logger);
@@ -0,0 +1,28 @@
+import { type LoggerInterface } from "@lmstudio/lms-common";
+import { z, type ZodSchema } from "zod";
+
+/**
+ * Options for converting a chat history from or to the message format of another provider.
+ *
+ * @public
+ */
+export interface ChatFormatConversionOpts {
+  /**
+   * What to do when the input contains something that cannot be represented in the target format.
+   * For example, thinking blocks or code execution results.
+   *
+   * - `"throw"`: Throw an error describing the unsupported content.
+   * - `"warn"`: Log a warning and leave the unsupported content out.
+   *
+   * Defaults to `"throw"`.
+   */
+  onUnsupportedContent?: "throw" | "warn";
+  /**
+   * The logger to use for warnings about unsupported content. Defaults to the console.
+   */
+  logger?: LoggerInterface;
+}
+export const chatFormatConversionOptsSchema = z.object({
+  onUnsupportedContent: z.enum(["throw", "warn"]).optional(),
+  logger: z.any().optional(),
+}) satisfies ZodSchema<ChatFormatConversionOpts>;
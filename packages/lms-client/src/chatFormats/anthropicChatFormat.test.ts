@@ -0,0 +1,123 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Chat } from "../Chat.js";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type AnthropicMessagesTranscript } from "./anthropicChatFormat.js";
+
+const pngBase64 = Buffer.from("fake png content").toString("base64");
+
+function createFakeClient() {
+  const directory = mkdtempSync(join(tmpdir(), "lms-openai-chat-format-"));
+  const uploads = new Array<{ fileName: string; base64: string }>();
+  const client = {
+    files: {
+      prepareImageBase64: async (fileName: string, base64: string) => {
+        const identifier = `file-${uploads.length}`;
+        uploads.push({ fileName, base64 });
+        writeFileSync(join(directory, identifier), Buffer.from(base64, "base64"));
+        return { identifier, name: fileName, sizeBytes: base64.length, type: "image" };
+      },
+      createFileHandleFromChatMessagePartFileData: (data: {
+        identifier: string;
+        name: string;
+      }) => ({
+        name: data.name,
+        getFilePath: async () => join(directory, data.identifier),
+      }),
+    },
+  } as unknown as LMStudioClient;
+  return { client, uploads };
+}
+
+describe("Chat Anthropic format", () => {
+  test("round-trips text, images and tool use", async () => {
+    const { client, uploads } = createFakeClient();
+    const transcript: AnthropicMessagesTranscript = {
+      system: "You are a helpful assistant.",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in this image?" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: pngBase64 } },
+          ],
+        },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Let me look it up." },
+            { type: "tool_use", id: "toolu_a", name: "lookup", input: { query: "cat" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_a", content: "Not found", is_error: true },
+          ],
+        },
+        { role: "assistant", content: [{ type: "text", text: "It is a cat." }] },
+      ],
+    };
+
+    const chat = await Chat.fromAnthropicMessages(client, transcript);
+    expect(uploads).toEqual([{ fileName: "image-0.png", base64: pngBase64 }]);
+    expect(chat.getSystemPrompt()).toBe("You are a helpful assistant.");
+    expect(
+      chat
+        .at(3)
+        .getToolCallResultsWithFiles(client)
+        .map(({ result }) => result),
+    ).toEqual([{ toolCallId: "toolu_a", name: "lookup", content: '{"error":"Not found"}' }]);
+
+    await expect(chat.toAnthropicMessages(client)).resolves.toEqual(transcript);
+  });
+
+  test("splits tool results and text of the same user message", async () => {
+    const { client } = createFakeClient();
+    const chat = await Chat.fromAnthropicMessages(client, {
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_a", content: "42" },
+            { type: "text", text: "Thanks!" },
+          ],
+        },
+      ],
+    });
+    expect(chat.getMessagesArray().map(message => message.getRole())).toEqual(["tool", "user"]);
+  });
+
+  test("reports unsupported content", async () => {
+    const { client } = createFakeClient();
+    const transcript: AnthropicMessagesTranscript = {
+      messages: [
+        {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "Hmm", signature: "abc" },
+            { type: "text", text: "Hello" },
+          ],
+        },
+      ],
+    };
+    await expect(Chat.fromAnthropicMessages(client, transcript)).rejects.toThrow(
+      "Cannot convert a thinking block in assistant message 0",
+    );
+
+    const warnings = new Array<string>();
+    const logger = {
+      info: () => {},
+      error: () => {},
+      debug: () => {},
+      warn: (...messages: Array<unknown>) => warnings.push(messages.join(" ")),
+    };
+    const chat = await Chat.fromAnthropicMessages(client, transcript, {
+      onUnsupportedContent: "warn",
+      logger,
+    });
+    expect(chat.at(0).getText()).toBe("Hello");
+    expect(warnings).toEqual([expect.stringContaining("Leaving out a thinking block")]);
+  });
+});
@@ -0,0 +1,430 @@
+import {
+  type ChatHistoryData,
+  type ChatMessageData,
+  type ChatMessagePartFileData,
+  type ChatMessagePartTextData,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type ChatFormatConversionOpts } from "./ChatFormatConversionOpts.js";
+import {
+  createUnsupportedContentReporter,
+  getExtensionFromMimeType,
+  prepareImagePart,
+  prepareImagePartFromUrl,
+  readFileHandleAsBase64,
+  ToolCallMatcher,
+} from "./chatFormatUtils.js";
+
+/**
+ * A text content block in the Anthropic Messages format.
+ *
+ * @public
+ */
+export interface AnthropicTextBlock {
+  type: "text";
+  text: string;
+}
+export const anthropicTextBlockSchema = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+});
+
+/**
+ * An image content block in the Anthropic Messages format.
+ *
+ * @public
+ */
+export interface AnthropicImageBlock {
+  type: "image";
+  source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+}
+export const anthropicImageBlockSchema = z.object({
+  type: z.literal("image"),
+  source: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("base64"), media_type: z.string(), data: z.string() }),
+    z.object({ type: z.literal("url"), url: z.string() }),
+  ]),
+});
+
+/**
+ * A tool use content block in the Anthropic Messages format, which is how the assistant requests a
+ * tool call.
+ *
+ * @public
+ */
+export interface AnthropicToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+export const anthropicToolUseBlockSchema = z.object({
+  type: z.literal("tool_use"),
+  id: z.string(),
+  name: z.string(),
+  input: z.record(z.unknown()),
+});
+
+/**
+ * A tool result content block in the Anthropic Messages format.
+ *
+ * @public
+ */
+export interface AnthropicToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  is_error?: boolean;
+}
+export const anthropicToolResultBlockSchema = z.object({
+  type: z.literal("tool_result"),
+  tool_use_id: z.string(),
+  content: z
+    .union([
+      z.string(),
+      z.array(z.discriminatedUnion("type", [anthropicTextBlockSchema, anthropicImageBlockSchema])),
+    ])
+    .optional(),
+  is_error: z.boolean().optional(),
+});
+
+/**
+ * Content blocks of the Anthropic Messages format that are accepted as input, but cannot be
+ * represented in a chat history. Whether they cause an error or are left out is controlled by
+ * {@link ChatFormatConversionOpts#onUnsupportedContent}.
+ *
+ * @public
+ */
+export interface AnthropicUnsupportedBlock {
+  type:
+    | "thinking"
+    | "redacted_thinking"
+    | "document"
+    | "search_result"
+    | "server_tool_use"
+    | "web_search_tool_result";
+  [key: string]: unknown;
+}
+export const anthropicUnsupportedBlockSchema = z
+  .object({
+    type: z.enum([
+      "thinking",
+      "redacted_thinking",
+      "document",
+      "search_result",
+      "server_tool_use",
+      "web_search_tool_result",
+    ]),
+  })
+  .passthrough();
+
+/**
+ * A content block in the Anthropic Messages format.
+ *
+ * @public
+ */
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicUnsupportedBlock;
+export const anthropicContentBlockSchema = z.discriminatedUnion("type", [
+  anthropicTextBlockSchema,
+  anthropicImageBlockSchema,
+  anthropicToolUseBlockSchema,
+  anthropicToolResultBlockSchema,
+  anthropicUnsupportedBlockSchema,
+]);
+
+/**
+ * A message in the Anthropic Messages format.
+ *
+ * @public
+ */
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | Array<AnthropicContentBlock>;
+}
+export const anthropicMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.union([z.string(), z.array(anthropicContentBlockSchema)]),
+});
+
+/**
+ * A conversation in the Anthropic Messages format. The system prompt is not a message, but a
+ * top-level field, just like in the request body of the Messages API.
+ *
+ * @public
+ */
+export interface AnthropicMessagesTranscript {
+  system?: string | Array<AnthropicTextBlock>;
+  messages: Array<AnthropicMessage>;
+}
+export const anthropicMessagesTranscriptSchema = z.object({
+  system: z.union([z.string(), z.array(anthropicTextBlockSchema)]).optional(),
+  messages: z.array(anthropicMessageSchema),
+}) satisfies z.ZodSchema<AnthropicMessagesTranscript>;
+
+function textParts(content: string): Array<ChatMessagePartTextData> {
+  return content === "" ? [] : [{ type: "text", text: content }];
+}
+
+/**
+ * Converts a conversation in the Anthropic Messages format to chat history data.
+ *
+ * Tool results are moved out of user messages into tool messages. Since LM Studio stores errors
+ * returned by tools as `{"error": ...}`, results with `is_error` are converted to that shape.
+ */
+export async function internalChatHistoryDataFromAnthropicMessages(
+  client: LMStudioClient,
+  transcript: AnthropicMessagesTranscript,
+  opts: ChatFormatConversionOpts,
+  stack?: string,
+): Promise<ChatHistoryData> {
+  const reportUnsupported = createUnsupportedContentReporter("Anthropic", opts, stack);
+  const result: Array<ChatMessageData> = [];
+  const toolNamesById = new Map<string, string>();
+  let imageIndex = 0;
+  const prepareImage = async (block: AnthropicImageBlock) => {
+    const fileName = `image-${imageIndex++}`;
+    if (block.source.type === "url") {
+      return await prepareImagePartFromUrl(client, block.source.url, fileName, stack);
+    }
+    return await prepareImagePart(
+      client,
+      `${fileName}.${getExtensionFromMimeType(block.source.media_type)}`,
+      block.source.data,
+    );
+  };
+
+  if (transcript.system !== undefined) {
+    const system =
+      typeof transcript.system === "string"
+        ? transcript.system
+        : transcript.system.map(block => block.text).join("");
+    result.push({ role: "system", content: textParts(system) });
+  }
+
+  for (const [messageIndex, message] of transcript.messages.entries()) {
+    if (typeof message.content === "string") {
+      result.push({ role: message.role, content: textParts(message.content) });
+      continue;
+    }
+    // A user message with tool results is split into a tool message and a user message, so we
+    // keep track of the message that is currently being filled.
+    let currentMessage = null as ChatMessageData | null;
+    const getMessage = <TRole extends ChatMessageData["role"]>(role: TRole) => {
+      if (currentMessage?.role !== role) {
+        currentMessage = { role, content: [] } as ChatMessageData;
+        result.push(currentMessage);
+      }
+      return currentMessage as Extract<ChatMessageData, { role: TRole }>;
+    };
+    for (const block of message.content) {
+      switch (block.type) {
+        case "text": {
+          getMessage(message.role).content.push({ type: "text", text: block.text });
+          break;
+        }
+        case "image": {
+          if (message.role === "assistant") {
+            reportUnsupported(`an image in assistant message ${messageIndex}`);
+            break;
+          }
+          getMessage("user").content.push(await prepareImage(block));
+          break;
+        }
+        case "tool_use": {
+          if (message.role === "user") {
+            reportUnsupported(`a tool_use block in user message ${messageIndex}`);
+            break;
+          }
+          toolNamesById.set(block.id, block.name);
+          getMessage("assistant").content.push({
+            type: "toolCallRequest",
+            toolCallRequest: {
+              id: block.id,
+              type: "function",
+              name: block.name,
+              arguments: block.input,
+            },
+          });
+          break;
+        }
+        case "tool_result": {
+          if (message.role === "assistant") {
+            reportUnsupported(`a tool_result block in assistant message ${messageIndex}`);
+            break;
+          }
+          const resultBlocks: Array<AnthropicTextBlock | AnthropicImageBlock> =
+            typeof block.content === "string"
+              ? [{ type: "text", text: block.content }]
+              : block.content ?? [];
+          const resultText = resultBlocks
+            .filter(resultBlock => resultBlock.type === "text")
+            .map(resultBlock => resultBlock.text)
+            .join("");
+          const toolMessage = getMessage("tool");
+          toolMessage.content.push({
+            type: "toolCallResult",
+            toolCallId: block.tool_use_id,
+            name: toolNamesById.get(block.tool_use_id),
+            content: block.is_error === true ? JSON.stringify({ error: resultText }) : resultText,
+          });
+          // Files that follow a tool call result belong to it.
+          for (const resultBlock of resultBlocks) {
+            if (resultBlock.type === "image") {
+              toolMessage.content.push(await prepareImage(resultBlock));
+            }
+          }
+          break;
+        }
+        default: {
+          reportUnsupported(`a ${block.type} block in ${message.role} message ${messageIndex}`);
+        }
+      }
+    }
+  }
+  return { messages: result };
+}
+
+/**
+ * Converts chat history data to a conversation in the Anthropic Messages format.
+ *
+ * System messages are moved to the top-level `system` field. Tool messages become user messages
+ * with `tool_result` blocks. Tool call requests without an ID are assigned one.
+ */
+export async function internalChatHistoryDataToAnthropicMessages(
+  client: LMStudioClient,
+  data: ChatHistoryData,
+  opts: ChatFormatConversionOpts,
+  stack?: string,
+): Promise<AnthropicMessagesTranscript> {
+  const reportUnsupported = createUnsupportedContentReporter("Anthropic", opts, stack);
+  const systemPrompts: Array<string> = [];
+  const messages: Array<AnthropicMessage> = [];
+  const toolCallMatcher = new ToolCallMatcher("toolu_");
+  const toImageBlock = async (
+    part: ChatMessagePartFileData,
+    messageIndex: number,
+  ): Promise<AnthropicImageBlock | null> => {
+    if (part.fileType !== "image") {
+      reportUnsupported(`the non-image file "${part.name}" in message ${messageIndex}`);
+      return null;
+    }
+    const { base64, mimeType } = await readFileHandleAsBase64(
+      client.files.createFileHandleFromChatMessagePartFileData(part),
+      stack,
+    );
+    return { type: "image", source: { type: "base64", media_type: mimeType, data: base64 } };
+  };
+
+  for (const [messageIndex, message] of data.messages.entries()) {
+    switch (message.role) {
+      case "system": {
+        if (messages.length > 0) {
+          reportUnsupported(
+            `the system message at index ${messageIndex}, which is not at the start`,
+          );
+          break;
+        }
+        systemPrompts.push(
+          message.content
+            .filter(part => part.type === "text")
+            .map(part => part.text)
+            .join(""),
+        );
+        break;
+      }
+      case "user": {
+        const content: Array<AnthropicContentBlock> = [];
+        for (const part of message.content) {
+          const block =
+            part.type === "text"
+              ? ({ type: "text", text: part.text } as const)
+              : await toImageBlock(part, messageIndex);
+          if (block !== null) {
+            content.push(block);
+          }
+        }
+        messages.push({ role: "user", content });
+        break;
+      }
+      case "assistant": {
+        const content: Array<AnthropicContentBlock> = [];
+        const requests = message.content
+          .filter(part => part.type === "toolCallRequest")
+          .map(part => part.toolCallRequest);
+        const ids = toolCallMatcher.addRequests(requests);
+        for (const part of message.content) {
+          if (part.type === "text") {
+            content.push({ type: "text", text: part.text });
+          } else if (part.type === "toolCallRequest") {
+            content.push({
+              type: "tool_use",
+              id: ids[requests.indexOf(part.toolCallRequest)],
+              name: part.toolCallRequest.name,
+              input: part.toolCallRequest.arguments ?? {},
+            });
+          } else {
+            reportUnsupported(`the file "${part.name}" in assistant message ${messageIndex}`);
+          }
+        }
+        messages.push({ role: "assistant", content });
+        break;
+      }
+      case "tool": {
+        const content: Array<AnthropicToolResultBlock> = [];
+        for (const part of message.content) {
+          if (part.type === "file") {
+            const lastResult = content.at(-1);
+            const block = await toImageBlock(part, messageIndex);
+            if (lastResult === undefined || block === null) {
+              continue;
+            }
+            if (typeof lastResult.content === "string") {
+              lastResult.content = [{ type: "text", text: lastResult.content }];
+            }
+            lastResult.content!.push(block);
+            continue;
+          }
+          const { id } = toolCallMatcher.matchResult(part.toolCallId);
+          const error = parseToolCallError(part.content);
+          content.push(
+            error === null
+              ? { type: "tool_result", tool_use_id: id, content: part.content }
+              : { type: "tool_result", tool_use_id: id, content: error, is_error: true },
+          );
+        }
+        messages.push({ role: "user", content });
+        break;
+      }
+    }
+  }
+  return systemPrompts.length === 0
+    ? { messages }
+    : { system: systemPrompts.join("\n\n"), messages };
+}
+
+/**
+ * Returns the error message if the tool call result has the shape LM Studio uses for errors
+ * (`{"error": "..."}`), or `null` otherwise.
+ */
+function parseToolCallError(content: string): string | null {
+  try {
+    const parsed = JSON.parse(content);
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      Object.keys(parsed).length === 1 &&
+      typeof parsed.error === "string"
+    ) {
+      return parsed.error;
+    }
+  } catch {
+    // Not JSON, so not an error.
+  }
+  return null;
+}
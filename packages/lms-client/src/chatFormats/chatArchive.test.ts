@@ -0,0 +1,97 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Chat } from "../Chat.js";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { readStoredZip, writeStoredZip } from "./storedZip.js";
+
+function createFakeClient(files: Record<string, string>) {
+  const directory = mkdtempSync(join(tmpdir(), "lms-chat-archive-"));
+  for (const [identifier, content] of Object.entries(files)) {
+    writeFileSync(join(directory, identifier), content);
+  }
+  const uploads = new Array<{ fileName: string; content: string }>();
+  const client = {
+    files: {
+      prepareFileBase64: async (fileName: string, base64: string) => {
+        uploads.push({ fileName, content: Buffer.from(base64, "base64").toString() });
+        return {
+          identifier: `imported-${uploads.length}`,
+          name: fileName,
+          sizeBytes: 100 + uploads.length,
+          type: "image",
+        };
+      },
+      createFileHandleFromChatMessagePartFileData: (data: {
+        identifier: string;
+        name: string;
+      }) => ({
+        name: data.name,
+        getFilePath: async () => join(directory, data.identifier),
+      }),
+    },
+  } as unknown as LMStudioClient;
+  return { client, uploads };
+}
+
+function filePart(identifier: string, name: string) {
+  return { type: "file", identifier, name, sizeBytes: 1, fileType: "image" } as const;
+}
+
+describe("Chat archive", () => {
+  test("bundles files and rewrites their identifiers on import", async () => {
+    const { client: sourceClient } = createFakeClient({ a: "cat picture", b: "dog picture" });
+    const chat = Chat.from({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Compare" },
+            filePart("a", "pet.png"),
+            filePart("b", "pet.png"),
+          ],
+        },
+        { role: "assistant", content: [{ type: "text", text: "Same pets?" }] },
+        { role: "user", content: [filePart("a", "pet.png")] },
+      ],
+    });
+
+    const archive = await chat.exportArchive(sourceClient);
+    expect(readStoredZip(archive).map(entry => entry.name)).toEqual([
+      "chat.json",
+      "files/0/pet.png",
+      "files/1/pet.png",
+    ]);
+
+    const { client: targetClient, uploads } = createFakeClient({});
+    const imported = await Chat.importArchive(targetClient, archive);
+    expect(uploads).toEqual([
+      { fileName: "pet.png", content: "cat picture" },
+      { fileName: "pet.png", content: "dog picture" },
+    ]);
+    const [first, , third] = imported.getMessagesArray();
+    expect(first.getText()).toBe("Compare");
+    expect(first.getFiles(targetClient).map(file => file.identifier)).toEqual([
+      "imported-1",
+      "imported-2",
+    ]);
+    expect(third.getFiles(targetClient).map(file => file.identifier)).toEqual(["imported-1"]);
+  });
+
+  test("rejects data that is not a chat archive", async () => {
+    const { client } = createFakeClient({});
+    await expect(Chat.importArchive(client, new Uint8Array([1, 2, 3]))).rejects.toThrow(
+      "Invalid chat archive",
+    );
+    const zipWithoutManifest = writeStoredZip([{ name: "other.txt", data: new Uint8Array([1]) }]);
+    await expect(Chat.importArchive(client, zipWithoutManifest)).rejects.toThrow(
+      '"chat.json" is missing',
+    );
+  });
+
+  test("detects corrupted entries", () => {
+    const zip = writeStoredZip([{ name: "a.txt", data: new TextEncoder().encode("hello") }]);
+    zip[30 + "a.txt".length] ^= 0xff;
+    expect(() => readStoredZip(zip)).toThrow('The content of the zip entry "a.txt" is corrupted.');
+  });
+});
@@ -0,0 +1,144 @@
+import { makeTitledPrettyError, text } from "@lmstudio/lms-common";
+import { base64ToUint8Array, uint8ArrayToBase64 } from "@lmstudio/lms-isomorphic";
+import {
+  type ChatHistoryData,
+  chatHistoryDataSchema,
+  type ChatMessagePartFileData,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { type FileHandle } from "../files/FileHandle.js";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { readFileHandleAsBase64 } from "./chatFormatUtils.js";
+import { readStoredZip, writeStoredZip, type ZipEntry } from "./storedZip.js";
+
+const manifestFileName = "chat.json";
+
+/**
+ * The content of `chat.json` in a chat archive. Files are stored next to it, and the history still
+ * references them with the identifiers they had on the machine the archive was exported from.
+ */
+const chatArchiveManifestSchema = z.object({
+  format: z.literal("lmstudio-chat-archive"),
+  version: z.literal(1),
+  history: chatHistoryDataSchema,
+  files: z.array(
+    z.object({
+      identifier: z.string(),
+      name: z.string(),
+      path: z.string(),
+    }),
+  ),
+});
+type ChatArchiveManifest = z.infer<typeof chatArchiveManifestSchema>;
+
+/**
+ * Creates a zip archive that contains the chat history data and the content of all files in it.
+ */
+export async function internalExportChatArchive(
+  client: LMStudioClient,
+  data: ChatHistoryData,
+  stack?: string,
+): Promise<Uint8Array> {
+  const manifest: ChatArchiveManifest = {
+    format: "lmstudio-chat-archive",
+    version: 1,
+    history: data,
+    files: [],
+  };
+  const entries: Array<ZipEntry> = [];
+  for (const message of data.messages) {
+    for (const part of message.content) {
+      if (part.type !== "file") {
+        continue;
+      }
+      if (manifest.files.some(file => file.identifier === part.identifier)) {
+        continue;
+      }
+      const { base64 } = await readFileHandleAsBase64(
+        client.files.createFileHandleFromChatMessagePartFileData(part),
+        stack,
+      );
+      // Files are stored in a directory per file, so that files with the same name do not clash.
+      const path = `files/${manifest.files.length}/${part.name}`;
+      manifest.files.push({ identifier: part.identifier, name: part.name, path });
+      entries.push({ name: path, data: base64ToUint8Array(base64) });
+    }
+  }
+  entries.unshift({
+    name: manifestFileName,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+  return writeStoredZip(entries);
+}
+
+/**
+ * Reads a chat archive, adds the files in it to LM Studio and returns the chat history data with
+ * the file identifiers rewritten to the newly added files.
+ */
+export async function internalImportChatArchive(
+  client: LMStudioClient,
+  archive: Uint8Array,
+  stack?: string,
+): Promise<ChatHistoryData> {
+  const invalidArchiveError = (reason: string) =>
+    makeTitledPrettyError(
+      "Invalid chat archive",
+      text`
+        The data is not a valid chat archive: ${reason} Chat archives can be created with
+        chat.exportArchive().
+      `,
+      stack,
+    );
+  let entries: Array<ZipEntry>;
+  try {
+    entries = readStoredZip(archive);
+  } catch (error: any) {
+    throw invalidArchiveError(error.message);
+  }
+  const manifestEntry = entries.find(entry => entry.name === manifestFileName);
+  if (manifestEntry === undefined) {
+    throw invalidArchiveError(`"${manifestFileName}" is missing.`);
+  }
+  let manifest: ChatArchiveManifest;
+  try {
+    manifest = chatArchiveManifestSchema.parse(
+      JSON.parse(new TextDecoder().decode(manifestEntry.data)),
+    );
+  } catch {
+    throw invalidArchiveError(`"${manifestFileName}" could not be parsed.`);
+  }
+
+  const fileHandles = new Map<string, FileHandle>();
+  for (const file of manifest.files) {
+    const entry = entries.find(entry => entry.name === file.path);
+    if (entry === undefined) {
+      throw invalidArchiveError(`the file "${file.path}" is missing.`);
+    }
+    fileHandles.set(
+      file.identifier,
+      await client.files.prepareFileBase64(file.name, uint8ArrayToBase64(entry.data)),
+    );
+  }
+
+  const history = manifest.history;
+  for (const message of history.messages) {
+    for (const [index, part] of message.content.entries()) {
+      if (part.type !== "file") {
+        continue;
+      }
+      const fileHandle = fileHandles.get(part.identifier);
+      if (fileHandle === undefined) {
+        throw invalidArchiveError(`the file "${part.name}" in the chat is not in the archive.`);
+      }
+      const newPart: ChatMessagePartFileData = {
+        type: "file",
+        name: fileHandle.name,
+        identifier: fileHandle.identifier,
+        sizeBytes: fileHandle.sizeBytes,
+        fileType: fileHandle.type,
+      };
+      message.content[index] = newPart;
+    }
+  }
+  return history;
+}
@@ -0,0 +1,187 @@
+import { makeTitledPrettyError, SimpleLogger, text } from "@lmstudio/lms-common";
+import { readFileAsBase64, uint8ArrayToBase64 } from "@lmstudio/lms-isomorphic";
+import { type ChatMessagePartFileData, type ToolCallRequest } from "@lmstudio/lms-shared-types";
+import { type FileHandle } from "../files/FileHandle.js";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type ChatFormatConversionOpts } from "./ChatFormatConversionOpts.js";
+
+const mimeTypeByExtension: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  txt: "text/plain",
+};
+
+/**
+ * Guesses the MIME type of a file from its name.
+ */
+export function getMimeTypeFromFileName(fileName: string) {
+  const extension = fileName.split(".").at(-1)?.toLowerCase() ?? "";
+  return mimeTypeByExtension[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Gets a file extension (without the dot) for the given MIME type.
+ */
+export function getExtensionFromMimeType(mimeType: string) {
+  const subtype = mimeType.split("/")[1]?.split(";")[0] ?? "bin";
+  return subtype === "jpeg" ? "jpg" : subtype;
+}
+
+/**
+ * Parses a `data:` URL with base64 content. Returns `null` if the URL is not a base64 data URL.
+ */
+export function parseBase64DataUrl(url: string): { mimeType: string; base64: string } | null {
+  const match = /^data:([^;,]+)(?:;[^;,]+)*;base64,(.*)$/s.exec(url);
+  if (match === null) {
+    return null;
+  }
+  return { mimeType: match[1], base64: match[2] };
+}
+
+/**
+ * Uploads an image given in base64 to LM Studio and returns the file part that references it.
+ */
+export async function prepareImagePart(
+  client: LMStudioClient,
+  fileName: string,
+  base64: string,
+): Promise<ChatMessagePartFileData> {
+  const fileHandle = await client.files.prepareImageBase64(fileName, base64);
+  return {
+    type: "file",
+    name: fileHandle.name,
+    identifier: fileHandle.identifier,
+    sizeBytes: fileHandle.sizeBytes,
+    fileType: fileHandle.type,
+  };
+}
+
+/**
+ * Uploads an image referenced by URL (either a `data:` URL or a remote URL, which is downloaded)
+ * to LM Studio and returns the file part that references it.
+ */
+export async function prepareImagePartFromUrl(
+  client: LMStudioClient,
+  url: string,
+  fileNameWithoutExtension: string,
+  stack?: string,
+): Promise<ChatMessagePartFileData> {
+  const dataUrl = parseBase64DataUrl(url);
+  if (dataUrl !== null) {
+    return await prepareImagePart(
+      client,
+      `${fileNameWithoutExtension}.${getExtensionFromMimeType(dataUrl.mimeType)}`,
+      dataUrl.base64,
+    );
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw makeTitledPrettyError(
+      "Failed to download image",
+      text`
+        Downloading the image from ${url} failed with HTTP status ${response.status}.
+      `,
+      stack,
+    );
+  }
+  const mimeType = response.headers.get("Content-Type") ?? getMimeTypeFromFileName(url);
+  return await prepareImagePart(
+    client,
+    `${fileNameWithoutExtension}.${getExtensionFromMimeType(mimeType)}`,
+    uint8ArrayToBase64(new Uint8Array(await response.arrayBuffer())),
+  );
+}
+
+/**
+ * Reads the content of a file that was added to LM Studio. Only works if LM Studio runs on the same
+ * machine and the current environment can read files.
+ */
+export async function readFileHandleAsBase64(fileHandle: FileHandle, stack?: string) {
+  const result = await readFileAsBase64(await fileHandle.getFilePath());
+  if (result.success === false) {
+    throw makeTitledPrettyError(
+      `Cannot read the content of file "${fileHandle.name}"`,
+      text`
+        Your current JavaScript environment does not support reading files, which is needed to
+        convert files in the chat to base64.
+      `,
+      stack,
+    );
+  }
+  return { base64: result.base64, mimeType: getMimeTypeFromFileName(fileHandle.name) };
+}
+
+/**
+ * Creates a function that is called whenever the input contains something that cannot be
+ * represented in the target format. Depending on the options, it either throws or logs a warning
+ * (in which case the caller is expected to leave the content out).
+ */
+export function createUnsupportedContentReporter(
+  formatName: string,
+  opts: ChatFormatConversionOpts,
+  stack?: string,
+) {
+  const { onUnsupportedContent = "throw" } = opts;
+  const logger = new SimpleLogger(formatName, opts.logger);
+  return (description: string) => {
+    if (onUnsupportedContent === "throw") {
+      throw makeTitledPrettyError(
+        `Cannot convert ${description}`,
+        text`
+          The ${formatName} conversion does not support ${description}. To leave unsupported
+          content out instead, set "onUnsupportedContent" to "warn".
+        `,
+        stack,
+      );
+    }
+    logger.warn(`Leaving out ${description}, which cannot be converted.`);
+  };
+}
+
+/**
+ * Keeps track of tool call requests when converting a chat history to a format that requires
+ * every tool call to have an ID (or a name on the result). Requests without an ID are assigned one,
+ * and results without an ID are matched with the unanswered requests of the preceding assistant
+ * message in order.
+ */
+export class ToolCallMatcher {
+  private nextGeneratedIdIndex = 0;
+  private unansweredRequests: Array<{ id: string; name: string }> = [];
+  public constructor(private readonly generatedIdPrefix: string) {}
+
+  /**
+   * Registers the tool call requests of an assistant message. Returns the ID of each request.
+   */
+  public addRequests(requests: Array<ToolCallRequest>) {
+    this.unansweredRequests = requests.map(request => ({
+      id: request.id ?? `${this.generatedIdPrefix}${this.nextGeneratedIdIndex++}`,
+      name: request.name,
+    }));
+    return this.unansweredRequests.map(({ id }) => id);
+  }
+
+  /**
+   * Finds the request a tool call result belongs to. The name is `undefined` if no matching request
+   * is found.
+   */
+  public matchResult(toolCallId: string | undefined): { id: string; name: string | undefined } {
+    const request =
+      toolCallId === undefined
+        ? this.unansweredRequests[0]
+        : this.unansweredRequests.find(({ id }) => id === toolCallId);
+    if (request === undefined) {
+      return {
+        id: toolCallId ?? `${this.generatedIdPrefix}${this.nextGeneratedIdIndex++}`,
+        name: undefined,
+      };
+    }
+    this.unansweredRequests = this.unansweredRequests.filter(
+      unansweredRequest => unansweredRequest !== request,
+    );
+    return request;
+  }
+}
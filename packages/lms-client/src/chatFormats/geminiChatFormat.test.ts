@@ -0,0 +1,103 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Chat } from "../Chat.js";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type GeminiContentsTranscript } from "./geminiChatFormat.js";
+
+const pngBase64 = Buffer.from("fake png content").toString("base64");
+
+function createFakeClient() {
+  const directory = mkdtempSync(join(tmpdir(), "lms-openai-chat-format-"));
+  const uploads = new Array<{ fileName: string; base64: string }>();
+  const client = {
+    files: {
+      prepareImageBase64: async (fileName: string, base64: string) => {
+        const identifier = `file-${uploads.length}`;
+        uploads.push({ fileName, base64 });
+        writeFileSync(join(directory, identifier), Buffer.from(base64, "base64"));
+        return { identifier, name: fileName, sizeBytes: base64.length, type: "image" };
+      },
+      createFileHandleFromChatMessagePartFileData: (data: {
+        identifier: string;
+        name: string;
+      }) => ({
+        name: data.name,
+        getFilePath: async () => join(directory, data.identifier),
+      }),
+    },
+  } as unknown as LMStudioClient;
+  return { client, uploads };
+}
+
+describe("Chat Gemini format", () => {
+  test("round-trips text, images and function calls", async () => {
+    const { client, uploads } = createFakeClient();
+    const transcript: GeminiContentsTranscript = {
+      systemInstruction: { parts: [{ text: "You are a helpful assistant." }] },
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { text: "What is in this image?" },
+            { inlineData: { mimeType: "image/png", data: pngBase64 } },
+          ],
+        },
+        {
+          role: "model",
+          parts: [{ functionCall: { name: "lookup", args: { query: "cat" } } }],
+        },
+        {
+          role: "user",
+          parts: [{ functionResponse: { name: "lookup", response: { result: "A cat" } } }],
+        },
+        { role: "model", parts: [{ text: "It is a cat." }] },
+      ],
+    };
+
+    const chat = await Chat.fromGeminiContents(client, transcript);
+    expect(uploads).toEqual([{ fileName: "image-0.png", base64: pngBase64 }]);
+    expect(
+      chat
+        .at(3)
+        .getToolCallResultsWithFiles(client)
+        .map(({ result }) => result),
+    ).toEqual([{ toolCallId: undefined, name: "lookup", content: '"A cat"' }]);
+
+    await expect(chat.toGeminiContents(client)).resolves.toEqual(transcript);
+  });
+
+  test("finds the function name of results from the matching request", async () => {
+    const { client } = createFakeClient();
+    const chat = Chat.from({
+      messages: [
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "toolCallRequest",
+              toolCallRequest: { id: "a", type: "function", name: "now", arguments: {} },
+            },
+          ],
+        },
+        { role: "tool", content: [{ type: "toolCallResult", toolCallId: "a", content: "12" }] },
+      ],
+    });
+    const { contents } = await chat.toGeminiContents(client);
+    expect(contents[1]).toEqual({
+      role: "user",
+      parts: [{ functionResponse: { id: "a", name: "now", response: { result: 12 } } }],
+    });
+  });
+
+  test("reports unsupported content", async () => {
+    const { client } = createFakeClient();
+    await expect(
+      Chat.fromGeminiContents(client, {
+        contents: [
+          { role: "model", parts: [{ executableCode: { language: "PYTHON", code: "1" } }] },
+        ],
+      }),
+    ).rejects.toThrow("Cannot convert a executableCode part in content 0");
+  });
+});
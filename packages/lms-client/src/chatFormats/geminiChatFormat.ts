@@ -0,0 +1,293 @@
+import {
+  type ChatHistoryData,
+  type ChatMessageData,
+  type ChatMessagePartFileData,
+  type ChatMessagePartTextData,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type ChatFormatConversionOpts } from "./ChatFormatConversionOpts.js";
+import {
+  createUnsupportedContentReporter,
+  getExtensionFromMimeType,
+  prepareImagePart,
+  readFileHandleAsBase64,
+  ToolCallMatcher,
+} from "./chatFormatUtils.js";
+
+/**
+ * A part of a content in the Gemini `contents` format.
+ *
+ * Thoughts (text parts with `thought` set), `fileData`, `executableCode` and
+ * `codeExecutionResult` parts are accepted as input, but cannot be represented in a chat history.
+ * Whether they cause an error or are left out is controlled by
+ * {@link ChatFormatConversionOpts#onUnsupportedContent}.
+ *
+ * @public
+ */
+export type GeminiPart =
+  | { text: string; thought?: boolean }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { id?: string; name: string; args?: Record<string, unknown> } }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } }
+  | { fileData: { mimeType?: string; fileUri: string } }
+  | { executableCode: { language: string; code: string } }
+  | { codeExecutionResult: { outcome: string; output?: string } };
+export const geminiPartSchema = z.union([
+  z.object({ text: z.string(), thought: z.boolean().optional() }),
+  z.object({ inlineData: z.object({ mimeType: z.string(), data: z.string() }) }),
+  z.object({
+    functionCall: z.object({
+      id: z.string().optional(),
+      name: z.string(),
+      args: z.record(z.unknown()).optional(),
+    }),
+  }),
+  z.object({
+    functionResponse: z.object({
+      id: z.string().optional(),
+      name: z.string(),
+      response: z.record(z.unknown()),
+    }),
+  }),
+  z.object({ fileData: z.object({ mimeType: z.string().optional(), fileUri: z.string() }) }),
+  z.object({ executableCode: z.object({ language: z.string(), code: z.string() }) }),
+  z.object({
+    codeExecutionResult: z.object({ outcome: z.string(), output: z.string().optional() }),
+  }),
+]);
+
+/**
+ * A content (the equivalent of a message) in the Gemini `contents` format.
+ *
+ * @public
+ */
+export interface GeminiContent {
+  role?: "user" | "model";
+  parts: Array<GeminiPart>;
+}
+export const geminiContentSchema = z.object({
+  role: z.enum(["user", "model"]).optional(),
+  parts: z.array(geminiPartSchema),
+});
+
+/**
+ * A conversation in the Gemini `contents` format. The system prompt is not a content, but the
+ * top-level `systemInstruction` field, just like in the request body of the Gemini API.
+ *
+ * @public
+ */
+export interface GeminiContentsTranscript {
+  systemInstruction?: GeminiContent;
+  contents: Array<GeminiContent>;
+}
+export const geminiContentsTranscriptSchema = z.object({
+  systemInstruction: geminiContentSchema.optional(),
+  contents: z.array(geminiContentSchema),
+}) satisfies z.ZodSchema<GeminiContentsTranscript>;
+
+function textParts(content: string): Array<ChatMessagePartTextData> {
+  return content === "" ? [] : [{ type: "text", text: content }];
+}
+
+/**
+ * Converts a conversation in the Gemini `contents` format to chat history data.
+ *
+ * Function responses are moved out of user contents into tool messages. Gemini recommends wrapping
+ * the output of a function in `{"result": ...}`, so responses of that shape are unwrapped.
+ */
+export async function internalChatHistoryDataFromGeminiContents(
+  client: LMStudioClient,
+  transcript: GeminiContentsTranscript,
+  opts: ChatFormatConversionOpts,
+  stack?: string,
+): Promise<ChatHistoryData> {
+  const reportUnsupported = createUnsupportedContentReporter("Gemini", opts, stack);
+  const result: Array<ChatMessageData> = [];
+  let imageIndex = 0;
+
+  if (transcript.systemInstruction !== undefined) {
+    const system = transcript.systemInstruction.parts
+      .map(part => ("text" in part ? part.text : ""))
+      .join("");
+    result.push({ role: "system", content: textParts(system) });
+  }
+
+  for (const [contentIndex, content] of transcript.contents.entries()) {
+    const role = content.role === "model" ? "assistant" : "user";
+    // A user content with function responses is split into a tool message and a user message, so
+    // we keep track of the message that is currently being filled.
+    let currentMessage = null as ChatMessageData | null;
+    const getMessage = <TRole extends ChatMessageData["role"]>(messageRole: TRole) => {
+      if (currentMessage?.role !== messageRole) {
+        currentMessage = { role: messageRole, content: [] } as ChatMessageData;
+        result.push(currentMessage);
+      }
+      return currentMessage as Extract<ChatMessageData, { role: TRole }>;
+    };
+    for (const part of content.parts) {
+      if ("text" in part) {
+        if (part.thought === true) {
+          reportUnsupported(`a thought in content ${contentIndex}`);
+          continue;
+        }
+        // Text that follows function responses is a new user message.
+        getMessage(role).content.push({ type: "text", text: part.text });
+      } else if ("inlineData" in part) {
+        if (!part.inlineData.mimeType.startsWith("image/")) {
+          reportUnsupported(
+            `inline data of type ${part.inlineData.mimeType} in content ${contentIndex}`,
+          );
+          continue;
+        }
+        const file = await prepareImagePart(
+          client,
+          `image-${imageIndex++}.${getExtensionFromMimeType(part.inlineData.mimeType)}`,
+          part.inlineData.data,
+        );
+        // Images that follow a function response belong to it.
+        const message = currentMessage?.role === "tool" ? currentMessage : getMessage(role);
+        message.content.push(file);
+      } else if ("functionCall" in part) {
+        if (role !== "assistant") {
+          reportUnsupported(`a function call in user content ${contentIndex}`);
+          continue;
+        }
+        getMessage("assistant").content.push({
+          type: "toolCallRequest",
+          toolCallRequest: {
+            id: part.functionCall.id,
+            type: "function",
+            name: part.functionCall.name,
+            arguments: part.functionCall.args,
+          },
+        });
+      } else if ("functionResponse" in part) {
+        if (role !== "user") {
+          reportUnsupported(`a function response in model content ${contentIndex}`);
+          continue;
+        }
+        const { id, name, response } = part.functionResponse;
+        const keys = Object.keys(response);
+        getMessage("tool").content.push({
+          type: "toolCallResult",
+          toolCallId: id,
+          name,
+          content: JSON.stringify(
+            keys.length === 1 && keys[0] === "result" ? response.result : response,
+          ),
+        });
+      } else {
+        reportUnsupported(`a ${Object.keys(part)[0]} part in content ${contentIndex}`);
+      }
+    }
+  }
+  return { messages: result };
+}
+
+/**
+ * Converts chat history data to a conversation in the Gemini `contents` format.
+ *
+ * System messages are moved to the top-level `systemInstruction` field. Tool messages become user
+ * contents with `functionResponse` parts. Results that are not JSON objects are wrapped in
+ * `{"result": ...}`, as Gemini requires the response to be an object.
+ */
+export async function internalChatHistoryDataToGeminiContents(
+  client: LMStudioClient,
+  data: ChatHistoryData,
+  opts: ChatFormatConversionOpts,
+  stack?: string,
+): Promise<GeminiContentsTranscript> {
+  const reportUnsupported = createUnsupportedContentReporter("Gemini", opts, stack);
+  const systemPrompts: Array<string> = [];
+  const contents: Array<GeminiContent> = [];
+  // Gemini does not require IDs, but function responses need the name of the function.
+  const toolCallMatcher = new ToolCallMatcher("call_");
+  const toInlineDataPart = async (part: ChatMessagePartFileData): Promise<GeminiPart> => {
+    const { base64, mimeType } = await readFileHandleAsBase64(
+      client.files.createFileHandleFromChatMessagePartFileData(part),
+      stack,
+    );
+    return { inlineData: { mimeType, data: base64 } };
+  };
+
+  for (const [messageIndex, message] of data.messages.entries()) {
+    switch (message.role) {
+      case "system": {
+        if (contents.length > 0) {
+          reportUnsupported(
+            `the system message at index ${messageIndex}, which is not at the start`,
+          );
+          break;
+        }
+        systemPrompts.push(
+          message.content
+            .filter(part => part.type === "text")
+            .map(part => part.text)
+            .join(""),
+        );
+        break;
+      }
+      case "user":
+      case "assistant": {
+        toolCallMatcher.addRequests(
+          message.content.flatMap(part =>
+            part.type === "toolCallRequest" ? [part.toolCallRequest] : [],
+          ),
+        );
+        const parts: Array<GeminiPart> = [];
+        for (const part of message.content) {
+          if (part.type === "text") {
+            parts.push({ text: part.text });
+          } else if (part.type === "file") {
+            parts.push(await toInlineDataPart(part));
+          } else {
+            const { id, name, arguments: args } = part.toolCallRequest;
+            parts.push({
+              functionCall: { ...(id === undefined ? {} : { id }), name, args: args ?? {} },
+            });
+          }
+        }
+        contents.push({ role: message.role === "assistant" ? "model" : "user", parts });
+        break;
+      }
+      case "tool": {
+        const parts: Array<GeminiPart> = [];
+        for (const part of message.content) {
+          if (part.type === "file") {
+            parts.push(await toInlineDataPart(part));
+            continue;
+          }
+          const name = toolCallMatcher.matchResult(part.toolCallId).name ?? part.name;
+          if (name === undefined) {
+            reportUnsupported(
+              `the tool call result in message ${messageIndex}, whose function name is unknown`,
+            );
+            continue;
+          }
+          let response: unknown;
+          try {
+            response = JSON.parse(part.content);
+          } catch {
+            response = part.content;
+          }
+          if (typeof response !== "object" || response === null || Array.isArray(response)) {
+            response = { result: response };
+          }
+          parts.push({
+            functionResponse: {
+              ...(part.toolCallId === undefined ? {} : { id: part.toolCallId }),
+              name,
+              response: response as Record<string, unknown>,
+            },
+          });
+        }
+        contents.push({ role: "user", parts });
+        break;
+      }
+    }
+  }
+  return systemPrompts.length === 0
+    ? { contents }
+    : { systemInstruction: { parts: [{ text: systemPrompts.join("\n\n") }] }, contents };
+}
@@ -0,0 +1,164 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Chat } from "../Chat.js";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type OpenAIChatMessage } from "./openAIChatFormat.js";
+
+const pngBase64 = Buffer.from("fake png content").toString("base64");
+
+function createFakeClient() {
+  const directory = mkdtempSync(join(tmpdir(), "lms-openai-chat-format-"));
+  const uploads = new Array<{ fileName: string; base64: string }>();
+  const client = {
+    files: {
+      prepareImageBase64: async (fileName: string, base64: string) => {
+        const identifier = `file-${uploads.length}`;
+        uploads.push({ fileName, base64 });
+        writeFileSync(join(directory, identifier), Buffer.from(base64, "base64"));
+        return { identifier, name: fileName, sizeBytes: base64.length, type: "image" };
+      },
+      createFileHandleFromChatMessagePartFileData: (data: {
+        identifier: string;
+        name: string;
+      }) => ({
+        name: data.name,
+        getFilePath: async () => join(directory, data.identifier),
+      }),
+    },
+  } as unknown as LMStudioClient;
+  return { client, uploads };
+}
+
+describe("Chat OpenAI format", () => {
+  test("round-trips text, images and tool calls", async () => {
+    const { client, uploads } = createFakeClient();
+    const messages: Array<OpenAIChatMessage> = [
+      { role: "system", content: "You are a helpful assistant." },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is in this image?" },
+          { type: "image_url", image_url: { url: `data:image/png;base64,${pngBase64}` } },
+        ],
+      },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_a",
+            type: "function",
+            function: { name: "lookup", arguments: '{"query":"cat"}' },
+          },
+          {
+            id: "call_b",
+            type: "function",
+            function: { name: "lookup", arguments: '{"query":"dog"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_a", content: "A cat" },
+      { role: "tool", tool_call_id: "call_b", content: "A dog" },
+      { role: "assistant", content: "It is a cat." },
+    ];
+
+    const chat = await Chat.fromOpenAIMessages(client, messages);
+    expect(uploads).toEqual([{ fileName: "image-0.png", base64: pngBase64 }]);
+    expect(chat.length).toBe(5);
+    const toolMessage = chat.at(3);
+    expect(toolMessage.getRole()).toBe("tool");
+    expect(toolMessage.getToolCallResultsWithFiles(client).map(({ result }) => result)).toEqual([
+      { toolCallId: "call_a", name: "lookup", content: "A cat" },
+      { toolCallId: "call_b", name: "lookup", content: "A dog" },
+    ]);
+    expect(chat.at(2).getToolCallRequests()[0]).toEqual({
+      id: "call_a",
+      type: "function",
+      name: "lookup",
+      arguments: { query: "cat" },
+    });
+
+    await expect(chat.toOpenAIMessages(client)).resolves.toEqual(messages);
+  });
+
+  test("assigns IDs to tool calls that do not have one", async () => {
+    const { client } = createFakeClient();
+    const chat = Chat.from({
+      messages: [
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "toolCallRequest",
+              toolCallRequest: { type: "function", name: "now", arguments: {} },
+            },
+          ],
+        },
+        { role: "tool", content: [{ type: "toolCallResult", content: "12:00" }] },
+      ],
+    });
+    await expect(chat.toOpenAIMessages(client)).resolves.toEqual([
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_0", type: "function", function: { name: "now", arguments: "{}" } },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_0", content: "12:00" },
+    ]);
+  });
+
+  test("only converts image files", async () => {
+    const { client } = createFakeClient();
+    const chat = Chat.from({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Summarize this" },
+            {
+              type: "file",
+              identifier: "file-0",
+              name: "report.pdf",
+              sizeBytes: 1,
+              fileType: "application/pdf",
+            },
+          ],
+        },
+      ],
+    });
+    await expect(chat.toOpenAIMessages(client)).rejects.toThrow(
+      'Cannot convert the non-image file "report.pdf" in message 0',
+    );
+
+    const warnings = new Array<string>();
+    const logger = {
+      info: () => {},
+      error: () => {},
+      debug: () => {},
+      warn: (...messages: Array<unknown>) => warnings.push(messages.join(" ")),
+    };
+    await expect(
+      chat.toOpenAIMessages(client, { onUnsupportedContent: "warn", logger }),
+    ).resolves.toEqual([{ role: "user", content: [{ type: "text", text: "Summarize this" }] }]);
+    expect(warnings).toEqual([
+      expect.stringContaining('Leaving out the non-image file "report.pdf"'),
+    ]);
+  });
+
+  test("rejects invalid tool call arguments", async () => {
+    const { client } = createFakeClient();
+    await expect(
+      Chat.fromOpenAIMessages(client, [
+        {
+          role: "assistant",
+          tool_calls: [
+            { id: "call_a", type: "function", function: { name: "lookup", arguments: "{" } },
+          ],
+        },
+      ]),
+    ).rejects.toThrow("Invalid tool call arguments");
+  });
+});
@@ -0,0 +1,372 @@
+import { makeTitledPrettyError, text } from "@lmstudio/lms-common";
+import {
+  type ChatHistoryData,
+  type ChatMessageData,
+  type ChatMessagePartFileData,
+  type ChatMessagePartTextData,
+  type ChatMessagePartToolCallResultData,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type ChatFormatConversionOpts } from "./ChatFormatConversionOpts.js";
+import {
+  createUnsupportedContentReporter,
+  prepareImagePartFromUrl,
+  readFileHandleAsBase64,
+  ToolCallMatcher,
+} from "./chatFormatUtils.js";
+
+/**
+ * A text content part of a message in the OpenAI Chat Completions format.
+ *
+ * @public
+ */
+export interface OpenAITextContentPart {
+  type: "text";
+  text: string;
+}
+export const openAITextContentPartSchema = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+});
+
+/**
+ * An image content part of a message in the OpenAI Chat Completions format. The URL can either be
+ * a `data:` URL with base64 content, or a remote URL.
+ *
+ * @public
+ */
+export interface OpenAIImageContentPart {
+  type: "image_url";
+  image_url: {
+    url: string;
+    detail?: "auto" | "low" | "high";
+  };
+}
+export const openAIImageContentPartSchema = z.object({
+  type: z.literal("image_url"),
+  image_url: z.object({
+    url: z.string(),
+    detail: z.enum(["auto", "low", "high"]).optional(),
+  }),
+});
+
+/**
+ * A tool call requested by the assistant, in the OpenAI Chat Completions format.
+ *
+ * @public
+ */
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    /**
+     * The arguments, encoded as a JSON string.
+     */
+    arguments: string;
+  };
+}
+export const openAIToolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string(),
+    arguments: z.string(),
+  }),
+});
+
+/**
+ * A message in the OpenAI Chat Completions format.
+ *
+ * @public
+ */
+export type OpenAIChatMessage =
+  | {
+      role: "system" | "developer";
+      content: string | Array<OpenAITextContentPart>;
+      name?: string;
+    }
+  | {
+      role: "user";
+      content: string | Array<OpenAITextContentPart | OpenAIImageContentPart>;
+      name?: string;
+    }
+  | {
+      role: "assistant";
+      content?: string | Array<OpenAITextContentPart> | null;
+      tool_calls?: Array<OpenAIToolCall>;
+      name?: string;
+    }
+  | {
+      role: "tool";
+      content: string | Array<OpenAITextContentPart>;
+      tool_call_id: string;
+    };
+export const openAIChatMessageSchema = z.discriminatedUnion("role", [
+  z.object({
+    role: z.literal("system"),
+    content: z.union([z.string(), z.array(openAITextContentPartSchema)]),
+    name: z.string().optional(),
+  }),
+  z.object({
+    role: z.literal("developer"),
+    content: z.union([z.string(), z.array(openAITextContentPartSchema)]),
+    name: z.string().optional(),
+  }),
+  z.object({
+    role: z.literal("user"),
+    content: z.union([
+      z.string(),
+      z.array(
+        z.discriminatedUnion("type", [openAITextContentPartSchema, openAIImageContentPartSchema]),
+      ),
+    ]),
+    name: z.string().optional(),
+  }),
+  z.object({
+    role: z.literal("assistant"),
+    content: z
+      .union([z.string(), z.array(openAITextContentPartSchema)])
+      .nullable()
+      .optional(),
+    tool_calls: z.array(openAIToolCallSchema).optional(),
+    name: z.string().optional(),
+  }),
+  z.object({
+    role: z.literal("tool"),
+    content: z.union([z.string(), z.array(openAITextContentPartSchema)]),
+    tool_call_id: z.string(),
+  }),
+]) satisfies z.ZodSchema<OpenAIChatMessage>;
+
+function contentToText(content: string | Array<OpenAITextContentPart> | null | undefined) {
+  if (content === null || content === undefined) {
+    return "";
+  }
+  if (typeof content === "string") {
+    return content;
+  }
+  return content.map(part => part.text).join("");
+}
+
+function textParts(content: string): Array<ChatMessagePartTextData> {
+  return content === "" ? [] : [{ type: "text", text: content }];
+}
+
+/**
+ * Converts messages in the OpenAI Chat Completions format to chat history data. Images are
+ * uploaded to LM Studio. Consecutive tool messages are merged into one tool message, which is how
+ * `.act` records the results of parallel tool calls.
+ */
+export async function internalChatHistoryDataFromOpenAIMessages(
+  client: LMStudioClient,
+  messages: Array<OpenAIChatMessage>,
+  stack?: string,
+): Promise<ChatHistoryData> {
+  const result: Array<ChatMessageData> = [];
+  // Tool messages in the OpenAI format do not contain the name of the tool, so we look it up.
+  const toolNamesById = new Map<string, string>();
+  let imageIndex = 0;
+  for (const [messageIndex, message] of messages.entries()) {
+    switch (message.role) {
+      case "system":
+      case "developer": {
+        result.push({ role: "system", content: textParts(contentToText(message.content)) });
+        break;
+      }
+      case "user": {
+        if (typeof message.content === "string") {
+          result.push({ role: "user", content: textParts(message.content) });
+          break;
+        }
+        const content: Array<ChatMessagePartTextData | ChatMessagePartFileData> = [];
+        for (const part of message.content) {
+          if (part.type === "text") {
+            content.push({ type: "text", text: part.text });
+          } else {
+            content.push(
+              await prepareImagePartFromUrl(
+                client,
+                part.image_url.url,
+                `image-${imageIndex++}`,
+                stack,
+              ),
+            );
+          }
+        }
+        result.push({ role: "user", content });
+        break;
+      }
+      case "assistant": {
+        const content: Extract<ChatMessageData, { role: "assistant" }>["content"] = textParts(
+          contentToText(message.content),
+        );
+        for (const toolCall of message.tool_calls ?? []) {
+          let parsedArguments: Record<string, any>;
+          try {
+            parsedArguments =
+              toolCall.function.arguments === "" ? {} : JSON.parse(toolCall.function.arguments);
+          } catch (error) {
+            throw makeTitledPrettyError(
+              "Invalid tool call arguments",
+              text`
+                The arguments of tool call "${toolCall.id}" in message ${messageIndex} are not
+                valid JSON: ${toolCall.function.arguments}
+              `,
+              stack,
+            );
+          }
+          toolNamesById.set(toolCall.id, toolCall.function.name);
+          content.push({
+            type: "toolCallRequest",
+            toolCallRequest: {
+              id: toolCall.id,
+              type: "function",
+              name: toolCall.function.name,
+              arguments: parsedArguments,
+            },
+          });
+        }
+        result.push({ role: "assistant", content });
+        break;
+      }
+      case "tool": {
+        const part: ChatMessagePartToolCallResultData = {
+          type: "toolCallResult",
+          toolCallId: message.tool_call_id,
+          content: contentToText(message.content),
+        };
+        const name = toolNamesById.get(message.tool_call_id);
+        if (name !== undefined) {
+          part.name = name;
+        }
+        const lastMessage = result.at(-1);
+        if (lastMessage?.role === "tool") {
+          lastMessage.content.push(part);
+        } else {
+          result.push({ role: "tool", content: [part] });
+        }
+        break;
+      }
+    }
+  }
+  return { messages: result };
+}
+
+/**
+ * Converts chat history data to messages in the OpenAI Chat Completions format.
+ *
+ * Tool call requests without an ID (some models do not produce them) are assigned one, and results
+ * without an ID are matched with the requests of the preceding assistant message in order. Only
+ * image files can be represented; other files are reported as unsupported content.
+ */
+export async function internalChatHistoryDataToOpenAIMessages(
+  client: LMStudioClient,
+  data: ChatHistoryData,
+  opts: ChatFormatConversionOpts,
+  stack?: string,
+): Promise<Array<OpenAIChatMessage>> {
+  const reportUnsupported = createUnsupportedContentReporter("OpenAI", opts, stack);
+  const result: Array<OpenAIChatMessage> = [];
+  const toolCallMatcher = new ToolCallMatcher("call_");
+  const toImagePart = async (
+    part: ChatMessagePartFileData,
+    messageIndex: number,
+  ): Promise<OpenAIImageContentPart | null> => {
+    if (part.fileType !== "image") {
+      reportUnsupported(`the non-image file "${part.name}" in message ${messageIndex}`);
+      return null;
+    }
+    const { base64, mimeType } = await readFileHandleAsBase64(
+      client.files.createFileHandleFromChatMessagePartFileData(part),
+      stack,
+    );
+    return { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64}` } };
+  };
+  for (const [messageIndex, message] of data.messages.entries()) {
+    switch (message.role) {
+      case "system": {
+        result.push({
+          role: "system",
+          content: message.content
+            .filter(part => part.type === "text")
+            .map(part => part.text)
+            .join(""),
+        });
+        break;
+      }
+      case "user": {
+        if (message.content.every(part => part.type === "text")) {
+          result.push({ role: "user", content: message.content.map(part => part.text).join("") });
+          break;
+        }
+        const content: Array<OpenAITextContentPart | OpenAIImageContentPart> = [];
+        for (const part of message.content) {
+          const contentPart =
+            part.type === "text"
+              ? { type: "text" as const, text: part.text }
+              : await toImagePart(part, messageIndex);
+          if (contentPart !== null) {
+            content.push(contentPart);
+          }
+        }
+        result.push({ role: "user", content });
+        break;
+      }
+      case "assistant": {
+        const textContent = message.content
+          .filter(part => part.type === "text")
+          .map(part => part.text)
+          .join("");
+        const requests = message.content
+          .filter(part => part.type === "toolCallRequest")
+          .map(part => part.toolCallRequest);
+        const ids = toolCallMatcher.addRequests(requests);
+        const toolCalls: Array<OpenAIToolCall> = requests.map((request, index) => ({
+          id: ids[index],
+          type: "function",
+          function: {
+            name: request.name,
+            arguments: JSON.stringify(request.arguments ?? {}),
+          },
+        }));
+        result.push(
+          toolCalls.length === 0
+            ? { role: "assistant", content: textContent }
+            : {
+                role: "assistant",
+                content: textContent === "" ? null : textContent,
+                tool_calls: toolCalls,
+              },
+        );
+        break;
+      }
+      case "tool": {
+        const files: Array<ChatMessagePartFileData> = [];
+        for (const part of message.content) {
+          if (part.type === "file") {
+            files.push(part);
+            continue;
+          }
+          const { id } = toolCallMatcher.matchResult(part.toolCallId);
+          result.push({ role: "tool", tool_call_id: id, content: part.content });
+        }
+        const imageParts = new Array<OpenAIImageContentPart>();
+        for (const file of files) {
+          const imagePart = await toImagePart(file, messageIndex);
+          if (imagePart !== null) {
+            imageParts.push(imagePart);
+          }
+        }
+        if (imageParts.length > 0) {
+          // Tool messages cannot contain images in the OpenAI format, so they are shown to the
+          // model in a user message instead.
+          result.push({ role: "user", content: imageParts });
+        }
+        break;
+      }
+    }
+  }
+  return result;
+}
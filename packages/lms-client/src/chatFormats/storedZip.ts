@@ -0,0 +1,168 @@
+/**
+ * A minimal implementation of the zip format that only supports uncompressed ("stored") entries.
+ * Files attached to chats are mostly images, which are compressed already, so compression would
+ * not gain much. In exchange, this works in every JavaScript environment without dependencies.
+ */
+
+/**
+ * A file in a zip archive.
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const localFileHeaderSignature = 0x04034b50;
+const centralDirectoryHeaderSignature = 0x02014b50;
+const endOfCentralDirectorySignature = 0x06054b50;
+/**
+ * Bit 11 of the general purpose flags: file names are encoded with UTF-8.
+ */
+const utf8Flag = 0x0800;
+/**
+ * 1980-01-01, the earliest date that can be represented. A fixed date keeps archives reproducible.
+ */
+const dosDate = (0 << 9) | (1 << 5) | 1;
+
+let crc32Table: Uint32Array | null = null;
+function crc32(data: Uint8Array) {
+  if (crc32Table === null) {
+    crc32Table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let value = i;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+      }
+      crc32Table[i] = value >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crc32Table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Creates a zip archive with the given entries, without compression.
+ */
+export function writeStoredZip(entries: Array<ZipEntry>): Uint8Array {
+  const encoder = new TextEncoder();
+  const records = entries.map(entry => ({
+    ...entry,
+    encodedName: encoder.encode(entry.name),
+    crc: crc32(entry.data),
+  }));
+  const localSize = records.reduce(
+    (size, record) => size + 30 + record.encodedName.length + record.data.length,
+    0,
+  );
+  const centralSize = records.reduce((size, record) => size + 46 + record.encodedName.length, 0);
+  const result = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(result.buffer);
+  let offset = 0;
+  const localHeaderOffsets: Array<number> = [];
+
+  for (const record of records) {
+    localHeaderOffsets.push(offset);
+    view.setUint32(offset, localFileHeaderSignature, true);
+    view.setUint16(offset + 4, 20, true); // Version needed to extract
+    view.setUint16(offset + 6, utf8Flag, true);
+    view.setUint16(offset + 8, 0, true); // Compression method: stored
+    view.setUint16(offset + 10, 0, true); // Time
+    view.setUint16(offset + 12, dosDate, true);
+    view.setUint32(offset + 14, record.crc, true);
+    view.setUint32(offset + 18, record.data.length, true); // Compressed size
+    view.setUint32(offset + 22, record.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, record.encodedName.length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    result.set(record.encodedName, offset + 30);
+    offset += 30 + record.encodedName.length;
+    result.set(record.data, offset);
+    offset += record.data.length;
+  }
+
+  const centralDirectoryOffset = offset;
+  for (const [index, record] of records.entries()) {
+    view.setUint32(offset, centralDirectoryHeaderSignature, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed to extract
+    view.setUint16(offset + 8, utf8Flag, true);
+    view.setUint16(offset + 10, 0, true); // Compression method: stored
+    view.setUint16(offset + 12, 0, true); // Time
+    view.setUint16(offset + 14, dosDate, true);
+    view.setUint32(offset + 16, record.crc, true);
+    view.setUint32(offset + 20, record.data.length, true);
+    view.setUint32(offset + 24, record.data.length, true);
+    view.setUint16(offset + 28, record.encodedName.length, true);
+    // Extra field length, comment length, disk number, internal and external attributes are all 0.
+    view.setUint32(offset + 42, localHeaderOffsets[index], true);
+    result.set(record.encodedName, offset + 46);
+    offset += 46 + record.encodedName.length;
+  }
+
+  view.setUint32(offset, endOfCentralDirectorySignature, true);
+  view.setUint16(offset + 8, records.length, true); // Entries on this disk
+  view.setUint16(offset + 10, records.length, true); // Total entries
+  view.setUint32(offset + 12, offset - centralDirectoryOffset, true);
+  view.setUint32(offset + 16, centralDirectoryOffset, true);
+  return result;
+}
+
+/**
+ * Reads the entries of a zip archive. Throws if the data is not a zip archive or if it contains
+ * compressed entries.
+ */
+export function readStoredZip(data: Uint8Array): Array<ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  // The end of central directory record is at the end, followed by a comment of up to 64 KiB.
+  let endOffset = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === endOfCentralDirectorySignature) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error("The data is not a zip archive.");
+  }
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries: Array<ZipEntry> = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (
+      offset + 46 > data.length ||
+      view.getUint32(offset, true) !== centralDirectoryHeaderSignature
+    ) {
+      throw new Error("The central directory of the zip archive is corrupted.");
+    }
+    const compressionMethod = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressionMethod !== 0) {
+      throw new Error(`The zip entry "${name}" is compressed, which is not supported.`);
+    }
+    if (view.getUint32(localHeaderOffset, true) !== localFileHeaderSignature) {
+      throw new Error(`The local header of the zip entry "${name}" is corrupted.`);
+    }
+    const dataOffset =
+      localHeaderOffset +
+      30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true);
+    const entryData = data.slice(dataOffset, dataOffset + compressedSize);
+    if (entryData.length !== compressedSize || crc32(entryData) !== crc) {
+      throw new Error(`The content of the zip entry "${name}" is corrupted.`);
+    }
+    entries.push({ name, data: entryData });
+  }
+  return entries;
+}
@@ -12,6 +12,7 @@ import {
 import {
   AuthenticatedWsClientTransport,
   ClientPort,
+  type ClientPortEndpointError,
   GenericClientTransport,
   getHostedEnv,
   type LMStudioHostedEnv,
@@ -74,6 +75,8 @@ export function createAuthenticatedClientPort<
   {
     errorDeserializer,
     verboseErrorMessage,
+    onEndpointError,
+    wrapTransportFactory = factory => factory,
   }: {
     errorDeserializer?: (
       serialized: SerializedLMSExtendedError,
@@ -81,6 +84,11 @@ export function createAuthenticatedClientPort<
       stack?: string,
     ) => Error;
     verboseErrorMessage?: boolean;
+    onEndpointError?: (endpointError: ClientPortEndpointError) => void;
+    /**
+     * Wraps the transport factory before it is used, for example to record the traffic.
+     */
+    wrapTransportFactory?: (factory: ClientTransportFactory) => ClientTransportFactory;
   } = {},
 ): ClientPort<TRpcEndpoints, TChannelEndpoints, TSignalEndpoints, TWritableSignalEndpoints> {
   const hostedEnv = getHostedEnv();
@@ -93,24 +101,28 @@ export function createAuthenticatedClientPort<
     }
     return new ClientPort(
       backendInterface,
-      createAuthenticatedIpcTransportFactory(
-        apiNamespace,
-        hostedEnv,
-        clientIdentifier,
-        clientPasskey,
+      wrapTransportFactory(
+        createAuthenticatedIpcTransportFactory(
+          apiNamespace,
+          hostedEnv,
+          clientIdentifier,
+          clientPasskey,
+        ),
       ),
-      { parentLogger: logger, errorDeserializer, verboseErrorMessage },
+      { parentLogger: logger, errorDeserializer, verboseErrorMessage, onEndpointError },
     );
   } else {
     return new ClientPort(
       backendInterface,
-      createAuthenticatedWsTransportFactory(
-        apiNamespace,
-        wsAddress,
-        clientIdentifier,
-        clientPasskey,
+      wrapTransportFactory(
+        createAuthenticatedWsTransportFactory(
+          apiNamespace,
+          wsAddress,
+          clientIdentifier,
+          clientPasskey,
+        ),
       ),
-      { parentLogger: logger, errorDeserializer, verboseErrorMessage },
+      { parentLogger: logger, errorDeserializer, verboseErrorMessage, onEndpointError },
     );
   }
 }
@@ -0,0 +1,97 @@
+import { FakeLMStudio, silentLogger } from "@lmstudio/lms-communication-mock";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { EmbeddingIndex } from "./EmbeddingIndex.js";
+
+/**
+ * Embeds a text as how often it mentions each topic, so similarities are easy to predict.
+ */
+function embedTopics(input: string) {
+  return ["cat", "tea", "car"].map(topic => input.split(topic).length - 1);
+}
+
+function createFake() {
+  const fake = new FakeLMStudio({ logger: silentLogger });
+  const client = new LMStudioClient({ logger: silentLogger, ...fake.getClientOpts() });
+  return { fake, client };
+}
+
+describe("EmbeddingIndex", () => {
+  it("adds, upserts, removes and searches documents", async () => {
+    const { fake, client } = createFake();
+    fake.addEmbeddingModel({ modelKey: "topics", embed: embedTopics });
+    const index = new EmbeddingIndex<{ kind: string }>(await client.embedding.model("topics"));
+
+    await index.add([
+      { id: "a", text: "cat cat", metadata: { kind: "pet" } },
+      { id: "b", text: "tea", metadata: { kind: "drink" } },
+      { id: "c", text: "cat tea", metadata: { kind: "pet" } },
+    ]);
+    await expect(index.add([{ id: "a", text: "car" }])).rejects.toThrow("already in");
+    await index.upsert([{ id: "b", text: "tea tea car", metadata: { kind: "drink" } }]);
+
+    const results = await index.search("cat", { topK: 2 });
+    expect(results.map(({ id }) => id)).toEqual(["a", "c"]);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[0].metadata).toEqual({ kind: "pet" });
+    expect((await index.search("tea", { filter: { kind: "drink" } })).map(({ id }) => id)).toEqual([
+      "b",
+    ]);
+    expect(
+      (await index.search("tea", { filter: (_metadata, id) => id !== "c", minScore: 0.1 })).map(
+        ({ id }) => id,
+      ),
+    ).toEqual(["b"]);
+
+    expect(await index.remove(["a", "missing"])).toBe(1);
+    expect(index.size).toBe(2);
+    expect(index.has("a")).toBe(false);
+  });
+
+  it("embeds again when the model key changes", async () => {
+    const { fake, client } = createFake();
+    fake.addEmbeddingModel({ modelKey: "topics", embed: embedTopics });
+    fake.addEmbeddingModel({
+      modelKey: "reversed-topics",
+      loaded: false,
+      embed: input => embedTopics(input).reverse(),
+    });
+    const index = new EmbeddingIndex(client.embedding.createDynamicHandle("topics"));
+    await index.add([{ id: "a", text: "cat" }]);
+    expect(index.toJSON().entries[0].embedding).toEqual([1, 0, 0]);
+
+    await client.embedding.unload("topics");
+    await client.embedding.load("reversed-topics", { identifier: "topics" });
+    const [result] = await index.search("cat");
+
+    expect(result.score).toBeCloseTo(1);
+    expect(index.toJSON()).toMatchObject({
+      modelKey: "reversed-topics",
+      entries: [{ id: "a", embedding: [0, 0, 1] }],
+    });
+  });
+
+  it("saves to and loads from a file", async () => {
+    const { fake, client } = createFake();
+    fake.addEmbeddingModel({ modelKey: "topics", embed: embedTopics });
+    const model = await client.embedding.model("topics");
+    const index = new EmbeddingIndex(model);
+    await index.add([
+      { id: "a", text: "cat", metadata: { tags: ["pet"] } },
+      { id: "b", text: "car" },
+    ]);
+    const directory = await mkdtemp(join(tmpdir(), "embedding-index-"));
+    try {
+      const path = join(directory, "index.json");
+      await index.save(path);
+      const loadedIndex = await EmbeddingIndex.load(model, path);
+
+      expect(loadedIndex.toJSON()).toEqual(index.toJSON());
+      expect((await loadedIndex.search("car", { topK: 1 }))[0].id).toBe("b");
+    } finally {
+      await rm(directory, { recursive: true });
+    }
+  });
+});
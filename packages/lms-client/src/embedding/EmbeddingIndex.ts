@@ -0,0 +1,492 @@
+import { getCurrentStack, sharedValidator, text } from "@lmstudio/lms-common";
+import { readTextFromFile, writeTextToFile } from "@lmstudio/lms-isomorphic";
+import { jsonSerializableSchema } from "@lmstudio/lms-shared-types";
+import { z, type ZodSchema } from "zod";
+import { type EmbeddingDynamicHandle } from "./EmbeddingDynamicHandle.js";
+
+/**
+ * Metadata attached to a document of an {@link EmbeddingIndex}. Must be serializable with
+ * `JSON.stringify`, so the index can be saved.
+ *
+ * @public
+ * @experimental [EXP-EMBEDDING-INDEX] The embedding index is experimental and may change in the
+ * future.
+ */
+export type EmbeddingIndexMetadata = Record<string, unknown>;
+const embeddingIndexMetadataSchema = z.record(jsonSerializableSchema);
+
+/**
+ * A document to add to an {@link EmbeddingIndex}.
+ *
+ * @public
+ * @experimental [EXP-EMBEDDING-INDEX] The embedding index is experimental and may change in the
+ * future.
+ */
+export interface EmbeddingIndexDocument<TMetadata extends object> {
+  /**
+   * Identifies the document in the index. Adding a document with the ID of an existing document
+   * fails, upserting it replaces the existing document.
+   */
+  id: string;
+  /**
+   * The text that is embedded.
+   */
+  text: string;
+  metadata?: TMetadata;
+}
+const embeddingIndexDocumentSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  metadata: embeddingIndexMetadataSchema.optional(),
+});
+
+/**
+ * A document found by {@link EmbeddingIndex#search}.
+ *
+ * @public
+ * @experimental [EXP-EMBEDDING-INDEX] The embedding index is experimental and may change in the
+ * future.
+ */
+export interface EmbeddingIndexSearchResult<TMetadata extends object> {
+  id: string;
+  text: string;
+  metadata: TMetadata;
+  /**
+   * The cosine similarity between the query and the document, from -1 to 1. Higher is more
+   * similar.
+   */
+  score: number;
+}
+
+/**
+ * Options for {@link EmbeddingIndex#search}.
+ *
+ * @public
+ * @experimental [EXP-EMBEDDING-INDEX] The embedding index is experimental and may change in the
+ * future.
+ */
+export interface EmbeddingIndexSearchOpts<TMetadata extends object> {
+  /**
+   * The maximum number of documents to return. Defaults to 5.
+   */
+  topK?: number;
+  /**
+   * Only documents whose metadata matches the filter are returned. Either an object, in which
+   * case every field of the object must be equal to the same field of the metadata, or a function
+   * that returns whether a document should be returned.
+   */
+  filter?: Partial<TMetadata> | ((metadata: TMetadata, id: string) => boolean);
+  /**
+   * Documents with a lower score are not returned.
+   */
+  minScore?: number;
+}
+const embeddingIndexSearchOptsSchema = z.object({
+  topK: z.number().int().positive().optional(),
+  filter: z.union([embeddingIndexMetadataSchema, z.function()]).optional(),
+  minScore: z.number().optional(),
+});
+
+/**
+ * A document as stored in the JSON form of an {@link EmbeddingIndex}.
+ *
+ * @public
+ * @experimental [EXP-EMBEDDING-INDEX] The embedding index is experimental and may change in the
+ * future.
+ */
+export interface EmbeddingIndexEntryData {
+  id: string;
+  text: string;
+  metadata: EmbeddingIndexMetadata;
+  embedding: Array<number>;
+}
+const embeddingIndexEntryDataSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  metadata: embeddingIndexMetadataSchema,
+  embedding: z.array(z.number()),
+}) satisfies ZodSchema<EmbeddingIndexEntryData>;
+
+/**
+ * The JSON form of an {@link EmbeddingIndex}.
+ *
+ * @public
+ * @experimental [EXP-EMBEDDING-INDEX] The embedding index is experimental and may change in the
+ * future.
+ */
+export interface EmbeddingIndexData {
+  /**
+   * The key of the model the embeddings were computed with. `null` if the index is empty and has
+   * never computed an embedding.
+   */
+  modelKey: string | null;
+  entries: Array<EmbeddingIndexEntryData>;
+}
+const embeddingIndexDataSchema = z.object({
+  modelKey: z.string().nullable(),
+  entries: z.array(embeddingIndexEntryDataSchema),
+}) satisfies ZodSchema<EmbeddingIndexData>;
+
+interface IndexEntry<TMetadata extends object> {
+  id: string;
+  text: string;
+  metadata: TMetadata;
+  embedding: Array<number>;
+  /**
+   * The Euclidean norm of the embedding, kept to avoid recomputing it on every search.
+   */
+  norm: number;
+}
+
+function getNorm(vector: Array<number>) {
+  return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+}
+
+function cosineSimilarity(a: Array<number>, aNorm: number, b: Array<number>, bNorm: number) {
+  if (a.length !== b.length) {
+    throw new Error(text`
+      Cannot compare embeddings of different dimensions (${a.length} and ${b.length}).
+    `);
+  }
+  if (aNorm === 0 || bNorm === 0) {
+    return 0;
+  }
+  let dotProduct = 0;
+  for (let index = 0; index < a.length; index++) {
+    dotProduct += a[index] * b[index];
+  }
+  return dotProduct / (aNorm * bNorm);
+}
+
+function metadataMatches(metadata: object, filter: object) {
+  return Object.entries(filter).every(
+    ([key, value]) =>
+      JSON.stringify((metadata as EmbeddingIndexMetadata)[key]) === JSON.stringify(value),
+  );
+}
+
+/**
+ * A vector index kept in memory: documents are embedded with an embedding model and can then be
+ * searched by similarity to a query.
+ *
+ * The embeddings are computed with the model currently associated with the handle. If a model with
+ * a different key is associated later, for example after the model is reloaded with another one,
+ * every document is embedded again before the next operation. Documents are embedded in batches of
+ * at most {@link EmbeddingDynamicHandle#getEvalBatchSize} documents.
+ *
+ * @example
+ * ```ts
+ * const model = await client.embedding.model("nomic-embed-text-v1.5");
+ * const index = new EmbeddingIndex<{ source: string }>(model);
+ * await index.add([
+ *   { id: "cat", text: "Cats purr when they are happy.", metadata: { source: "pets.md" } },
+ *   { id: "tea", text: "Green tea is steeped at 80°C.", metadata: { source: "drinks.md" } },
+ * ]);
+ * const [best] = await index.search("Why does my cat make noise?", { topK: 1 });
+ * await index.save("index.json");
+ *
+ * // Later:
+ * const loadedIndex = await EmbeddingIndex.load<{ source: string }>(model, "index.json");
+ * ```
+ *
+ * Operations are run one after another, in the order they are called.
+ *
+ * @public
+ * @experimental [EXP-EMBEDDING-INDEX] The embedding index is experimental and may change in the
+ * future.
+ */
+export class EmbeddingIndex<TMetadata extends object = EmbeddingIndexMetadata> {
+  private readonly entries = new Map<string, IndexEntry<TMetadata>>();
+  private modelKey: string | null = null;
+  /**
+   * Resolves once every previously started operation has finished.
+   */
+  private queue: Promise<void> = Promise.resolve();
+
+  public constructor(private readonly model: EmbeddingDynamicHandle) {}
+
+  /**
+   * Creates an index from the data returned by {@link EmbeddingIndex#toJSON}. The embeddings are
+   * computed again before the next operation if the key of the model associated with the handle is
+   * not the one in the data.
+   */
+  public static fromJSON<TMetadata extends object = EmbeddingIndexMetadata>(
+    model: EmbeddingDynamicHandle,
+    data: EmbeddingIndexData,
+  ) {
+    const stack = getCurrentStack(1);
+    data = sharedValidator.validateMethodParamOrThrow(
+      "EmbeddingIndex",
+      "fromJSON",
+      "data",
+      embeddingIndexDataSchema,
+      data,
+      stack,
+    );
+    const index = new EmbeddingIndex<TMetadata>(model);
+    for (const { id, text, metadata, embedding } of data.entries) {
+      if (index.entries.has(id)) {
+        throw new Error(`Invalid embedding index data: duplicate document ID "${id}".`);
+      }
+      index.entries.set(id, {
+        id,
+        text,
+        metadata: metadata as TMetadata,
+        embedding,
+        norm: getNorm(embedding),
+      });
+    }
+    index.modelKey = data.modelKey;
+    return index;
+  }
+
+  /**
+   * Loads an index saved with {@link EmbeddingIndex#save}. Not available in the browser.
+   */
+  public static async load<TMetadata extends object = EmbeddingIndexMetadata>(
+    model: EmbeddingDynamicHandle,
+    path: string,
+  ): Promise<EmbeddingIndex<TMetadata>> {
+    const stack = getCurrentStack(1);
+    path = sharedValidator.validateMethodParamOrThrow(
+      "EmbeddingIndex",
+      "load",
+      "path",
+      z.string(),
+      path,
+      stack,
+    );
+    let data: unknown;
+    try {
+      data = JSON.parse(await readTextFromFile(path));
+    } catch (error) {
+      throw new Error(`Failed to read the embedding index at ${path}: ${String(error)}`);
+    }
+    return EmbeddingIndex.fromJSON<TMetadata>(model, data as EmbeddingIndexData);
+  }
+
+  /**
+   * The number of documents in the index.
+   */
+  public get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * Runs the operation once the previous ones have finished.
+   */
+  private enqueue<TResult>(operation: () => Promise<TResult>): Promise<TResult> {
+    const result = this.queue.then(operation);
+    this.queue = result.then(
+      () => {},
+      () => {},
+    );
+    return result;
+  }
+
+  private async getCurrentModelKey() {
+    const info = await this.model.getModelInfo();
+    if (info === undefined) {
+      throw new Error(text`
+        Cannot use the embedding index because no model is associated with its embedding model
+        handle. Load the model first.
+      `);
+    }
+    return info.modelKey;
+  }
+
+  /**
+   * Embeds the texts in batches of at most the eval batch size of the model.
+   */
+  private async embedTexts(texts: Array<string>): Promise<Array<Array<number>>> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const batchSize = Math.max(1, await this.model.getEvalBatchSize());
+    const embeddings: Array<Array<number>> = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+      const results = await this.model.embed(texts.slice(start, start + batchSize));
+      embeddings.push(...results.map(({ embedding }) => embedding));
+    }
+    return embeddings;
+  }
+
+  /**
+   * Embeds every document again if the model associated with the handle has changed since the
+   * embeddings were computed.
+   */
+  private async syncModel() {
+    const modelKey = await this.getCurrentModelKey();
+    if (modelKey === this.modelKey) {
+      return;
+    }
+    const entries = [...this.entries.values()];
+    const embeddings = await this.embedTexts(entries.map(entry => entry.text));
+    entries.forEach((entry, index) => {
+      entry.embedding = embeddings[index];
+      entry.norm = getNorm(entry.embedding);
+    });
+    this.modelKey = modelKey;
+  }
+
+  private async insert(documents: Array<EmbeddingIndexDocument<TMetadata>>) {
+    await this.syncModel();
+    const embeddings = await this.embedTexts(documents.map(document => document.text));
+    documents.forEach(({ id, text, metadata }, index) => {
+      this.entries.set(id, {
+        id,
+        text,
+        metadata: metadata ?? ({} as TMetadata),
+        embedding: embeddings[index],
+        norm: getNorm(embeddings[index]),
+      });
+    });
+  }
+
+  private validateDocuments(
+    method: string,
+    documents: Array<EmbeddingIndexDocument<TMetadata>>,
+    stack: string,
+  ) {
+    documents = sharedValidator.validateMethodParamOrThrow(
+      "EmbeddingIndex",
+      method,
+      "documents",
+      z.array(embeddingIndexDocumentSchema),
+      documents,
+      stack,
+    ) as Array<EmbeddingIndexDocument<TMetadata>>;
+    const ids = new Set<string>();
+    for (const { id } of documents) {
+      if (ids.has(id)) {
+        throw new Error(`Cannot ${method} the same document ID "${id}" twice in one call.`);
+      }
+      ids.add(id);
+    }
+    return documents;
+  }
+
+  /**
+   * Embeds and adds documents to the index. Fails, without adding any document, if a document with
+   * the same ID is already in the index.
+   */
+  public async add(documents: Array<EmbeddingIndexDocument<TMetadata>>): Promise<void> {
+    const stack = getCurrentStack(1);
+    documents = this.validateDocuments("add", documents, stack);
+    await this.enqueue(async () => {
+      const existingDocument = documents.find(({ id }) => this.entries.has(id));
+      if (existingDocument !== undefined) {
+        throw new Error(text`
+          A document with the ID "${existingDocument.id}" is already in the embedding index. Use
+          upsert to replace it.
+        `);
+      }
+      await this.insert(documents);
+    });
+  }
+
+  /**
+   * Embeds and adds documents to the index, replacing the documents with the same IDs.
+   */
+  public async upsert(documents: Array<EmbeddingIndexDocument<TMetadata>>): Promise<void> {
+    const stack = getCurrentStack(1);
+    documents = this.validateDocuments("upsert", documents, stack);
+    await this.enqueue(() => this.insert(documents));
+  }
+
+  /**
+   * Removes documents from the index. IDs that are not in the index are ignored. Returns the number
+   * of documents removed.
+   */
+  public async remove(ids: Array<string>): Promise<number> {
+    const stack = getCurrentStack(1);
+    ids = sharedValidator.validateMethodParamOrThrow(
+      "EmbeddingIndex",
+      "remove",
+      "ids",
+      z.array(z.string()),
+      ids,
+      stack,
+    );
+    return await this.enqueue(async () => ids.filter(id => this.entries.delete(id)).length);
+  }
+
+  /**
+   * Returns whether a document with the given ID is in the index.
+   */
+  public has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Returns the documents most similar to the query, most similar first.
+   */
+  public async search(
+    query: string,
+    opts: EmbeddingIndexSearchOpts<TMetadata> = {},
+  ): Promise<Array<EmbeddingIndexSearchResult<TMetadata>>> {
+    const stack = getCurrentStack(1);
+    [query, opts] = sharedValidator.validateMethodParamsOrThrow(
+      "EmbeddingIndex",
+      "search",
+      ["query", "opts"],
+      [z.string(), embeddingIndexSearchOptsSchema],
+      [query, opts],
+      stack,
+    ) as [string, EmbeddingIndexSearchOpts<TMetadata>];
+    const { topK = 5, filter, minScore = -Infinity } = opts;
+    return await this.enqueue(async () => {
+      await this.syncModel();
+      const { embedding: queryEmbedding } = await this.model.embed(query);
+      const queryNorm = getNorm(queryEmbedding);
+      const results: Array<EmbeddingIndexSearchResult<TMetadata>> = [];
+      for (const { id, text, metadata, embedding, norm } of this.entries.values()) {
+        if (typeof filter === "function") {
+          if (!filter(metadata, id)) {
+            continue;
+          }
+        } else if (filter !== undefined && !metadataMatches(metadata, filter)) {
+          continue;
+        }
+        const score = cosineSimilarity(queryEmbedding, queryNorm, embedding, norm);
+        if (score >= minScore) {
+          results.push({ id, text, metadata, score });
+        }
+      }
+      return results.sort((a, b) => b.score - a.score).slice(0, topK);
+    });
+  }
+
+  /**
+   * Converts the index to plain data that can be serialized with `JSON.stringify` and loaded back
+   * with {@link EmbeddingIndex.fromJSON}.
+   */
+  public toJSON(): EmbeddingIndexData {
+    return {
+      modelKey: this.modelKey,
+      entries: [...this.entries.values()].map(({ id, text, metadata, embedding }) => ({
+        id,
+        text,
+        metadata: metadata as EmbeddingIndexMetadata,
+        embedding,
+      })),
+    };
+  }
+
+  /**
+   * Saves the index, embeddings included, to a JSON file. Not available in the browser.
+   */
+  public async save(path: string): Promise<void> {
+    const stack = getCurrentStack(1);
+    path = sharedValidator.validateMethodParamOrThrow(
+      "EmbeddingIndex",
+      "save",
+      "path",
+      z.string(),
+      path,
+      stack,
+    );
+    // Wait for the pending operations, so they are part of the saved index.
+    await this.enqueue(() => writeTextToFile(path, JSON.stringify(this.toJSON())));
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Formats a code point as a GBNF hex escape sequence.
+ */
+function hexEscape(codePoint: number) {
+  if (codePoint <= 0xff) {
+    return `\\x${codePoint.toString(16).padStart(2, "0").toUpperCase()}`;
+  }
+  if (codePoint <= 0xffff) {
+    return `\\u${codePoint.toString(16).padStart(4, "0").toUpperCase()}`;
+  }
+  return `\\U${codePoint.toString(16).padStart(8, "0").toUpperCase()}`;
+}
+
+function escapeChar(char: string, specialChars: string) {
+  const codePoint = char.codePointAt(0)!;
+  switch (char) {
+    case "\n":
+      return "\\n";
+    case "\r":
+      return "\\r";
+    case "\t":
+      return "\\t";
+  }
+  if (codePoint < 0x20 || codePoint === 0x7f) {
+    return hexEscape(codePoint);
+  }
+  if (specialChars.includes(char)) {
+    // GBNF only supports a few characters after a backslash. Other special characters are
+    // escaped with their code point.
+    return '\\"[]'.includes(char) ? `\\${char}` : hexEscape(codePoint);
+  }
+  return char;
+}
+
+/**
+ * Creates a GBNF string literal that matches the given text exactly.
+ */
+export function gbnfLiteral(text: string) {
+  let result = '"';
+  for (const char of text) {
+    result += escapeChar(char, '"\\');
+  }
+  return result + '"';
+}
+
+/**
+ * Escapes a character for use inside of a GBNF character class.
+ */
+export function gbnfClassChar(char: string) {
+  return escapeChar(char, '\\[]^-"');
+}
+
+/**
+ * Wraps an expression in parentheses, unless it is a single item that a repetition operator can be
+ * applied to directly.
+ */
+export function gbnfGroup(expression: string) {
+  if (/^([\w-]+|"([^"\\]|\\.)*"|\[([^\]\\]|\\.)*\])$/.test(expression)) {
+    return expression;
+  }
+  return `(${expression})`;
+}
+
+/**
+ * Applies a `{min,max}` repetition to an expression. A `max` of `undefined` means unbounded.
+ */
+export function gbnfRepeat(expression: string, min: number, max: number | undefined) {
+  if (max !== undefined && max < min) {
+    throw new Error(`The maximum repetition count ${max} is less than the minimum ${min}.`);
+  }
+  if (max === 0) {
+    return '""';
+  }
+  if (min === 1 && max === 1) {
+    return expression;
+  }
+  const group = gbnfGroup(expression);
+  if (min === 0 && max === undefined) {
+    return `${group}*`;
+  }
+  if (min === 1 && max === undefined) {
+    return `${group}+`;
+  }
+  if (min === 0 && max === 1) {
+    return `${group}?`;
+  }
+  if (min === max) {
+    return `${group}{${min}}`;
+  }
+  return `${group}{${min},${max ?? ""}}`;
+}
+
+/**
+ * The definition of a rule whose name is reserved, but which is not defined yet.
+ */
+const reservedDefinition = "\0reserved";
+
+/**
+ * A set of named GBNF rules that is built up while compiling a grammar.
+ */
+export class GbnfRuleSet {
+  private readonly rules = new Map<string, string>();
+
+  /**
+   * Adds a rule and returns its name. If a rule with the same name but a different definition
+   * already exists, a number is appended to the name. Rules with the same name and definition are
+   * only added once. A rule that was reserved with {@link GbnfRuleSet#reserve} is defined by adding
+   * a rule with its name.
+   */
+  public add(name: string, definition: string) {
+    const uniqueName = this.getUniqueName(
+      name,
+      existing => existing === definition || existing === reservedDefinition,
+    );
+    this.rules.set(uniqueName, definition);
+    return uniqueName;
+  }
+
+  /**
+   * Reserves a name for a rule that is defined later. Used for recursive rules, which need to
+   * reference their own name.
+   */
+  public reserve(name: string) {
+    const uniqueName = this.getUniqueName(name, () => false);
+    this.rules.set(uniqueName, reservedDefinition);
+    return uniqueName;
+  }
+
+  private getUniqueName(name: string, canReuse: (existingDefinition: string) => boolean) {
+    const baseName = name.replace(/[^a-zA-Z0-9-]+/g, "-").replace(/^-+|-+$/g, "") || "rule";
+    let uniqueName = baseName;
+    for (let index = 1; ; index++) {
+      const existing = this.rules.get(uniqueName);
+      if (existing === undefined || canReuse(existing)) {
+        return uniqueName;
+      }
+      uniqueName = `${baseName}${index}`;
+    }
+  }
+
+  public define(name: string, definition: string) {
+    this.rules.set(name, definition);
+  }
+
+  public has(name: string) {
+    return this.rules.has(name);
+  }
+
+  /**
+   * Formats the rules as a grammar. The root rule comes first, followed by the other rules in the
+   * order they were added.
+   */
+  public format() {
+    const names = [...this.rules.keys()].sort(
+      (a, b) => Number(b === "root") - Number(a === "root"),
+    );
+    return names.map(name => `${name} ::= ${this.rules.get(name)}\n`).join("");
+  }
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { jsonSchemaToGbnf, zodToGbnf } from "./jsonSchemaToGbnf.js";
+
+function getRules(grammar: string) {
+  return Object.fromEntries(
+    grammar
+      .trimEnd()
+      .split("\n")
+      .map(line => line.split(" ::= ")),
+  );
+}
+
+describe("jsonSchemaToGbnf", () => {
+  test("compiles objects with required and optional properties", () => {
+    const rules = getRules(
+      zodToGbnf(
+        z.object({
+          name: z.string().min(1).max(20),
+          kind: z.enum(["book", "film"]),
+          year: z.number().int().optional(),
+          tags: z.array(z.string()).max(3).optional(),
+        }),
+      ),
+    );
+    expect(rules["root"]).toBe(
+      '"{" space root-name-kv "," space root-kind-kv ' +
+        '("," space (root-year-kv root-year-rest | root-tags-kv))? "}" space',
+    );
+    expect(rules["root-year-rest"]).toBe('("," space root-tags-kv)?');
+    expect(rules["root-name"]).toBe('"\\"" char{1,20} "\\"" space');
+    expect(rules["root-kind"]).toBe('"\\"book\\"" space | "\\"film\\"" space');
+    expect(rules["root-year-kv"]).toBe('"\\"year\\"" space ":" space integer');
+    expect(rules["root-tags"]).toBe(
+      '"[" space (root-tags-item ("," space root-tags-item){0,2})? "]" space',
+    );
+  });
+
+  test("compiles recursive references, patterns and unions", () => {
+    const grammar = jsonSchemaToGbnf({
+      $defs: {
+        Node: {
+          type: "object",
+          properties: {
+            id: { type: "string", pattern: "^[a-z]+-\\d+$" },
+            children: { type: "array", items: { $ref: "#/$defs/Node" } },
+            parent: { oneOf: [{ $ref: "#/$defs/Node" }, { type: "null" }] },
+          },
+          required: ["id", "children", "parent"],
+        },
+      },
+      $ref: "#/$defs/Node",
+    });
+    const rules = getRules(grammar);
+    expect(grammar.startsWith("root ::= Node\n")).toBe(true);
+    expect(rules["Node-id"]).toBe('"\\"" [a-z]+ "-" [0-9]+ "\\"" space');
+    expect(rules["Node-children"]).toBe('"[" space (Node ("," space Node)*)? "]" space');
+    expect(rules["Node-parent"]).toBe("Node | null");
+  });
+
+  test("rejects unsupported schemas", () => {
+    expect(() => jsonSchemaToGbnf({ $ref: "other.json#/Node" })).toThrow(
+      "Only local references are supported",
+    );
+    expect(() => jsonSchemaToGbnf({ type: "string", pattern: "[a-z]" })).toThrow(
+      "Only anchored patterns",
+    );
+  });
+});
@@ -0,0 +1,381 @@
+import { getCurrentStack, makeTitledPrettyError, text } from "@lmstudio/lms-common";
+import { type ZodSchema } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { gbnfGroup, gbnfLiteral, gbnfRepeat, GbnfRuleSet } from "./GbnfRuleSet.js";
+import { compileRegexToGbnfExpression } from "./regexToGbnf.js";
+
+/**
+ * Rules for JSON values that do not depend on the schema. Rules are only added to the grammar when
+ * they are used.
+ */
+const primitiveRules: Record<string, { definition: string; dependencies: Array<string> }> = {
+  "space": { definition: '(" " | "\\n" [ \\t]{0,20})?', dependencies: [] },
+  "boolean": { definition: '("true" | "false") space', dependencies: ["space"] },
+  "null": { definition: '"null" space', dependencies: ["space"] },
+  "integral-part": { definition: "[0] | [1-9] [0-9]{0,15}", dependencies: [] },
+  "decimal-part": { definition: "[0-9]{1,16}", dependencies: [] },
+  "integer": { definition: '("-"? integral-part) space', dependencies: ["integral-part", "space"] },
+  "number": {
+    definition: '("-"? integral-part) ("." decimal-part)? ([eE] [-+]? integral-part)? space',
+    dependencies: ["integral-part", "decimal-part", "space"],
+  },
+  "char": {
+    definition: '[^"\\\\\\x7F\\x00-\\x1F] | [\\\\] (["\\\\/bfnrt] | "u" [0-9a-fA-F]{4})',
+    dependencies: [],
+  },
+  "string": { definition: '"\\"" char* "\\"" space', dependencies: ["char", "space"] },
+  "value": {
+    definition: "object | array | string | number | boolean | null",
+    dependencies: ["object", "array", "string", "number", "boolean", "null"],
+  },
+  "object": {
+    definition:
+      '"{" space ( string ":" space value ("," space string ":" space value)* )? "}" space',
+    dependencies: ["string", "value", "space"],
+  },
+  "array": {
+    definition: '"[" space ( value ("," space value)* )? "]" space',
+    dependencies: ["value", "space"],
+  },
+};
+
+/**
+ * The characters that can appear in a JSON string without escaping. Used for `.` and negated
+ * character classes in `pattern`.
+ */
+const jsonStringAnyChar = '[^"\\\\\\x7F\\x00-\\x1F]';
+
+/**
+ * Compiles a JSON schema to GBNF rules, in the style of the `json-schema-to-grammar` converter of
+ * llama.cpp. Properties are generated in the order they are defined in, and whitespace between
+ * tokens is limited so that the model cannot generate whitespace forever.
+ */
+class JsonSchemaCompiler {
+  public readonly rules = new GbnfRuleSet();
+  /**
+   * Maps `$ref` values to the names of the rules that were created for them.
+   */
+  private readonly refRuleNames = new Map<string, string>();
+
+  public constructor(private readonly rootSchema: any) {}
+
+  private addPrimitive(name: string) {
+    if (!this.rules.has(name)) {
+      this.rules.define(name, primitiveRules[name].definition);
+      for (const dependency of primitiveRules[name].dependencies) {
+        this.addPrimitive(dependency);
+      }
+    }
+    return name;
+  }
+
+  /**
+   * Compiles a schema and returns the name of a rule that matches it.
+   */
+  public visit(schema: any, name: string): string {
+    if (schema === true || (typeof schema === "object" && Object.keys(schema).length === 0)) {
+      return this.addPrimitive("value");
+    }
+    if (typeof schema !== "object" || schema === null) {
+      throw new Error(`Invalid schema at "${name}": ${JSON.stringify(schema)}`);
+    }
+    if (schema.$ref !== undefined) {
+      return this.visitRef(schema.$ref);
+    }
+    if (schema.oneOf !== undefined || schema.anyOf !== undefined) {
+      const alternatives: Array<any> = schema.oneOf ?? schema.anyOf;
+      return this.rules.add(
+        name,
+        alternatives
+          .map((alternative, index) => this.visit(alternative, `${name}-${index}`))
+          .join(" | "),
+      );
+    }
+    if (schema.allOf !== undefined) {
+      return this.visit(this.mergeAllOf(schema), name);
+    }
+    if (schema.const !== undefined) {
+      return this.rules.add(name, this.jsonLiteral(schema.const));
+    }
+    if (schema.enum !== undefined) {
+      return this.rules.add(
+        name,
+        (schema.enum as Array<unknown>).map(value => this.jsonLiteral(value)).join(" | "),
+      );
+    }
+    if (Array.isArray(schema.type)) {
+      return this.rules.add(
+        name,
+        schema.type
+          .map((type: string) => this.visit({ ...schema, type }, `${name}-${type}`))
+          .join(" | "),
+      );
+    }
+    switch (schema.type) {
+      case "string":
+        return this.visitString(schema, name);
+      case "number":
+      case "integer":
+      case "boolean":
+      case "null":
+        return this.addPrimitive(schema.type);
+      case "array":
+        return this.visitArray(schema, name);
+      case "object":
+        return this.visitObject(schema, name);
+      case undefined:
+        if (schema.properties !== undefined) {
+          return this.visitObject(schema, name);
+        }
+        if (schema.items !== undefined || schema.prefixItems !== undefined) {
+          return this.visitArray(schema, name);
+        }
+        return this.addPrimitive("value");
+      default:
+        throw new Error(`Unsupported type "${schema.type}" at "${name}"`);
+    }
+  }
+
+  private visitRef(ref: string) {
+    const existing = this.refRuleNames.get(ref);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const target = this.resolveRef(ref);
+    // The name is reserved before visiting the target, so that recursive references resolve to it.
+    const refName = this.getRefSegments(ref).at(-1) ?? "root";
+    const ruleName = this.rules.reserve(
+      refName in primitiveRules || refName === "root" ? `${refName}-ref` : refName,
+    );
+    this.refRuleNames.set(ref, ruleName);
+    const targetRuleName = this.visit(target, ruleName);
+    if (targetRuleName !== ruleName) {
+      this.rules.define(ruleName, targetRuleName);
+    }
+    return ruleName;
+  }
+
+  private mergeAllOf(schema: any) {
+    const { allOf, ...rest } = schema;
+    const merged: any = {
+      ...rest,
+      properties: { ...rest.properties },
+      required: [...(rest.required ?? [])],
+    };
+    for (let part of allOf as Array<any>) {
+      while (part.$ref !== undefined) {
+        part = this.resolveRef(part.$ref);
+      }
+      if (part.type !== undefined && part.type !== "object") {
+        throw new Error('"allOf" is only supported for object schemas');
+      }
+      merged.type = "object";
+      Object.assign(merged.properties, part.properties);
+      merged.required.push(...(part.required ?? []));
+      if (part.additionalProperties !== undefined) {
+        merged.additionalProperties = part.additionalProperties;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Splits a reference into the segments of its JSON pointer.
+   */
+  private getRefSegments(ref: string) {
+    if (!ref.startsWith("#")) {
+      throw new Error(`Only local references are supported. Received: "${ref}"`);
+    }
+    return ref
+      .slice(1)
+      .split("/")
+      .filter(segment => segment !== "")
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~"));
+  }
+
+  private resolveRef(ref: string) {
+    let target = this.rootSchema;
+    for (const segment of this.getRefSegments(ref)) {
+      target = target?.[segment];
+    }
+    if (target === undefined) {
+      throw new Error(`Cannot resolve the reference "${ref}"`);
+    }
+    return target;
+  }
+
+  private jsonLiteral(value: unknown) {
+    this.addPrimitive("space");
+    return `${gbnfLiteral(JSON.stringify(value))} space`;
+  }
+
+  private visitString(schema: any, name: string) {
+    this.addPrimitive("space");
+    let content: string;
+    if (schema.pattern !== undefined) {
+      const pattern: string = schema.pattern;
+      // Patterns are not anchored in JSON schema, so an unanchored pattern would allow any text
+      // around the match. Only anchored patterns, which describe the whole string, are supported.
+      if (!pattern.startsWith("^") || !pattern.endsWith("$")) {
+        throw new Error(`Only anchored patterns ("^...$") are supported at "${name}"`);
+      }
+      content = compileRegexToGbnfExpression(pattern, { anyChar: jsonStringAnyChar });
+    } else {
+      content = gbnfRepeat(this.addPrimitive("char"), schema.minLength ?? 0, schema.maxLength);
+    }
+    return this.rules.add(
+      name,
+      `"\\"" ${content.includes(" | ") ? `(${content})` : content} "\\"" space`,
+    );
+  }
+
+  private visitArray(schema: any, name: string) {
+    this.addPrimitive("space");
+    const prefixItems: Array<any> | undefined =
+      schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+    if (prefixItems !== undefined) {
+      // Tuples
+      const items = prefixItems.map((item, index) => this.visit(item, `${name}-${index}`));
+      const body = items.length === 0 ? "" : `${items.join(' "," space ')} `;
+      return this.rules.add(name, `"[" space ${body}"]" space`);
+    }
+    const item = this.visit(schema.items ?? {}, `${name}-item`);
+    const minItems: number = schema.minItems ?? 0;
+    const maxItems: number | undefined = schema.maxItems;
+    let body: string;
+    if (maxItems === 0) {
+      body = "";
+    } else {
+      const rest = gbnfRepeat(
+        `"," space ${item}`,
+        Math.max(minItems - 1, 0),
+        maxItems === undefined ? undefined : maxItems - 1,
+      );
+      const items = rest === '""' ? item : `${item} ${rest}`;
+      body = `${minItems === 0 ? gbnfRepeat(items, 0, 1) : items} `;
+    }
+    return this.rules.add(name, `"[" space ${body}"]" space`);
+  }
+
+  private visitObject(schema: any, name: string) {
+    this.addPrimitive("space");
+    const properties: Record<string, any> = schema.properties ?? {};
+    const required = new Set<string>(schema.required ?? []);
+    const additionalProperties = schema.additionalProperties;
+    if (Object.keys(properties).length === 0 && additionalProperties === undefined) {
+      return this.addPrimitive("object");
+    }
+
+    const keyValueRuleNames = new Map<string, string>();
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      const valueRuleName = this.visit(propertySchema, `${name}-${key}`);
+      keyValueRuleNames.set(
+        key,
+        this.rules.add(`${name}-${key}-kv`, `${this.jsonLiteral(key)} ":" space ${valueRuleName}`),
+      );
+    }
+    const requiredKeys = [...keyValueRuleNames.keys()].filter(key => required.has(key));
+    const optionalKeys = [...keyValueRuleNames.keys()].filter(key => !required.has(key));
+    if (additionalProperties !== undefined && additionalProperties !== false) {
+      // Additional properties are represented with the key "*", which can repeat.
+      const valueRuleName = this.visit(additionalProperties, `${name}-additional-value`);
+      keyValueRuleNames.set(
+        "*",
+        this.rules.add(
+          `${name}-additional-kv`,
+          `${this.addPrimitive("string")} ":" space ${valueRuleName}`,
+        ),
+      );
+      optionalKeys.push("*");
+    }
+
+    // Optional properties can be left out, so each of them may be the first one to be generated.
+    // The rest of the properties after one of them are generated by a chain of rules.
+    const getRecursiveRefs = (keys: Array<string>, isFirstOptional: boolean): string => {
+      const [key, ...rest] = keys;
+      const keyValueRuleName = keyValueRuleNames.get(key)!;
+      let result: string;
+      if (isFirstOptional) {
+        result = `("," space ${keyValueRuleName})${key === "*" ? "*" : "?"}`;
+      } else {
+        result = keyValueRuleName + (key === "*" ? ` ("," space ${keyValueRuleName})*` : "");
+      }
+      if (rest.length > 0) {
+        result += ` ${this.rules.add(`${name}-${key === "*" ? "additional" : key}-rest`, getRecursiveRefs(rest, true))}`;
+      }
+      return result;
+    };
+
+    const parts = ['"{" space'];
+    if (requiredKeys.length > 0) {
+      parts.push(requiredKeys.map(key => keyValueRuleNames.get(key)!).join(' "," space '));
+    }
+    if (optionalKeys.length > 0) {
+      const alternatives = optionalKeys
+        .map((_, index) => getRecursiveRefs(optionalKeys.slice(index), false))
+        .join(" | ");
+      parts.push(
+        gbnfRepeat(
+          requiredKeys.length > 0 ? `"," space ${gbnfGroup(alternatives)}` : alternatives,
+          0,
+          1,
+        ),
+      );
+    }
+    parts.push('"}" space');
+    return this.rules.add(name, parts.join(" "));
+  }
+}
+
+/**
+ * Compiles a JSON schema to a GBNF grammar that only allows JSON matching the schema. Useful for
+ * engines that only support grammars, or to inspect and adjust the grammar before using it.
+ *
+ * Supports `$ref` (to definitions in the same schema, including recursive ones), `enum`, `const`,
+ * `oneOf`, `anyOf`, `allOf` (of object schemas), `minLength`, `maxLength`, anchored `pattern`s,
+ * `minItems`, `maxItems`, tuples, `required` and `additionalProperties`. Other keywords, such as
+ * `minimum`, `maximum` and `format`, are ignored.
+ *
+ * ```ts
+ * const gbnfGrammar = jsonSchemaToGbnf({
+ *   type: "object",
+ *   properties: { name: { type: "string", maxLength: 20 } },
+ *   required: ["name"],
+ * });
+ * const prediction = model.respond("Make up a name", {
+ *   structured: { type: "gbnf", gbnfGrammar },
+ * });
+ * ```
+ *
+ * @public
+ */
+export function jsonSchemaToGbnf(jsonSchema: any): string {
+  const stack = getCurrentStack(1);
+  try {
+    const compiler = new JsonSchemaCompiler(jsonSchema);
+    const rootRuleName = compiler.visit(jsonSchema, "root");
+    if (rootRuleName !== "root") {
+      compiler.rules.add("root", rootRuleName);
+    }
+    return compiler.rules.format();
+  } catch (error: any) {
+    throw makeTitledPrettyError(
+      "Unsupported JSON schema",
+      text`
+        Failed to compile the JSON schema to GBNF: ${error.message}
+      `,
+      stack,
+    );
+  }
+}
+
+/**
+ * Compiles a zod schema to a GBNF grammar. The zod schema is first converted to a JSON schema, so
+ * the same limitations as {@link jsonSchemaToGbnf} apply. Refinements are not enforced by the
+ * grammar.
+ *
+ * @public
+ */
+export function zodToGbnf(zodSchema: ZodSchema): string {
+  return jsonSchemaToGbnf(zodToJsonSchema(zodSchema));
+}
@@ -0,0 +1,25 @@
+import { regexToGbnf } from "./regexToGbnf.js";
+
+describe("regexToGbnf", () => {
+  test("compiles classes, groups, alternations and quantifiers", () => {
+    expect(regexToGbnf(/^\d{4}-(0[1-9]|1[0-2])-\d\d$/)).toBe(
+      'root ::= [0-9]{4} "-" ("0" [1-9] | "1" [0-2]) "-" [0-9] [0-9]\n',
+    );
+    expect(regexToGbnf("(?:ab|c)+[^a-c\\]]x.*?")).toBe(
+      'root ::= ("ab" | "c")+ [^\\n\\r\\u2028\\u2029a-c\\]] "x" [^\\n\\r\\u2028\\u2029]*\n',
+    );
+  });
+
+  test("escapes characters that are special in GBNF", () => {
+    expect(regexToGbnf('say "\\\\" [\\^-]{2,}\\u00e9\\n')).toBe(
+      'root ::= "say \\"\\\\\\" " [\\x5E\\x2D]{2,} "é\\n"\n',
+    );
+  });
+
+  test("rejects features that cannot be expressed in GBNF", () => {
+    expect(() => regexToGbnf("a(?=b)")).toThrow("Lookarounds are not supported");
+    expect(() => regexToGbnf("(a)\\1")).toThrow("Backreferences are not supported");
+    expect(() => regexToGbnf("a$b")).toThrow("only supported at the start and the end");
+    expect(() => regexToGbnf(/yes|no/i)).toThrow('The "i" and "m" flags are not supported');
+  });
+});
@@ -0,0 +1,368 @@
+import { getCurrentStack, makeTitledPrettyError, text } from "@lmstudio/lms-common";
+import { z } from "zod";
+import { gbnfClassChar, gbnfLiteral, gbnfRepeat, GbnfRuleSet } from "./GbnfRuleSet.js";
+
+/**
+ * Options for compiling a regular expression to a GBNF expression.
+ */
+export interface RegexCompileOpts {
+  /**
+   * The expression used for `.` and negated character classes. Negated character classes exclude
+   * their characters from it, so it must be a character class.
+   */
+  anyChar: string;
+}
+
+const classEscapes: Record<string, string> = {
+  d: "0-9",
+  w: "a-zA-Z0-9_",
+  s: " \\t\\n\\r\\x0C\\x0B",
+};
+const charEscapes: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  f: "\f",
+  v: "\v",
+  0: "\0",
+};
+
+/**
+ * A recursive descent parser for JavaScript regular expressions that outputs GBNF expressions.
+ * Backreferences and lookarounds cannot be expressed in GBNF and are rejected.
+ */
+class RegexCompiler {
+  private index = 0;
+  private readonly chars: Array<string>;
+
+  public constructor(
+    pattern: string,
+    private readonly opts: RegexCompileOpts,
+  ) {
+    this.chars = [...pattern];
+  }
+
+  public compile() {
+    const expression = this.parseAlternation();
+    if (this.index < this.chars.length) {
+      throw this.error(`Unexpected "${this.chars[this.index]}"`);
+    }
+    return expression;
+  }
+
+  private error(message: string) {
+    return new Error(`${message} at position ${this.index} of the regular expression.`);
+  }
+
+  private peek(offset = 0) {
+    return this.chars[this.index + offset] as string | undefined;
+  }
+
+  private parseAlternation(): string {
+    const alternatives = [this.parseSequence()];
+    while (this.peek() === "|") {
+      this.index++;
+      alternatives.push(this.parseSequence());
+    }
+    return alternatives.length === 1 ? alternatives[0] : alternatives.join(" | ");
+  }
+
+  private parseSequence() {
+    const items: Array<string> = [];
+    // Consecutive literal characters are merged into one string literal.
+    let literal = "";
+    const flushLiteral = () => {
+      if (literal !== "") {
+        items.push(gbnfLiteral(literal));
+        literal = "";
+      }
+    };
+    while (this.index < this.chars.length && this.peek() !== "|" && this.peek() !== ")") {
+      const atom = this.parseAtom();
+      const quantifier = this.parseQuantifier();
+      if (atom.type === "literal" && quantifier === null) {
+        literal += atom.char;
+        continue;
+      }
+      flushLiteral();
+      const expression = atom.type === "literal" ? gbnfLiteral(atom.char) : atom.expression;
+      if (expression === "") {
+        if (quantifier !== null) {
+          throw this.error("Nothing to repeat");
+        }
+        continue;
+      }
+      if (quantifier !== null) {
+        items.push(gbnfRepeat(expression, quantifier.min, quantifier.max));
+      } else {
+        items.push(expression.includes(" | ") ? `(${expression})` : expression);
+      }
+    }
+    flushLiteral();
+    if (items.length === 0) {
+      return '""';
+    }
+    return items.join(" ");
+  }
+
+  private parseQuantifier(): { min: number; max: number | undefined } | null {
+    let quantifier: { min: number; max: number | undefined } | null = null;
+    const char = this.peek();
+    if (char === "*") {
+      quantifier = { min: 0, max: undefined };
+      this.index++;
+    } else if (char === "+") {
+      quantifier = { min: 1, max: undefined };
+      this.index++;
+    } else if (char === "?") {
+      quantifier = { min: 0, max: 1 };
+      this.index++;
+    } else if (char === "{") {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.chars.slice(this.index).join(""));
+      if (match === null) {
+        // Like in JavaScript, a brace that does not start a quantifier is a literal character.
+        return null;
+      }
+      const min = Number(match[1]);
+      const max = match[2] === undefined ? min : match[3] === "" ? undefined : Number(match[3]);
+      quantifier = { min, max };
+      this.index += match[0].length;
+    }
+    if (quantifier !== null && this.peek() === "?") {
+      // Lazy quantifiers match the same strings, so they are treated like greedy ones.
+      this.index++;
+    }
+    return quantifier;
+  }
+
+  private parseAtom():
+    | { type: "literal"; char: string }
+    | { type: "expression"; expression: string } {
+    const char = this.chars[this.index++];
+    switch (char) {
+      case "(":
+        return { type: "expression", expression: this.parseGroup() };
+      case "[":
+        return { type: "expression", expression: this.parseClass() };
+      case ".":
+        return { type: "expression", expression: this.opts.anyChar };
+      case "^":
+      case "$":
+        // The grammar always matches the whole output, so anchors at the start and the end do not
+        // change anything.
+        if (
+          (char === "^" && this.index !== 1) ||
+          (char === "$" && this.index !== this.chars.length)
+        ) {
+          throw this.error(`Anchors ("${char}") are only supported at the start and the end`);
+        }
+        return { type: "expression", expression: "" };
+      case "\\": {
+        const escaped = this.parseEscape();
+        if (escaped.type === "class") {
+          return {
+            type: "expression",
+            expression: escaped.negated ? this.negate(escaped.ranges) : `[${escaped.ranges}]`,
+          };
+        }
+        return { type: "literal", char: escaped.char };
+      }
+      case "*":
+      case "+":
+      case "?":
+        throw this.error("Nothing to repeat");
+      default:
+        return { type: "literal", char };
+    }
+  }
+
+  private parseGroup() {
+    if (this.peek() === "?") {
+      if (this.peek(1) === ":") {
+        this.index += 2;
+      } else if (this.peek(1) === "<" && this.peek(2) !== "=" && this.peek(2) !== "!") {
+        // Named capturing group
+        const end = this.chars.indexOf(">", this.index);
+        if (end === -1) {
+          throw this.error("Unterminated group name");
+        }
+        this.index = end + 1;
+      } else {
+        throw this.error("Lookarounds are not supported");
+      }
+    }
+    const expression = this.parseAlternation();
+    if (this.chars[this.index++] !== ")") {
+      throw this.error("Unterminated group");
+    }
+    return expression;
+  }
+
+  /**
+   * Parses an escape sequence after the backslash.
+   */
+  private parseEscape():
+    | { type: "char"; char: string }
+    | { type: "class"; ranges: string; negated: boolean } {
+    const char = this.chars[this.index++];
+    if (char === undefined) {
+      throw this.error("Incomplete escape sequence");
+    }
+    const lowerCase = char.toLowerCase();
+    if (lowerCase in classEscapes) {
+      return { type: "class", ranges: classEscapes[lowerCase], negated: char !== lowerCase };
+    }
+    if (char in charEscapes) {
+      return { type: "char", char: charEscapes[char] };
+    }
+    if (char === "x" || char === "u") {
+      let hex: string;
+      if (char === "u" && this.peek() === "{") {
+        const end = this.chars.indexOf("}", this.index);
+        hex = this.chars.slice(this.index + 1, end).join("");
+        this.index = end + 1;
+      } else {
+        const length = char === "x" ? 2 : 4;
+        hex = this.chars.slice(this.index, this.index + length).join("");
+        this.index += length;
+      }
+      if (!/^[0-9a-fA-F]+$/.test(hex)) {
+        throw this.error("Invalid hex escape sequence");
+      }
+      return { type: "char", char: String.fromCodePoint(parseInt(hex, 16)) };
+    }
+    if (/[1-9]/.test(char) || char === "k") {
+      throw this.error("Backreferences are not supported");
+    }
+    if (char === "b" || char === "B") {
+      throw this.error("Word boundaries are not supported");
+    }
+    return { type: "char", char };
+  }
+
+  private parseClass() {
+    const negated = this.peek() === "^";
+    if (negated) {
+      this.index++;
+    }
+    let ranges = "";
+    let first = true;
+    while (this.peek() !== "]" || first) {
+      first = false;
+      let char = this.chars[this.index++];
+      if (char === undefined) {
+        throw this.error("Unterminated character class");
+      }
+      if (char === "\\" && this.peek() === "b") {
+        // Inside of character classes, "\b" is a backspace.
+        this.index++;
+        char = "\b";
+      } else if (char === "\\") {
+        const escaped = this.parseEscape();
+        if (escaped.type === "class") {
+          if (escaped.negated) {
+            throw this.error("Negated escapes inside character classes are not supported");
+          }
+          ranges += escaped.ranges;
+          continue;
+        }
+        char = escaped.char;
+      }
+      if (this.peek() === "-" && this.peek(1) !== "]" && this.peek(1) !== undefined) {
+        this.index++;
+        let end = this.chars[this.index++];
+        if (end === "\\") {
+          const escaped = this.parseEscape();
+          if (escaped.type === "class") {
+            throw this.error("Invalid character class range");
+          }
+          end = escaped.char;
+        }
+        if (end.codePointAt(0)! < char.codePointAt(0)!) {
+          throw this.error("Character class range out of order");
+        }
+        ranges += `${gbnfClassChar(char)}-${gbnfClassChar(end)}`;
+      } else {
+        ranges += gbnfClassChar(char);
+      }
+    }
+    this.index++;
+    return negated ? this.negate(ranges) : `[${ranges}]`;
+  }
+
+  /**
+   * Creates a character class that matches the characters of `anyChar` except the given ranges.
+   */
+  private negate(ranges: string) {
+    const anyChar = this.opts.anyChar;
+    if (!anyChar.startsWith("[^") || !anyChar.endsWith("]")) {
+      throw new Error("anyChar must be a negated character class.");
+    }
+    return `[^${anyChar.slice(2, -1)}${ranges}]`;
+  }
+}
+
+/**
+ * Compiles the source of a JavaScript regular expression to a GBNF expression that matches the
+ * same strings.
+ */
+export function compileRegexToGbnfExpression(pattern: string, opts: RegexCompileOpts) {
+  return new RegexCompiler(pattern, opts).compile();
+}
+
+/**
+ * Compiles a regular expression to a GBNF grammar that only allows output that the regular
+ * expression matches in full.
+ *
+ * Most regular expression features are supported, including character classes, groups,
+ * alternations and quantifiers. Backreferences, lookarounds and word boundaries cannot be
+ * expressed in GBNF and cause an error, as do the `i` and `m` flags.
+ *
+ * ```ts
+ * const prediction = model.respond("What is the date today?", {
+ *   structured: { type: "gbnf", gbnfGrammar: regexToGbnf(/\d{4}-\d{2}-\d{2}/) },
+ * });
+ * ```
+ *
+ * For regular expressions, you can also use `structured: { type: "regex", pattern }`, which
+ * compiles the pattern for you.
+ *
+ * @public
+ */
+export function regexToGbnf(pattern: string | RegExp): string {
+  const stack = getCurrentStack(1);
+  let source: string;
+  let dotAll = false;
+  if (pattern instanceof RegExp) {
+    if (pattern.flags.includes("i") || pattern.flags.includes("m")) {
+      throw makeTitledPrettyError(
+        "Unsupported regular expression",
+        text`
+          The "i" and "m" flags are not supported when compiling a regular expression to GBNF.
+          Received: ${pattern}
+        `,
+        stack,
+      );
+    }
+    source = pattern.source;
+    dotAll = pattern.dotAll;
+  } else {
+    source = z.string().parse(pattern);
+  }
+  try {
+    const rules = new GbnfRuleSet();
+    const expression = compileRegexToGbnfExpression(source, {
+      anyChar: dotAll ? "[^\\U0010FFFF]" : "[^\\n\\r\\u2028\\u2029]",
+    });
+    rules.add("root", expression === "" ? '""' : expression);
+    return rules.format();
+  } catch (error: any) {
+    throw makeTitledPrettyError(
+      "Unsupported regular expression",
+      text`
+        Failed to compile the regular expression ${pattern} to GBNF: ${error.message}
+      `,
+      stack,
+    );
+  }
+}
@@ -1,3 +1,12 @@
+export { CassettePlayer, CassetteRecorder } from "@lmstudio/lms-communication-client";
+export type {
+  Cassette,
+  CassetteEvent,
+  CassetteInteraction,
+  CassetteInteractionType,
+  CassetteMatchOpts,
+  CassetteRequest,
+} from "@lmstudio/lms-communication-client";
 export type { BasicKVFieldValueTypeLibraryMap } from "@lmstudio/lms-kv-config";
 export type {
   DiagnosticsLogEvent,
@@ -8,6 +17,30 @@ export type {
 export { Chat, ChatMessage } from "./Chat.js";
 export type { ChatAppendOpts, ChatLike, ChatMessageLike } from "./Chat.js";
 export type { ChatInput, ChatMessageInput } from "./ChatInput.js";
+export { ChatTree } from "./ChatTree.js";
+export type { ChatTreeData, ChatTreeNodeData } from "./ChatTree.js";
+export type {
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicMessage,
+  AnthropicMessagesTranscript,
+  AnthropicTextBlock,
+  AnthropicToolResultBlock,
+  AnthropicToolUseBlock,
+  AnthropicUnsupportedBlock,
+} from "./chatFormats/anthropicChatFormat.js";
+export type { ChatFormatConversionOpts } from "./chatFormats/ChatFormatConversionOpts.js";
+export type {
+  GeminiContent,
+  GeminiContentsTranscript,
+  GeminiPart,
+} from "./chatFormats/geminiChatFormat.js";
+export type {
+  OpenAIChatMessage,
+  OpenAIImageContentPart,
+  OpenAITextContentPart,
+  OpenAIToolCall,
+} from "./chatFormats/openAIChatFormat.js";
 export {
   ConfigSchematics,
   configSchematicsBrand,
@@ -21,6 +54,15 @@ export {
 } from "./customConfig.js";
 export type { DiagnosticsNamespace } from "./diagnostics/DiagnosticsNamespace.js";
 export type { EmbeddingDynamicHandle } from "./embedding/EmbeddingDynamicHandle.js";
+export { EmbeddingIndex } from "./embedding/EmbeddingIndex.js";
+export type {
+  EmbeddingIndexData,
+  EmbeddingIndexDocument,
+  EmbeddingIndexEntryData,
+  EmbeddingIndexMetadata,
+  EmbeddingIndexSearchOpts,
+  EmbeddingIndexSearchResult,
+} from "./embedding/EmbeddingIndex.js";
 export type { EmbeddingModel } from "./embedding/EmbeddingModel.js";
 export type { EmbeddingNamespace } from "./embedding/EmbeddingNamespace.js";
 export { FileHandle } from "./files/FileHandle.js";
@@ -29,9 +71,23 @@ export type { ParseDocumentOpts } from "./files/ParseDocumentOpts.js";
 export type { ParseDocumentResult } from "./files/ParseDocumentResult.js";
 export type { RetrievalCallbacks, RetrievalOpts } from "./files/RetrievalOpts.js";
 export type { RetrievalResult, RetrievalResultEntry } from "./files/RetrievalResult.js";
+export { jsonSchemaToGbnf, zodToGbnf } from "./grammar/jsonSchemaToGbnf.js";
+export { regexToGbnf } from "./grammar/regexToGbnf.js";
 export type { GuardToolCallController, GuardToolCallResult, LLMActBaseOpts } from "./llm/act.js";
+export type { ActCheckpoint } from "./llm/ActCheckpoint.js";
 export type { ActResult } from "./llm/ActResult.js";
 export type { GeneratorPredictionResult } from "./llm/GeneratorPredictionResult.js";
+export {
+  dropOldestTurns,
+  dropStaleToolResults,
+  summarizeOldTurns,
+} from "./llm/historyCompactor.js";
+export type {
+  HistoryCompactionContext,
+  HistoryCompactionReport,
+  HistoryCompactionStrategy,
+  HistoryCompactor,
+} from "./llm/historyCompactor.js";
 export type { LLM } from "./llm/LLM.js";
 export type {
   LLMActionOpts,
@@ -46,13 +102,50 @@ export type {
   LLMGeneratorPredictionOpts,
 } from "./llm/LLMGeneratorHandle.js";
 export type { LLMNamespace } from "./llm/LLMNamespace.js";
+export { analyzeLogProbs } from "./llm/logProbAnalysis.js";
+export type {
+  LLMLogProbAnalysis,
+  LLMLogProbAnalysisOpts,
+  LLMLowConfidenceSpan,
+  LLMScoreContinuationOpts,
+  LLMTokenAnalysis,
+} from "./llm/logProbAnalysis.js";
 export type { OngoingGeneratorPrediction } from "./llm/OngoingGeneratorPrediction.js";
 export type { OngoingPrediction } from "./llm/OngoingPrediction.js";
+export type { DeepPartial } from "./llm/PartialJsonParser.js";
+export type {
+  LLMPredictionMiddleware,
+  LLMPredictionMiddlewareRequest,
+  LLMPredictionMiddlewareShortCircuit,
+} from "./llm/predictionMiddleware.js";
 export type {
   BasePredictionResult,
   PredictionResult,
   StructuredPredictionResult,
 } from "./llm/PredictionResult.js";
+export type {
+  LLMRespondBatchCache,
+  LLMRespondBatchItemFailure,
+  LLMRespondBatchItemResult,
+  LLMRespondBatchItemSuccess,
+  LLMRespondBatchOpts,
+  LLMRespondBatchResult,
+  LLMRespondBatchSummary,
+} from "./llm/respondBatch.js";
+export type {
+  LLMBestOfNCancelledCandidate,
+  LLMBestOfNCandidate,
+  LLMBestOfNFailedCandidate,
+  LLMBestOfNJudge,
+  LLMBestOfNSelector,
+  LLMBestOfNSuccessCandidate,
+  LLMRespondBestOfNOpts,
+  LLMRespondBestOfNResult,
+} from "./llm/respondBestOfN.js";
+export type {
+  StructuredOutputRepairFailure,
+  StructuredOutputRepairOpts,
+} from "./llm/structuredOutputRepair.js";
 export { rawFunctionTool, tool, unimplementedRawFunctionTool } from "./llm/tool.js";
 export type {
   FunctionTool,
@@ -61,6 +154,8 @@ export type {
   Tool,
   ToolBase,
   ToolCallContext,
+  ToolExecutionOpts,
+  ToolRetryPolicy,
   UnimplementedRawFunctionTool,
 } from "./llm/tool.js";
 export {
@@ -71,6 +166,21 @@ export {
 } from "./llm/ToolCallRequestError.js";
 export { LMStudioClient } from "./LMStudioClient.js";
 export type { LMStudioClientConstructorOpts } from "./LMStudioClient.js";
+export { ClientMetrics } from "./metrics/ClientMetrics.js";
+export { connectMcpServer } from "./mcp/McpSession.js";
+export { createMcpToolServer } from "./mcp/McpToolServer.js";
+export type {
+  McpToolServer,
+  McpToolServerListener,
+  McpToolServerListenOpts,
+  McpToolServerOpts,
+} from "./mcp/McpToolServer.js";
+export type {
+  ConnectMcpServerOpts,
+  McpServerInfo,
+  McpServerSpecifier,
+  McpSession,
+} from "./mcp/McpSession.js";
 export type { DynamicHandle } from "./modelShared/DynamicHandle.js";
 export type {
   BaseLoadModelOpts,
@@ -112,6 +222,18 @@ export type { PromptPreprocessor } from "./plugins/processing/PromptPreprocessor
 export type { ToolsProvider } from "./plugins/processing/ToolsProvider.js";
 export type { ToolsProviderController } from "./plugins/processing/ToolsProviderController.js";
 export type { RemoteToolUseSession } from "./plugins/ToolUseSession.js";
+export { diffRenderedPrompts } from "./promptTemplate/diffRenderedPrompts.js";
+export type {
+  LLMDiffPromptTemplateOpts,
+  LLMDiffPromptTemplateResult,
+  RenderedPromptDiff,
+  RenderedPromptDiffLine,
+} from "./promptTemplate/diffRenderedPrompts.js";
+export { renderPromptTemplate } from "./promptTemplate/renderPromptTemplate.js";
+export type {
+  RenderPromptTemplateCustomField,
+  RenderPromptTemplateOpts,
+} from "./promptTemplate/renderPromptTemplate.js";
 export type {
   ArtifactDownloadPlanner,
   ArtifactDownloadPlannerDownloadOpts,
@@ -151,3 +273,10 @@ export type {
   StartHttpServerOpts,
   SystemNamespace,
 } from "./system/SystemNamespace.js";
+export type {
+  LMStudioTracingOpts,
+  LocalTracingSpan,
+  OpenTelemetryApiLike,
+  OpenTelemetrySpanLike,
+  TracingAttributes,
+} from "./tracing/tracing.js";
@@ -0,0 +1,69 @@
+import {
+  chatHistoryDataSchema,
+  chatMessagePartFileDataSchema,
+  chatMessagePartToolCallResultDataSchema,
+  toolCallRequestSchema,
+  type ChatHistoryData,
+  type ChatMessagePartFileData,
+  type ChatMessagePartToolCallResultData,
+  type ToolCallRequest,
+} from "@lmstudio/lms-shared-types";
+import { z, type ZodSchema } from "zod";
+
+/**
+ * A snapshot of the state of an ongoing `.act` call. Checkpoints are emitted via the
+ * `onCheckpoint` callback and only contain plain data, thus can be serialized with
+ * `JSON.stringify`.
+ *
+ * Pass a checkpoint to `.act` via the `resumeFrom` option to continue the `.act` call from where
+ * the checkpoint was taken, for example, after the process running the agent has crashed.
+ *
+ * @public
+ * @experimental [EXP-ACT-CHECKPOINT] Checkpointing `.act` calls is experimental and may change in
+ * the future.
+ */
+export interface ActCheckpoint {
+  /**
+   * The chat history at the time of the checkpoint. This includes the chat passed into `.act` and
+   * all the messages generated so far.
+   */
+  history: ChatHistoryData;
+  /**
+   * The number of rounds that have been completed so far. If there are pending tool call requests,
+   * they belong to the next round, whose prediction is already included in `history`.
+   */
+  roundsPerformed: number;
+  /**
+   * Tool call requests from the last round that do not have results in `history` yet. When
+   * resuming from this checkpoint, these tool calls are executed again before the next prediction
+   * round starts, except for the ones in `completedToolCalls`.
+   */
+  pendingToolCallRequests: Array<ToolCallRequest>;
+  /**
+   * Results of the tool calls in `pendingToolCallRequests` that have already finished. They are
+   * added to `history` together with the results of the other tool calls once those finish.
+   */
+  completedToolCalls: Array<{
+    /**
+     * The index of the tool call request in `pendingToolCallRequests`.
+     */
+    requestIndex: number;
+    result: ChatMessagePartToolCallResultData;
+    /**
+     * Files returned by the tool implementation.
+     */
+    files: Array<ChatMessagePartFileData>;
+  }>;
+}
+export const actCheckpointSchema = z.object({
+  history: chatHistoryDataSchema,
+  roundsPerformed: z.number().int().min(0),
+  pendingToolCallRequests: z.array(toolCallRequestSchema),
+  completedToolCalls: z.array(
+    z.object({
+      requestIndex: z.number().int().min(0),
+      result: chatMessagePartToolCallResultDataSchema,
+      files: z.array(chatMessagePartFileDataSchema),
+    }),
+  ),
+}) satisfies ZodSchema<ActCheckpoint>;
@@ -10,8 +10,12 @@ import {
   type ModelCompatibilityType,
   type ModelSpecifier,
 } from "@lmstudio/lms-shared-types";
+import { type FilesNamespace } from "../files/FilesNamespace.js";
+import { type ClientMetrics } from "../metrics/ClientMetrics.js";
 import { type SpecificModel } from "../modelShared/SpecificModel.js";
+import { type Tracer } from "../tracing/tracing.js";
 import { LLMDynamicHandle } from "./LLMDynamicHandle.js";
+import { type LLMPredictionMiddleware } from "./predictionMiddleware.js";
 
 /**
  * Represents a specific loaded LLM. Most LLM related operations are inherited from
@@ -55,12 +59,25 @@ export class LLM
     info: LLMInstanceInfo,
     validator: Validator,
     logger: SimpleLogger = new SimpleLogger(`LLM`),
+    filesNamespace?: FilesNamespace,
+    namespaceMiddlewares?: ReadonlyArray<LLMPredictionMiddleware>,
+    tracer?: Tracer | null,
+    metrics?: ClientMetrics | null,
   ) {
     const specifier: ModelSpecifier = {
       type: "instanceReference",
       instanceReference: info.instanceReference,
     };
-    super(llmPort, specifier, validator, logger);
+    super(
+      llmPort,
+      specifier,
+      validator,
+      logger,
+      filesNamespace,
+      namespaceMiddlewares,
+      tracer,
+      metrics,
+    );
     this.identifier = info.identifier;
     this.path = info.path;
     this.modelKey = info.modelKey;
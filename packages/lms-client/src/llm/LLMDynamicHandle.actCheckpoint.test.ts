@@ -0,0 +1,185 @@
+import { createFakeLLMPort } from "@lmstudio/lms-communication-mock";
+import { type ChatHistoryData } from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { type ActCheckpoint } from "./ActCheckpoint.js";
+import { tool } from "./tool.js";
+
+/**
+ * Creates a handle whose predict channel requests the `lookup_order` tool for every order whenever
+ * the last message in the history is a user message, and answers with text otherwise.
+ */
+function createHandleHarness(orderIds = ["A1"]) {
+  const capturedHistories = new Array<ChatHistoryData>();
+  const llmPort = createFakeLLMPort({
+    onPredict: channel => {
+      const { history } = channel.creationParameter;
+      capturedHistories.push(history);
+      if (history.messages.at(-1)?.role === "user") {
+        orderIds.forEach((orderId, index) => {
+          channel.sendToolCall({
+            id: `call_${index}`,
+            type: "function",
+            name: "lookup_order",
+            arguments: { orderId },
+          });
+        });
+      } else {
+        channel.sendFragment("Shipped.");
+      }
+      channel.sendSuccess();
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  return { handle: client.llm.createDynamicHandle("test-model"), capturedHistories };
+}
+
+/**
+ * Creates the `lookup_order` tool. Looking up one of the `stuckOrderIds` never finishes unless the
+ * tool call is aborted.
+ */
+function createLookupOrderTool(calls: Array<string>, stuckOrderIds: Array<string> = []) {
+  return tool({
+    name: "lookup_order",
+    description: "Look up an order",
+    parameters: { orderId: z.string() },
+    implementation: async ({ orderId }, { signal }) => {
+      calls.push(orderId);
+      if (stuckOrderIds.includes(orderId)) {
+        await new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        });
+      }
+      return { orderId, status: "shipped" };
+    },
+  });
+}
+
+describe("LLMDynamicHandle act checkpoints", () => {
+  test("emits serializable checkpoints during and after every round", async () => {
+    const harness = createHandleHarness();
+    const checkpoints = new Array<ActCheckpoint>();
+
+    const result = await harness.handle.act("Where is order A1?", [createLookupOrderTool([])], {
+      onCheckpoint: checkpoint => checkpoints.push(JSON.parse(JSON.stringify(checkpoint))),
+    });
+
+    expect(result.rounds).toBe(2);
+    expect(
+      checkpoints.map(checkpoint => ({
+        roundsPerformed: checkpoint.roundsPerformed,
+        roles: checkpoint.history.messages.map(message => message.role),
+        pending: checkpoint.pendingToolCallRequests.map(request => request.name),
+        completed: checkpoint.completedToolCalls.length,
+      })),
+    ).toEqual([
+      { roundsPerformed: 0, roles: ["user", "assistant"], pending: ["lookup_order"], completed: 0 },
+      { roundsPerformed: 0, roles: ["user", "assistant"], pending: ["lookup_order"], completed: 1 },
+      { roundsPerformed: 1, roles: ["user", "assistant", "tool"], pending: [], completed: 0 },
+      {
+        roundsPerformed: 2,
+        roles: ["user", "assistant", "tool", "assistant"],
+        pending: [],
+        completed: 0,
+      },
+    ]);
+  });
+
+  test("resuming re-runs pending tool calls without predicting them again", async () => {
+    const firstHarness = createHandleHarness();
+    const checkpoints = new Array<ActCheckpoint>();
+    await firstHarness.handle.act("Where is order A1?", [createLookupOrderTool([])], {
+      onCheckpoint: checkpoint => checkpoints.push(checkpoint),
+    });
+
+    const harness = createHandleHarness();
+    const calls = new Array<string>();
+    const result = await harness.handle.act("ignored", [createLookupOrderTool(calls)], {
+      resumeFrom: checkpoints[0],
+    });
+
+    expect(calls).toEqual(["A1"]);
+    expect(result.rounds).toBe(2);
+    expect(harness.capturedHistories).toHaveLength(1);
+    expect(harness.capturedHistories[0].messages.map(message => message.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+    ]);
+    expect(harness.capturedHistories[0].messages[0].content).toEqual([
+      { type: "text", text: "Where is order A1?" },
+    ]);
+  });
+
+  test("resuming from the end of a round continues with the next prediction", async () => {
+    const firstHarness = createHandleHarness();
+    const checkpoints = new Array<ActCheckpoint>();
+    await firstHarness.handle.act("Where is order A1?", [createLookupOrderTool([])], {
+      onCheckpoint: checkpoint => checkpoints.push(checkpoint),
+    });
+
+    const harness = createHandleHarness();
+    const calls = new Array<string>();
+    const result = await harness.handle.act("ignored", [createLookupOrderTool(calls)], {
+      resumeFrom: checkpoints[1],
+    });
+
+    expect(calls).toEqual([]);
+    expect(result.rounds).toBe(2);
+    expect(harness.capturedHistories).toHaveLength(1);
+  });
+
+  test("resuming does not run tool calls that finished before the interruption again", async () => {
+    const firstHarness = createHandleHarness(["A1", "B2"]);
+    const abortController = new AbortController();
+    let interruptedCheckpoint: ActCheckpoint | undefined;
+    await expect(
+      firstHarness.handle.act("Where are orders A1 and B2?", [createLookupOrderTool([], ["B2"])], {
+        signal: abortController.signal,
+        allowParallelToolExecution: true,
+        onCheckpoint: checkpoint => {
+          if (checkpoint.completedToolCalls.length === 1) {
+            interruptedCheckpoint = JSON.parse(JSON.stringify(checkpoint));
+            abortController.abort(new Error("Interrupted"));
+          }
+        },
+      }),
+    ).rejects.toThrow("Interrupted");
+    expect(interruptedCheckpoint).toMatchObject({
+      roundsPerformed: 0,
+      pendingToolCallRequests: [{ id: "call_0" }, { id: "call_1" }],
+      completedToolCalls: [{ requestIndex: 0, result: { toolCallId: "call_0" }, files: [] }],
+    });
+
+    const harness = createHandleHarness(["A1", "B2"]);
+    const calls = new Array<string>();
+    const result = await harness.handle.act("ignored", [createLookupOrderTool(calls)], {
+      resumeFrom: interruptedCheckpoint,
+    });
+
+    expect(calls).toEqual(["B2"]);
+    expect(result.rounds).toBe(2);
+    expect(harness.capturedHistories).toHaveLength(1);
+    expect(harness.capturedHistories[0].messages.at(-1)?.content).toMatchObject([
+      { type: "toolCallResult", toolCallId: "call_0" },
+      { type: "toolCallResult", toolCallId: "call_1" },
+    ]);
+  });
+
+  test("resuming after the last allowed round returns right away", async () => {
+    const firstHarness = createHandleHarness();
+    const checkpoints = new Array<ActCheckpoint>();
+    await firstHarness.handle.act("Where is order A1?", [createLookupOrderTool([])], {
+      onCheckpoint: checkpoint => checkpoints.push(checkpoint),
+    });
+
+    const harness = createHandleHarness();
+    const result = await harness.handle.act("ignored", [createLookupOrderTool([])], {
+      resumeFrom: checkpoints.at(-1),
+      maxPredictionRounds: 2,
+    });
+
+    expect(result.rounds).toBe(2);
+    expect(harness.capturedHistories).toHaveLength(0);
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  createFakeLLMPort,
+  type FakeLLMCompleteRawTextChannel,
+  type FakeLLMPredictChannel,
+} from "@lmstudio/lms-communication-mock";
+import { collapseKVStack, globalConfigSchematics } from "@lmstudio/lms-kv-config";
+import { type KVConfigStack } from "@lmstudio/lms-shared-types";
+import { LMStudioClient } from "../LMStudioClient.js";
+
+/**
+ * Creates a handle whose tokenizer maps every character to its char code and whose predictions
+ * finish immediately.
+ */
+function createHandleHarness() {
+  const capturedStacks = new Array<KVConfigStack>();
+  const tokenizedStrings = new Array<string>();
+  const finishPrediction = (channel: FakeLLMPredictChannel | FakeLLMCompleteRawTextChannel) => {
+    capturedStacks.push(channel.creationParameter.predictionConfigStack);
+    channel.sendSuccess();
+  };
+  const llmPort = createFakeLLMPort({
+    onPredict: finishPrediction,
+    onCompleteRawText: finishPrediction,
+    tokenize: inputString => {
+      tokenizedStrings.push(inputString);
+      return [...inputString].map(char => char.charCodeAt(0));
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  return {
+    handle: client.llm.createDynamicHandle("test-model"),
+    capturedStacks,
+    tokenizedStrings,
+  };
+}
+
+function getLogitBias(stack: KVConfigStack | undefined) {
+  if (stack === undefined) {
+    throw new Error("Expected a prediction config stack.");
+  }
+  return globalConfigSchematics.access(collapseKVStack(stack), "llm.prediction.llama.logitBias");
+}
+
+describe("LLMDynamicHandle logit bias", () => {
+  test("respond tokenizes string tokens before predicting", async () => {
+    const harness = createHandleHarness();
+
+    await harness.handle.respond("Hello", {
+      logitBias: [
+        ["ab", "-inf"],
+        [7, 1.5],
+      ],
+    });
+
+    expect(harness.tokenizedStrings).toEqual(["ab"]);
+    expect(getLogitBias(harness.capturedStacks[0])).toEqual([
+      [97, "-inf"],
+      [98, "-inf"],
+      [7, 1.5],
+    ]);
+  });
+
+  test("complete does not tokenize when all tokens are IDs", async () => {
+    const harness = createHandleHarness();
+
+    await harness.handle.complete("Hello", { logitBias: [[7, 1.5]] });
+
+    expect(harness.tokenizedStrings).toEqual([]);
+    expect(getLogitBias(harness.capturedStacks[0])).toEqual([[7, 1.5]]);
+  });
+
+  test("complete fails when the prediction cannot be started after tokenizing", async () => {
+    const harness = createHandleHarness();
+
+    await expect(
+      harness.handle.complete("Hello", {
+        logitBias: [["ab", "-inf"]],
+        structured: { type: "regex", pattern: "(a" },
+      }),
+    ).rejects.toThrow("Unterminated group");
+    expect(harness.tokenizedStrings).toEqual(["ab"]);
+    expect(harness.capturedStacks).toEqual([]);
+  });
+});
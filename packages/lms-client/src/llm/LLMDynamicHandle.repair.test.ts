@@ -0,0 +1,91 @@
+import { createFakeLLMPort } from "@lmstudio/lms-communication-mock";
+import { type ChatHistoryData } from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { LMStudioClient } from "../LMStudioClient.js";
+
+/**
+ * Creates a handle whose predict channel responds with the given responses in order, each streamed
+ * as two fragments.
+ */
+function createHandleHarness(responses: Array<string>) {
+  const capturedHistories = new Array<ChatHistoryData>();
+  const llmPort = createFakeLLMPort({
+    onPredict: channel => {
+      const response = responses[capturedHistories.length];
+      capturedHistories.push(channel.creationParameter.history);
+      const middle = Math.floor(response.length / 2);
+      channel.sendFragment(response.slice(0, middle));
+      channel.sendFragment(response.slice(middle));
+      channel.sendSuccess();
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  return { handle: client.llm.createDynamicHandle("test-model"), capturedHistories };
+}
+
+function getTexts(history: ChatHistoryData) {
+  return history.messages.map(message =>
+    message.content.map(part => (part.type === "text" ? part.text : "")).join(""),
+  );
+}
+
+const evenNumberSchema = z.object({
+  value: z.number().refine(value => value % 2 === 0, "Must be even"),
+});
+
+describe("LLMDynamicHandle structured output repair", () => {
+  test("asks the model again with the validation errors", async () => {
+    const harness = createHandleHarness(['{"value": 3}', '{"value": "4"}', '{"value": 4}']);
+
+    const prediction = harness.handle.respond("Give me an even number", {
+      structured: evenNumberSchema,
+      repair: { maxAttempts: 3 },
+    });
+    const partialObjects: Array<unknown> = [];
+    for await (const partialObject of prediction.partialObjects()) {
+      partialObjects.push(partialObject);
+    }
+    const result = await prediction;
+
+    expect(result.parsed).toEqual({ value: 4 });
+    expect(result.content).toBe('{"value": 4}');
+    expect(result.repairRounds).toBe(2);
+    expect(result.repairFailures.map(failure => failure.content)).toEqual([
+      '{"value": 3}',
+      '{"value": "4"}',
+    ]);
+    expect(partialObjects.at(-1)).toEqual({ value: 4 });
+
+    expect(harness.capturedHistories).toHaveLength(3);
+    const [, secondRoundTexts, thirdRoundTexts] = harness.capturedHistories.map(getTexts);
+    expect(secondRoundTexts.slice(0, 2)).toEqual(["Give me an even number", '{"value": 3}']);
+    expect(secondRoundTexts[2]).toContain("- value: Must be even");
+    expect(thirdRoundTexts[3]).toBe('{"value": "4"}');
+    expect(thirdRoundTexts[4]).toContain("- value: Expected number, received string");
+  });
+
+  test("fails with the last error when the attempts run out", async () => {
+    const harness = createHandleHarness(['{"value": 3}', "{"]);
+
+    await expect(
+      harness.handle.respond("Give me an even number", {
+        structured: evenNumberSchema,
+        repair: { maxAttempts: 1 },
+      }),
+    ).rejects.toThrow('Failed to parse structured output: "{"');
+    expect(harness.capturedHistories).toHaveLength(2);
+  });
+
+  test("does not ask again when the first response is valid", async () => {
+    const harness = createHandleHarness(['{"value": 2}']);
+
+    const result = await harness.handle.respond("Give me an even number", {
+      structured: evenNumberSchema,
+      repair: { maxAttempts: 3 },
+    });
+
+    expect(result.repairRounds).toBe(0);
+    expect(result.repairFailures).toEqual([]);
+    expect(harness.capturedHistories).toHaveLength(1);
+  });
+});
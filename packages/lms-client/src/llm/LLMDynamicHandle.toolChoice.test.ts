@@ -0,0 +1,102 @@
+import { createFakeLLMPort } from "@lmstudio/lms-communication-mock";
+import { collapseKVStack, globalConfigSchematics } from "@lmstudio/lms-kv-config";
+import { type KVConfigStack } from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { tool } from "./tool.js";
+
+/**
+ * Creates a handle whose predict channel requests the `lookup_order` tool on the first round and
+ * finishes without tool calls on every subsequent round.
+ */
+function createHandleHarness() {
+  const capturedStacks = new Array<KVConfigStack>();
+  const llmPort = createFakeLLMPort({
+    onPredict: channel => {
+      const roundIndex = capturedStacks.length;
+      capturedStacks.push(channel.creationParameter.predictionConfigStack);
+      if (roundIndex === 0) {
+        channel.sendToolCall({
+          id: "call_0",
+          type: "function",
+          name: "lookup_order",
+          arguments: { orderId: "A1" },
+        });
+      }
+      channel.sendSuccess();
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  const handle = client.llm.createDynamicHandle("test-model");
+  return { handle, capturedStacks };
+}
+
+function getToolChoice(stack: KVConfigStack | undefined) {
+  if (stack === undefined) {
+    throw new Error("Expected a prediction config stack.");
+  }
+  return globalConfigSchematics.access(collapseKVStack(stack), "llm.prediction.toolChoice");
+}
+
+const lookupOrderTool = tool({
+  name: "lookup_order",
+  description: "Look up an order",
+  parameters: { orderId: z.string() },
+  implementation: ({ orderId }) => ({ orderId, status: "shipped" }),
+});
+
+describe("LLMDynamicHandle forced tool choice", () => {
+  test("act forces the named tool only for the first round", async () => {
+    const harness = createHandleHarness();
+
+    const result = await harness.handle.act("Where is order A1?", [lookupOrderTool], {
+      toolChoice: { type: "function", name: "lookup_order" },
+    });
+
+    expect(result.rounds).toBe(2);
+    expect(getToolChoice(harness.capturedStacks[0])).toEqual({
+      type: "function",
+      name: "lookup_order",
+    });
+    expect(getToolChoice(harness.capturedStacks[1])).toEqual({ type: "generic", mode: "auto" });
+  });
+
+  test("act rejects forcing a tool that is not provided", async () => {
+    const harness = createHandleHarness();
+
+    await expect(
+      harness.handle.act("Where is order A1?", [lookupOrderTool], {
+        toolChoice: { type: "function", name: "cancel_order" },
+      }),
+    ).rejects.toThrow('Cannot force the model to use tool "cancel_order"');
+    expect(harness.capturedStacks).toEqual([]);
+  });
+
+  test("respond passes the named tool choice along with rawTools", async () => {
+    const harness = createHandleHarness();
+
+    await harness.handle.respond("Where is order A1?", {
+      rawTools: {
+        type: "toolArray",
+        tools: [{ type: "function", function: { name: "lookup_order" } }],
+      },
+      toolChoice: { type: "function", name: "lookup_order" },
+    });
+
+    expect(getToolChoice(harness.capturedStacks[0])).toEqual({
+      type: "function",
+      name: "lookup_order",
+    });
+  });
+
+  test("respond rejects forcing a tool that is missing from rawTools", () => {
+    const harness = createHandleHarness();
+
+    expect(() =>
+      harness.handle.respond("Where is order A1?", {
+        toolChoice: { type: "function", name: "lookup_order" },
+      }),
+    ).toThrow('`toolChoice` forces the tool "lookup_order"');
+    expect(harness.capturedStacks).toEqual([]);
+  });
+});
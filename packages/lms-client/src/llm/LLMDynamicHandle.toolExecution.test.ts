@@ -0,0 +1,216 @@
+import { createFakeLLMPort } from "@lmstudio/lms-communication-mock";
+import { z } from "zod";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { ConcurrencyLimiter } from "./act.js";
+import { tool } from "./tool.js";
+
+/**
+ * Creates a handle whose predict channel requests the `fetch_page` tool `callCount` times on the
+ * first round and finishes without tool calls on every subsequent round.
+ */
+function createHandleHarness(callCount = 1) {
+  let roundIndex = 0;
+  const llmPort = createFakeLLMPort({
+    onPredict: channel => {
+      if (roundIndex++ === 0) {
+        for (let index = 0; index < callCount; index++) {
+          channel.sendToolCall({
+            id: `call_${index}`,
+            type: "function",
+            name: "fetch_page",
+            arguments: { url: `https://example.com/${index}` },
+          });
+        }
+      }
+      channel.sendSuccess();
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  return client.llm.createDynamicHandle("test-model");
+}
+
+describe("LLMDynamicHandle tool execution options", () => {
+  test("timed out tool calls are aborted and reported to the model", async () => {
+    const handle = createHandleHarness();
+    let abortReason: unknown;
+    const fetchPageTool = tool({
+      name: "fetch_page",
+      description: "Fetch a page",
+      parameters: { url: z.string() },
+      timeoutMs: 20,
+      implementation: (_params, { signal }) =>
+        new Promise(() => {
+          signal.addEventListener("abort", () => {
+            abortReason = signal.reason;
+          });
+        }),
+    });
+    const results = new Array<string>();
+
+    const result = await handle.act("Fetch the page", [fetchPageTool], {
+      onToolCallResult: (_roundIndex, _callId, toolCallResult) =>
+        results.push(toolCallResult.content),
+    });
+
+    expect(result.rounds).toBe(2);
+    expect(results).toEqual([
+      JSON.stringify({ error: 'Tool "fetch_page" did not finish within 20 ms.' }),
+    ]);
+    expect(abortReason).toBeInstanceOf(Error);
+  });
+
+  test("thrown errors are retried according to the retry policy", async () => {
+    const handle = createHandleHarness();
+    let attempts = 0;
+    const fetchPageTool = tool({
+      name: "fetch_page",
+      description: "Fetch a page",
+      parameters: { url: z.string() },
+      retry: { maxRetries: 2, delayMs: 0 },
+      implementation: () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error("Connection reset");
+        }
+        return "<html></html>";
+      },
+    });
+    const results = new Array<string>();
+
+    await handle.act("Fetch the page", [fetchPageTool], {
+      onToolCallResult: (_roundIndex, _callId, toolCallResult) =>
+        results.push(toolCallResult.content),
+    });
+
+    expect(attempts).toBe(3);
+    expect(results).toEqual([JSON.stringify("<html></html>")]);
+  });
+
+  test("the act call fails once the retries are exhausted", async () => {
+    const handle = createHandleHarness();
+    let attempts = 0;
+    const fetchPageTool = tool({
+      name: "fetch_page",
+      description: "Fetch a page",
+      parameters: { url: z.string() },
+      retry: { maxRetries: 1, delayMs: 0, shouldRetry: error => error instanceof Error },
+      implementation: () => {
+        attempts++;
+        throw new Error("Connection reset");
+      },
+    });
+
+    await expect(handle.act("Fetch the page", [fetchPageTool])).rejects.toThrow("Connection reset");
+    expect(attempts).toBe(2);
+  });
+
+  test("timed out attempts are only retried if retryOnTimeout is set", async () => {
+    for (const retryOnTimeout of [false, true]) {
+      const handle = createHandleHarness();
+      let attempts = 0;
+      const fetchPageTool = tool({
+        name: "fetch_page",
+        description: "Fetch a page",
+        parameters: { url: z.string() },
+        timeoutMs: 20,
+        retry: { maxRetries: 1, delayMs: 0, retryOnTimeout },
+        implementation: () => {
+          attempts++;
+          return attempts < 2 ? new Promise<string>(() => {}) : "<html></html>";
+        },
+      });
+      const results = new Array<string>();
+
+      await handle.act("Fetch the page", [fetchPageTool], {
+        onToolCallResult: (_roundIndex, _callId, toolCallResult) =>
+          results.push(toolCallResult.content),
+      });
+
+      expect(attempts).toBe(retryOnTimeout ? 2 : 1);
+      expect(results).toEqual([
+        retryOnTimeout
+          ? JSON.stringify("<html></html>")
+          : JSON.stringify({ error: 'Tool "fetch_page" did not finish within 20 ms.' }),
+      ]);
+    }
+  });
+
+  test("maxConcurrency limits parallel calls of the same tool", async () => {
+    const handle = createHandleHarness(4);
+    let running = 0;
+    let maxRunning = 0;
+    const fetchPageTool = tool({
+      name: "fetch_page",
+      description: "Fetch a page",
+      parameters: { url: z.string() },
+      maxConcurrency: 2,
+      implementation: async ({ url }) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return url;
+      },
+    });
+    const results = new Array<string>();
+
+    await handle.act("Fetch the pages", [fetchPageTool], {
+      allowParallelToolExecution: true,
+      onToolCallResult: (_roundIndex, _callId, toolCallResult) =>
+        results.push(toolCallResult.content),
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(results).toHaveLength(4);
+  });
+  test("timed out calls count towards maxConcurrency until they settle", async () => {
+    const handle = createHandleHarness(2);
+    let running = 0;
+    let maxRunning = 0;
+    const fetchPageTool = tool({
+      name: "fetch_page",
+      description: "Fetch a page",
+      parameters: { url: z.string() },
+      timeoutMs: 10,
+      maxConcurrency: 1,
+      implementation: async ({ url }) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        // Ignores the abort signal and keeps running after the timeout.
+        await new Promise(resolve => setTimeout(resolve, 40));
+        running--;
+        return url;
+      },
+    });
+
+    await handle.act("Fetch the pages", [fetchPageTool], { allowParallelToolExecution: true });
+
+    expect(maxRunning).toBe(1);
+  });
+});
+
+describe("ConcurrencyLimiter", () => {
+  test("hands a released slot to the waiter even if another caller acquires in the same tick", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const signal = new AbortController().signal;
+    const acquired = new Array<string>();
+    const releaseFirst = await limiter.acquire(signal);
+    const second = limiter.acquire(signal).then(release => {
+      acquired.push("second");
+      return release;
+    });
+
+    releaseFirst();
+    const third = limiter.acquire(signal).then(release => {
+      acquired.push("third");
+      return release;
+    });
+    const releaseSecond = await second;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(acquired).toEqual(["second"]);
+
+    releaseSecond();
+    (await third)();
+    expect(acquired).toEqual(["second", "third"]);
+  });
+});
@@ -0,0 +1,181 @@
+import { SimpleLogger, Validator } from "@lmstudio/lms-common";
+import { createFakeLLMPort, silentLogger } from "@lmstudio/lms-communication-mock";
+import { type ChatHistoryData } from "@lmstudio/lms-shared-types";
+import { type ChatMessage } from "../Chat.js";
+import { FileHandle } from "../files/FileHandle.js";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { LLMDynamicHandle } from "./LLMDynamicHandle.js";
+import { tool } from "./tool.js";
+
+const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+/**
+ * Creates a port whose predict channel calls the `screenshot` tool on the first round and finishes
+ * without tool calls on every subsequent round.
+ */
+function createScreenshotPort(capturedHistories: Array<ChatHistoryData>) {
+  return createFakeLLMPort({
+    onPredict: channel => {
+      const roundIndex = capturedHistories.length;
+      capturedHistories.push(channel.creationParameter.history);
+      if (roundIndex === 0) {
+        channel.sendToolCall({ id: "call_0", type: "function", name: "screenshot", arguments: {} });
+      }
+      channel.sendSuccess();
+    },
+  });
+}
+
+/**
+ * Creates a handle on a client whose file uploads are recorded and answered with base64 file
+ * handles.
+ */
+function createHandleHarness() {
+  const capturedHistories = new Array<ChatHistoryData>();
+  const client = new LMStudioClient({
+    disableConnection: true,
+    llmPort: createScreenshotPort(capturedHistories),
+    logger: silentLogger,
+  });
+  const uploads = new Array<{ fileName: string; contentBase64: string }>();
+  jest
+    .spyOn(client.files, "prepareImageBase64")
+    .mockImplementation(async (fileName, contentBase64) => {
+      uploads.push({ fileName, contentBase64 });
+      return new FileHandle(
+        client.files,
+        `base64:upload-${uploads.length}`,
+        "image",
+        contentBase64.length,
+        fileName,
+      );
+    });
+  const handle = client.llm.createDynamicHandle("test-model");
+  return { client, handle, capturedHistories, uploads };
+}
+
+describe("LLMDynamicHandle tool results with files", () => {
+  test("image buffers are uploaded and attached to the tool message", async () => {
+    const harness = createHandleHarness();
+    const screenshotTool = tool({
+      name: "screenshot",
+      description: "Take a screenshot",
+      parameters: {},
+      implementation: () => [{ width: 1, height: 1 }, pngBytes],
+    });
+    const messages = new Array<ChatMessage>();
+    const results = new Array<string>();
+
+    await harness.handle.act("Take a screenshot", [screenshotTool], {
+      onMessage: message => messages.push(message),
+      onToolCallResult: (_roundIndex, _callId, result) => results.push(result.content),
+    });
+
+    expect(harness.uploads).toEqual([
+      { fileName: "screenshot-0.png", contentBase64: Buffer.from(pngBytes).toString("base64") },
+    ]);
+    expect(results).toEqual([JSON.stringify({ width: 1, height: 1 })]);
+    expect(harness.capturedHistories[1].messages[2]).toEqual({
+      role: "tool",
+      content: [
+        {
+          type: "toolCallResult",
+          toolCallId: "call_0",
+          name: "screenshot",
+          content: JSON.stringify({ width: 1, height: 1 }),
+        },
+        {
+          type: "file",
+          name: "screenshot-0.png",
+          identifier: "base64:upload-1",
+          sizeBytes: harness.uploads[0].contentBase64.length,
+          fileType: "image",
+        },
+      ],
+    });
+    const [resultWithFiles] = messages[1].getToolCallResultsWithFiles(harness.client);
+    expect(resultWithFiles.files.map(file => file.name)).toEqual(["screenshot-0.png"]);
+  });
+
+  test("file handles are attached without uploading", async () => {
+    const harness = createHandleHarness();
+    const existingFile = new FileHandle(
+      harness.client.files,
+      "local:chart.png",
+      "image",
+      42,
+      "chart.png",
+    );
+    const screenshotTool = tool({
+      name: "screenshot",
+      description: "Take a screenshot",
+      parameters: {},
+      implementation: () => existingFile,
+    });
+
+    await harness.handle.act("Take a screenshot", [screenshotTool]);
+
+    expect(harness.uploads).toEqual([]);
+    expect(harness.capturedHistories[1].messages[2].content).toEqual([
+      {
+        type: "toolCallResult",
+        toolCallId: "call_0",
+        name: "screenshot",
+        content: JSON.stringify({ attachedFiles: ["chart.png"] }),
+      },
+      {
+        type: "file",
+        name: "chart.png",
+        identifier: "local:chart.png",
+        sizeBytes: 42,
+        fileType: "image",
+      },
+    ]);
+  });
+
+  test("buffers that are not supported images are reported to the model as errors", async () => {
+    const harness = createHandleHarness();
+    const screenshotTool = tool({
+      name: "screenshot",
+      description: "Take a screenshot",
+      parameters: {},
+      implementation: () => new Uint8Array([0x42, 0x4d, 0x00, 0x00]),
+    });
+    const results = new Array<string>();
+
+    const result = await harness.handle.act("Take a screenshot", [screenshotTool], {
+      onToolCallResult: (_roundIndex, _callId, toolCallResult) =>
+        results.push(toolCallResult.content),
+    });
+
+    expect(result.rounds).toBe(2);
+    expect(harness.uploads).toEqual([]);
+    expect(results).toEqual([
+      JSON.stringify({
+        error:
+          "Tool screenshot returned a buffer that is not a supported image. Only PNG, JPEG, GIF " +
+          "and WebP images are supported.",
+      }),
+    ]);
+  });
+
+  test("image buffers fail the act call when they cannot be uploaded", async () => {
+    // Handles created outside of a client have no files namespace to upload to.
+    const handle = new LLMDynamicHandle(
+      createScreenshotPort([]),
+      { type: "instanceReference", instanceReference: "test-instance" },
+      new Validator(),
+      new SimpleLogger("toolResultFilesTest"),
+    );
+    const screenshotTool = tool({
+      name: "screenshot",
+      description: "Take a screenshot",
+      parameters: {},
+      implementation: () => pngBytes,
+    });
+
+    await expect(handle.act("Take a screenshot", [screenshotTool])).rejects.toThrow(
+      "Tool screenshot returned an image buffer, which is not supported here",
+    );
+  });
+});
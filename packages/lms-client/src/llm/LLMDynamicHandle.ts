@@ -3,8 +3,10 @@ import {
   BufferedEvent,
   getCurrentStack,
   makePrettyError,
+  makeTitledPrettyError,
   safeCallCallback,
   SimpleLogger,
+  text,
   type Validator,
 } from "@lmstudio/lms-common";
 import { type LLMPort } from "@lmstudio/lms-external-backend-interfaces";
@@ -23,14 +25,19 @@ import {
   type KVConfigStack,
   type LLMApplyPromptTemplateOpts,
   llmApplyPromptTemplateOptsSchema,
+  type LLMCandidateToken,
   type LLMInstanceInfo,
+  type LLMLlamaLogitBiasConfig,
   type LLMLoadModelConfig,
   type LLMPredictionConfig,
   type LLMPredictionConfigInput,
   llmPredictionConfigInputSchema,
   type LLMPredictionFragment,
   type LLMPredictionStats,
+  type LLMRegexStructuredPredictionSetting,
   type LLMStructuredPredictionSetting,
+  type LLMToken,
+  type LLMToolChoice,
   type LLMToolUseSetting,
   type ModelSpecifier,
   type PromptProcessingDetails,
@@ -40,12 +47,68 @@ import {
 import { z, type ZodSchema } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { Chat, chatHistoryLikeSchema, type ChatLike, ChatMessage } from "../Chat.js";
+import { type FilesNamespace } from "../files/FilesNamespace.js";
+import { gbnfLiteral } from "../grammar/GbnfRuleSet.js";
+import { regexToGbnf } from "../grammar/regexToGbnf.js";
+import { type ClientMetrics } from "../metrics/ClientMetrics.js";
+import { recordActMetricsOpts, recordOngoingPrediction } from "../metrics/recordLLMMetrics.js";
 import { DynamicHandle } from "../modelShared/DynamicHandle.js";
+import {
+  diffRenderedPrompts,
+  type LLMDiffPromptTemplateOpts,
+  llmDiffPromptTemplateOptsSchema,
+  type LLMDiffPromptTemplateResult,
+} from "../promptTemplate/diffRenderedPrompts.js";
+import { renderPromptTemplate } from "../promptTemplate/renderPromptTemplate.js";
+import {
+  startLLMCallSpan,
+  traceActOpts,
+  traceOngoingPrediction,
+  tracePredictionOpts,
+  traceRepairAttempt,
+} from "../tracing/traceLLM.js";
+import { type Tracer } from "../tracing/tracing.js";
 import { internalAct, type LLMActBaseOpts, llmActBaseOptsSchema } from "./act.js";
 import { type ActResult } from "./ActResult.js";
+import {
+  historyCompactorSchema,
+  internalCompactHistory,
+  type HistoryCompactor,
+} from "./historyCompactor.js";
 import { type LLMNamespace } from "./LLMNamespace.js";
+import {
+  analyzeLogProbs,
+  type LLMLogProbAnalysis,
+  type LLMScoreContinuationOpts,
+  llmScoreContinuationOptsSchema,
+} from "./logProbAnalysis.js";
 import { OngoingPrediction } from "./OngoingPrediction.js";
+import {
+  type ChatMiddlewareRequest,
+  type InternalPredictionHandlers,
+  internalPredictWithMiddlewares,
+  type LLMPredictionMiddleware,
+  llmPredictionMiddlewareSchema,
+  type RawCompletionMiddlewareRequest,
+} from "./predictionMiddleware.js";
 import { PredictionResult } from "./PredictionResult.js";
+import {
+  internalRespondBatch,
+  type LLMRespondBatchOpts,
+  llmRespondBatchOptsSchema,
+  type LLMRespondBatchResult,
+} from "./respondBatch.js";
+import {
+  internalRespondBestOfN,
+  type LLMRespondBestOfNOpts,
+  llmRespondBestOfNOptsSchema,
+  type LLMRespondBestOfNResult,
+} from "./respondBestOfN.js";
+import {
+  getStructuredOutputRepairMessage,
+  type StructuredOutputRepairOpts,
+  structuredOutputRepairOptsSchema,
+} from "./structuredOutputRepair.js";
 import { type Tool, toolToLLMTool } from "./tool.js";
 import { ToolCallRequestError } from "./ToolCallRequestError.js";
 
@@ -233,6 +296,23 @@ function splitPredictionOpts<TStructuredOutputType>(
   ];
 }
 
+function validateForcedToolChoice(config: LLMPredictionConfigInput, stack: string): void {
+  if (config.toolChoice?.type !== "function") {
+    return;
+  }
+  const forcedToolName = config.toolChoice.name;
+  const rawTools = config.rawTools;
+  if (
+    rawTools?.type !== "toolArray" ||
+    !(rawTools.tools ?? []).some(tool => tool.function.name === forcedToolName)
+  ) {
+    throw makePrettyError(
+      `\`toolChoice\` forces the tool "${forcedToolName}", but no such tool is provided in \`rawTools\`.`,
+      stack,
+    );
+  }
+}
+
 function validateRawCompletionConfig(config: LLMPredictionConfigInput, stack: string): void {
   if (config.rawTools !== undefined || config.toolChoice !== undefined) {
     throw makePrettyError(
@@ -249,6 +329,14 @@ function validateRawCompletionConfig(config: LLMPredictionConfigInput, stack: st
   }
 }
 
+/**
+ * Whether the logit bias in the config specifies tokens as strings, which need to be tokenized
+ * before the prediction can start.
+ */
+function hasUntokenizedLogitBias(config: LLMPredictionConfigInput) {
+  return config.logitBias?.some(([token]) => typeof token === "string") ?? false;
+}
+
 /**
  * Options for {@link LLMDynamicHandle#respond}.
  *
@@ -281,9 +369,41 @@ export interface LLMRespondOpts<TStructuredOutputType = unknown>
    * ```
    */
   onMessage?: (message: ChatMessage) => void;
+  /**
+   * Compacts the history on the client side before predicting if it does not fit in the context of
+   * the model. See {@link HistoryCompactor} for more details.
+   *
+   * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+   * change in the future.
+   */
+  historyCompactor?: HistoryCompactor;
+  /**
+   * Asks the model to correct its response if it does not pass validation against the zod schema
+   * passed as `structured`. Zod refinements (such as ranges, regular expressions or checks across
+   * fields) are not enforced while generating, so a response can fail validation even with
+   * structured output.
+   *
+   * When a response fails validation, it is added to the chat together with a message that lists
+   * the validation errors, and the model is asked to respond again. The fragments of all responses
+   * are streamed. The result only contains the final response, and records the failed responses in
+   * {@link StructuredPredictionResult#repairFailures}.
+   *
+   * Has no effect if `structured` is not a zod schema.
+   *
+   * ```ts
+   * const result = await model.respond("Give me a random even number", {
+   *   structured: z.object({ value: z.number().refine(value => value % 2 === 0) }),
+   *   repair: { maxAttempts: 2 },
+   * });
+   * console.log(result.parsed.value, result.repairRounds);
+   * ```
+   */
+  repair?: StructuredOutputRepairOpts;
 }
 const llmRespondOptsSchema = llmPredictionOptsSchema.extend({
   onMessage: z.function().optional(),
+  historyCompactor: historyCompactorSchema.optional(),
+  repair: structuredOutputRepairOptsSchema.optional(),
   onToolCallRequestStart: z.function().optional(),
   onToolCallRequestNameReceived: z.function().optional(),
   onToolCallRequestArgumentFragmentGenerated: z.function().optional(),
@@ -306,13 +426,15 @@ function splitRespondOpts<TStructuredOutputType>(
   LLMPredictionExtraOpts<TStructuredOutputType>,
   LLMRespondExtraOpts<TStructuredOutputType>,
 ] {
-  const { onMessage, ...remaining } = opts;
+  const { onMessage, historyCompactor, repair, ...remaining } = opts;
   const [config, llmPredictionOpts] = splitPredictionOpts(remaining);
   return [
     config,
     llmPredictionOpts,
     {
       onMessage,
+      historyCompactor,
+      repair,
     },
   ];
 }
@@ -384,6 +506,9 @@ function splitActOpts<TStructuredOutputType>(
     signal,
     preset,
     allowParallelToolExecution,
+    onCheckpoint,
+    resumeFrom,
+    historyCompactor,
     ...config
   } = opts;
   return [
@@ -411,6 +536,9 @@ function splitActOpts<TStructuredOutputType>(
       signal,
       preset,
       allowParallelToolExecution,
+      onCheckpoint,
+      resumeFrom,
+      historyCompactor,
     },
   ];
 }
@@ -446,10 +574,67 @@ export class LLMDynamicHandle extends DynamicHandle<
     private readonly validator: Validator,
     /** @internal */
     private readonly logger: SimpleLogger = new SimpleLogger(`LLMModel`),
+    /** @internal */
+    private readonly filesNamespace?: FilesNamespace,
+    /** @internal */
+    private readonly namespaceMiddlewares: ReadonlyArray<LLMPredictionMiddleware> = [],
+    /** @internal */
+    private readonly tracer: Tracer | null = null,
+    /** @internal */
+    private readonly metrics: ClientMetrics | null = null,
   ) {
     super(port, specifier);
   }
 
+  /** @internal */
+  private readonly middlewares: Array<LLMPredictionMiddleware> = [];
+
+  /** @internal */
+  private getMiddlewares() {
+    return [...this.namespaceMiddlewares, ...this.middlewares];
+  }
+
+  /**
+   * Registers a middleware that hooks into every prediction made with this handle, including the
+   * ones made by `.respond`, `.complete` and every round of `.act`. Middlewares registered with
+   * `client.llm.use` run before the ones registered here. See {@link LLMPredictionMiddleware} for
+   * how middlewares are composed.
+   *
+   * ```ts
+   * model.use({
+   *   beforePrediction: request => {
+   *     if (request.type === "chat") {
+   *       request.chat.replaceSystemPrompt("Never reveal internal URLs.");
+   *     }
+   *   },
+   *   afterPrediction: result => console.log(`Predicted ${result.stats.predictedTokensCount} tokens`),
+   * });
+   * ```
+   *
+   * @returns A function that removes the middleware.
+   *
+   * @experimental [EXP-PREDICTION-MIDDLEWARE] Prediction middlewares are experimental and may change
+   * in the future.
+   */
+  public use(middleware: LLMPredictionMiddleware): () => void {
+    const stack = getCurrentStack(1);
+    this.validator.validateMethodParamOrThrow(
+      "model",
+      "use",
+      "middleware",
+      llmPredictionMiddlewareSchema,
+      middleware,
+      stack,
+    );
+    this.middlewares.push(middleware);
+    return () => {
+      const index = this.middlewares.indexOf(middleware);
+      if (index !== -1) {
+        this.middlewares.splice(index, 1);
+      }
+    };
+  }
+
   /** @internal */
   private readonly internalKVConfigStack: KVConfigStack = { layers: [] };
 
@@ -460,6 +645,7 @@ export class LLMDynamicHandle extends DynamicHandle<
     cancelEvent: BufferedEvent<void>,
     extraOpts: LLMPredictionExtraOpts,
     onFragment: (fragment: LLMPredictionFragment) => void,
+    onFragmentsDiscarded: () => void,
     onFinished: (
       stats: LLMPredictionStats,
       modelInfo: LLMInstanceInfo,
@@ -468,8 +654,48 @@ export class LLMDynamicHandle extends DynamicHandle<
     ) => void,
     onError: (error: Error) => void,
   ) {
-    let finished = false;
+    const stack = getCurrentStack(2);
     let firstTokenTriggered = false;
+    internalPredictWithMiddlewares<ChatMiddlewareRequest>(
+      this.getMiddlewares(),
+      { type: "chat", chat: Chat.createRaw(history, false), predictionConfigStack, roundIndex: 0 },
+      cancelEvent,
+      {
+        onFragment: fragment => {
+          if (!firstTokenTriggered) {
+            firstTokenTriggered = true;
+            safeCallCallback(this.logger, "onFirstToken", extraOpts.onFirstToken, []);
+          }
+          safeCallCallback(this.logger, "onFragment", extraOpts.onPredictionFragment, [fragment]);
+          onFragment(fragment);
+        },
+        onFragmentsDiscarded,
+        onFinished: ({ stats, modelInfo, loadModelConfig, predictionConfig }) =>
+          onFinished(stats, modelInfo, loadModelConfig, predictionConfig),
+        onError,
+      },
+      (request, requestCancelEvent, handlers) =>
+        this.internalCreatePredictChannel(
+          accessMaybeMutableInternals(request.chat)._internalGetData(),
+          request.predictionConfigStack,
+          requestCancelEvent,
+          extraOpts,
+          handlers,
+          stack,
+        ),
+    );
+  }
+
+  /** @internal */
+  private internalCreatePredictChannel(
+    history: ChatHistoryData,
+    predictionConfigStack: KVConfigStack,
+    cancelEvent: BufferedEvent<void>,
+    extraOpts: LLMPredictionExtraOpts,
+    { onFragment, onFinished, onError }: InternalPredictionHandlers,
+    stack: string,
+  ) {
+    let finished = false;
     let currentCallId: number | null = null;
     let receivedEagerToolNameReporting = false;
     let receivedToolArgumentsStreaming = false;
@@ -485,13 +711,6 @@ export class LLMDynamicHandle extends DynamicHandle<
       message => {
         switch (message.type) {
           case "fragment": {
-            if (!firstTokenTriggered) {
-              firstTokenTriggered = true;
-              safeCallCallback(this.logger, "onFirstToken", extraOpts.onFirstToken, []);
-            }
-            safeCallCallback(this.logger, "onFragment", extraOpts.onPredictionFragment, [
-              message.fragment,
-            ]);
             onFragment(message.fragment);
             break;
           }
@@ -590,17 +809,17 @@ export class LLMDynamicHandle extends DynamicHandle<
           }
           case "success": {
             finished = true;
-            onFinished(
-              message.stats,
-              message.modelInfo,
-              message.loadModelConfig,
-              message.predictionConfig,
-            );
+            onFinished({
+              stats: message.stats,
+              modelInfo: message.modelInfo,
+              loadModelConfig: message.loadModelConfig,
+              predictionConfig: message.predictionConfig,
+            });
             break;
           }
         }
       },
-      { stack: getCurrentStack(2) },
+      { stack },
     );
     cancelEvent.subscribeOnce(() => {
       if (finished) {
@@ -618,6 +837,7 @@ export class LLMDynamicHandle extends DynamicHandle<
     cancelEvent: BufferedEvent<void>,
     extraOpts: LLMPredictionExtraOpts,
     onFragment: (fragment: LLMPredictionFragment) => void,
+    onFragmentsDiscarded: () => void,
     onFinished: (
       stats: LLMPredictionStats,
       modelInfo: LLMInstanceInfo,
@@ -626,8 +846,48 @@ export class LLMDynamicHandle extends DynamicHandle<
     ) => void,
     onError: (error: Error) => void,
   ) {
-    let finished = false;
+    const stack = getCurrentStack(2);
     let firstTokenTriggered = false;
+    internalPredictWithMiddlewares<RawCompletionMiddlewareRequest>(
+      this.getMiddlewares(),
+      { type: "rawCompletion", prompt: rawPrompt, predictionConfigStack, roundIndex: 0 },
+      cancelEvent,
+      {
+        onFragment: fragment => {
+          if (!firstTokenTriggered) {
+            firstTokenTriggered = true;
+            safeCallCallback(this.logger, "onFirstToken", extraOpts.onFirstToken, []);
+          }
+          safeCallCallback(this.logger, "onFragment", extraOpts.onPredictionFragment, [fragment]);
+          onFragment(fragment);
+        },
+        onFragmentsDiscarded,
+        onFinished: ({ stats, modelInfo, loadModelConfig, predictionConfig }) =>
+          onFinished(stats, modelInfo, loadModelConfig, predictionConfig),
+        onError,
+      },
+      (request, requestCancelEvent, handlers) =>
+        this.internalCreateCompleteRawTextChannel(
+          request.prompt,
+          request.predictionConfigStack,
+          requestCancelEvent,
+          extraOpts,
+          handlers,
+          stack,
+        ),
+    );
+  }
+
+  /** @internal */
+  private internalCreateCompleteRawTextChannel(
+    rawPrompt: string,
+    predictionConfigStack: KVConfigStack,
+    cancelEvent: BufferedEvent<void>,
+    extraOpts: LLMPredictionExtraOpts,
+    { onFragment, onFinished, onError }: InternalPredictionHandlers,
+    stack: string,
+  ) {
+    let finished = false;
     const channel = this.port.createChannel(
       "completeRawText",
       {
@@ -640,13 +900,6 @@ export class LLMDynamicHandle extends DynamicHandle<
       message => {
         switch (message.type) {
           case "fragment": {
-            if (!firstTokenTriggered) {
-              firstTokenTriggered = true;
-              safeCallCallback(this.logger, "onFirstToken", extraOpts.onFirstToken, []);
-            }
-            safeCallCallback(this.logger, "onFragment", extraOpts.onPredictionFragment, [
-              message.fragment,
-            ]);
             onFragment(message.fragment);
             break;
           }
@@ -661,17 +914,17 @@ export class LLMDynamicHandle extends DynamicHandle<
           }
           case "success": {
             finished = true;
-            onFinished(
-              message.stats,
-              message.modelInfo,
-              message.loadModelConfig,
-              message.predictionConfig,
-            );
+            onFinished({
+              stats: message.stats,
+              modelInfo: message.modelInfo,
+              loadModelConfig: message.loadModelConfig,
+              predictionConfig: message.predictionConfig,
+            });
             break;
           }
         }
       },
-      { stack: getCurrentStack(2) },
+      { stack },
     );
     cancelEvent.subscribeOnce(() => {
       if (finished) {
@@ -682,6 +935,55 @@ export class LLMDynamicHandle extends DynamicHandle<
     channel.onError.subscribeOnce(onError);
   }
 
+  /**
+   * Makes a raw completion for {@link LLMDynamicHandle#scoreContinuation}. Scoring makes one
+   * prediction per token, so this bypasses the middlewares, the metrics and the tracing that apply
+   * to predictions made by the user.
+   *
+   * @internal
+   */
+  private internalScoreStep(
+    rawPrompt: string,
+    config: LLMPredictionConfigInput,
+    signal: AbortSignal | undefined,
+    stack: string,
+  ): Promise<{ content: string; tokens: Array<LLMToken> }> {
+    const [cancelEvent, emitCancelEvent] = BufferedEvent.create<void>();
+    if (signal?.aborted) {
+      emitCancelEvent();
+    } else {
+      signal?.addEventListener("abort", () => emitCancelEvent(), { once: true });
+    }
+    const fragments: Array<LLMPredictionFragment> = [];
+    return new Promise((resolve, reject) => {
+      this.internalCreateCompleteRawTextChannel(
+        rawPrompt,
+        {
+          layers: [
+            ...this.internalKVConfigStack.layers,
+            {
+              layerName: "apiOverride",
+              config: this.predictionConfigInputToKVConfig({ stopStrings: [], ...config }),
+            },
+          ],
+        },
+        cancelEvent,
+        {},
+        {
+          onFragment: fragment => fragments.push(fragment),
+          onFragmentsDiscarded: () => {},
+          onFinished: () =>
+            resolve({
+              content: fragments.map(({ content }) => content).join(""),
+              tokens: fragments.flatMap(fragment => fragment.tokens ?? []),
+            }),
+          onError: reject,
+        },
+        stack,
+      );
+    });
+  }
+
   private predictionConfigInputToKVConfig(config: LLMPredictionConfigInput): KVConfig {
     let structuredField: undefined | LLMStructuredPredictionSetting = undefined;
     if (typeof (config.structured as any)?.parse === "function") {
@@ -689,16 +991,50 @@ export class LLMDynamicHandle extends DynamicHandle<
         type: "json",
         jsonSchema: zodToJsonSchema(config.structured as any),
       };
+    } else if ((config.structured as any)?.type === "regex") {
+      structuredField = {
+        type: "gbnf",
+        gbnfGrammar: regexToGbnf(
+          (config.structured as LLMRegexStructuredPredictionSetting).pattern,
+        ),
+      };
     } else {
       structuredField = config.structured as any;
     }
+    if (hasUntokenizedLogitBias(config)) {
+      throw new Error("The logit bias must be tokenized before converting the config.");
+    }
     const convertedConfig = {
       ...config,
       structured: structuredField,
+      logitBias: config.logitBias as LLMLlamaLogitBiasConfig | undefined,
     };
     return llmPredictionConfigToKVConfig(convertedConfig);
   }
 
+  /**
+   * Replaces the strings in the logit bias of the config with the tokens they consist of.
+   */
+  private async tokenizeLogitBias<TConfig extends LLMPredictionConfigInput>(
+    config: TConfig,
+  ): Promise<TConfig> {
+    if (config.logitBias === undefined || !hasUntokenizedLogitBias(config)) {
+      return config;
+    }
+    const strings = config.logitBias
+      .map(([token]) => token)
+      .filter((token): token is string => typeof token === "string");
+    const tokenizedStrings = await this.tokenize(strings);
+    const logitBias: LLMLlamaLogitBiasConfig = config.logitBias.flatMap(([token, modification]) =>
+      typeof token === "number"
+        ? [[token, modification]]
+        : tokenizedStrings[strings.indexOf(token)].map(
+            tokenId => [tokenId, modification] as [number, typeof modification],
+          ),
+    );
+    return { ...config, logitBias };
+  }
+
   private createZodParser(zodSchema: ZodSchema): (content: string) => any {
     return content => {
       try {
@@ -769,8 +1105,10 @@ export class LLMDynamicHandle extends DynamicHandle<
       [prompt, opts],
       stack,
     );
-    const [config, extraOpts] = splitPredictionOpts(opts);
+    const [config, untracedExtraOpts] = splitPredictionOpts(opts);
     validateRawCompletionConfig(config, stack);
+    const span = startLLMCallSpan(this.tracer, "complete");
+    const extraOpts = tracePredictionOpts(span, untracedExtraOpts);
     const [cancelEvent, emitCancelEvent] = BufferedEvent.create<void>();
 
     if (extraOpts.signal !== undefined) {
@@ -789,34 +1127,51 @@ export class LLMDynamicHandle extends DynamicHandle<
     }
 
     const zodSchemaParseResult = zodSchemaSchema.safeParse(config.structured);
-    const { ongoingPrediction, finished, failed, push } = OngoingPrediction.create(
-      emitCancelEvent,
-      !zodSchemaParseResult.success ? null : this.createZodParser(zodSchemaParseResult.data),
-    );
+    const { ongoingPrediction, finished, failed, push, discardFragments } =
+      OngoingPrediction.create(
+        emitCancelEvent,
+        !zodSchemaParseResult.success ? null : this.createZodParser(zodSchemaParseResult.data),
+      );
 
-    this.internalCompleteRawText(
-      prompt,
-      {
-        layers: [
-          ...this.internalKVConfigStack.layers,
+    // Errors thrown while starting the prediction, such as an invalid config, must fail the
+    // prediction instead of escaping from a promise callback.
+    const startPrediction = (resolvedConfig: LLMPredictionConfigInput) => {
+      try {
+        this.internalCompleteRawText(
+          prompt,
           {
-            layerName: "apiOverride",
-            config: this.predictionConfigInputToKVConfig({
-              // If the user did not specify `stopStrings`, we default to an empty array. This is to
-              // prevent the model from using the value set in the preset.
-              stopStrings: [],
-              ...config,
-            }),
+            layers: [
+              ...this.internalKVConfigStack.layers,
+              {
+                layerName: "apiOverride",
+                config: this.predictionConfigInputToKVConfig({
+                  // If the user did not specify `stopStrings`, we default to an empty array. This
+                  // is to prevent the model from using the value set in the preset.
+                  stopStrings: [],
+                  ...resolvedConfig,
+                }),
+              },
+            ],
           },
-        ],
-      },
-      cancelEvent,
-      extraOpts,
-      fragment => push(fragment),
-      (stats, modelInfo, loadModelConfig, predictionConfig) =>
-        finished(stats, modelInfo, loadModelConfig, predictionConfig),
-      error => failed(error),
-    );
+          cancelEvent,
+          extraOpts,
+          fragment => push(fragment),
+          () => discardFragments(),
+          (stats, modelInfo, loadModelConfig, predictionConfig) =>
+            finished(stats, modelInfo, loadModelConfig, predictionConfig),
+          error => failed(error),
+        );
+      } catch (error) {
+        failed(error);
+      }
+    };
+    if (hasUntokenizedLogitBias(config)) {
+      this.tokenizeLogitBias(config).then(startPrediction, error => failed(error));
+    } else {
+      startPrediction(config);
+    }
+    traceOngoingPrediction(span, ongoingPrediction);
+    recordOngoingPrediction(this.metrics, ongoingPrediction);
     return ongoingPrediction;
   }
 
@@ -883,7 +1238,10 @@ export class LLMDynamicHandle extends DynamicHandle<
       stack,
     );
     const [cancelEvent, emitCancelEvent] = BufferedEvent.create<void>();
-    const [config, predictionOpts, respondOpts] = splitRespondOpts(opts);
+    const [config, untracedPredictionOpts, respondOpts] = splitRespondOpts(opts);
+    validateForcedToolChoice(config, stack);
+    const span = startLLMCallSpan(this.tracer, "respond");
+    const predictionOpts = tracePredictionOpts(span, untracedPredictionOpts);
 
     if (predictionOpts.signal !== undefined) {
       if (predictionOpts.signal.aborted) {
@@ -901,25 +1259,98 @@ export class LLMDynamicHandle extends DynamicHandle<
     }
 
     const zodSchemaParseResult = zodSchemaSchema.safeParse(config.structured);
-    const { ongoingPrediction, finished, failed, push } = OngoingPrediction.create(
-      emitCancelEvent,
-      !zodSchemaParseResult.success ? null : this.createZodParser(zodSchemaParseResult.data),
-    );
+    const parser = !zodSchemaParseResult.success
+      ? null
+      : this.createZodParser(zodSchemaParseResult.data);
+    const { ongoingPrediction, finished, failed, push, repairing, discardFragments } =
+      OngoingPrediction.create(emitCancelEvent, parser);
 
-    this.internalPredict(
-      accessMaybeMutableInternals(Chat.from(chat))._internalGetData(),
-      addKVConfigToStack(
-        this.internalKVConfigStack,
-        "apiOverride",
-        this.predictionConfigInputToKVConfig(config),
-      ),
-      cancelEvent,
-      predictionOpts,
-      fragment => push(fragment),
-      (stats, modelInfo, loadModelConfig, predictionConfig) =>
-        finished(stats, modelInfo, loadModelConfig, predictionConfig),
-      error => failed(error),
-    );
+    const mutableChat = Chat.from(chat);
+    let resolvedConfig = config;
+    let repairAttemptsLeft = respondOpts.repair?.maxAttempts ?? 0;
+    // Each attempt needs its own cancel event, as the cancel event only supports one subscriber.
+    let cancelled = false;
+    let emitAttemptCancelEvent = () => {};
+    cancelEvent.subscribeOnce(() => {
+      cancelled = true;
+      emitAttemptCancelEvent();
+    });
+    // Errors thrown while starting a prediction, such as an invalid config, must fail the
+    // prediction instead of escaping from a promise callback.
+    const startPrediction = () => {
+      try {
+        const attemptContents: Array<string> = [];
+        const [attemptCancelEvent, emitCurrentAttemptCancelEvent] = BufferedEvent.create<void>();
+        emitAttemptCancelEvent = emitCurrentAttemptCancelEvent;
+        if (cancelled) {
+          emitCurrentAttemptCancelEvent();
+        }
+        this.internalPredict(
+          accessMaybeMutableInternals(mutableChat)._internalGetData(),
+          addKVConfigToStack(
+            this.internalKVConfigStack,
+            "apiOverride",
+            this.predictionConfigInputToKVConfig(resolvedConfig),
+          ),
+          attemptCancelEvent,
+          predictionOpts,
+          fragment => {
+            attemptContents.push(fragment.content);
+            push(fragment);
+          },
+          () => {
+            attemptContents.length = 0;
+            discardFragments();
+          },
+          (stats, modelInfo, loadModelConfig, predictionConfig) => {
+            if (parser !== null && repairAttemptsLeft > 0 && !cancelled) {
+              const content = attemptContents.join("");
+              let error = null as Error | null;
+              try {
+                parser(content);
+              } catch (parseError: any) {
+                error = parseError;
+              }
+              if (error !== null) {
+                // Only the final response makes up the result, so the cost of the failed ones is
+                // recorded here.
+                const attemptIndex = (respondOpts.repair?.maxAttempts ?? 0) - repairAttemptsLeft;
+                traceRepairAttempt(span, attemptIndex, error, stats);
+                this.metrics?.recordPrediction(modelInfo.modelKey, stats);
+                repairAttemptsLeft--;
+                repairing({ content, error });
+                mutableChat.append("assistant", content);
+                mutableChat.append("user", getStructuredOutputRepairMessage(error));
+                startPrediction();
+                return;
+              }
+            }
+            finished(stats, modelInfo, loadModelConfig, predictionConfig);
+          },
+          error => failed(error),
+        );
+      } catch (error) {
+        failed(error);
+      }
+    };
+    const preparations: Array<Promise<unknown>> = [];
+    if (respondOpts.historyCompactor !== undefined) {
+      preparations.push(
+        internalCompactHistory(this, mutableChat, respondOpts.historyCompactor, 0, this.logger),
+      );
+    }
+    if (hasUntokenizedLogitBias(config)) {
+      preparations.push(
+        this.tokenizeLogitBias(config).then(tokenizedConfig => {
+          resolvedConfig = tokenizedConfig;
+        }),
+      );
+    }
+    if (preparations.length === 0) {
+      startPrediction();
+    } else {
+      Promise.all(preparations).then(startPrediction, error => failed(error));
+    }
     ongoingPrediction.then(
       result => {
         // Call the onMessage callback with the result.
@@ -929,9 +1360,84 @@ export class LLMDynamicHandle extends DynamicHandle<
       },
       () => {}, // Eat the error, as we don't want to throw it here.
     );
+    traceOngoingPrediction(span, ongoingPrediction);
+    recordOngoingPrediction(this.metrics, ongoingPrediction);
     return ongoingPrediction;
   }
 
+  /**
+   * Responds to many chats with the same prediction config, with at most `concurrency` predictions
+   * running at the same time. Items that fail do not stop the batch; their errors are reported in
+   * the result.
+   *
+   * ```typescript
+   * const cache = new Map<string, PredictionResult>();
+   * const { items, summary } = await model.respondBatch(reviews, {
+   *   concurrency: 4,
+   *   cache,
+   *   getItemKey: (_review, index) => reviewIds[index],
+   *   onItemComplete: item => console.log(`Item ${item.index} finished`),
+   * });
+   * console.log(summary.totalTokensCount, summary.averageTokensPerSecond, summary.failures);
+   * ```
+   *
+   * Running the batch again with the same cache only predicts the items that have no result yet.
+   *
+   * @param chats - The chats (or prompts) to respond to.
+   * @param opts - Options for the batch and the prediction config of every item.
+   */
+  public async respondBatch(
+    chats: Array<ChatLike>,
+    opts: LLMRespondBatchOpts = {},
+  ): Promise<LLMRespondBatchResult> {
+    const stack = getCurrentStack(1);
+    [chats, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "respondBatch",
+      ["chats", "opts"],
+      [z.array(chatHistoryLikeSchema), llmRespondBatchOptsSchema],
+      [chats, opts],
+      stack,
+    );
+    return await internalRespondBatch(this, chats, opts, this.logger);
+  }
+
+  /**
+   * Generates `n` responses to the same chat, each with a different seed (and optionally a different
+   * temperature), and picks the best one with the given selector. See {@link LLMBestOfNSelector}
+   * for the built-in selectors.
+   *
+   * ```typescript
+   * const { best, candidates } = await model.respondBestOfN("What is 17 * 23? Answer with a number.", {
+   *   n: 5,
+   *   select: "majorityVote",
+   *   temperatures: [0.6, 0.8, 1],
+   * });
+   * console.log(best.content, candidates.map(candidate => candidate.type));
+   * ```
+   *
+   * With `"majorityVote"`, the predictions that are still running are cancelled as soon as an
+   * answer has a majority.
+   *
+   * @param chat - The chat (or prompt) to respond to.
+   * @param opts - Options for the sampling and the prediction config of every candidate.
+   */
+  public async respondBestOfN(
+    chat: ChatLike,
+    opts: LLMRespondBestOfNOpts,
+  ): Promise<LLMRespondBestOfNResult> {
+    const stack = getCurrentStack(1);
+    [chat, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "respondBestOfN",
+      ["chat", "opts"],
+      [chatHistoryLikeSchema, llmRespondBestOfNOptsSchema],
+      [chat, opts],
+      stack,
+    );
+    return await internalRespondBestOfN(this, chat, opts, this.logger);
+  }
+
   /**
    * @param chat - The LLMChatHistory array to act from as the base
    * @param tool - An array of tools that the model can use during the operation. You can create
@@ -978,7 +1484,8 @@ export class LLMDynamicHandle extends DynamicHandle<
       stack,
     );
 
-    const [config, { preset, ...baseOpts }] = splitActOpts(opts);
+    const [untokenizedConfig, { preset, ...baseOpts }] = splitActOpts(opts);
+    const config = await this.tokenizeLogitBias(untokenizedConfig);
 
     if (
       config.structured !== undefined &&
@@ -1008,14 +1515,17 @@ export class LLMDynamicHandle extends DynamicHandle<
       };
     }
 
-    const configWithTools = addKVConfigToStack(
-      this.internalKVConfigStack,
-      "apiOverride",
-      this.predictionConfigInputToKVConfig({
-        ...config,
-        rawTools,
-      }),
-    );
+    const { toolChoice, ...configWithoutToolChoice } = config;
+    const makeConfigWithTools = (roundToolChoice: LLMToolChoice | undefined) =>
+      addKVConfigToStack(
+        this.internalKVConfigStack,
+        "apiOverride",
+        this.predictionConfigInputToKVConfig({
+          ...configWithoutToolChoice,
+          rawTools,
+          toolChoice: roundToolChoice,
+        }),
+      );
     const configWithoutTools = addKVConfigToStack(
       this.internalKVConfigStack,
       "apiOverride",
@@ -1037,10 +1547,21 @@ export class LLMDynamicHandle extends DynamicHandle<
       predictionConfig: KVConfig;
     }
 
-    return await internalAct<PredictionResult, EndPacket>(
+    const { historyCompactor } = baseOpts;
+    const compactHistory =
+      historyCompactor === undefined
+        ? undefined
+        : (chat: Chat, roundIndex: number) =>
+            internalCompactHistory(this, chat, historyCompactor, roundIndex, this.logger);
+
+    const { opts: tracedOpts, traceResult } = traceActOpts(
+      startLLMCallSpan(this.tracer, "act"),
+      recordActMetricsOpts(this.metrics, baseOpts),
+    );
+    const actResult = internalAct<PredictionResult, EndPacket>(
       chat,
       tools,
-      baseOpts,
+      tracedOpts,
       stack,
       this.logger,
       startTime,
@@ -1048,9 +1569,12 @@ export class LLMDynamicHandle extends DynamicHandle<
       // predict channel and redirect the messages to the appropriate handlers.
       async ({
         allowTools,
+        toolChoice: roundToolChoice,
+        roundIndex,
         history,
         signal,
         handleFragment,
+        handleFragmentsDiscarded,
         handlePromptProcessingProgress,
         handleToolCallGenerationStart,
         handleToolCallGenerationNameReceived,
@@ -1060,80 +1584,106 @@ export class LLMDynamicHandle extends DynamicHandle<
         handlePredictionEnd,
         handleError,
       }) => {
-        // Use predict channel
-        const channel = this.port.createChannel(
-          "predict",
-          {
-            modelSpecifier: this.specifier,
-            history,
-            predictionConfigStack: allowTools ? configWithTools : configWithoutTools,
-            fuzzyPresetIdentifier: preset,
-            ignoreServerSessionConfig: this.internalIgnoreServerSessionConfig,
-          },
-          message => {
-            const messageType = message.type;
-            switch (messageType) {
-              case "fragment": {
-                handleFragment(message.fragment);
-                break;
-              }
-              case "promptProcessingProgress": {
-                handlePromptProcessingProgress(message.progress, message.details);
-                break;
-              }
-              case "toolCallGenerationStart": {
-                handleToolCallGenerationStart(message.toolCallId);
-                break;
-              }
-              case "toolCallGenerationNameReceived": {
-                handleToolCallGenerationNameReceived(message.name);
-                break;
-              }
-              case "toolCallGenerationArgumentFragmentGenerated": {
-                handleToolCallGenerationArgumentFragmentGenerated(message.content);
-                break;
-              }
-              case "toolCallGenerationEnd": {
-                handleToolCallGenerationEnd(message.toolCallRequest, message.rawContent);
-                break;
-              }
-              case "toolCallGenerationFailed": {
-                handleToolCallGenerationFailed(
-                  fromSerializedError(message.error),
-                  message.rawContent,
-                );
-                break;
-              }
-              case "success": {
-                // This is the end of the prediction. The following object is passed to the
-                // `makePredictionResult` function to create the final PredictionResult. (see below)
-                handlePredictionEnd({
-                  stats: message.stats,
-                  modelInfo: message.modelInfo,
-                  loadModelConfig: message.loadModelConfig,
-                  predictionConfig: message.predictionConfig,
-                });
-                break;
-              }
-            }
-          },
-          { stack },
-        );
+        const [cancelEvent, emitCancelEvent] = BufferedEvent.create<void>();
         if (signal.aborted) {
           // If the signal is already aborted, we need to cancel the prediction immediately.
-          channel.send({ type: "cancel" });
+          emitCancelEvent();
         } else {
-          signal.addEventListener(
-            "abort",
-            () => {
-              channel.send({ type: "cancel" });
-            },
-            { once: true },
-          );
+          signal.addEventListener("abort", () => emitCancelEvent(), { once: true });
         }
-        channel.onError.subscribeOnce(handleError);
+        internalPredictWithMiddlewares<ChatMiddlewareRequest>(
+          this.getMiddlewares(),
+          {
+            type: "chat",
+            chat: Chat.createRaw(history, false),
+            predictionConfigStack: allowTools
+              ? makeConfigWithTools(roundToolChoice)
+              : configWithoutTools,
+            roundIndex,
+          },
+          cancelEvent,
+          {
+            onFragment: handleFragment,
+            onFragmentsDiscarded: handleFragmentsDiscarded,
+            onFinished: handlePredictionEnd,
+            onError: handleError,
+          },
+          (request, requestCancelEvent, { onFragment, onFinished, onError }) => {
+            // Use predict channel
+            const channel = this.port.createChannel(
+              "predict",
+              {
+                modelSpecifier: this.specifier,
+                history: accessMaybeMutableInternals(request.chat)._internalGetData(),
+                predictionConfigStack: request.predictionConfigStack,
+                fuzzyPresetIdentifier: preset,
+                ignoreServerSessionConfig: this.internalIgnoreServerSessionConfig,
+              },
+              message => {
+                const messageType = message.type;
+                switch (messageType) {
+                  case "fragment": {
+                    onFragment(message.fragment);
+                    break;
+                  }
+                  case "promptProcessingProgress": {
+                    handlePromptProcessingProgress(message.progress, message.details);
+                    break;
+                  }
+                  case "toolCallGenerationStart": {
+                    handleToolCallGenerationStart(message.toolCallId);
+                    break;
+                  }
+                  case "toolCallGenerationNameReceived": {
+                    handleToolCallGenerationNameReceived(message.name);
+                    break;
+                  }
+                  case "toolCallGenerationArgumentFragmentGenerated": {
+                    handleToolCallGenerationArgumentFragmentGenerated(message.content);
+                    break;
+                  }
+                  case "toolCallGenerationEnd": {
+                    handleToolCallGenerationEnd(message.toolCallRequest, message.rawContent);
+                    break;
+                  }
+                  case "toolCallGenerationFailed": {
+                    handleToolCallGenerationFailed(
+                      fromSerializedError(message.error),
+                      message.rawContent,
+                    );
+                    break;
+                  }
+                  case "success": {
+                    // This is the end of the prediction. The following object is passed to the
+                    // `makePredictionResult` function to create the final PredictionResult (see
+                    // below).
+                    onFinished({
+                      stats: message.stats,
+                      modelInfo: message.modelInfo,
+                      loadModelConfig: message.loadModelConfig,
+                      predictionConfig: message.predictionConfig,
+                    });
+                    break;
+                  }
+                }
+              },
+              { stack },
+            );
+            requestCancelEvent.subscribeOnce(() => {
+              channel.send({ type: "cancel" });
+            });
+            channel.onError.subscribeOnce(onError);
+          },
+        );
       },
-      ({ endPacket, content, nonReasoningContent, reasoningContent, predictionsPerformed }) => {
+      ({
+        endPacket,
+        content,
+        nonReasoningContent,
+        reasoningContent,
+        tokens,
+        predictionsPerformed,
+      }) => {
         return new PredictionResult(
           content,
           reasoningContent,
@@ -1143,9 +1693,128 @@ export class LLMDynamicHandle extends DynamicHandle<
           predictionsPerformed,
           endPacket.loadModelConfig,
           endPacket.predictionConfig,
+          tokens,
         );
       },
+      {
+        toolChoice,
+        filesNamespace: this.filesNamespace,
+        compactHistory,
+      },
+    );
+    return await traceResult(actResult);
+  }
+
+  /**
+   * Computes how likely the model finds a continuation of a prompt, token by token.
+   *
+   * For every token of the continuation, the model freely predicts the next token after the prompt
+   * and the part of the continuation scored so far (with a raw completion, see
+   * {@link LLMDynamicHandle#complete}), and the token of the continuation is looked up among the
+   * `candidatesCount` most likely candidates. If it is not among them, its actual log probability
+   * is not known and the one of the least likely candidate, an upper bound, is used instead.
+   *
+   * Useful to flag likely hallucinations: a continuation the model is unsure about has a high
+   * perplexity and low-confidence spans.
+   *
+   * ```ts
+   * const { perplexity } = await model.scoreContinuation(
+   *   "The capital of Australia is",
+   *   " Sydney",
+   * );
+   * ```
+   *
+   * This makes at least one prediction per token of the continuation, so it is slow for long
+   * continuations. These predictions do not go through the prediction middlewares and are not
+   * recorded in the metrics or traces.
+   */
+  public async scoreContinuation(
+    prompt: string,
+    continuation: string,
+    opts: LLMScoreContinuationOpts = {},
+  ): Promise<LLMLogProbAnalysis> {
+    const stack = getCurrentStack(1);
+    [prompt, continuation, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "scoreContinuation",
+      ["prompt", "continuation", "opts"],
+      [z.string(), z.string().min(1), llmScoreContinuationOptsSchema],
+      [prompt, continuation, opts],
+      stack,
     );
+    const { candidatesCount = 5, signal, ...analysisOpts } = opts;
+    const tokens: Array<LLMToken> = [];
+    let scoredContinuation = "";
+    while (scoredContinuation.length < continuation.length) {
+      const remainingContinuation = continuation.slice(scoredContinuation.length);
+      // No grammar here: the log probabilities reported while a grammar is applied only account
+      // for the tokens the grammar allows.
+      const result = await this.internalScoreStep(
+        prompt + scoredContinuation,
+        { maxTokens: 1, logProbs: candidatesCount },
+        signal,
+        stack,
+      );
+      const candidates = result.tokens.at(0)?.candidates ?? [];
+      let matchingToken: LLMCandidateToken | undefined = undefined;
+      for (const candidate of candidates) {
+        if (
+          candidate.text.length > 0 &&
+          remainingContinuation.startsWith(candidate.text) &&
+          (matchingToken === undefined || candidate.text.length > matchingToken.text.length)
+        ) {
+          matchingToken = candidate;
+        }
+      }
+      if (matchingToken !== undefined) {
+        tokens.push({
+          text: matchingToken.text,
+          id: matchingToken.id,
+          logProb: matchingToken.logProb,
+          candidates,
+        });
+        scoredContinuation += matchingToken.text;
+        continue;
+      }
+
+      // The token is not among the candidates. A grammar is only used to find out where it ends.
+      const forcedResult = await this.internalScoreStep(
+        prompt + scoredContinuation,
+        {
+          structured: {
+            type: "gbnf",
+            gbnfGrammar: `root ::= ${gbnfLiteral(remainingContinuation)}`,
+          },
+          maxTokens: 1,
+        },
+        signal,
+        stack,
+      );
+      if (
+        forcedResult.content.length === 0 ||
+        !remainingContinuation.startsWith(forcedResult.content)
+      ) {
+        throw makeTitledPrettyError(
+          "Could not score the continuation",
+          text`
+            The model generated ${JSON.stringify(forcedResult.content)} instead of the next token
+            of the continuation ${JSON.stringify(remainingContinuation)}.
+          `,
+          stack,
+        );
+      }
+      tokens.push({
+        text: forcedResult.content,
+        id: forcedResult.tokens.at(0)?.id ?? -1,
+        logProb:
+          candidates.length === 0
+            ? undefined
+            : Math.min(...candidates.map(({ logProb }) => logProb)),
+        candidates,
+      });
+      scoredContinuation += forcedResult.content;
+    }
+    return analyzeLogProbs(tokens, analysisOpts);
   }
 
   public async getContextLength(): Promise<number> {
@@ -1183,6 +1852,51 @@ export class LLMDynamicHandle extends DynamicHandle<
     ).formatted;
   }
 
+  /**
+   * Renders the history with a prompt template locally (see {@link renderPromptTemplate}) and
+   * compares the result with the prompt rendered by LM Studio with
+   * {@link LLMDynamicHandle#applyPromptTemplate}. Useful to check that a template renders the same
+   * way offline and in LM Studio.
+   *
+   * LM Studio always renders with the prompt template of the model. The local template defaults to
+   * it, but a different one can be passed with `template`. The BOS and EOS tokens are not known
+   * locally, so pass them with `bosToken` and `eosToken` if the template uses them.
+   *
+   * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental
+   * and may change in the future.
+   */
+  public async diffPromptTemplate(
+    history: ChatLike,
+    opts: LLMDiffPromptTemplateOpts = {},
+  ): Promise<LLMDiffPromptTemplateResult> {
+    const stack = getCurrentStack(1);
+    [history, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "diffPromptTemplate",
+      ["history", "opts"],
+      [chatHistoryLikeSchema, llmDiffPromptTemplateOptsSchema],
+      [history, opts],
+      stack,
+    );
+    const { template, ...renderOpts } = opts;
+    const [localTemplate, serverPrompt] = await Promise.all([
+      template ?? this.getBasePredictionConfig().then(config => config.promptTemplate),
+      this.applyPromptTemplate(history, {
+        omitBosToken: opts.omitBosToken,
+        omitEosToken: opts.omitEosToken,
+        toolDefinitions: opts.toolDefinitions,
+      }),
+    ]);
+    if (localTemplate === undefined) {
+      throw makePrettyError(
+        "Could not get the prompt template of the model. Pass the template to diff with in opts.",
+        stack,
+      );
+    }
+    const localPrompt = renderPromptTemplate(localTemplate, history, renderOpts);
+    return { ...diffRenderedPrompts(serverPrompt, localPrompt), localPrompt, serverPrompt };
+  }
+
   public async tokenize(inputString: string): Promise<Array<number>>;
   public async tokenize(inputStrings: Array<string>): Promise<Array<Array<number>>>;
   public async tokenize(
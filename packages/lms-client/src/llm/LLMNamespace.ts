@@ -1,4 +1,4 @@
-import { type SimpleLogger, type Validator } from "@lmstudio/lms-common";
+import { getCurrentStack, type SimpleLogger, type Validator } from "@lmstudio/lms-common";
 import { type LLMPort } from "@lmstudio/lms-external-backend-interfaces";
 import { llmLoadModelConfigToKVConfig } from "@lmstudio/lms-kv-config";
 import {
@@ -8,9 +8,16 @@ import {
   type LLMLoadModelConfig,
   type ModelSpecifier,
 } from "@lmstudio/lms-shared-types";
+import { type LMStudioClient } from "../LMStudioClient.js";
+import { type ClientMetrics } from "../metrics/ClientMetrics.js";
 import { ModelNamespace } from "../modelShared/ModelNamespace.js";
+import { type Tracer } from "../tracing/tracing.js";
 import { LLM } from "./LLM.js";
 import { LLMDynamicHandle } from "./LLMDynamicHandle.js";
+import {
+  type LLMPredictionMiddleware,
+  llmPredictionMiddlewareSchema,
+} from "./predictionMiddleware.js";
 
 /** @public */
 export class LLMNamespace extends ModelNamespace<
@@ -31,13 +38,64 @@ export class LLMNamespace extends ModelNamespace<
   /** @internal */
   protected override loadConfigToKVConfig = llmLoadModelConfigToKVConfig;
   /** @internal */
+  private readonly middlewares: Array<LLMPredictionMiddleware> = [];
+  /** @internal */
+  public constructor(
+    client: LMStudioClient,
+    port: LLMPort,
+    logger: SimpleLogger,
+    validator: Validator,
+    /** @internal */
+    private readonly tracer: Tracer | null = null,
+    metrics: ClientMetrics | null = null,
+  ) {
+    super(client, port, logger, validator, metrics);
+  }
+  /**
+   * Registers a middleware that hooks into every prediction made with the LLMs of this client,
+   * including handles and models obtained before the middleware was registered. See
+   * {@link LLMPredictionMiddleware} for how middlewares are composed.
+   *
+   * @returns A function that removes the middleware.
+   *
+   * @experimental [EXP-PREDICTION-MIDDLEWARE] Prediction middlewares are experimental and may change
+   * in the future.
+   */
+  public use(middleware: LLMPredictionMiddleware): () => void {
+    const stack = getCurrentStack(1);
+    this.validator.validateMethodParamOrThrow(
+      `client.${this.namespace}`,
+      "use",
+      "middleware",
+      llmPredictionMiddlewareSchema,
+      middleware,
+      stack,
+    );
+    this.middlewares.push(middleware);
+    return () => {
+      const index = this.middlewares.indexOf(middleware);
+      if (index !== -1) {
+        this.middlewares.splice(index, 1);
+      }
+    };
+  }
+  /** @internal */
   protected override createDomainSpecificModel(
     port: LLMPort,
     info: LLMInstanceInfo,
     validator: Validator,
     logger: SimpleLogger,
   ): LLM {
-    return new LLM(port, info, validator, logger);
+    return new LLM(
+      port,
+      info,
+      validator,
+      logger,
+      this.client.files,
+      this.middlewares,
+      this.tracer,
+      this.metrics,
+    );
   }
   /** @internal */
   protected override createDomainDynamicHandle(
@@ -46,6 +104,15 @@ export class LLMNamespace extends ModelNamespace<
     validator: Validator,
     logger: SimpleLogger,
   ): LLMDynamicHandle {
-    return new LLMDynamicHandle(port, specifier, validator, logger);
+    return new LLMDynamicHandle(
+      port,
+      specifier,
+      validator,
+      logger,
+      this.client.files,
+      this.middlewares,
+      this.tracer,
+      this.metrics,
+    );
   }
 }
@@ -1,6 +1,7 @@
 import { StreamablePromise } from "@lmstudio/lms-common";
 import { type LLMPredictionFragment } from "@lmstudio/lms-shared-types";
 import { GeneratorPredictionResult } from "./GeneratorPredictionResult";
+import { type DeepPartial, partialObjectsFromFragments } from "./PartialJsonParser.js";
 
 /**
  * Represents an ongoing prediction from a generator.
@@ -105,6 +106,25 @@ export class OngoingGeneratorPrediction extends StreamablePromise<
     return await this;
   }
 
+  /**
+   * Streams JSON generated by the generator as it is being generated. Every time more of the JSON
+   * has been generated, the object parsed so far is yielded. Strings that are still being generated
+   * are included with the text generated so far, while unfinished numbers, booleans and keys are
+   * left out until they are complete.
+   *
+   * Generators do not take a schema, so the type of the objects can be specified with the type
+   * parameter. The yielded objects are not validated.
+   */
+  public async *partialObjects<TObject = unknown>(): AsyncGenerator<
+    DeepPartial<TObject>,
+    void,
+    undefined
+  > {
+    for await (const partialObject of partialObjectsFromFragments(this)) {
+      yield partialObject as DeepPartial<TObject>;
+    }
+  }
+
   /**
    * Cancels the prediction.
    */
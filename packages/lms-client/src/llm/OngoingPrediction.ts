@@ -6,7 +6,9 @@ import {
   type LLMPredictionStats,
   type LLMPredictionStopReason,
 } from "@lmstudio/lms-shared-types";
+import { type DeepPartial, partialObjectsFromFragments } from "./PartialJsonParser.js";
 import { PredictionResult, StructuredPredictionResult } from "./PredictionResult.js";
+import { type StructuredOutputRepairFailure } from "./structuredOutputRepair.js";
 
 /**
  * Represents an ongoing prediction.
@@ -53,8 +55,16 @@ export class OngoingPrediction<TStructuredOutputType = unknown> extends Streamab
   private modelInfo: LLMInstanceInfo | null = null;
   private loadModelConfig: KVConfig | null = null;
   private predictionConfig: KVConfig | null = null;
+  private readonly repairFailures: Array<StructuredOutputRepairFailure> = [];
+  /**
+   * The indices of the fragments at which a new attempt to generate valid structured output starts,
+   * or from which a middleware replaced the result. Only the fragments of the last attempt make up
+   * the result.
+   */
+  private readonly attemptStartIndices: Array<number> = [];
 
-  protected override async collect(fragments: ReadonlyArray<LLMPredictionFragment>) {
+  protected override async collect(allFragments: ReadonlyArray<LLMPredictionFragment>) {
+    const fragments = allFragments.slice(this.attemptStartIndices.at(-1) ?? 0);
     const content = fragments.map(({ content }) => content).join("");
     const reasoningContent = fragments
       .filter(({ isStructural }) => !isStructural)
@@ -66,6 +76,7 @@ export class OngoingPrediction<TStructuredOutputType = unknown> extends Streamab
       .filter(({ reasoningType }) => reasoningType === "none")
       .map(({ content }) => content)
       .join("");
+    const tokens = fragments.flatMap(fragment => fragment.tokens ?? []);
     if (this.stats === null) {
       throw new Error("Stats should not be null");
     }
@@ -90,6 +101,7 @@ export class OngoingPrediction<TStructuredOutputType = unknown> extends Streamab
         /* roundIndex */ 0,
         this.loadModelConfig,
         this.predictionConfig,
+        tokens,
       ) as any;
     } else {
       return new StructuredPredictionResult<TStructuredOutputType>(
@@ -104,6 +116,8 @@ export class OngoingPrediction<TStructuredOutputType = unknown> extends Streamab
         this.loadModelConfig,
         this.predictionConfig,
         this.parser(content),
+        this.repairFailures,
+        tokens,
       ) as any;
     }
   }
@@ -134,8 +148,27 @@ export class OngoingPrediction<TStructuredOutputType = unknown> extends Streamab
       ongoingPrediction.finished();
     };
     const failed = (error?: any) => ongoingPrediction.finished(error);
-    const push = (fragment: LLMPredictionFragment) => ongoingPrediction.push(fragment);
-    return { ongoingPrediction, finished, failed, push };
+    let pushedFragmentsCount = 0;
+    const push = (fragment: LLMPredictionFragment) => {
+      pushedFragmentsCount++;
+      ongoingPrediction.push(fragment);
+    };
+    /**
+     * Marks the fragments pushed so far as a failed attempt. The fragments pushed afterwards belong
+     * to the next attempt.
+     */
+    const repairing = (failure: StructuredOutputRepairFailure) => {
+      ongoingPrediction.repairFailures.push(failure);
+      ongoingPrediction.attemptStartIndices.push(pushedFragmentsCount);
+    };
+    /**
+     * Leaves the fragments pushed so far out of the result, because a middleware replaced it. The
+     * fragments pushed afterwards make up the result.
+     */
+    const discardFragments = () => {
+      ongoingPrediction.attemptStartIndices.push(pushedFragmentsCount);
+    };
+    return { ongoingPrediction, finished, failed, push, repairing, discardFragments };
   }
 
   /**
@@ -174,6 +207,39 @@ export class OngoingPrediction<TStructuredOutputType = unknown> extends Streamab
     return (await this) as any;
   }
 
+  /**
+   * Streams the structured output as it is being generated. Every time more of the JSON has been
+   * generated, the object parsed so far is yielded. Strings that are still being generated are
+   * included with the text generated so far, while unfinished numbers, booleans and keys are left
+   * out until they are complete.
+   *
+   * The yielded objects are not validated against the schema, as they are incomplete. Use the
+   * `parsed` field of the final result for the validated object. If the prediction uses the
+   * `repair` option and a response fails validation, the objects of the next response start from
+   * scratch.
+   *
+   * Example:
+   *
+   * ```typescript
+   * const prediction = model.respond("Describe a fictional book.", { structured: bookSchema });
+   * for await (const partialBook of prediction.partialObjects()) {
+   *   renderForm(partialBook);
+   * }
+   * const { parsed } = await prediction;
+   * ```
+   */
+  public async *partialObjects(): AsyncGenerator<
+    DeepPartial<TStructuredOutputType>,
+    void,
+    undefined
+  > {
+    for await (const partialObject of partialObjectsFromFragments(this, index =>
+      this.attemptStartIndices.includes(index),
+    )) {
+      yield partialObject as DeepPartial<TStructuredOutputType>;
+    }
+  }
+
   /**
    * Cancels the prediction. This will stop the prediction with stop reason `userStopped`. See
    * {@link LLMPredictionStopReason} for other reasons that a prediction might stop.
@@ -0,0 +1,112 @@
+import { type LLMPredictionFragment } from "@lmstudio/lms-shared-types";
+import { OngoingGeneratorPrediction } from "./OngoingGeneratorPrediction.js";
+import { OngoingPrediction } from "./OngoingPrediction.js";
+import { PartialJsonParser } from "./PartialJsonParser.js";
+
+function snapshotsOf(chunks: Array<string>) {
+  const parser = new PartialJsonParser();
+  const snapshots: Array<unknown> = [];
+  for (const chunk of chunks) {
+    parser.push(chunk);
+    if (parser.hasChanged()) {
+      snapshots.push(parser.getSnapshot());
+    }
+  }
+  parser.end();
+  if (parser.hasChanged()) {
+    snapshots.push(parser.getSnapshot());
+  }
+  return snapshots;
+}
+
+function fragment(
+  content: string,
+  opts: Partial<LLMPredictionFragment> = {},
+): LLMPredictionFragment {
+  return {
+    content,
+    tokensCount: 1,
+    containsDrafted: false,
+    reasoningType: "none",
+    isStructural: false,
+    ...opts,
+  };
+}
+
+describe("PartialJsonParser", () => {
+  test("yields progressively more complete objects", () => {
+    expect(
+      snapshotsOf([
+        '{"title": "The Ho',
+        'bbit", "pa',
+        'ges": 3',
+        "10, ",
+        '"tags": ["fan',
+        'tasy"]}',
+      ]),
+    ).toEqual([
+      { title: "The Ho" },
+      { title: "The Hobbit" },
+      { title: "The Hobbit", pages: 310 },
+      { title: "The Hobbit", pages: 310, tags: ["fan"] },
+      { title: "The Hobbit", pages: 310, tags: ["fantasy"] },
+    ]);
+  });
+
+  test("parses any JSON when fed one character at a time", () => {
+    const value = {
+      text: 'Quote: "hi" \\ \n\t ünïcödé é',
+      numbers: [0, -1.5, 2e10, 3],
+      nested: [{ a: [] }, {}, [[true, false, null]]],
+    };
+    // Also cover unicode escape sequences, which JSON.stringify does not produce for "é".
+    const json = JSON.stringify(value, null, 2).replace(" é", " \\u00e9");
+    const snapshots = snapshotsOf([...json]);
+    expect(snapshots.at(-1)).toEqual(value);
+  });
+
+  test("skips text before the JSON and stops at invalid JSON", () => {
+    expect(snapshotsOf(["```json\n", '{"a": 1, "b": tru', "x}"]).at(-1)).toEqual({ a: 1 });
+  });
+});
+
+describe("partialObjects", () => {
+  test("streams the objects of an ongoing prediction, ignoring reasoning", async () => {
+    const { ongoingPrediction, push, failed } = OngoingPrediction.create<{ name: string }>(
+      () => {},
+      content => JSON.parse(content),
+    );
+    push(fragment("Let me think", { reasoningType: "reasoning" }));
+    push(fragment('{"name": "Bil'));
+    push(fragment('bo"}'));
+    failed(new Error("Stopped"));
+
+    const partialObjects: Array<unknown> = [];
+    await expect(
+      (async () => {
+        for await (const partialObject of ongoingPrediction.partialObjects()) {
+          partialObjects.push(partialObject);
+        }
+      })(),
+    ).rejects.toThrow("Stopped");
+    expect(partialObjects).toEqual([{ name: "Bil" }, { name: "Bilbo" }]);
+  });
+
+  test("streams the objects of an ongoing generator prediction", async () => {
+    const { ongoingPrediction, push, finished } = OngoingGeneratorPrediction.create(
+      "plugin",
+      () => {},
+    );
+    const collected = (async () => {
+      const partialObjects: Array<{ count?: number }> = [];
+      for await (const partialObject of ongoingPrediction.partialObjects<{ count: number }>()) {
+        partialObjects.push(partialObject);
+      }
+      return partialObjects;
+    })();
+    push(fragment('{"count": 4'));
+    push(fragment("2}"));
+    finished();
+    await expect(collected).resolves.toEqual([{}, { count: 42 }]);
+  });
+});
@@ -0,0 +1,333 @@
+import { type LLMPredictionFragment } from "@lmstudio/lms-shared-types";
+
+/**
+ * Recursively makes all properties of an object type optional. Used for the objects yielded by
+ * `partialObjects()`, which are built from JSON that is still being generated.
+ *
+ * @public
+ */
+export type DeepPartial<T> =
+  T extends Array<infer TElement>
+    ? Array<DeepPartial<TElement>>
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+type Container =
+  | { kind: "object"; value: Record<string, unknown>; key: string | null }
+  | {
+      kind: "array";
+      value: Array<unknown>;
+      /**
+       * Whether the last element is still being parsed, so updates replace it.
+       */
+      pending: boolean;
+    };
+
+type Mode =
+  | "value"
+  | "valueOrArrayEnd"
+  | "key"
+  | "keyOrObjectEnd"
+  | "colon"
+  | "afterValue"
+  | "string"
+  | "number"
+  | "literal"
+  | "done"
+  | "error";
+
+const literals: Record<string, unknown> = { true: true, false: false, null: null };
+const escapes: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  "b": "\b",
+  "f": "\f",
+  "n": "\n",
+  "r": "\r",
+  "t": "\t",
+};
+
+/**
+ * An incremental JSON parser that tolerates incomplete input. Text is pushed in chunks as it is
+ * generated, and {@link PartialJsonParser#getSnapshot} returns the value parsed so far: unfinished
+ * strings are included with the text generated so far, while unfinished keys, numbers and
+ * literals are left out.
+ *
+ * Each chunk is only looked at once, so parsing a stream of fragments takes linear time. Text
+ * before the first `{` or `[` (for example, the start of a markdown code block) is skipped. If the
+ * input turns out to not be valid JSON, parsing stops and the snapshot stays at the last valid
+ * state.
+ */
+export class PartialJsonParser {
+  private root: unknown = undefined;
+  private readonly stack: Array<Container> = [];
+  private mode: Mode = "value";
+  /**
+   * The text of the string, number or literal that is currently being parsed.
+   */
+  private token = "";
+  private isKey = false;
+  /**
+   * `null` if not in an escape sequence. Otherwise, the characters of the escape sequence after the
+   * backslash so far.
+   */
+  private escape: string | null = null;
+  /**
+   * Whether the snapshot has changed since the last call to getSnapshot.
+   */
+  private changed = false;
+
+  public push(chunk: string) {
+    for (const char of chunk) {
+      this.processChar(char);
+      if (this.mode === "done" || this.mode === "error") {
+        break;
+      }
+    }
+    if (this.mode === "string" && !this.isKey) {
+      this.setCurrentValue(this.token);
+    }
+  }
+
+  /**
+   * Signals the end of the input, which completes a number at the very end of the input.
+   */
+  public end() {
+    if (this.mode === "number") {
+      this.finishNumber();
+    }
+  }
+
+  /**
+   * Whether the snapshot has changed since the last call to {@link PartialJsonParser#getSnapshot}.
+   */
+  public hasChanged() {
+    return this.changed;
+  }
+
+  /**
+   * Gets a copy of the value parsed so far. `undefined` if no value has started yet.
+   */
+  public getSnapshot(): unknown {
+    this.changed = false;
+    return this.root === undefined ? undefined : structuredClone(this.root);
+  }
+
+  private setCurrentValue(value: unknown) {
+    this.changed = true;
+    const top = this.stack.at(-1);
+    if (top === undefined) {
+      this.root = value;
+    } else if (top.kind === "object") {
+      top.value[top.key!] = value;
+    } else if (top.pending) {
+      top.value[top.value.length - 1] = value;
+    } else {
+      top.value.push(value);
+      top.pending = true;
+    }
+  }
+
+  private finishValue(value: unknown) {
+    this.setCurrentValue(value);
+    this.finishElement();
+  }
+
+  /**
+   * Called when a value is complete. Moves on to what comes after the value.
+   */
+  private finishElement() {
+    const top = this.stack.at(-1);
+    if (top?.kind === "array") {
+      top.pending = false;
+    }
+    this.mode = top === undefined ? "done" : "afterValue";
+  }
+
+  /**
+   * Returns whether the number is valid.
+   */
+  private finishNumber() {
+    const value = Number(this.token);
+    if (Number.isNaN(value)) {
+      this.mode = "error";
+      return false;
+    }
+    this.finishValue(value);
+    return true;
+  }
+
+  private processChar(char: string) {
+    const isWhitespace = char === " " || char === "\n" || char === "\r" || char === "\t";
+    switch (this.mode) {
+      case "value":
+      case "valueOrArrayEnd": {
+        if (isWhitespace) {
+          return;
+        }
+        if (char === "]" && this.mode === "valueOrArrayEnd") {
+          this.closeContainer();
+          return;
+        }
+        if (char === "{") {
+          const container: Container = { kind: "object", value: {}, key: null };
+          this.startContainer(container);
+          this.mode = "keyOrObjectEnd";
+        } else if (char === "[") {
+          const container: Container = { kind: "array", value: [], pending: false };
+          this.startContainer(container);
+          this.mode = "valueOrArrayEnd";
+        } else if (this.root === undefined && this.stack.length === 0) {
+          // Skip anything before the start of the JSON.
+        } else if (char === '"') {
+          this.mode = "string";
+          this.isKey = false;
+          this.token = "";
+          this.setCurrentValue("");
+        } else if (char === "-" || (char >= "0" && char <= "9")) {
+          this.mode = "number";
+          this.token = char;
+        } else if (char === "t" || char === "f" || char === "n") {
+          this.mode = "literal";
+          this.token = char;
+        } else {
+          this.mode = "error";
+        }
+        return;
+      }
+      case "keyOrObjectEnd":
+      case "key": {
+        if (isWhitespace) {
+          return;
+        }
+        if (char === "}" && this.mode === "keyOrObjectEnd") {
+          this.closeContainer();
+        } else if (char === '"') {
+          this.mode = "string";
+          this.isKey = true;
+          this.token = "";
+        } else {
+          this.mode = "error";
+        }
+        return;
+      }
+      case "colon": {
+        if (isWhitespace) {
+          return;
+        }
+        this.mode = char === ":" ? "value" : "error";
+        return;
+      }
+      case "afterValue": {
+        if (isWhitespace) {
+          return;
+        }
+        const top = this.stack.at(-1)!;
+        if (char === ",") {
+          this.mode = top.kind === "object" ? "key" : "value";
+        } else if (
+          (char === "}" && top.kind === "object") ||
+          (char === "]" && top.kind === "array")
+        ) {
+          this.closeContainer();
+        } else {
+          this.mode = "error";
+        }
+        return;
+      }
+      case "string": {
+        this.processStringChar(char);
+        return;
+      }
+      case "number": {
+        if ((char >= "0" && char <= "9") || "+-.eE".includes(char)) {
+          this.token += char;
+          return;
+        }
+        if (this.finishNumber()) {
+          // The character that ended the number is part of what comes after it.
+          this.processChar(char);
+        }
+        return;
+      }
+      case "literal": {
+        this.token += char;
+        if (this.token in literals) {
+          this.finishValue(literals[this.token]);
+        } else if (!Object.keys(literals).some(literal => literal.startsWith(this.token))) {
+          this.mode = "error";
+        }
+        return;
+      }
+    }
+  }
+
+  private processStringChar(char: string) {
+    if (this.escape !== null) {
+      this.escape += char;
+      if (this.escape[0] === "u") {
+        if (this.escape.length === 5) {
+          this.token += String.fromCharCode(parseInt(this.escape.slice(1), 16));
+          this.escape = null;
+        }
+      } else {
+        this.token += escapes[this.escape] ?? this.escape;
+        this.escape = null;
+      }
+      return;
+    }
+    if (char === "\\") {
+      this.escape = "";
+    } else if (char === '"') {
+      if (this.isKey) {
+        (this.stack.at(-1) as Extract<Container, { kind: "object" }>).key = this.token;
+        this.mode = "colon";
+      } else {
+        this.finishValue(this.token);
+      }
+    } else {
+      this.token += char;
+    }
+  }
+
+  private startContainer(container: Container) {
+    this.setCurrentValue(container.value);
+    this.stack.push(container);
+  }
+
+  private closeContainer() {
+    this.stack.pop();
+    this.finishElement();
+  }
+}
+
+/**
+ * Parses the JSON in the non-reasoning content of a stream of prediction fragments and yields the
+ * value parsed so far every time it changes. Parsing starts over at the fragments for which
+ * `isAttemptStart` returns true.
+ */
+export async function* partialObjectsFromFragments(
+  fragments: AsyncIterable<LLMPredictionFragment>,
+  isAttemptStart: (fragmentIndex: number) => boolean = () => false,
+): AsyncGenerator<unknown, void, undefined> {
+  let parser = new PartialJsonParser();
+  let fragmentIndex = 0;
+  for await (const fragment of fragments) {
+    if (isAttemptStart(fragmentIndex++)) {
+      parser = new PartialJsonParser();
+    }
+    if (fragment.isStructural || fragment.reasoningType !== "none") {
+      continue;
+    }
+    parser.push(fragment.content);
+    if (parser.hasChanged()) {
+      yield parser.getSnapshot();
+    }
+  }
+  parser.end();
+  if (parser.hasChanged()) {
+    yield parser.getSnapshot();
+  }
+}
@@ -2,7 +2,14 @@ import {
   type KVConfig,
   type LLMInstanceInfo,
   type LLMPredictionStats,
+  type LLMToken,
 } from "@lmstudio/lms-shared-types";
+import {
+  analyzeLogProbs,
+  type LLMLogProbAnalysis,
+  type LLMLogProbAnalysisOpts,
+} from "./logProbAnalysis.js";
+import { type StructuredOutputRepairFailure } from "./structuredOutputRepair.js";
 
 /**
  * Base interface for all prediction result types, including those that are produced by an LLM and
@@ -81,7 +88,21 @@ export class PredictionResult implements BasePredictionResult {
      * turned for updates.
      */
     public readonly predictionConfig: KVConfig,
+    /**
+     * The generated tokens. Only contains log probabilities if the prediction was made with
+     * `logProbs` in the prediction config.
+     */
+    public readonly tokens: ReadonlyArray<LLMToken> = [],
   ) {}
+
+  /**
+   * Computes the perplexity, the entropy of each token and the spans of low-confidence tokens of
+   * this prediction. Requires the prediction to be made with `logProbs` in the prediction config.
+   * See {@link analyzeLogProbs}.
+   */
+  public analyze(opts?: LLMLogProbAnalysisOpts): LLMLogProbAnalysis {
+    return analyzeLogProbs(this.tokens, opts);
+  }
 }
 
 /**
@@ -107,6 +128,13 @@ export class StructuredPredictionResult<TStructuredOutputType = unknown> extends
      * Parsed result of the structured output.
      */
     public readonly parsed: TStructuredOutputType,
+    /**
+     * Responses that failed validation before this one, in order. Only populated when the
+     * prediction was made with the `repair` option. The content, stats and parsed result of this
+     * object belong to the final response.
+     */
+    public readonly repairFailures: Array<StructuredOutputRepairFailure> = [],
+    tokens: ReadonlyArray<LLMToken> = [],
   ) {
     super(
       content,
@@ -117,6 +145,14 @@ export class StructuredPredictionResult<TStructuredOutputType = unknown> extends
       roundIndex,
       loadConfig,
       predictionConfig,
+      tokens,
     );
+    this.repairRounds = repairFailures.length;
   }
+
+  /**
+   * The number of times the model had to be asked to correct its response before it passed
+   * validation. 0 if the first response was valid.
+   */
+  public readonly repairRounds: number;
 }
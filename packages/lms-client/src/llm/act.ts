@@ -9,21 +9,34 @@ import {
   SimpleLogger,
   text,
 } from "@lmstudio/lms-common";
+import { uint8ArrayToBase64 } from "@lmstudio/lms-isomorphic";
 import {
   type ChatHistoryData,
+  type ChatMessagePartFileData,
   type ChatMessagePartToolCallRequestData,
   type ChatMessagePartToolCallResultData,
   type LLMPredictionFragment,
+  type LLMToken,
+  type LLMToolChoice,
   type PromptProcessingDetails,
   type ToolCallRequest,
   type ToolCallResult,
 } from "@lmstudio/lms-shared-types";
 import { z, type ZodSchema } from "zod";
 import { Chat, ChatMessage, type ChatLike } from "../Chat.js";
+import { FileHandle } from "../files/FileHandle.js";
+import { type FilesNamespace } from "../files/FilesNamespace.js";
+import { actCheckpointSchema, type ActCheckpoint } from "./ActCheckpoint.js";
 import { ActResult } from "./ActResult.js";
+import { historyCompactorSchema, type HistoryCompactor } from "./historyCompactor.js";
 import { type LLMPredictionFragmentWithRoundIndex } from "./LLMDynamicHandle.js";
 import { PredictionResult } from "./PredictionResult.js";
-import { SimpleToolCallContext, UnimplementedToolError, type Tool } from "./tool.js";
+import {
+  SimpleToolCallContext,
+  UnimplementedToolError,
+  type Tool,
+  type ToolCallContext,
+} from "./tool.js";
 import {
   ToolCallRequestError,
   ToolCallRequestInvalidArgumentsError,
@@ -210,6 +223,178 @@ class FIFOQueue implements QueueInterface {
   }
 }
 
+/**
+ * Limits how many calls of a tool can run at the same time.
+ *
+ * A released slot is handed directly to the next waiter, so a caller acquiring in between cannot
+ * take it.
+ */
+export class ConcurrencyLimiter {
+  private running = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  public constructor(private readonly maxConcurrency: number) {}
+
+  /**
+   * Waits until a slot is available. Returns a function that must be called to release the slot.
+   */
+  public async acquire(signal: AbortSignal): Promise<() => void> {
+    signal.throwIfAborted();
+    if (this.running < this.maxConcurrency) {
+      this.running++;
+    } else {
+      // Woken up by a release, which hands its slot over without decrementing `running`.
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          const index = this.waiting.indexOf(onAvailable);
+          if (index !== -1) {
+            this.waiting.splice(index, 1);
+          }
+          reject(signal.reason);
+        };
+        const onAvailable = () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        this.waiting.push(onAvailable);
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = this.waiting.shift();
+      if (next === undefined) {
+        this.running--;
+      } else {
+        next();
+      }
+    };
+  }
+}
+
+/**
+ * Concurrency limiters of tools with `maxConcurrency`. Keyed by the tool object, such that the limit
+ * is shared by all `.act` calls using the same tool.
+ */
+const toolConcurrencyLimiters = new WeakMap<Tool, ConcurrencyLimiter>();
+
+function getToolConcurrencyLimiter(tool: Tool) {
+  if (tool.maxConcurrency === undefined) {
+    return null;
+  }
+  let limiter = toolConcurrencyLimiters.get(tool);
+  if (limiter === undefined) {
+    limiter = new ConcurrencyLimiter(tool.maxConcurrency);
+    toolConcurrencyLimiters.set(tool, limiter);
+  }
+  return limiter;
+}
+
+export class ToolCallTimeoutError extends Error {
+  public constructor(toolName: string, timeoutMs: number) {
+    super(`Tool "${toolName}" did not finish within ${timeoutMs} ms.`);
+  }
+}
+
+function waitForRetryDelay(delayMs: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls the implementation of a tool, enforcing the `timeoutMs`, `retry`, and `maxConcurrency` of
+ * the tool. Each attempt gets its own signal, which is aborted when the attempt times out or when
+ * `signal` is aborted. Each attempt also holds its own slot of the concurrency limit until its
+ * implementation settles, even if it has timed out.
+ *
+ * Resolves to `{ type: "timeout" }` if the last attempt has timed out. Rejects with the error of the
+ * last attempt if it has thrown.
+ */
+export async function callToolImplementation(
+  tool: Tool,
+  params: Record<string, unknown>,
+  makeContext: (signal: AbortSignal) => ToolCallContext,
+  signal: AbortSignal,
+  logger: SimpleLogger,
+): Promise<{ type: "success"; result: any } | { type: "timeout"; error: ToolCallTimeoutError }> {
+  const limiter = getToolConcurrencyLimiter(tool);
+  const maxRetries = tool.retry?.maxRetries ?? 0;
+  let delayMs = tool.retry?.delayMs ?? 500;
+  for (let attempt = 0; ; attempt++) {
+    const release = await limiter?.acquire(signal);
+    const attemptAbortController = new AbortController();
+    const onAbort = () => attemptAbortController.abort(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let failure: { type: "timeout"; error: ToolCallTimeoutError } | { type: "error"; error: any };
+    try {
+      const implementationPromise = Promise.resolve().then(() =>
+        tool.implementation(params, makeContext(attemptAbortController.signal)),
+      );
+      // The slot is only released once the implementation has settled, so that implementations
+      // that keep running after they have timed out still count towards `maxConcurrency`.
+      implementationPromise.then(
+        () => release?.(),
+        () => release?.(),
+      );
+      if (tool.timeoutMs === undefined) {
+        return { type: "success", result: await implementationPromise };
+      }
+      const timeoutMs = tool.timeoutMs;
+      const raceResult = await Promise.race([
+        implementationPromise.then(result => ({ type: "success" as const, result })),
+        new Promise<{ type: "timeout"; error: ToolCallTimeoutError }>(resolve => {
+          timeout = setTimeout(() => {
+            const error = new ToolCallTimeoutError(tool.name, timeoutMs);
+            attemptAbortController.abort(error);
+            resolve({ type: "timeout", error });
+          }, timeoutMs);
+        }),
+      ]);
+      if (raceResult.type === "success") {
+        return raceResult;
+      }
+      failure = raceResult;
+    } catch (error) {
+      failure = { type: "error", error };
+    } finally {
+      clearTimeout(timeout);
+      signal.removeEventListener("abort", onAbort);
+    }
+
+    const shouldRetry =
+      failure.type === "timeout"
+        ? tool.retry?.retryOnTimeout === true
+        : !(failure.error instanceof UnimplementedToolError) &&
+          (tool.retry?.shouldRetry?.(failure.error, attempt) ?? true);
+    if (signal.aborted || attempt >= maxRetries || !shouldRetry) {
+      if (failure.type === "timeout") {
+        return failure;
+      }
+      throw failure.error;
+    }
+    logger.warn(
+      `Attempt ${attempt + 1} failed (${failure.error?.message ?? failure.error}), retrying...`,
+    );
+    await waitForRetryDelay(delayMs, signal);
+    delayMs *= tool.retry?.backoffMultiplier ?? 2;
+  }
+}
+
 /**
  * Result returned by a `guardToolCall` handler.
  *
@@ -335,6 +520,10 @@ export interface LLMActBaseOpts<TPredictionResult> {
    * 1. The first prediction's generated message, which contains information about the tool request.
    * 2. The result of running the tool.
    * 3. The second prediction's generated message.
+   *
+   * If a tool implementation returns files or images (see {@link LLMActBaseOpts.onToolCallResult}),
+   * they are included in the tool message as file parts, right after the tool call result they
+   * belong to.
    */
   onMessage?: (message: ChatMessage) => void;
   /**
@@ -571,6 +760,14 @@ export interface LLMActBaseOpts<TPredictionResult> {
    *
    * This callback is not guaranteed to be called in the same order as the tool call requests.
    *
+   * @remarks
+   *
+   * Tool implementations may return a `FileHandle`, an image buffer (`Uint8Array`, PNG, JPEG, GIF
+   * or WebP), or an array containing them. In that case, the files are not part of `content`.
+   * Instead, they are attached to the tool message emitted via `onMessage`. The `content` then
+   * contains the remaining (non-file) values, or a list of the attached file names if there are
+   * none.
+   *
    * @experimental [EXP-GRANULAR-ACT] More granular .act status reporting is experimental and may
    * change in the future
    */
@@ -704,6 +901,39 @@ export interface LLMActBaseOpts<TPredictionResult> {
    * tools are stateful and have strict ordering requirements.
    */
   allowParallelToolExecution?: boolean;
+  /**
+   * A callback that is called with a checkpoint of the `.act` call. It is called at the end of
+   * every round, and additionally when a prediction has finished but the tool calls it requested
+   * are still running, as well as whenever one of those tool calls finishes. Persist the latest
+   * checkpoint and pass it via `resumeFrom` to continue the `.act` call later, for example, after
+   * the process has crashed.
+   *
+   * @experimental [EXP-ACT-CHECKPOINT] Checkpointing `.act` calls is experimental and may change in
+   * the future.
+   */
+  onCheckpoint?: (checkpoint: ActCheckpoint) => void;
+  /**
+   * Resume the `.act` call from a checkpoint obtained via `onCheckpoint`. When provided, the chat
+   * history stored in the checkpoint is used instead of the chat passed into `.act`.
+   *
+   * Tool calls that do not have results in the checkpoint are executed again before the next
+   * prediction round. Rounds performed before the checkpoint count towards `maxPredictionRounds`.
+   * If the checkpoint was taken after the final round, resuming from it starts a new round of
+   * prediction, unless `maxPredictionRounds` rounds have already been performed, in which case
+   * `.act` returns right away.
+   *
+   * @experimental [EXP-ACT-CHECKPOINT] Checkpointing `.act` calls is experimental and may change in
+   * the future.
+   */
+  resumeFrom?: ActCheckpoint;
+  /**
+   * Compacts the history on the client side before every round if it does not fit in the context
+   * of the model. See {@link HistoryCompactor} for more details.
+   *
+   * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+   * change in the future.
+   */
+  historyCompactor?: HistoryCompactor;
 }
 export const llmActBaseOptsSchema = z.object({
   onFirstToken: z.function().optional(),
@@ -727,6 +957,9 @@ export const llmActBaseOptsSchema = z.object({
   maxPredictionRounds: z.number().int().min(1).optional(),
   signal: z.instanceof(AbortSignal).optional(),
   allowParallelToolExecution: z.boolean().optional(),
+  onCheckpoint: z.function().optional(),
+  resumeFrom: actCheckpointSchema.optional(),
+  historyCompactor: historyCompactorSchema.optional(),
 }) satisfies ZodSchema<LLMActBaseOpts<any>>;
 
 const defaultHandleInvalidToolRequest = (error: Error, request: ToolCallRequest | undefined) => {
@@ -736,14 +969,165 @@ const defaultHandleInvalidToolRequest = (error: Error, request: ToolCallRequest
   throw error;
 };
 
+/**
+ * Recognizes the format of an image buffer by its magic bytes. Returns the file extension, or
+ * `null` if the format is not recognized.
+ */
+export function getImageExtension(buffer: Uint8Array): string | null {
+  const startsWith = (bytes: Array<number>, offset = 0) =>
+    bytes.every((byte, index) => buffer[offset + index] === byte);
+  if (startsWith([0x89, 0x50, 0x4e, 0x47])) {
+    return "png";
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return "jpg";
+  }
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) {
+    return "gif";
+  }
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return "webp";
+  }
+  return null;
+}
+
+function isToolResultAttachment(value: unknown): value is FileHandle | Uint8Array {
+  return value instanceof FileHandle || value instanceof Uint8Array;
+}
+
+/**
+ * Converts the return value of a tool implementation to the content of the tool call result and
+ * the files attached to it.
+ *
+ * Resolves to `{ type: "error" }` if the result contains a buffer that is not a supported image, so
+ * the tool call can be reported to the model as failed instead of failing the whole `.act` call.
+ */
+async function convertToolImplementationResult(
+  result: any,
+  toolName: string,
+  filesNamespace: FilesNamespace | undefined,
+  stack: string,
+): Promise<
+  | { type: "success"; content: string; files: Array<ChatMessagePartFileData> }
+  | { type: "error"; message: string }
+> {
+  let attachments: Array<FileHandle | Uint8Array> = [];
+  let leftovers: Array<any> = [];
+  if (isToolResultAttachment(result)) {
+    attachments = [result];
+  } else if (Array.isArray(result) && result.some(isToolResultAttachment)) {
+    attachments = result.filter(isToolResultAttachment);
+    leftovers = result.filter(item => !isToolResultAttachment(item));
+  } else if (result === undefined) {
+    return { type: "success", content: "undefined", files: [] };
+  } else {
+    leftovers = [result];
+  }
+
+  if (
+    attachments.some(
+      attachment => attachment instanceof Uint8Array && getImageExtension(attachment) === null,
+    )
+  ) {
+    return {
+      type: "error",
+      message: text`
+        Tool ${toolName} returned a buffer that is not a supported image. Only PNG, JPEG, GIF and
+        WebP images are supported.
+      `,
+    };
+  }
+
+  const files: Array<ChatMessagePartFileData> = [];
+  for (const [index, attachment] of attachments.entries()) {
+    let fileHandle: FileHandle;
+    if (attachment instanceof FileHandle) {
+      fileHandle = attachment;
+    } else {
+      const extension = getImageExtension(attachment)!;
+      if (filesNamespace === undefined) {
+        throw makeTitledPrettyError(
+          `Tool ${toolName} returned an image buffer, which is not supported here`,
+          text`
+            Image buffers returned by tools need to be uploaded to LM Studio, which is not possible
+            in this context. Use \`client.files.prepareImage\` or
+            \`client.files.prepareImageBase64\` and return the resulting \`FileHandle\` instead.
+          `,
+          stack,
+        );
+      }
+      fileHandle = await filesNamespace.prepareImageBase64(
+        `${toolName}-${index}.${extension}`,
+        uint8ArrayToBase64(attachment),
+      );
+    }
+    files.push({
+      type: "file",
+      name: fileHandle.name,
+      identifier: fileHandle.identifier,
+      sizeBytes: fileHandle.sizeBytes,
+      fileType: fileHandle.type,
+    });
+  }
+
+  let content: string;
+  try {
+    if (leftovers.length === 0) {
+      // Let the model know what is attached, so the result is never empty.
+      content = JSON.stringify({ attachedFiles: files.map(file => file.name) });
+    } else if (leftovers.length === 1) {
+      content = JSON.stringify(leftovers[0]);
+    } else {
+      content = JSON.stringify(leftovers);
+    }
+  } catch (error) {
+    throw makePrettyError(`Return value of tool ${toolName} cannot be converted to JSON.`, stack);
+  }
+  return { type: "success", content, files };
+}
+
+/**
+ * Options for `internalAct` that are not part of the user facing options.
+ */
+export interface InternalActOpts {
+  /**
+   * The tool choice requested by the user. If it forces a specific tool, it will only be applied to
+   * the first round.
+   */
+  toolChoice?: LLMToolChoice;
+  /**
+   * The files namespace used to upload image buffers returned by tool implementations. If not
+   * provided, tools can only return images as `FileHandle`s.
+   */
+  filesNamespace?: FilesNamespace;
+  /**
+   * Runs the `historyCompactor` from the options on the history in-place. If not provided,
+   * `historyCompactor` is not supported.
+   */
+  compactHistory?: (chat: Chat, roundIndex: number) => Promise<void>;
+}
+
 interface ActPredictionImplementationArgs<TEndPacket> {
   /**
    * Whether this round allows the model to use tools.
    */
   allowTools: boolean;
+  /**
+   * The tool choice to use for this round. If undefined, the configured default should be used.
+   */
+  toolChoice: LLMToolChoice | undefined;
+  /**
+   * The 0-indexed index of this round.
+   */
+  roundIndex: number;
   history: ChatHistoryData;
   signal: AbortSignal;
   handleFragment: (fragment: LLMPredictionFragment) => void;
+  /**
+   * Leaves the fragments received so far out of the result of the round, because a middleware
+   * replaced it.
+   */
+  handleFragmentsDiscarded: () => void;
   handlePromptProcessingProgress: (progress: number, details: PromptProcessingDetails) => void;
   handleToolCallGenerationStart: (toolCallId: string | undefined) => void;
   handleToolCallGenerationNameReceived: (name: string) => void;
@@ -767,6 +1151,7 @@ interface ActMakePredictionResultArgs<TEndPacket> {
   content: string;
   reasoningContent: string;
   nonReasoningContent: string;
+  tokens: Array<LLMToken>;
   predictionsPerformed: number;
 }
 
@@ -794,6 +1179,8 @@ interface ActMakePredictionResultArgs<TEndPacket> {
  * @param makePredictionResult - A function that takes the end packet and the content of the
  * prediction and creates the `TPredictionResult`. This is used to create the prediction result
  * object for each round of the prediction.
+ * @param internalOpts - Options that are not part of the user facing options. See
+ * {@link InternalActOpts}.
  */
 export async function internalAct<TPredictionResult, TEndPacket>(
   chat: ChatLike,
@@ -804,9 +1191,11 @@ export async function internalAct<TPredictionResult, TEndPacket>(
   startTime: number,
   predictImpl: ActPredictImplementation<TEndPacket>,
   makePredictionResult: (args: ActMakePredictionResultArgs<TEndPacket>) => TPredictionResult,
+  { toolChoice, filesNamespace, compactHistory }: InternalActOpts = {},
 ) {
   const abortController = new AbortController();
-  const mutableChat = Chat.from(chat); // Make a copy
+  // Make a copy
+  const mutableChat = Chat.from(baseOpts.resumeFrom?.history ?? chat);
   let currentCallId: number = -1;
   /**
    * A flag that will be set if any unimplemented tool is called. In which case, the loop will
@@ -830,7 +1219,34 @@ export async function internalAct<TPredictionResult, TEndPacket>(
   }
 
   let shouldContinue = false;
-  let predictionsPerformed = 0;
+  let predictionsPerformed = baseOpts.resumeFrom?.roundsPerformed ?? 0;
+  /**
+   * If we are resuming from a checkpoint with pending tool calls, the prediction of the first round
+   * is already in the history. In that case, only the tool calls that have not completed yet are
+   * executed in that round.
+   */
+  let resumedCheckpoint =
+    baseOpts.resumeFrom !== undefined && baseOpts.resumeFrom.pendingToolCallRequests.length > 0
+      ? baseOpts.resumeFrom
+      : undefined;
+
+  const emitCheckpoint = (
+    pendingToolCallRequests: Array<ToolCallRequest>,
+    completedToolCalls: ActCheckpoint["completedToolCalls"] = [],
+  ) => {
+    safeCallCallback(logger, "onCheckpoint", baseOpts.onCheckpoint, [
+      {
+        history: accessMaybeMutableInternals(mutableChat.asImmutableCopy())._internalGetData(),
+        roundsPerformed: predictionsPerformed,
+        pendingToolCallRequests: pendingToolCallRequests.map(request => ({ ...request })),
+        completedToolCalls: completedToolCalls.map(({ requestIndex, result, files }) => ({
+          requestIndex,
+          result: { ...result },
+          files: files.map(file => ({ ...file })),
+        })),
+      },
+    ]);
+  };
 
   const toolsMap = new Map<string, Tool>();
   for (const tool of tools) {
@@ -843,6 +1259,31 @@ export async function internalAct<TPredictionResult, TEndPacket>(
     toolsMap.set(tool.name, tool);
   }
 
+  if (toolChoice?.type === "function" && !toolsMap.has(toolChoice.name)) {
+    throw makeTitledPrettyError(
+      `Cannot force the model to use tool "${toolChoice.name}"`,
+      text`
+        The \`toolChoice\` option requires the model to call the tool "${toolChoice.name}", but no
+        tool with that name is provided. Available tools are:
+        ${[...toolsMap.keys()].map(name => `"${name}"`).join(", ") || "(none)"}.
+      `,
+      stack,
+    );
+  }
+
+  if (baseOpts.historyCompactor !== undefined && compactHistory === undefined) {
+    throw makePrettyError("The historyCompactor option is not supported here.", stack);
+  }
+
+  if (
+    baseOpts.resumeFrom !== undefined &&
+    baseOpts.maxPredictionRounds !== undefined &&
+    predictionsPerformed >= baseOpts.maxPredictionRounds
+  ) {
+    // The checkpoint was taken after the final round, so there is nothing left to do.
+    return new ActResult(predictionsPerformed, (performance.now() - startTime) / 1_000);
+  }
+
   do {
     // Main loop - execute as many times as the model requests tools
     let allowTools = true;
@@ -856,12 +1297,25 @@ export async function internalAct<TPredictionResult, TEndPacket>(
       allowTools = false;
     }
 
+    let roundToolChoice = toolChoice;
+    if (toolChoice?.type === "function" && predictionsPerformed > 0) {
+      // A specific tool is only forced for the first round. Otherwise, the model would be forced
+      // to call the same tool over and over again.
+      roundToolChoice = { type: "generic", mode: "auto" };
+    }
+
+    if (compactHistory !== undefined && resumedCheckpoint === undefined) {
+      await compactHistory(mutableChat, predictionsPerformed);
+      abortController.signal.throwIfAborted();
+    }
+
     // Start the prediction
     let finished = false;
     let firstTokenTriggered = false;
     const contentArray: Array<string> = [];
     const reasoningContentArray: Array<string> = [];
     const nonReasoningContentArray: Array<string> = [];
+    const tokens: Array<LLMToken> = [];
 
     const toolCallRequests: Array<ToolCallRequest> = [];
     let nextToolCallIndex = 0;
@@ -873,7 +1327,37 @@ export async function internalAct<TPredictionResult, TEndPacket>(
        */
       index: number;
       data: ChatMessagePartToolCallResultData;
+      /**
+       * Files returned by the tool implementation. They are placed right after the result.
+       */
+      files: Array<ChatMessagePartFileData>;
     }> = [];
+    /**
+     * The position in toolCallRequests of the request of every tool call, keyed by the index of
+     * the tool call.
+     */
+    const toolCallRequestIndices = new Map<number, number>();
+    /**
+     * Whether the assistant message of this round is in the history. Checkpoints taken before that
+     * would not know about the tool call requests.
+     */
+    let isAssistantMessageInHistory = resumedCheckpoint !== undefined;
+    const emitRoundCheckpoint = () => {
+      emitCheckpoint(
+        toolCallRequests,
+        toolCallResults.map(({ index, data, files }) => ({
+          requestIndex: toolCallRequestIndices.get(index)!,
+          result: data,
+          files,
+        })),
+      );
+    };
+    const addToolCallResult = (result: (typeof toolCallResults)[number]) => {
+      toolCallResults.push(result);
+      if (isAssistantMessageInHistory) {
+        emitRoundCheckpoint();
+      }
+    };
 
     /**
      * All promises that need to be awaited. Once they are done, they will add their own results
@@ -943,7 +1427,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
           See the documentation for "handleInvalidToolRequest" for more information.
         `;
       } else {
-        toolCallResults.push({
+        addToolCallResult({
           index: toolCallIndex,
           data: {
             type: "toolCallResult",
@@ -951,6 +1435,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
             name: request?.name,
             content: resultString,
           },
+          files: [],
         });
         safeCallCallback(logger, "onToolCallResult", baseOpts.onToolCallResult, [
           predictionsPerformed,
@@ -980,8 +1465,11 @@ export async function internalAct<TPredictionResult, TEndPacket>(
     let receivedEagerToolNameReporting = false;
     let receivedToolArgumentsStreaming = false;
 
-    predictImpl({
+    const isResumedRound = resumedCheckpoint !== undefined;
+    const predictionArgs: ActPredictionImplementationArgs<TEndPacket> = {
       allowTools,
+      toolChoice: roundToolChoice,
+      roundIndex: predictionsPerformed,
       history: accessMaybeMutableInternals(mutableChat)._internalGetData(),
       signal: roundAbortController.signal,
       handleFragment: fragment => {
@@ -993,6 +1481,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
           { roundIndex: predictionsPerformed, ...fragment },
         ]);
         contentArray.push(fragment.content);
+        tokens.push(...(fragment.tokens ?? []));
         if (!fragment.isStructural) {
           if (fragment.reasoningType === "reasoning") {
             reasoningContentArray.push(fragment.content);
@@ -1001,6 +1490,12 @@ export async function internalAct<TPredictionResult, TEndPacket>(
           }
         }
       },
+      handleFragmentsDiscarded: () => {
+        contentArray.length = 0;
+        reasoningContentArray.length = 0;
+        nonReasoningContentArray.length = 0;
+        tokens.length = 0;
+      },
       handlePromptProcessingProgress: (progress, details) => {
         safeCallCallback(
           logger,
@@ -1068,6 +1563,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
 
         // We have now received a tool call request. Now let's see if we can call the tool and
         // get the result.
+        toolCallRequestIndices.set(toolCallIndex, toolCallRequests.length);
         toolCallRequests.push(pushedRequest);
         const tool = toolsMap.get(request.name);
         if (tool === undefined) {
@@ -1117,11 +1613,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
           ]);
           return;
         }
-        const toolCallContext = new SimpleToolCallContext(
-          new SimpleLogger(`Tool(${request.name})`, logger),
-          abortController.signal,
-          callId,
-        );
+        const toolLogger = new SimpleLogger(`Tool(${request.name})`, logger);
         const isQueued = queue.needsQueueing();
         safeCallCallback(logger, "onToolCallRequestEnd", baseOpts.onToolCallRequestEnd, [
           predictionsPerformed,
@@ -1184,7 +1676,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
                   case "deny": {
                     // 3. The guard denied the tool call. In this case, we will early return and not
                     //    call the tool.
-                    toolCallResults.push({
+                    addToolCallResult({
                       index: toolCallIndex,
                       data: {
                         type: "toolCallResult",
@@ -1194,6 +1686,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
                           error: guardResult.reason,
                         }),
                       },
+                      files: [],
                     });
                     safeCallCallback(logger, "onToolCallResult", baseOpts.onToolCallResult, [
                       predictionsPerformed,
@@ -1226,23 +1719,51 @@ export async function internalAct<TPredictionResult, TEndPacket>(
                 ],
               );
 
-              let result: any;
+              // Lets the model know that the tool call has failed, so it may try again.
+              const addToolErrorResult = (message: string) => {
+                const errorResultString = JSON.stringify({ error: message });
+                addToolCallResult({
+                  index: toolCallIndex,
+                  data: {
+                    type: "toolCallResult",
+                    toolCallId: request.id,
+                    name: request.name,
+                    content: errorResultString,
+                  },
+                  files: [],
+                });
+                safeCallCallback(logger, "onToolCallResult", baseOpts.onToolCallResult, [
+                  predictionsPerformed,
+                  callId,
+                  { toolCallId: request.id, name: request.name, content: errorResultString },
+                ]);
+              };
+
               try {
-                result = await tool.implementation(pushedRequest.arguments ?? {}, toolCallContext);
-                let resultString: string;
-                if (result === undefined) {
-                  resultString = "undefined";
-                } else {
-                  try {
-                    resultString = JSON.stringify(result);
-                  } catch (error) {
-                    throw makePrettyError(
-                      `Return value of tool ${tool.name} cannot be converted to JSON.`,
-                      stack,
-                    );
-                  }
+                const callResult = await callToolImplementation(
+                  tool,
+                  pushedRequest.arguments ?? {},
+                  signal => new SimpleToolCallContext(toolLogger, signal, callId),
+                  abortController.signal,
+                  toolLogger,
+                );
+                if (callResult.type === "timeout") {
+                  addToolErrorResult(callResult.error.message);
+                  return;
                 }
-                toolCallResults.push({
+                const conversion = await convertToolImplementationResult(
+                  callResult.result,
+                  tool.name,
+                  filesNamespace,
+                  stack,
+                );
+                if (conversion.type === "error") {
+                  toolLogger.warn(conversion.message);
+                  addToolErrorResult(conversion.message);
+                  return;
+                }
+                const { content: resultString, files } = conversion;
+                addToolCallResult({
                   index: toolCallIndex,
                   data: {
                     type: "toolCallResult",
@@ -1250,6 +1771,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
                     name: request.name,
                     content: resultString,
                   },
+                  files,
                 });
                 safeCallCallback(logger, "onToolCallSuccess", baseOpts.onToolCallSuccess, [
                   predictionsPerformed,
@@ -1299,6 +1821,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
           content: contentArray.join(""),
           reasoningContent: reasoningContentArray.join(""),
           nonReasoningContent: nonReasoningContentArray.join(""),
+          tokens,
           predictionsPerformed,
         });
         safeCallCallback(logger, "onPredictionCompleted", baseOpts.onPredictionCompleted, [
@@ -1323,7 +1846,35 @@ export async function internalAct<TPredictionResult, TEndPacket>(
         finished = true;
         predictionReject(error);
       },
-    });
+    };
+    if (resumedCheckpoint !== undefined) {
+      // Replay the pending tool call requests from the checkpoint as if they were just generated.
+      // The ones that have completed before the checkpoint only get their results back.
+      const { pendingToolCallRequests, completedToolCalls } = resumedCheckpoint;
+      for (const [requestIndex, request] of pendingToolCallRequests.entries()) {
+        const completedToolCall = completedToolCalls.find(
+          completedToolCall => completedToolCall.requestIndex === requestIndex,
+        );
+        if (completedToolCall === undefined) {
+          predictionArgs.handleToolCallGenerationStart(request.id);
+          predictionArgs.handleToolCallGenerationEnd(request, undefined);
+          continue;
+        }
+        const toolCallIndex = nextToolCallIndex;
+        nextToolCallIndex++;
+        toolCallRequestIndices.set(toolCallIndex, toolCallRequests.length);
+        toolCallRequests.push({ ...request });
+        toolCallResults.push({
+          index: toolCallIndex,
+          data: completedToolCall.result,
+          files: completedToolCall.files,
+        });
+      }
+      resumedCheckpoint = undefined;
+      predictionResolve();
+    } else {
+      predictImpl(predictionArgs);
+    }
     const abortListener = () => {
       if (finished) {
         return;
@@ -1335,6 +1886,10 @@ export async function internalAct<TPredictionResult, TEndPacket>(
 
     predictionPromise
       .then(() => {
+        if (isResumedRound) {
+          // The assistant message is already in the history of the checkpoint.
+          return;
+        }
         // Append and emit the assistant message.
         const assistantMessage = ChatMessage.from({
           role: "assistant",
@@ -1350,7 +1905,11 @@ export async function internalAct<TPredictionResult, TEndPacket>(
           ],
         });
         mutableChat.append(assistantMessage.asMutableCopy());
+        isAssistantMessageInHistory = true;
         safeCallCallback(logger, "onMessage", baseOpts.onMessage, [assistantMessage]);
+        if (toolCallRequests.length > 0) {
+          emitRoundCheckpoint();
+        }
       })
       // When the prediction is completed, wait for all tool calls to be completed.
       .then(() => Promise.all(toolCallPromises))
@@ -1366,7 +1925,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
       // Emit the tool call results.
       const toolMessage = ChatMessage.from({
         role: "tool",
-        content: toolCallResults.map(r => r.data),
+        content: toolCallResults.flatMap(r => [r.data, ...r.files]),
       });
       mutableChat.append(toolMessage.asMutableCopy());
       safeCallCallback(logger, "onMessage", baseOpts.onMessage, [toolMessage]);
@@ -1384,6 +1943,7 @@ export async function internalAct<TPredictionResult, TEndPacket>(
       shouldContinue = false;
     }
     shouldContinue &&= !hasCalledUnimplementedTool; // Stop loop if unimplemented tool was called.
+    emitCheckpoint([]);
   } while (shouldContinue);
   return new ActResult(predictionsPerformed, (performance.now() - startTime) / 1_000);
 }
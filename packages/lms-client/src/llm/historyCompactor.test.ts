@@ -0,0 +1,172 @@
+import { SimpleLogger } from "@lmstudio/lms-common";
+import { createFakeLLMPort, silentLogger } from "@lmstudio/lms-communication-mock";
+import { Chat, type ChatLike } from "../Chat.js";
+import { LMStudioClient } from "../LMStudioClient.js";
+import {
+  dropOldestTurns,
+  dropStaleToolResults,
+  internalCompactHistory,
+  summarizeOldTurns,
+  type HistoryCompactionReport,
+  type HistoryCompactor,
+} from "./historyCompactor.js";
+import { type LLMDynamicHandle } from "./LLMDynamicHandle.js";
+
+/**
+ * Creates a model stand-in where every character of the formatted history counts as one token.
+ */
+function createModel(contextLength: number) {
+  const summarizedChats = new Array<string>();
+  const model = {
+    getContextLength: async () => contextLength,
+    applyPromptTemplate: async (history: ChatLike) => Chat.from(history).toString(),
+    countTokens: async (inputString: string) => inputString.length,
+    respond: async (history: ChatLike) => {
+      summarizedChats.push(Chat.from(history).toString());
+      return { nonReasoningContent: "They talked about orders." };
+    },
+  } as unknown as LLMDynamicHandle;
+  return { model, summarizedChats };
+}
+
+function createLongChat() {
+  return Chat.from([
+    { role: "system", content: "You are a helpful assistant." },
+    { role: "user", content: "Where is order A1?" },
+    { role: "assistant", content: "Let me check." },
+    { role: "user", content: "And order B2?" },
+    { role: "assistant", content: "Let me check that one too." },
+    { role: "user", content: "Thanks!" },
+  ]);
+}
+
+async function compact(chat: Chat, contextLength: number, compactor: HistoryCompactor) {
+  const { model, summarizedChats } = createModel(contextLength);
+  const reports = new Array<HistoryCompactionReport>();
+  await internalCompactHistory(
+    model,
+    chat,
+    { ...compactor, onCompacted: report => reports.push(report) },
+    3,
+    new SimpleLogger("historyCompactorTest", silentLogger),
+  );
+  return { reports, summarizedChats };
+}
+
+describe("internalCompactHistory", () => {
+  test("does nothing if the history fits", async () => {
+    const chat = createLongChat();
+    const { reports } = await compact(chat, 10_000, {
+      strategies: [dropOldestTurns()],
+      reservedTokens: 0,
+    });
+    expect(reports).toEqual([]);
+    expect(chat.length).toBe(6);
+  });
+
+  test("dropOldestTurns keeps the system prompt and the latest turn", async () => {
+    const chat = createLongChat();
+    const { reports } = await compact(chat, 1, {
+      strategies: [dropOldestTurns()],
+      reservedTokens: 0,
+    });
+    expect(chat.getMessagesArray().map(message => message.getText())).toEqual([
+      "You are a helpful assistant.",
+      "Thanks!",
+    ]);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].roundIndex).toBe(3);
+    expect(reports[0].strategy).toBe("dropOldestTurns");
+    expect(reports[0].removedMessages.map(message => message.getText())).toEqual([
+      "Where is order A1?",
+      "Let me check.",
+      "And order B2?",
+      "Let me check that one too.",
+    ]);
+    expect(reports[0].tokensAfter).toBeLessThan(reports[0].tokensBefore);
+  });
+
+  test("dropOldestTurns stops as soon as the history fits", async () => {
+    const chat = createLongChat();
+    const contextLength = (await createModel(0).model.countTokens(chat.toString())) - 1;
+    await compact(chat, contextLength, { strategies: [dropOldestTurns()], reservedTokens: 0 });
+    expect(chat.length).toBe(4);
+  });
+
+  test("dropStaleToolResults replaces old tool results but keeps the latest one", async () => {
+    const chat = Chat.from({
+      messages: [
+        { role: "user", content: [{ type: "text", text: "Look up A1 and B2." }] },
+        {
+          role: "tool",
+          content: [
+            { type: "toolCallResult", toolCallId: "call_0", content: '{"status":"shipped"}' },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            { type: "toolCallResult", toolCallId: "call_1", content: '{"status":"pending"}' },
+          ],
+        },
+      ],
+    });
+    const { reports } = await compact(chat, 1, {
+      strategies: [dropStaleToolResults({ placeholder: "[removed]" })],
+      reservedTokens: 0,
+    });
+    expect(chat.getMessagesArray().map(message => message.getToolCallResults())).toEqual([
+      [],
+      [{ toolCallId: "call_0", content: "[removed]" }],
+      [{ toolCallId: "call_1", content: '{"status":"pending"}' }],
+    ]);
+    expect(reports[0].removedMessages[0].getToolCallResults()).toEqual([
+      { toolCallId: "call_0", content: '{"status":"shipped"}' },
+    ]);
+  });
+
+  test("summarizeOldTurns replaces old turns with a summary from the model", async () => {
+    const chat = createLongChat();
+    const { reports, summarizedChats } = await compact(chat, 1, {
+      strategies: [summarizeOldTurns({ keepLatestTurns: 1 })],
+      reservedTokens: 0,
+    });
+    expect(summarizedChats).toHaveLength(1);
+    expect(summarizedChats[0]).toContain("user: Where is order A1?");
+    expect(chat.getMessagesArray().map(message => message.getText())).toEqual([
+      "You are a helpful assistant.",
+      "Summary of the earlier conversation:\nThey talked about orders.",
+      "Thanks!",
+    ]);
+    expect(reports[0].removedMessages).toHaveLength(4);
+  });
+
+  test("runs strategies in order until the history fits", async () => {
+    const chat = createLongChat();
+    const { reports } = await compact(chat, 1, {
+      strategies: [dropStaleToolResults(), summarizeOldTurns(), dropOldestTurns()],
+      reservedTokens: 0,
+    });
+    expect(reports.map(report => report.strategy)).toEqual([
+      "summarizeOldTurns",
+      "dropOldestTurns",
+    ]);
+  });
+});
+
+describe("respond with a history compactor", () => {
+  test("fails the prediction when it cannot be started after compacting", async () => {
+    const client = new LMStudioClient({ disableConnection: true, llmPort: createFakeLLMPort() });
+    const model = client.llm.createDynamicHandle("test-model");
+    jest.spyOn(model, "getContextLength").mockResolvedValue(10_000);
+    jest.spyOn(model, "applyPromptTemplate").mockResolvedValue("Hi");
+    jest.spyOn(model, "countTokens").mockResolvedValue(1);
+
+    await expect(
+      model.respond("Hi", {
+        historyCompactor: { strategies: [dropOldestTurns()] },
+        structured: { type: "regex", pattern: "(a" },
+      }),
+    ).rejects.toThrow("Unterminated group");
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  accessMaybeMutableInternals,
+  safeCallCallback,
+  type SimpleLogger,
+} from "@lmstudio/lms-common";
+import { type ChatMessageData } from "@lmstudio/lms-shared-types";
+import { z, type ZodSchema } from "zod";
+import { Chat, ChatMessage } from "../Chat.js";
+import { type LLMDynamicHandle } from "./LLMDynamicHandle.js";
+
+/**
+ * Information available to a {@link HistoryCompactionStrategy} while it compacts the history.
+ *
+ * @public
+ * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+ * change in the future.
+ */
+export interface HistoryCompactionContext {
+  /**
+   * The model that the prediction will be performed with. Strategies can use it to, for example,
+   * summarize parts of the history.
+   */
+  model: LLMDynamicHandle;
+  /**
+   * The maximum number of tokens the history may take up after the prompt template is applied.
+   * This is the context length of the model minus the reserved tokens.
+   */
+  maxTokens: number;
+  /**
+   * Counts the number of tokens the history takes up after the prompt template is applied.
+   */
+  countHistoryTokens: (chat: Chat) => Promise<number>;
+}
+
+/**
+ * A strategy that makes the history smaller. Strategies are only invoked when the history does not
+ * fit in the context.
+ *
+ * @public
+ * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+ * change in the future.
+ */
+export interface HistoryCompactionStrategy {
+  /**
+   * The name of the strategy. Used when reporting compactions.
+   */
+  name: string;
+  /**
+   * Compacts the given chat in-place. Returns the messages that were removed or replaced (in the
+   * state before the compaction).
+   */
+  compact: (
+    chat: Chat,
+    ctx: HistoryCompactionContext,
+  ) => Array<ChatMessage> | Promise<Array<ChatMessage>>;
+}
+export const historyCompactionStrategySchema = z.object({
+  name: z.string(),
+  compact: z.custom<HistoryCompactionStrategy["compact"]>(value => typeof value === "function"),
+}) satisfies ZodSchema<HistoryCompactionStrategy>;
+
+/**
+ * Describes a compaction that happened before a prediction.
+ *
+ * @public
+ * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+ * change in the future.
+ */
+export interface HistoryCompactionReport {
+  /**
+   * The index of the round (within `.act`) before which the compaction happened. Always 0 for
+   * `.respond`.
+   */
+  roundIndex: number;
+  /**
+   * The name of the strategy that performed the compaction.
+   */
+  strategy: string;
+  /**
+   * The messages that were removed or replaced, in the state before the compaction.
+   */
+  removedMessages: Array<ChatMessage>;
+  /**
+   * Number of tokens the history took up before the compaction.
+   */
+  tokensBefore: number;
+  /**
+   * Number of tokens the history takes up after the compaction.
+   */
+  tokensAfter: number;
+}
+
+/**
+ * Compacts the history on the client side before predicting, such that the history fits in the
+ * context of the model. Without it, the server applies the `contextOverflowPolicy`, which may drop
+ * messages that are still needed.
+ *
+ * The history is compacted by running the strategies in order, until the history fits. The system
+ * prompt is never removed by the built-in strategies. If the history still does not fit after all
+ * strategies are run, the prediction is performed anyway.
+ *
+ * The compaction only affects the history used for the prediction. If you are managing the context
+ * yourself (for example, via `onMessage`), use `onCompacted` to mirror the compaction.
+ *
+ * @public
+ * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+ * change in the future.
+ */
+export interface HistoryCompactor {
+  /**
+   * The strategies to run, in order. See {@link summarizeOldTurns}, {@link dropStaleToolResults},
+   * and {@link dropOldestTurns} for the built-in strategies.
+   */
+  strategies: Array<HistoryCompactionStrategy>;
+  /**
+   * Number of tokens to keep free for the response of the model. Tool definitions also take up
+   * space in the context, which should be accounted for here when using `.act`. Defaults to 1024.
+   */
+  reservedTokens?: number;
+  /**
+   * A callback that is called every time a strategy has compacted the history.
+   */
+  onCompacted?: (report: HistoryCompactionReport) => void;
+}
+export const historyCompactorSchema = z.object({
+  strategies: z.array(historyCompactionStrategySchema),
+  reservedTokens: z.number().int().min(0).optional(),
+  onCompacted: z.function().optional(),
+}) satisfies ZodSchema<HistoryCompactor>;
+
+const defaultReservedTokens = 1024;
+
+function getMessagesData(chat: Chat) {
+  return accessMaybeMutableInternals(chat)._internalGetData().messages;
+}
+
+function toRemovedMessages(messages: Array<ChatMessageData>) {
+  return messages.map(message => ChatMessage.createRaw(message, false));
+}
+
+/**
+ * Gets the index of the first message that can be compacted, i.e. skips the system prompt.
+ */
+function getFirstCompactableIndex(messages: Array<ChatMessageData>) {
+  return messages[0]?.role === "system" ? 1 : 0;
+}
+
+/**
+ * Gets the indices at which the turns start. A turn starts with a user message and contains all
+ * messages until the next user message. Messages before the first user message (except the system
+ * prompt) are treated as a turn on their own.
+ */
+function getTurnStartIndices(messages: Array<ChatMessageData>) {
+  const firstIndex = getFirstCompactableIndex(messages);
+  const turnStartIndices: Array<number> = [];
+  for (let index = firstIndex; index < messages.length; index++) {
+    if (index === firstIndex || messages[index].role === "user") {
+      turnStartIndices.push(index);
+    }
+  }
+  return turnStartIndices;
+}
+
+/**
+ * Creates a strategy that summarizes old turns with the model itself and replaces them with the
+ * summary. The system prompt and the latest turns are kept as is.
+ *
+ * @public
+ * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+ * change in the future.
+ */
+export function summarizeOldTurns({
+  keepLatestTurns = 2,
+  instructions = "Summarize the following conversation. Keep all facts, decisions, and tool " +
+    "results that may be needed later. Respond with the summary only.",
+}: {
+  /**
+   * Number of latest turns that are never summarized. A turn starts with a user message. Defaults
+   * to 2.
+   */
+  keepLatestTurns?: number;
+  /**
+   * Instructions given to the model as the system prompt when summarizing.
+   */
+  instructions?: string;
+} = {}): HistoryCompactionStrategy {
+  return {
+    name: "summarizeOldTurns",
+    compact: async (chat, { model }) => {
+      const messages = getMessagesData(chat);
+      const turnStartIndices = getTurnStartIndices(messages);
+      if (turnStartIndices.length <= keepLatestTurns) {
+        return [];
+      }
+      const startIndex = turnStartIndices[0];
+      const endIndex =
+        turnStartIndices[turnStartIndices.length - keepLatestTurns] ?? messages.length;
+      const summarizedMessages = messages.slice(startIndex, endIndex);
+      const transcript = summarizedMessages
+        .map(message => ChatMessage.createRaw(message, false).toString())
+        .join("\n");
+      const summaryChat = Chat.empty();
+      summaryChat.append("system", instructions);
+      summaryChat.append("user", transcript);
+      const { nonReasoningContent } = await model.respond(summaryChat);
+      messages.splice(startIndex, summarizedMessages.length, {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Summary of the earlier conversation:\n${nonReasoningContent.trim()}`,
+          },
+        ],
+      });
+      return toRemovedMessages(summarizedMessages);
+    },
+  };
+}
+
+/**
+ * Creates a strategy that replaces the results (including attached files) of old tool calls with
+ * a short placeholder, starting from the oldest, until the history fits. The tool call requests
+ * are kept, so the model still knows which tools it has called.
+ *
+ * @public
+ * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+ * change in the future.
+ */
+export function dropStaleToolResults({
+  keepLatest = 1,
+  placeholder = "[This tool result has been removed to save space.]",
+}: {
+  /**
+   * Number of latest tool messages whose results are always kept. Defaults to 1.
+   */
+  keepLatest?: number;
+  /**
+   * The content that replaces the dropped tool results.
+   */
+  placeholder?: string;
+} = {}): HistoryCompactionStrategy {
+  return {
+    name: "dropStaleToolResults",
+    compact: async (chat, { maxTokens, countHistoryTokens }) => {
+      const messages = getMessagesData(chat);
+      const toolMessageIndices = messages
+        .map((message, index) => (message.role === "tool" ? index : -1))
+        .filter(index => index !== -1);
+      const staleIndices = toolMessageIndices.slice(
+        0,
+        Math.max(0, toolMessageIndices.length - keepLatest),
+      );
+      const removedMessages: Array<ChatMessageData> = [];
+      for (const index of staleIndices) {
+        const message = messages[index];
+        if (message.role !== "tool") {
+          continue;
+        }
+        if (
+          message.content.every(
+            part => part.type === "toolCallResult" && part.content === placeholder,
+          )
+        ) {
+          // Already dropped.
+          continue;
+        }
+        removedMessages.push(message);
+        messages[index] = {
+          role: "tool",
+          content: message.content
+            .filter(part => part.type === "toolCallResult")
+            .map(part => ({ ...part, content: placeholder })),
+        };
+        if ((await countHistoryTokens(chat)) <= maxTokens) {
+          break;
+        }
+      }
+      return toRemovedMessages(removedMessages);
+    },
+  };
+}
+
+/**
+ * Creates a strategy that removes the oldest turns, until the history fits. The system prompt and
+ * the latest turns are always kept.
+ *
+ * @public
+ * @experimental [EXP-HISTORY-COMPACTOR] Client-side history compaction is experimental and may
+ * change in the future.
+ */
+export function dropOldestTurns({
+  keepLatestTurns = 1,
+}: {
+  /**
+   * Number of latest turns that are never removed. A turn starts with a user message. Defaults
+   * to 1.
+   */
+  keepLatestTurns?: number;
+} = {}): HistoryCompactionStrategy {
+  return {
+    name: "dropOldestTurns",
+    compact: async (chat, { maxTokens, countHistoryTokens }) => {
+      const messages = getMessagesData(chat);
+      const removedMessages: Array<ChatMessageData> = [];
+      for (;;) {
+        const turnStartIndices = getTurnStartIndices(messages);
+        if (turnStartIndices.length <= keepLatestTurns) {
+          break;
+        }
+        const [startIndex, nextTurnStartIndex] = turnStartIndices;
+        removedMessages.push(...messages.splice(startIndex, nextTurnStartIndex - startIndex));
+        if ((await countHistoryTokens(chat)) <= maxTokens) {
+          break;
+        }
+      }
+      return toRemovedMessages(removedMessages);
+    },
+  };
+}
+
+/**
+ * Runs the history compactor on the given chat in-place. Used internally by `.respond` and `.act`.
+ */
+export async function internalCompactHistory(
+  model: LLMDynamicHandle,
+  chat: Chat,
+  compactor: HistoryCompactor,
+  roundIndex: number,
+  logger: SimpleLogger,
+) {
+  const contextLength = await model.getContextLength();
+  const ctx: HistoryCompactionContext = {
+    model,
+    maxTokens: contextLength - (compactor.reservedTokens ?? defaultReservedTokens),
+    countHistoryTokens: async chat => model.countTokens(await model.applyPromptTemplate(chat)),
+  };
+  let tokens = await ctx.countHistoryTokens(chat);
+  for (const strategy of compactor.strategies) {
+    if (tokens <= ctx.maxTokens) {
+      return;
+    }
+    const removedMessages = await strategy.compact(chat, ctx);
+    if (removedMessages.length === 0) {
+      continue;
+    }
+    const tokensAfter = await ctx.countHistoryTokens(chat);
+    safeCallCallback(logger, "onCompacted", compactor.onCompacted, [
+      {
+        roundIndex,
+        strategy: strategy.name,
+        removedMessages,
+        tokensBefore: tokens,
+        tokensAfter,
+      },
+    ]);
+    tokens = tokensAfter;
+  }
+  if (tokens > ctx.maxTokens) {
+    logger.warnText`
+      The history still takes up ${tokens} tokens after running all history compaction
+      strategies, which exceeds the limit of ${ctx.maxTokens} tokens. The context overflow policy
+      of the model will be applied.
+    `;
+  }
+}
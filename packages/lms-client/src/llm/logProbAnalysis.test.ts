@@ -0,0 +1,185 @@
+import { createFakeLLMPort } from "@lmstudio/lms-communication-mock";
+import { type KVConfigStack, type LLMToken } from "@lmstudio/lms-shared-types";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { analyzeLogProbs } from "./logProbAnalysis.js";
+
+function token(text: string, probability?: number, candidates?: Array<number>): LLMToken {
+  return {
+    text,
+    id: 0,
+    logProb: probability === undefined ? undefined : Math.log(probability),
+    candidates: candidates?.map((candidate, index) => ({
+      text: `candidate${index}`,
+      id: index,
+      logProb: Math.log(candidate),
+    })),
+  };
+}
+
+/**
+ * Creates a handle whose completeRawText channel generates a single token. Without a grammar, it is
+ * the most likely of the candidates for the prompt. With a grammar, it is what `forceContent`
+ * returns for the literal allowed by the grammar.
+ */
+function createHandleHarness(
+  candidatesByPrompt: Record<string, Array<[text: string, probability: number]>>,
+  forceContent = (literal: string) => literal,
+) {
+  const capturedStacks = new Array<KVConfigStack>();
+  const llmPort = createFakeLLMPort({
+    onCompleteRawText: channel => {
+      const { rawPrompt, predictionConfigStack } = channel.creationParameter;
+      capturedStacks.push(predictionConfigStack);
+      const structured = predictionConfigStack.layers
+        .flatMap(layer => layer.config.fields)
+        .find(({ key }) => key === "llm.prediction.structured")?.value as
+        | { type: string; gbnfGrammar?: string }
+        | undefined;
+      let generatedToken: LLMToken;
+      if (structured?.type === "gbnf") {
+        const literal = JSON.parse(structured.gbnfGrammar!.slice("root ::= ".length));
+        generatedToken = { text: forceContent(literal), id: 0 };
+      } else {
+        const candidates = (candidatesByPrompt[rawPrompt] ?? []).map(
+          ([text, probability], index) => ({ text, id: index, logProb: Math.log(probability) }),
+        );
+        generatedToken = { ...candidates[0], candidates };
+      }
+      channel.sendFragment(generatedToken.text, [generatedToken]);
+      channel.sendSuccess({ stopReason: "maxPredictedTokensReached" });
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  return { handle: client.llm.createDynamicHandle("test-model"), capturedStacks };
+}
+
+const capitalCandidates: Record<string, Array<[text: string, probability: number]>> = {
+  "The capital of Australia is": [
+    [" Can", 0.7],
+    [" Syd", 0.2],
+    [" Mel", 0.1],
+  ],
+  "The capital of Australia is Can": [
+    ["berra", 0.95],
+    ["ada", 0.05],
+  ],
+  "The capital of Australia is Syd": [
+    ["ney", 0.9],
+    ["ne", 0.1],
+  ],
+};
+
+describe("analyzeLogProbs", () => {
+  test("computes the perplexity and the entropy of the tokens", () => {
+    const analysis = analyzeLogProbs([token("a", 0.5, [0.5, 0.5]), token("b", 0.125)]);
+
+    expect(analysis.scoredTokensCount).toBe(2);
+    expect(analysis.totalLogProb).toBeCloseTo(Math.log(0.0625));
+    expect(analysis.perplexity).toBeCloseTo(4);
+    expect(analysis.tokens[0].entropy).toBeCloseTo(Math.log(2));
+    expect(analysis.tokens[1].entropy).toBeUndefined();
+    expect(analysis.averageEntropy).toBeCloseTo(Math.log(2));
+  });
+
+  test("finds runs of low-confidence tokens", () => {
+    const analysis = analyzeLogProbs(
+      [
+        token("The", 0.9),
+        token(" year", 0.3),
+        token(" 18", 0.2),
+        token("42", 0.8),
+        token(" was", 0.1),
+        token("?"),
+        token(" ok", 0.2),
+      ],
+      { lowConfidenceThreshold: 0.4 },
+    );
+
+    expect(analysis.scoredTokensCount).toBe(6);
+    expect(
+      analysis.lowConfidenceSpans.map(({ text, startTokenIndex, endTokenIndex, startOffset }) => ({
+        text,
+        startTokenIndex,
+        endTokenIndex,
+        startOffset,
+      })),
+    ).toEqual([
+      { text: " year 18", startTokenIndex: 1, endTokenIndex: 3, startOffset: 3 },
+      { text: " was", startTokenIndex: 4, endTokenIndex: 5, startOffset: 13 },
+      { text: " ok", startTokenIndex: 6, endTokenIndex: 7, startOffset: 18 },
+    ]);
+    expect(analysis.lowConfidenceSpans[0].minProbability).toBeCloseTo(0.2);
+
+    const longSpans = analyzeLogProbs(
+      [token("a", 0.1), token("b", 0.1), token("c", 0.9), token("d", 0.1)],
+      { minSpanTokensCount: 2 },
+    ).lowConfidenceSpans;
+    expect(longSpans.map(({ text }) => text)).toEqual(["ab"]);
+  });
+
+  test("throws when there are no log probabilities", () => {
+    expect(() => analyzeLogProbs([token("a")])).toThrow("logProbs");
+  });
+});
+
+describe("LLMDynamicHandle.scoreContinuation", () => {
+  test("scores every token of the continuation without a grammar", async () => {
+    const harness = createHandleHarness(capitalCandidates);
+
+    const likely = await harness.handle.scoreContinuation(
+      "The capital of Australia is",
+      " Canberra",
+    );
+    const unlikely = await harness.handle.scoreContinuation(
+      "The capital of Australia is",
+      " Sydney",
+    );
+
+    expect(likely.perplexity).toBeLessThan(unlikely.perplexity);
+    expect(unlikely.tokens.map(({ text }) => text)).toEqual([" Syd", "ney"]);
+    expect(unlikely.tokens[0].probability).toBeCloseTo(0.2);
+    expect(unlikely.tokens[1].probability).toBeCloseTo(0.9);
+    expect(unlikely.lowConfidenceSpans.map(({ text }) => text)).toEqual([" Syd"]);
+    const fields = harness.capturedStacks[0].layers.flatMap(layer => layer.config.fields);
+    expect(fields).toContainEqual({
+      key: "llm.prediction.logProbs",
+      value: { checked: true, value: 5 },
+    });
+    expect(fields.map(({ key }) => key)).not.toContain("llm.prediction.structured");
+  });
+
+  test("uses the least likely candidate for tokens that are not among the candidates", async () => {
+    const harness = createHandleHarness(capitalCandidates);
+
+    const analysis = await harness.handle.scoreContinuation(
+      "The capital of Australia is",
+      " Perth",
+    );
+
+    expect(analysis.tokens.map(({ text }) => text)).toEqual([" Perth"]);
+    expect(analysis.tokens[0].probability).toBeCloseTo(0.1);
+    expect(harness.capturedStacks[1].layers.flatMap(layer => layer.config.fields)).toContainEqual({
+      key: "llm.prediction.structured",
+      value: { type: "gbnf", gbnfGrammar: 'root ::= " Perth"' },
+    });
+  });
+
+  test("does not run the prediction middlewares", async () => {
+    const harness = createHandleHarness(capitalCandidates);
+    const beforePrediction = jest.fn();
+    harness.handle.use({ beforePrediction });
+
+    await harness.handle.scoreContinuation("The capital of Australia is", " Perth");
+
+    expect(harness.capturedStacks).toHaveLength(2);
+    expect(beforePrediction).not.toHaveBeenCalled();
+  });
+
+  test("throws when the model generates something else", async () => {
+    const harness = createHandleHarness(capitalCandidates, () => " Canberra");
+
+    await expect(
+      harness.handle.scoreContinuation("The capital of Australia is", " Perth"),
+    ).rejects.toThrow("instead of the next token");
+  });
+});
@@ -0,0 +1,259 @@
+import { getCurrentStack, makeTitledPrettyError, text } from "@lmstudio/lms-common";
+import { type LLMToken } from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+
+/**
+ * Analysis of a single generated token. See {@link LLMLogProbAnalysis}.
+ *
+ * @public
+ */
+export interface LLMTokenAnalysis {
+  /**
+   * The index of the token in the prediction.
+   */
+  index: number;
+  text: string;
+  /**
+   * The log probability (natural logarithm) of the token. `undefined` if the engine did not report
+   * it.
+   */
+  logProb: number | undefined;
+  /**
+   * The probability of the token, between 0 and 1. `undefined` if the engine did not report it.
+   */
+  probability: number | undefined;
+  /**
+   * The entropy (in nats) of the distribution the token was sampled from. Only the candidates
+   * reported by the engine are known, so it is computed over those candidates, renormalized.
+   * `undefined` if the engine reported no candidates.
+   */
+  entropy: number | undefined;
+  /**
+   * Whether the probability of the token is below
+   * {@link LLMLogProbAnalysisOpts#lowConfidenceThreshold}.
+   */
+  isLowConfidence: boolean;
+}
+
+/**
+ * A run of consecutive low-confidence tokens. See {@link LLMLogProbAnalysis#lowConfidenceSpans}.
+ *
+ * @public
+ */
+export interface LLMLowConfidenceSpan {
+  /**
+   * The index of the first token of the span.
+   */
+  startTokenIndex: number;
+  /**
+   * The index after the last token of the span.
+   */
+  endTokenIndex: number;
+  /**
+   * The offset of the span in the text of the tokens, in UTF-16 code units.
+   */
+  startOffset: number;
+  /**
+   * The offset after the span in the text of the tokens, in UTF-16 code units.
+   */
+  endOffset: number;
+  text: string;
+  /**
+   * The lowest probability of a token in the span.
+   */
+  minProbability: number;
+  /**
+   * The average log probability of the tokens in the span.
+   */
+  averageLogProb: number;
+}
+
+/**
+ * Token-level statistics of a prediction, computed from the log probabilities reported by the
+ * engine. See {@link analyzeLogProbs}.
+ *
+ * @public
+ */
+export interface LLMLogProbAnalysis {
+  tokens: Array<LLMTokenAnalysis>;
+  /**
+   * The number of tokens with a log probability. Only those tokens are included in the
+   * statistics.
+   */
+  scoredTokensCount: number;
+  /**
+   * The sum of the log probabilities of the tokens, which is the log probability of the whole
+   * sequence.
+   */
+  totalLogProb: number;
+  /**
+   * The average log probability per token.
+   */
+  averageLogProb: number;
+  /**
+   * The perplexity of the sequence: `exp(-averageLogProb)`. 1 means that the model was certain of
+   * every token, higher values mean less certainty.
+   */
+  perplexity: number;
+  /**
+   * The average entropy of the tokens that have one. `undefined` if no token has one.
+   */
+  averageEntropy: number | undefined;
+  /**
+   * The runs of consecutive low-confidence tokens, in order. Useful to flag likely hallucinations.
+   */
+  lowConfidenceSpans: Array<LLMLowConfidenceSpan>;
+}
+
+/**
+ * Options for {@link analyzeLogProbs}.
+ *
+ * @public
+ */
+export interface LLMLogProbAnalysisOpts {
+  /**
+   * Tokens with a probability below this value are considered low-confidence. Defaults to 0.5.
+   */
+  lowConfidenceThreshold?: number;
+  /**
+   * The minimum number of consecutive low-confidence tokens that make up a span. Defaults to 1.
+   */
+  minSpanTokensCount?: number;
+}
+export const llmLogProbAnalysisOptsSchema = z.object({
+  lowConfidenceThreshold: z.number().min(0).max(1).optional(),
+  minSpanTokensCount: z.number().int().min(1).optional(),
+});
+
+/**
+ * Options for {@link LLMDynamicHandle#scoreContinuation}.
+ *
+ * @public
+ */
+export interface LLMScoreContinuationOpts extends LLMLogProbAnalysisOpts {
+  /**
+   * The number of candidates the engine reports for each token, among which the tokens of the
+   * continuation are looked up. Also used for the entropy. Defaults to 5.
+   */
+  candidatesCount?: number;
+  /**
+   * An abort signal that can be used to cancel the prediction.
+   */
+  signal?: AbortSignal;
+}
+export const llmScoreContinuationOptsSchema = llmLogProbAnalysisOptsSchema.extend({
+  candidatesCount: z.number().int().min(1).optional(),
+  signal: z.instanceof(AbortSignal).optional(),
+});
+
+function computeEntropy(token: LLMToken) {
+  if (token.candidates === undefined || token.candidates.length === 0) {
+    return undefined;
+  }
+  const probabilities = token.candidates.map(({ logProb }) => Math.exp(logProb));
+  const total = probabilities.reduce((sum, probability) => sum + probability, 0);
+  if (total === 0) {
+    return undefined;
+  }
+  return probabilities
+    .map(probability => probability / total)
+    .filter(probability => probability > 0)
+    .reduce((entropy, probability) => entropy - probability * Math.log(probability), 0);
+}
+
+/**
+ * Computes token-level statistics from the tokens of a prediction: the perplexity of the sequence,
+ * the entropy of each token and the spans of low-confidence tokens.
+ *
+ * The tokens only contain log probabilities if the prediction was made with `logProbs` in the
+ * prediction config. The number of candidates reported per token (used for the entropy) is the
+ * value of `logProbs`.
+ *
+ * ```ts
+ * const result = await model.respond("What is the capital of Australia?", { logProbs: 5 });
+ * const { perplexity, lowConfidenceSpans } = analyzeLogProbs(result.tokens);
+ * ```
+ *
+ * @public
+ */
+export function analyzeLogProbs(
+  tokens: ReadonlyArray<LLMToken>,
+  opts: LLMLogProbAnalysisOpts = {},
+): LLMLogProbAnalysis {
+  const stack = getCurrentStack(1);
+  const { lowConfidenceThreshold = 0.5, minSpanTokensCount = 1 } = opts;
+  const scoredTokens = tokens.filter(token => token.logProb !== undefined);
+  if (scoredTokens.length === 0) {
+    throw makeTitledPrettyError(
+      "No log probabilities",
+      text`
+        None of the ${tokens.length} tokens has a log probability. Make sure the prediction is made
+        with \`logProbs\` set in the prediction config.
+      `,
+      stack,
+    );
+  }
+
+  let offset = 0;
+  const analyzedTokens = tokens.map((token, index): LLMTokenAnalysis & { offset: number } => {
+    const probability = token.logProb === undefined ? undefined : Math.exp(token.logProb);
+    const analyzedToken = {
+      index,
+      text: token.text,
+      logProb: token.logProb,
+      probability,
+      entropy: computeEntropy(token),
+      isLowConfidence: probability !== undefined && probability < lowConfidenceThreshold,
+      offset,
+    };
+    offset += token.text.length;
+    return analyzedToken;
+  });
+
+  const lowConfidenceSpans: Array<LLMLowConfidenceSpan> = [];
+  let spanStart = -1;
+  analyzedTokens.forEach((token, index) => {
+    const isLastToken = index === analyzedTokens.length - 1;
+    if (token.isLowConfidence && spanStart === -1) {
+      spanStart = index;
+    }
+    if (spanStart === -1 || (token.isLowConfidence && !isLastToken)) {
+      return;
+    }
+    const spanEnd = token.isLowConfidence ? index + 1 : index;
+    const spanTokens = analyzedTokens.slice(spanStart, spanEnd);
+    if (spanTokens.length >= minSpanTokensCount) {
+      const startOffset = spanTokens[0].offset;
+      const spanText = spanTokens.map(({ text }) => text).join("");
+      lowConfidenceSpans.push({
+        startTokenIndex: spanStart,
+        endTokenIndex: spanEnd,
+        startOffset,
+        endOffset: startOffset + spanText.length,
+        text: spanText,
+        minProbability: Math.min(...spanTokens.map(({ probability }) => probability!)),
+        averageLogProb:
+          spanTokens.reduce((sum, { logProb }) => sum + logProb!, 0) / spanTokens.length,
+      });
+    }
+    spanStart = -1;
+  });
+
+  const totalLogProb = scoredTokens.reduce((sum, { logProb }) => sum + logProb!, 0);
+  const averageLogProb = totalLogProb / scoredTokens.length;
+  const entropies = analyzedTokens
+    .map(({ entropy }) => entropy)
+    .filter(entropy => entropy !== undefined);
+  return {
+    tokens: analyzedTokens.map(({ offset: _offset, ...token }) => token),
+    scoredTokensCount: scoredTokens.length,
+    totalLogProb,
+    averageLogProb,
+    perplexity: Math.exp(-averageLogProb),
+    averageEntropy:
+      entropies.length === 0
+        ? undefined
+        : entropies.reduce((sum, entropy) => sum + entropy, 0) / entropies.length,
+    lowConfidenceSpans,
+  };
+}
@@ -0,0 +1,221 @@
+import {
+  createFakeLLMPort,
+  type FakeLLMCompleteRawTextChannel,
+  type FakeLLMPredictChannel,
+} from "@lmstudio/lms-communication-mock";
+import { type ChatHistoryData } from "@lmstudio/lms-shared-types";
+import { LMStudioClient } from "../LMStudioClient.js";
+import {
+  type LLMPredictionMiddleware,
+  type LLMPredictionMiddlewareRequest,
+} from "./predictionMiddleware.js";
+import { PredictionResult } from "./PredictionResult.js";
+
+/**
+ * Creates a handle whose predict and completeRawText channels respond with the given fragments. The
+ * given middlewares are registered on the client.
+ */
+function createHandleHarness(
+  fragments: Array<string>,
+  clientMiddlewares: Array<LLMPredictionMiddleware> = [],
+) {
+  const capturedHistories = new Array<ChatHistoryData>();
+  const capturedPrompts = new Array<string>();
+  const respond = (channel: FakeLLMPredictChannel | FakeLLMCompleteRawTextChannel) => {
+    for (const content of fragments) {
+      channel.sendFragment(content);
+    }
+    channel.sendSuccess();
+  };
+  const llmPort = createFakeLLMPort({
+    onPredict: channel => {
+      capturedHistories.push(channel.creationParameter.history);
+      respond(channel);
+    },
+    onCompleteRawText: channel => {
+      capturedPrompts.push(channel.creationParameter.rawPrompt);
+      respond(channel);
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  for (const middleware of clientMiddlewares) {
+    client.llm.use(middleware);
+  }
+  return {
+    handle: client.llm.createDynamicHandle("test-model"),
+    capturedHistories,
+    capturedPrompts,
+  };
+}
+
+function getTexts(history: ChatHistoryData) {
+  return history.messages.map(message =>
+    message.content.map(part => (part.type === "text" ? part.text : "")).join(""),
+  );
+}
+
+describe("LLMDynamicHandle prediction middlewares", () => {
+  test("composes the hooks of client and handle middlewares in order", async () => {
+    const calls: Array<string> = [];
+    const makeMiddleware = (name: string): LLMPredictionMiddleware => ({
+      name,
+      beforePrediction: request => {
+        calls.push(`before ${name}`);
+        if (request.type === "chat") {
+          request.chat.append("user", `from ${name}`);
+        }
+      },
+      onFragment: fragment => ({ ...fragment, content: `${fragment.content}-${name}` }),
+      afterPrediction: result => {
+        calls.push(`after ${name}: ${result.content}`);
+      },
+    });
+    const harness = createHandleHarness(["x"], [makeMiddleware("client")]);
+    harness.handle.use(makeMiddleware("handle"));
+    const receivedFragments: Array<string> = [];
+
+    const result = await harness.handle.respond("Hello", {
+      onPredictionFragment: fragment => receivedFragments.push(fragment.content),
+    });
+
+    expect(getTexts(harness.capturedHistories[0])).toEqual(["Hello", "from client", "from handle"]);
+    expect(receivedFragments).toEqual(["x-client-handle"]);
+    expect(result.content).toBe("x-client-handle");
+    expect(calls).toEqual([
+      "before client",
+      "before handle",
+      "after handle: x-client-handle",
+      "after client: x-client-handle",
+    ]);
+  });
+
+  test("rewrites raw completion prompts and the config stack", async () => {
+    const harness = createHandleHarness(["done"]);
+    let receivedLayers = -1;
+    harness.handle.use({
+      beforePrediction: request => {
+        receivedLayers = request.predictionConfigStack.layers.length;
+        if (request.type === "rawCompletion") {
+          return { ...request, prompt: request.prompt.toUpperCase() };
+        }
+      },
+    });
+
+    await harness.handle.complete("complete me");
+
+    expect(harness.capturedPrompts).toEqual(["COMPLETE ME"]);
+    expect(receivedLayers).toBe(1);
+  });
+
+  test("fails the prediction when a middleware throws", async () => {
+    const harness = createHandleHarness(["secret"]);
+    harness.handle.use({
+      onFragment: () => {
+        throw new Error("Redaction failed");
+      },
+    });
+
+    await expect(harness.handle.respond("Hello")).rejects.toThrow("Redaction failed");
+  });
+
+  test("fails the prediction when the rewritten request cannot be started", async () => {
+    const harness = createHandleHarness(["x"]);
+    harness.handle.use({
+      beforePrediction: request => ({
+        ...request,
+        predictionConfigStack: {
+          layers: [{ layerName: "unknownLayer" as any, config: { fields: [] } }],
+        },
+      }),
+    });
+
+    await expect(harness.handle.complete("Hello")).rejects.toThrow("layerName");
+    expect(harness.capturedPrompts).toEqual([]);
+  });
+
+  test("answers from a cache without calling the model", async () => {
+    const harness = createHandleHarness(["Hi", "!"]);
+    const cache = new Map<string, PredictionResult>();
+    const getKey = (request: LLMPredictionMiddlewareRequest) =>
+      request.type === "chat"
+        ? JSON.stringify(request.chat.getMessagesArray().map(message => message.getText()))
+        : request.prompt;
+    const seenByOuterMiddleware: Array<string> = [];
+    let innerMiddlewareCalls = 0;
+    harness.handle.use({
+      afterPrediction: result => {
+        seenByOuterMiddleware.push(result.content);
+      },
+    });
+    harness.handle.use({
+      beforePrediction: request => {
+        const result = cache.get(getKey(request));
+        return result === undefined ? undefined : { result };
+      },
+      afterPrediction: (result, request) => {
+        cache.set(getKey(request), result);
+      },
+    });
+    harness.handle.use({
+      beforePrediction: () => {
+        innerMiddlewareCalls++;
+      },
+    });
+
+    const firstResult = await harness.handle.respond("Hello");
+    const receivedFragments: Array<string> = [];
+    const secondResult = await harness.handle.respond("Hello", {
+      onPredictionFragment: fragment => receivedFragments.push(fragment.content),
+    });
+
+    expect(harness.capturedHistories).toHaveLength(1);
+    expect(innerMiddlewareCalls).toBe(1);
+    expect(receivedFragments).toEqual(["Hi!"]);
+    expect(secondResult).toMatchObject({
+      content: "Hi!",
+      nonReasoningContent: "Hi!",
+      stats: firstResult.stats,
+      modelInfo: firstResult.modelInfo,
+    });
+    expect(seenByOuterMiddleware).toEqual(["Hi!", "Hi!"]);
+  });
+
+  test("replaces the result in afterPrediction", async () => {
+    const harness = createHandleHarness(["Bonjour"]);
+    harness.handle.use({
+      afterPrediction: result =>
+        new PredictionResult(
+          "<think>Translate</think>Hello",
+          "Translate",
+          "Hello",
+          result.stats,
+          result.modelInfo,
+          result.roundIndex,
+          result.loadConfig,
+          result.predictionConfig,
+        ),
+    });
+
+    const result = await harness.handle.respond("Say hello");
+    const completion = await harness.handle.complete("Say hello");
+
+    expect(result).toMatchObject({
+      content: "<think>Translate</think>Hello",
+      reasoningContent: "Translate",
+      nonReasoningContent: "Hello",
+    });
+    expect(completion.nonReasoningContent).toBe("Hello");
+  });
+
+  test("removes a middleware", async () => {
+    const harness = createHandleHarness(["x"]);
+    const remove = harness.handle.use({
+      onFragment: fragment => ({ ...fragment, content: "changed" }),
+    });
+    remove();
+
+    const result = await harness.handle.respond("Hello");
+
+    expect(result.content).toBe("x");
+  });
+});
@@ -0,0 +1,412 @@
+import { BufferedEvent } from "@lmstudio/lms-common";
+import {
+  type KVConfig,
+  type KVConfigStack,
+  type LLMInstanceInfo,
+  type LLMPredictionFragment,
+  type LLMPredictionStats,
+} from "@lmstudio/lms-shared-types";
+import { z, type ZodSchema } from "zod";
+import { Chat } from "../Chat.js";
+import { PredictionResult } from "./PredictionResult.js";
+
+/**
+ * A prediction that is about to be sent to LM Studio, as seen by a {@link LLMPredictionMiddleware}.
+ *
+ * Predictions made with `.respond` and `.act` have the type `"chat"`, while predictions made with
+ * `.complete` have the type `"rawCompletion"`. Every round of `.act` is a separate prediction.
+ *
+ * @public
+ * @experimental [EXP-PREDICTION-MIDDLEWARE] Prediction middlewares are experimental and may change
+ * in the future.
+ */
+export type LLMPredictionMiddlewareRequest =
+  | {
+      type: "chat";
+      /**
+       * The history to predict from. Middlewares can modify it in-place or return a request with a
+       * different chat.
+       */
+      chat: Chat;
+      /**
+       * The prediction config layers. The last layer has the highest priority.
+       */
+      predictionConfigStack: KVConfigStack;
+      /**
+       * The index of the round within `.act`. Always 0 for `.respond`.
+       */
+      roundIndex: number;
+    }
+  | {
+      type: "rawCompletion";
+      /**
+       * The prompt to complete, as is.
+       */
+      prompt: string;
+      /**
+       * The prediction config layers. The last layer has the highest priority.
+       */
+      predictionConfigStack: KVConfigStack;
+      roundIndex: 0;
+    };
+
+/**
+ * Returned from {@link LLMPredictionMiddleware#beforePrediction} to answer a prediction without
+ * calling the model, for example from a cache.
+ *
+ * @public
+ * @experimental [EXP-PREDICTION-MIDDLEWARE] Prediction middlewares are experimental and may change
+ * in the future.
+ */
+export interface LLMPredictionMiddlewareShortCircuit {
+  /**
+   * The result to answer the prediction with. Its content is streamed to the caller as if the
+   * model had generated it. In `.act`, it does not contain tool calls.
+   */
+  result: PredictionResult;
+}
+
+/**
+ * Hooks into every prediction made by a model. Register middlewares with
+ * {@link LLMDynamicHandle#use} for a single handle, or with {@link LLMNamespace#use} for all models
+ * of a client.
+ *
+ * Middlewares are composed in the order they are registered, with the middlewares of the client
+ * coming before the ones of the handle. `beforePrediction` and `onFragment` run in that order,
+ * each one receiving the output of the previous one, while `afterPrediction` runs in reverse order.
+ *
+ * If any hook throws, the prediction fails with that error.
+ *
+ * ```ts
+ * client.llm.use({
+ *   name: "redact-emails",
+ *   onFragment: fragment => ({
+ *     ...fragment,
+ *     content: fragment.content.replace(/\S+@\S+/g, "[email]"),
+ *   }),
+ * });
+ * ```
+ *
+ * Middlewares can also answer predictions themselves, which is enough to build a response cache:
+ *
+ * ```ts
+ * const cache = new Map<string, PredictionResult>();
+ * const getKey = (request: LLMPredictionMiddlewareRequest) =>
+ *   request.type === "chat" ? JSON.stringify(request.chat) : request.prompt;
+ * client.llm.use({
+ *   name: "cache",
+ *   beforePrediction: request => {
+ *     const result = cache.get(getKey(request));
+ *     return result === undefined ? undefined : { result };
+ *   },
+ *   afterPrediction: (result, request) => {
+ *     cache.set(getKey(request), result);
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ * @experimental [EXP-PREDICTION-MIDDLEWARE] Prediction middlewares are experimental and may change
+ * in the future.
+ */
+export interface LLMPredictionMiddleware {
+  /**
+   * A name for the middleware. Only used for identification.
+   */
+  name?: string;
+  /**
+   * Called before the prediction is sent. Can modify the request in-place or return a new one.
+   *
+   * Can also return `{ result }` to answer the prediction without calling the model. In that case,
+   * the `beforePrediction` hooks of the following middlewares are skipped, and only the middlewares
+   * that came before this one see the fragments and the result.
+   */
+  beforePrediction?: (
+    request: LLMPredictionMiddlewareRequest,
+  ) =>
+    | LLMPredictionMiddlewareRequest
+    | LLMPredictionMiddlewareShortCircuit
+    | void
+    | Promise<LLMPredictionMiddlewareRequest | LLMPredictionMiddlewareShortCircuit | void>;
+  /**
+   * Called for every fragment generated by the model, before it reaches the caller. Can return a
+   * replacement for the fragment.
+   */
+  onFragment?: (
+    fragment: LLMPredictionFragment,
+    request: LLMPredictionMiddlewareRequest,
+  ) => LLMPredictionFragment | void;
+  /**
+   * Called when the prediction has finished, before the result reaches the caller. The result is
+   * made from the fragments as returned by `onFragment`, or is the replacement returned by the
+   * previous `afterPrediction` hook.
+   *
+   * Can return a replacement for the result. The fragments that were already streamed to the
+   * caller cannot be taken back, but the final result (and the message added by `.act`) is made
+   * from the replacement.
+   */
+  afterPrediction?: (
+    result: PredictionResult,
+    request: LLMPredictionMiddlewareRequest,
+  ) => PredictionResult | void | Promise<PredictionResult | void>;
+}
+export const llmPredictionMiddlewareSchema = z.object({
+  name: z.string().optional(),
+  beforePrediction: z
+    .custom<LLMPredictionMiddleware["beforePrediction"]>(value => typeof value === "function")
+    .optional(),
+  onFragment: z
+    .custom<LLMPredictionMiddleware["onFragment"]>(value => typeof value === "function")
+    .optional(),
+  afterPrediction: z
+    .custom<LLMPredictionMiddleware["afterPrediction"]>(value => typeof value === "function")
+    .optional(),
+}) satisfies ZodSchema<LLMPredictionMiddleware>;
+
+export type ChatMiddlewareRequest = Extract<LLMPredictionMiddlewareRequest, { type: "chat" }>;
+export type RawCompletionMiddlewareRequest = Extract<
+  LLMPredictionMiddlewareRequest,
+  { type: "rawCompletion" }
+>;
+
+/**
+ * The information received when a prediction has finished successfully.
+ */
+export interface InternalPredictionEndPacket {
+  stats: LLMPredictionStats;
+  modelInfo: LLMInstanceInfo;
+  loadModelConfig: KVConfig;
+  predictionConfig: KVConfig;
+}
+
+/**
+ * The handlers of a single prediction.
+ */
+export interface InternalPredictionHandlers {
+  onFragment: (fragment: LLMPredictionFragment) => void;
+  /**
+   * Called when a middleware replaces the result. The fragments received so far must be left out
+   * of the result, the fragments of the replacement follow.
+   */
+  onFragmentsDiscarded: () => void;
+  onFinished: (endPacket: InternalPredictionEndPacket) => void;
+  onError: (error: Error) => void;
+}
+
+function makeMiddlewareResult(
+  fragments: Array<LLMPredictionFragment>,
+  endPacket: InternalPredictionEndPacket,
+  roundIndex: number,
+) {
+  const joinContent = (predicate: (fragment: LLMPredictionFragment) => boolean) =>
+    fragments
+      .filter(predicate)
+      .map(({ content }) => content)
+      .join("");
+  return new PredictionResult(
+    joinContent(() => true),
+    joinContent(fragment => !fragment.isStructural && fragment.reasoningType === "reasoning"),
+    joinContent(fragment => !fragment.isStructural && fragment.reasoningType === "none"),
+    endPacket.stats,
+    endPacket.modelInfo,
+    roundIndex,
+    endPacket.loadModelConfig,
+    endPacket.predictionConfig,
+    fragments.flatMap(fragment => fragment.tokens ?? []),
+  );
+}
+
+/**
+ * Streams a result returned by a middleware to the handlers as if it had been predicted. The
+ * reasoning and the content are sent as separate fragments. If the content has structural parts
+ * around the reasoning (such as `<think>` tags), they are sent as structural fragments.
+ */
+function replayResult(
+  result: PredictionResult,
+  { onFragment, onFinished }: Pick<InternalPredictionHandlers, "onFragment" | "onFinished">,
+) {
+  const { content, reasoningContent, nonReasoningContent } = result;
+  const fragments: Array<
+    Pick<LLMPredictionFragment, "content" | "reasoningType" | "isStructural">
+  > = [];
+  const reasoningEnd = content.length - nonReasoningContent.length;
+  const reasoningStart =
+    content.endsWith(nonReasoningContent) && reasoningContent !== ""
+      ? content.slice(0, reasoningEnd).indexOf(reasoningContent)
+      : -1;
+  if (reasoningStart !== -1) {
+    const afterReasoning = reasoningStart + reasoningContent.length;
+    fragments.push(
+      {
+        content: content.slice(0, reasoningStart),
+        reasoningType: "reasoningStartTag",
+        isStructural: true,
+      },
+      { content: reasoningContent, reasoningType: "reasoning", isStructural: false },
+      {
+        content: content.slice(afterReasoning, reasoningEnd),
+        reasoningType: "reasoningEndTag",
+        isStructural: true,
+      },
+      { content: nonReasoningContent, reasoningType: "none", isStructural: false },
+    );
+  } else {
+    fragments.push(
+      { content: reasoningContent, reasoningType: "reasoning", isStructural: false },
+      { content: nonReasoningContent, reasoningType: "none", isStructural: false },
+    );
+  }
+  const nonEmptyFragments = fragments.filter(fragment => fragment.content !== "");
+  nonEmptyFragments.forEach((fragment, index) => {
+    const isLast = index === nonEmptyFragments.length - 1;
+    onFragment({
+      ...fragment,
+      tokensCount: isLast ? result.stats.predictedTokensCount ?? 0 : 0,
+      containsDrafted: false,
+      // Results only keep the tokens as a whole, which is all that is needed to rebuild them.
+      ...(isLast && result.tokens.length > 0 ? { tokens: [...result.tokens] } : {}),
+    });
+  });
+  onFinished({
+    stats: result.stats,
+    modelInfo: result.modelInfo,
+    loadModelConfig: result.loadConfig,
+    predictionConfig: result.predictionConfig,
+  });
+}
+
+/**
+ * Performs a prediction with `start`, passing the request and the messages of the prediction
+ * through the middlewares. Without middlewares, `start` is called right away.
+ *
+ * @param start - Starts the prediction for the (rewritten) request. It must subscribe to the given
+ * cancel event.
+ */
+export function internalPredictWithMiddlewares<
+  TRequest extends LLMPredictionMiddlewareRequest = LLMPredictionMiddlewareRequest,
+>(
+  middlewares: ReadonlyArray<LLMPredictionMiddleware>,
+  request: TRequest,
+  cancelEvent: BufferedEvent<void>,
+  handlers: InternalPredictionHandlers,
+  start: (
+    request: TRequest,
+    cancelEvent: BufferedEvent<void>,
+    handlers: InternalPredictionHandlers,
+  ) => void,
+) {
+  if (middlewares.length === 0) {
+    start(request, cancelEvent, handlers);
+    return;
+  }
+  // The prediction is also cancelled when a middleware fails.
+  const [innerCancelEvent, emitInnerCancelEvent] = BufferedEvent.create<void>();
+  cancelEvent.subscribeOnce(() => emitInnerCancelEvent());
+  let failed = false;
+  const fail = (error: Error) => {
+    if (failed) {
+      return;
+    }
+    failed = true;
+    emitInnerCancelEvent();
+    handlers.onError(error);
+  };
+
+  const runBeforePrediction = async () => {
+    // Middlewares may modify the chat in-place, so they get a copy.
+    let currentRequest =
+      request.type === "chat" ? { ...request, chat: Chat.from(request.chat) } : request;
+    for (const [index, middleware] of middlewares.entries()) {
+      const newRequest = (await middleware.beforePrediction?.(currentRequest)) ?? currentRequest;
+      if ("result" in newRequest) {
+        if (!(newRequest.result instanceof PredictionResult)) {
+          throw new Error(
+            `Middleware ${middleware.name ?? "(unnamed)"} short-circuited the prediction ` +
+              `without a PredictionResult.`,
+          );
+        }
+        return { finalRequest: currentRequest, shortCircuit: { index, result: newRequest.result } };
+      }
+      if (newRequest.type !== request.type) {
+        throw new Error(
+          `Middleware ${middleware.name ?? "(unnamed)"} changed the type of the request from ` +
+            `"${request.type}" to "${newRequest.type}".`,
+        );
+      }
+      currentRequest = newRequest as TRequest;
+    }
+    return { finalRequest: currentRequest, shortCircuit: null };
+  };
+  const startPrediction = ({
+    finalRequest,
+    shortCircuit,
+  }: Awaited<ReturnType<typeof runBeforePrediction>>) => {
+    // When a middleware answers the prediction, only the middlewares before it see the answer.
+    const activeMiddlewares =
+      shortCircuit === null ? middlewares : middlewares.slice(0, shortCircuit.index);
+    const startOrReplay: typeof start =
+      shortCircuit === null
+        ? start
+        : (_request, _cancelEvent, replayHandlers) =>
+            replayResult(shortCircuit.result, replayHandlers);
+    const fragments: Array<LLMPredictionFragment> = [];
+    startOrReplay(finalRequest, innerCancelEvent, {
+      onFragment: fragment => {
+        if (failed) {
+          return;
+        }
+        try {
+          for (const middleware of activeMiddlewares) {
+            fragment = middleware.onFragment?.(fragment, finalRequest) ?? fragment;
+          }
+        } catch (error: any) {
+          fail(error);
+          return;
+        }
+        fragments.push(fragment);
+        handlers.onFragment(fragment);
+      },
+      onFragmentsDiscarded: handlers.onFragmentsDiscarded,
+      onFinished: async endPacket => {
+        if (failed) {
+          return;
+        }
+        let originalResult: PredictionResult;
+        let result: PredictionResult;
+        try {
+          originalResult = makeMiddlewareResult(fragments, endPacket, finalRequest.roundIndex);
+          result = originalResult;
+          for (const middleware of [...activeMiddlewares].reverse()) {
+            const replacement = await middleware.afterPrediction?.(result, finalRequest);
+            if (replacement !== undefined) {
+              if (!(replacement instanceof PredictionResult)) {
+                throw new Error(
+                  `Middleware ${middleware.name ?? "(unnamed)"} replaced the result of the ` +
+                    `prediction with something that is not a PredictionResult.`,
+                );
+              }
+              result = replacement;
+            }
+          }
+        } catch (error: any) {
+          fail(error);
+          return;
+        }
+        if (result === originalResult) {
+          handlers.onFinished(endPacket);
+        } else {
+          handlers.onFragmentsDiscarded();
+          replayResult(result, handlers);
+        }
+      },
+      onError: error => {
+        if (!failed) {
+          failed = true;
+          handlers.onError(error);
+        }
+      },
+    });
+  };
+  // Starting or replaying the prediction may throw as well, which must also fail the prediction.
+  runBeforePrediction().then(startPrediction).catch(fail);
+}
@@ -0,0 +1,120 @@
+import { createFakeLLMPort, silentLogger } from "@lmstudio/lms-communication-mock";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { type PredictionResult } from "./PredictionResult.js";
+
+/**
+ * Creates a handle whose predict channel echoes the prompt in upper case after a short delay. The
+ * prompt "fail" makes the channel error.
+ */
+function createHandleHarness(onPredictionStart: (prompt: string) => void = () => {}) {
+  const predictedPrompts = new Array<string>();
+  let running = 0;
+  let maxRunning = 0;
+  const llmPort = createFakeLLMPort({
+    logger: silentLogger,
+    onPredict: channel => {
+      const firstPart = channel.creationParameter.history.messages[0].content[0];
+      const prompt = firstPart.type === "text" ? firstPart.text : "";
+      predictedPrompts.push(prompt);
+      onPredictionStart(prompt);
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      setTimeout(() => {
+        running--;
+        if (prompt === "fail") {
+          channel.fail(new Error("Prediction failed"));
+          return;
+        }
+        channel.sendFragment(prompt.toUpperCase());
+        channel.sendSuccess({
+          totalTokensCount: 10,
+          predictedTokensCount: 2,
+          tokensPerSecond: prompt.length,
+        });
+      }, 1);
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  return {
+    handle: client.llm.createDynamicHandle("test-model"),
+    predictedPrompts,
+    getMaxRunning: () => maxRunning,
+  };
+}
+
+describe("LLMDynamicHandle.respondBatch", () => {
+  test("limits the number of concurrent predictions and keeps the input order", async () => {
+    const harness = createHandleHarness();
+    const completedIndices: Array<number> = [];
+
+    const { items, summary } = await harness.handle.respondBatch(["a", "bb", "ccc", "dddd", "e"], {
+      concurrency: 2,
+      onItemComplete: item => completedIndices.push(item.index),
+    });
+
+    expect(harness.getMaxRunning()).toBe(2);
+    expect(harness.predictedPrompts).toEqual(["a", "bb", "ccc", "dddd", "e"]);
+    expect(items.map(item => (item.type === "success" ? item.result.content : null))).toEqual([
+      "A",
+      "BB",
+      "CCC",
+      "DDDD",
+      "E",
+    ]);
+    expect([...completedIndices].sort()).toEqual([0, 1, 2, 3, 4]);
+    expect(summary).toMatchObject({
+      succeededCount: 5,
+      failedCount: 0,
+      cachedCount: 0,
+      totalTokensCount: 50,
+      predictedTokensCount: 10,
+      averageTokensPerSecond: 2.2,
+      failures: [],
+    });
+  });
+
+  test("reports failed items without stopping the batch", async () => {
+    const harness = createHandleHarness();
+
+    const { items, summary } = await harness.handle.respondBatch(["a", "fail", "c"], {
+      concurrency: 3,
+    });
+
+    expect(items.map(item => item.type)).toEqual(["success", "error", "success"]);
+    expect(summary.failedCount).toBe(1);
+    expect(summary.failures).toHaveLength(1);
+    expect(summary.failures[0]).toMatchObject({ index: 1, key: "1" });
+    expect(summary.failures[0].error.message).toContain("Prediction failed");
+  });
+
+  test("resumes a batch from the cache", async () => {
+    const harness = createHandleHarness();
+    const cache = new Map<string, PredictionResult>();
+    const getItemKey = (input: unknown) => String(input);
+
+    await harness.handle.respondBatch(["a", "fail"], { cache, getItemKey });
+    expect([...cache.keys()]).toEqual(["a"]);
+
+    const { items, summary } = await harness.handle.respondBatch(["a", "b"], {
+      cache,
+      getItemKey,
+    });
+
+    expect(harness.predictedPrompts).toEqual(["a", "fail", "b"]);
+    expect(items.map(item => item.type === "success" && item.fromCache)).toEqual([true, false]);
+    expect(summary.cachedCount).toBe(1);
+    expect([...cache.keys()]).toEqual(["a", "b"]);
+  });
+
+  test("fails the items that have not started when aborted", async () => {
+    const abortController = new AbortController();
+    const harness = createHandleHarness(() => abortController.abort());
+
+    const { items } = await harness.handle.respondBatch(["a", "b", "c"], {
+      signal: abortController.signal,
+    });
+
+    expect(harness.predictedPrompts).toEqual(["a"]);
+    expect(items.map(item => item.type)).toEqual(["success", "error", "error"]);
+  });
+});
@@ -0,0 +1,273 @@
+import { safeCallCallback, type SimpleLogger, WaitQueue } from "@lmstudio/lms-common";
+import {
+  type LLMPredictionConfigInput,
+  llmPredictionConfigInputSchema,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { type ChatLike } from "../Chat.js";
+import { type LLMDynamicHandle } from "./LLMDynamicHandle.js";
+import { type PredictionResult } from "./PredictionResult.js";
+
+/**
+ * Stores the results of a batch by item key, so that an interrupted batch can be resumed without
+ * predicting the completed items again. A `Map<string, PredictionResult>` can be used directly.
+ *
+ * @public
+ */
+export interface LLMRespondBatchCache {
+  get: (key: string) => PredictionResult | undefined | Promise<PredictionResult | undefined>;
+  set: (key: string, result: PredictionResult) => unknown;
+}
+
+/**
+ * An item of a batch that was predicted successfully (or found in the cache).
+ *
+ * @public
+ */
+export interface LLMRespondBatchItemSuccess {
+  type: "success";
+  /**
+   * The index of the item in the inputs of the batch.
+   */
+  index: number;
+  /**
+   * The key of the item. See {@link LLMRespondBatchOpts#getItemKey}.
+   */
+  key: string;
+  result: PredictionResult;
+  /**
+   * Whether the result was taken from {@link LLMRespondBatchOpts#cache} instead of being predicted.
+   */
+  fromCache: boolean;
+}
+
+/**
+ * An item of a batch that could not be predicted.
+ *
+ * @public
+ */
+export interface LLMRespondBatchItemFailure {
+  type: "error";
+  /**
+   * The index of the item in the inputs of the batch.
+   */
+  index: number;
+  /**
+   * The key of the item. See {@link LLMRespondBatchOpts#getItemKey}.
+   */
+  key: string;
+  error: Error;
+}
+
+/**
+ * The outcome of a single item of a batch.
+ *
+ * @public
+ */
+export type LLMRespondBatchItemResult = LLMRespondBatchItemSuccess | LLMRespondBatchItemFailure;
+
+/**
+ * Aggregated statistics of a batch. Results taken from the cache are included.
+ *
+ * @public
+ */
+export interface LLMRespondBatchSummary {
+  succeededCount: number;
+  failedCount: number;
+  /**
+   * The number of results that were taken from the cache.
+   */
+  cachedCount: number;
+  /**
+   * The sum of the total (prompt and predicted) tokens of all successful items.
+   */
+  totalTokensCount: number;
+  /**
+   * The sum of the predicted tokens of all successful items.
+   */
+  predictedTokensCount: number;
+  /**
+   * The average of the tokens per second of the successful items that report it. `undefined` if
+   * none of them do.
+   */
+  averageTokensPerSecond: number | undefined;
+  /**
+   * The items that failed, in the order of the inputs.
+   */
+  failures: Array<LLMRespondBatchItemFailure>;
+}
+
+/**
+ * The result of {@link LLMDynamicHandle#respondBatch}.
+ *
+ * @public
+ */
+export interface LLMRespondBatchResult {
+  /**
+   * The outcome of each item, in the order of the inputs.
+   */
+  items: Array<LLMRespondBatchItemResult>;
+  summary: LLMRespondBatchSummary;
+}
+
+/**
+ * Options for {@link LLMDynamicHandle#respondBatch}.
+ *
+ * The prediction config fields apply to every item. See {@link LLMPredictionConfigInput} for them.
+ *
+ * @public
+ */
+export interface LLMRespondBatchOpts extends LLMPredictionConfigInput {
+  /**
+   * The maximum number of predictions that run at the same time. The remaining items wait in a
+   * queue and are started in order as predictions finish. Defaults to 1.
+   */
+  concurrency?: number;
+  /**
+   * Called whenever an item finishes, either successfully or with an error.
+   */
+  onItemComplete?: (item: LLMRespondBatchItemResult) => void;
+  /**
+   * An abort signal that can be used to cancel the batch. Running predictions are stopped, and
+   * items that have not started yet fail.
+   */
+  signal?: AbortSignal;
+  /**
+   * Which preset to use for every item. See {@link LLMPredictionOpts#preset}.
+   */
+  preset?: string;
+  /**
+   * A cache to look up results before predicting and to store results in after predicting. Passing
+   * the same cache to a later call resumes an interrupted batch.
+   */
+  cache?: LLMRespondBatchCache;
+  /**
+   * Computes the key that identifies an item in the cache. Defaults to the index of the item, which
+   * is only correct if the inputs are the same between runs.
+   */
+  getItemKey?: (input: ChatLike, index: number) => string;
+}
+export const llmRespondBatchOptsSchema = llmPredictionConfigInputSchema.extend({
+  concurrency: z.number().int().min(1).optional(),
+  onItemComplete: z.function().optional(),
+  signal: z.instanceof(AbortSignal).optional(),
+  preset: z.string().optional(),
+  cache: z
+    .custom<LLMRespondBatchCache>(
+      value =>
+        typeof value === "object" &&
+        value !== null &&
+        typeof (value as any).get === "function" &&
+        typeof (value as any).set === "function",
+    )
+    .optional(),
+  getItemKey: z.function().optional(),
+});
+
+function summarizeBatch(items: Array<LLMRespondBatchItemResult>): LLMRespondBatchSummary {
+  const successes = items.filter(item => item.type === "success");
+  const tokensPerSecond = successes
+    .map(({ result }) => result.stats.tokensPerSecond)
+    .filter(value => value !== undefined);
+  return {
+    succeededCount: successes.length,
+    failedCount: items.length - successes.length,
+    cachedCount: successes.filter(item => item.fromCache).length,
+    totalTokensCount: successes.reduce(
+      (sum, { result }) => sum + (result.stats.totalTokensCount ?? 0),
+      0,
+    ),
+    predictedTokensCount: successes.reduce(
+      (sum, { result }) => sum + (result.stats.predictedTokensCount ?? 0),
+      0,
+    ),
+    averageTokensPerSecond:
+      tokensPerSecond.length === 0
+        ? undefined
+        : tokensPerSecond.reduce((sum, value) => sum + value, 0) / tokensPerSecond.length,
+    failures: items.filter(item => item.type === "error"),
+  };
+}
+
+/**
+ * Runs the predictions of a batch with at most `concurrency` predictions at the same time.
+ *
+ * The items line up in a {@link WaitQueue}. The item at the front of the queue waits for a free
+ * slot, starts its prediction and then lets the next item through.
+ */
+export async function internalRespondBatch(
+  model: LLMDynamicHandle,
+  inputs: Array<ChatLike>,
+  {
+    concurrency = 1,
+    onItemComplete,
+    signal,
+    preset,
+    cache,
+    getItemKey = (_input, index) => String(index),
+    ...config
+  }: LLMRespondBatchOpts,
+  logger: SimpleLogger,
+): Promise<LLMRespondBatchResult> {
+  const queue = new WaitQueue(logger);
+  const abortError = () => new Error("The batch was aborted before this item started.");
+  signal?.addEventListener("abort", () => queue.clearQueue(abortError()), { once: true });
+  const runningPredictions = new Set<Promise<void>>();
+
+  const runItem = async (input: ChatLike, index: number): Promise<LLMRespondBatchItemResult> => {
+    let key = String(index);
+    try {
+      key = getItemKey(input, index);
+      const cachedResult = await cache?.get(key);
+      if (cachedResult !== undefined) {
+        return { type: "success", index, key, result: cachedResult, fromCache: true };
+      }
+      if (signal?.aborted) {
+        throw abortError();
+      }
+      const holder = await queue.enterQueue().wait();
+      let prediction: Promise<PredictionResult>;
+      try {
+        while (runningPredictions.size >= concurrency) {
+          await Promise.race(runningPredictions);
+        }
+        if (signal?.aborted) {
+          throw abortError();
+        }
+        prediction = model.respond(input, { ...config, signal, preset });
+        const settled = prediction.then(
+          () => {},
+          () => {},
+        );
+        // Registered before anyone races on it, so the slot is free by the time the race resolves.
+        void settled.then(() => runningPredictions.delete(settled));
+        runningPredictions.add(settled);
+      } finally {
+        holder.drop();
+      }
+      const result = await prediction;
+      try {
+        await cache?.set(key, result);
+      } catch (error) {
+        logger.warn(`Failed to store the result of item "${key}" in the cache:`, error);
+      }
+      return { type: "success", index, key, result, fromCache: false };
+    } catch (error: any) {
+      return {
+        type: "error",
+        index,
+        key,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  };
+
+  const items = await Promise.all(
+    inputs.map(async (input, index) => {
+      const item = await runItem(input, index);
+      safeCallCallback(logger, "onItemComplete", onItemComplete, [item]);
+      return item;
+    }),
+  );
+  return { items, summary: summarizeBatch(items) };
+}
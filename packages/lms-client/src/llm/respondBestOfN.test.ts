@@ -0,0 +1,209 @@
+import { createFakeLLMPort, silentLogger } from "@lmstudio/lms-communication-mock";
+import { type KVConfigField, type LLMPredictionStopReason } from "@lmstudio/lms-shared-types";
+import { LMStudioClient } from "../LMStudioClient.js";
+
+interface FakeAnswer {
+  content: string;
+  probability?: number;
+  fail?: boolean;
+}
+
+/**
+ * Creates a handle whose predict channel answers based on the seed in the prediction config. A
+ * cancel message stops the prediction with the `userStopped` stop reason.
+ *
+ * If `finishOrder` is given, the predictions finish one after another in the order of their seeds
+ * in it, and predictions whose seed is not in it only finish when cancelled. Otherwise, every
+ * prediction finishes right away.
+ */
+function createHandleHarness(getAnswer: (seed: number) => FakeAnswer, finishOrder?: Array<number>) {
+  const capturedFields = new Array<Array<KVConfigField>>();
+  const cancelledSeeds = new Array<number>();
+  const waitingAnswers = new Map<number, () => void>();
+  let finishedCount = 0;
+  let isFinishing = false;
+  const finishNextInOrder = () => {
+    const seed = finishOrder?.[finishedCount];
+    const answer = seed === undefined ? undefined : waitingAnswers.get(seed);
+    if (isFinishing || answer === undefined) {
+      return;
+    }
+    isFinishing = true;
+    finishedCount++;
+    // Finishing in a separate task lets the previous result be fully processed first.
+    setTimeout(() => {
+      answer();
+      isFinishing = false;
+      finishNextInOrder();
+    }, 1);
+  };
+  const llmPort = createFakeLLMPort({
+    logger: silentLogger,
+    onPredict: channel => {
+      const fields = channel.creationParameter.predictionConfigStack.layers.flatMap(
+        layer => layer.config.fields,
+      );
+      capturedFields.push(fields);
+      const seedField = fields.find(field => field.key === "llm.prediction.seed");
+      const seed = (seedField?.value as { value: number }).value;
+      const answer = getAnswer(seed);
+      let finished = false;
+      const finish = (stopReason: LLMPredictionStopReason) => {
+        finished = true;
+        waitingAnswers.delete(seed);
+        channel.sendSuccess({ stopReason, predictedTokensCount: 1 });
+      };
+      const generate = () => {
+        if (finished) {
+          return;
+        }
+        if (answer.fail) {
+          channel.fail(new Error("Prediction failed"));
+          return;
+        }
+        channel.sendFragment(answer.content, [
+          {
+            text: answer.content,
+            id: 0,
+            logProb: answer.probability === undefined ? undefined : Math.log(answer.probability),
+          },
+        ]);
+        finish("eosFound");
+      };
+      if (finishOrder === undefined) {
+        setTimeout(generate, 1);
+      } else {
+        waitingAnswers.set(seed, generate);
+        finishNextInOrder();
+      }
+      channel.onClientMessage = message => {
+        if (message.type === "cancel") {
+          cancelledSeeds.push(seed);
+          finish("userStopped");
+        }
+      };
+    },
+  });
+  const client = new LMStudioClient({ disableConnection: true, llmPort });
+  return { handle: client.llm.createDynamicHandle("test-model"), capturedFields, cancelledSeeds };
+}
+
+describe("LLMDynamicHandle.respondBestOfN", () => {
+  test("picks the majority answer and cancels the remaining predictions", async () => {
+    const answers: Record<number, string> = {
+      10: "391",
+      11: "381",
+      12: " 391\n",
+      13: "391",
+      14: "400",
+    };
+    const harness = createHandleHarness(seed => ({ content: answers[seed] }), [11, 10, 12, 13]);
+    const completedIndices: Array<number> = [];
+
+    const { best, bestIndex, candidates } = await harness.handle.respondBestOfN("17 * 23?", {
+      n: 5,
+      select: "majorityVote",
+      seed: 10,
+      temperatures: [0.5, 1],
+      onCandidateComplete: candidate => completedIndices.push(candidate.index),
+    });
+
+    expect(best.content).toBe("391");
+    expect(bestIndex).toBe(0);
+    expect(candidates.map(candidate => candidate.type)).toEqual([
+      "success",
+      "success",
+      "success",
+      "success",
+      "cancelled",
+    ]);
+    expect(candidates.map(({ seed, temperature }) => ({ seed, temperature }))).toEqual([
+      { seed: 10, temperature: 0.5 },
+      { seed: 11, temperature: 1 },
+      { seed: 12, temperature: 0.5 },
+      { seed: 13, temperature: 1 },
+      { seed: 14, temperature: 0.5 },
+    ]);
+    expect(harness.cancelledSeeds).toEqual([14]);
+    expect(completedIndices).toEqual([1, 0, 2, 3, 4]);
+  });
+
+  test("picks the candidate with the highest mean log probability", async () => {
+    const probabilities: Record<number, number> = { 0: 0.2, 1: 0.9, 2: 0.5 };
+    const harness = createHandleHarness(seed => ({
+      content: `answer ${seed}`,
+      probability: probabilities[seed],
+    }));
+
+    const { best, bestIndex } = await harness.handle.respondBestOfN("Hi", {
+      n: 3,
+      select: "highestMeanLogProb",
+      seed: 0,
+      concurrency: 1,
+    });
+
+    expect(bestIndex).toBe(1);
+    expect(best.content).toBe("answer 1");
+    expect(harness.capturedFields[0]).toContainEqual({
+      key: "llm.prediction.logProbs",
+      value: { checked: true, value: 1 },
+    });
+  });
+
+  test("lets a judge pick the candidate and ignores failed candidates", async () => {
+    const harness = createHandleHarness(
+      seed => ({ content: `answer ${seed}`, fail: seed === 1 }),
+      [2, 1, 0],
+    );
+
+    const { best, candidates } = await harness.handle.respondBestOfN("Hi", {
+      n: 3,
+      seed: 0,
+      select: async (successes, chat) => {
+        expect(chat.getMessagesArray().map(message => message.getText())).toEqual(["Hi"]);
+        expect(successes.map(({ index }) => index)).toEqual([0, 2]);
+        return successes[successes.length - 1].index;
+      },
+    });
+
+    expect(best.content).toBe("answer 2");
+    expect(candidates[1]).toMatchObject({ type: "error", index: 1 });
+
+    const unorderedHarness = createHandleHarness(seed => ({
+      content: `answer ${seed}`,
+      fail: seed === 1,
+    }));
+    await expect(
+      unorderedHarness.handle.respondBestOfN("Hi", { n: 3, seed: 0, select: () => 1 }),
+    ).rejects.toThrow("not the index of a successful candidate");
+  });
+
+  test("cancels the predictions when the caller aborts and stops listening afterwards", async () => {
+    const harness = createHandleHarness(seed => ({ content: `answer ${seed}` }), []);
+    const abortController = new AbortController();
+    const addEventListener = jest.spyOn(abortController.signal, "addEventListener");
+    const removeEventListener = jest.spyOn(abortController.signal, "removeEventListener");
+    setTimeout(() => abortController.abort(), 10);
+
+    await expect(
+      harness.handle.respondBestOfN("Hi", {
+        n: 2,
+        seed: 0,
+        select: "majorityVote",
+        signal: abortController.signal,
+      }),
+    ).rejects.toThrow("None of the 2 candidates finished successfully");
+
+    expect(harness.cancelledSeeds.sort()).toEqual([0, 1]);
+    expect(addEventListener).toHaveBeenCalledTimes(1);
+    expect(removeEventListener).toHaveBeenCalledWith("abort", addEventListener.mock.calls[0][1]);
+  });
+
+  test("throws when every candidate fails", async () => {
+    const harness = createHandleHarness(() => ({ content: "", fail: true }));
+
+    await expect(
+      harness.handle.respondBestOfN("Hi", { n: 2, select: "majorityVote" }),
+    ).rejects.toThrow("None of the 2 candidates finished successfully");
+  });
+});
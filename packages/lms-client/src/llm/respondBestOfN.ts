@@ -0,0 +1,338 @@
+import {
+  getCurrentStack,
+  makeTitledPrettyError,
+  safeCallCallback,
+  type SimpleLogger,
+  text,
+} from "@lmstudio/lms-common";
+import {
+  type LLMPredictionConfigInput,
+  llmPredictionConfigInputSchema,
+  type LLMPredictionStats,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { Chat, type ChatLike } from "../Chat.js";
+import { type LLMDynamicHandle } from "./LLMDynamicHandle.js";
+import { analyzeLogProbs } from "./logProbAnalysis.js";
+import { type PredictionResult, StructuredPredictionResult } from "./PredictionResult.js";
+
+/**
+ * A candidate of {@link LLMDynamicHandle#respondBestOfN} that finished successfully.
+ *
+ * @public
+ */
+export interface LLMBestOfNSuccessCandidate {
+  type: "success";
+  /**
+   * The index of the candidate, from 0 to `n - 1`.
+   */
+  index: number;
+  /**
+   * The seed used for the candidate. `undefined` if `seed` was set to `false`.
+   */
+  seed: number | undefined;
+  /**
+   * The temperature used for the candidate, if {@link LLMRespondBestOfNOpts#temperatures} is set.
+   */
+  temperature: number | undefined;
+  result: PredictionResult;
+  stats: LLMPredictionStats;
+}
+
+/**
+ * A candidate of {@link LLMDynamicHandle#respondBestOfN} whose prediction failed.
+ *
+ * @public
+ */
+export interface LLMBestOfNFailedCandidate {
+  type: "error";
+  index: number;
+  seed: number | undefined;
+  temperature: number | undefined;
+  error: Error;
+}
+
+/**
+ * A candidate of {@link LLMDynamicHandle#respondBestOfN} that was cancelled or never started,
+ * because the result was already decided or the signal was aborted.
+ *
+ * @public
+ */
+export interface LLMBestOfNCancelledCandidate {
+  type: "cancelled";
+  index: number;
+  seed: number | undefined;
+  temperature: number | undefined;
+  /**
+   * The stats of the prediction up to the point it was cancelled. `undefined` if the prediction
+   * never started.
+   */
+  stats: LLMPredictionStats | undefined;
+}
+
+/**
+ * A candidate of {@link LLMDynamicHandle#respondBestOfN}.
+ *
+ * @public
+ */
+export type LLMBestOfNCandidate =
+  | LLMBestOfNSuccessCandidate
+  | LLMBestOfNFailedCandidate
+  | LLMBestOfNCancelledCandidate;
+
+/**
+ * Picks the best candidate. Receives the successful candidates and returns the `index` of the best
+ * one. Can be used to let a judge model decide.
+ *
+ * @public
+ */
+export type LLMBestOfNJudge = (
+  candidates: Array<LLMBestOfNSuccessCandidate>,
+  chat: Chat,
+) => number | Promise<number>;
+
+/**
+ * How {@link LLMDynamicHandle#respondBestOfN} picks the best candidate:
+ *
+ * - `"majorityVote"`: The most common answer wins (self-consistency). Answers are compared by their
+ *   parsed structured output if `structured` is set, or by their trimmed content otherwise. Ties go
+ *   to the candidate that finished first. The remaining predictions are cancelled as soon as an
+ *   answer has a majority.
+ * - `"highestMeanLogProb"`: The candidate with the highest average token log probability wins.
+ *   Sets `logProbs` to 1 unless it is already set.
+ * - A function: A custom selector, such as a judge model. See {@link LLMBestOfNJudge}.
+ *
+ * @public
+ */
+export type LLMBestOfNSelector = "majorityVote" | "highestMeanLogProb" | LLMBestOfNJudge;
+
+/**
+ * Options for {@link LLMDynamicHandle#respondBestOfN}.
+ *
+ * The prediction config fields apply to every candidate. See {@link LLMPredictionConfigInput} for
+ * them. If `seed` is set, the candidates use the seeds `seed`, `seed + 1`, and so on. If it is not
+ * set, a random starting seed is used.
+ *
+ * @public
+ */
+export interface LLMRespondBestOfNOpts extends LLMPredictionConfigInput {
+  /**
+   * The number of candidates to generate.
+   */
+  n: number;
+  /**
+   * How to pick the best candidate. See {@link LLMBestOfNSelector}.
+   */
+  select: LLMBestOfNSelector;
+  /**
+   * The temperatures of the candidates. Candidate `i` uses `temperatures[i % temperatures.length]`.
+   * If not set, every candidate uses `temperature`.
+   */
+  temperatures?: Array<number>;
+  /**
+   * The maximum number of predictions that run at the same time. Defaults to `n`.
+   */
+  concurrency?: number;
+  /**
+   * Called whenever a candidate finishes, either successfully or with an error.
+   */
+  onCandidateComplete?: (candidate: LLMBestOfNCandidate) => void;
+  /**
+   * An abort signal that can be used to cancel all predictions.
+   */
+  signal?: AbortSignal;
+  /**
+   * Which preset to use for every candidate. See {@link LLMPredictionOpts#preset}.
+   */
+  preset?: string;
+}
+export const llmRespondBestOfNOptsSchema = llmPredictionConfigInputSchema.extend({
+  n: z.number().int().min(1),
+  select: z.union([
+    z.literal("majorityVote"),
+    z.literal("highestMeanLogProb"),
+    z.custom<LLMBestOfNJudge>(value => typeof value === "function"),
+  ]),
+  temperatures: z.array(z.number().min(0)).min(1).optional(),
+  concurrency: z.number().int().min(1).optional(),
+  onCandidateComplete: z.function().optional(),
+  signal: z.instanceof(AbortSignal).optional(),
+  preset: z.string().optional(),
+});
+
+/**
+ * The result of {@link LLMDynamicHandle#respondBestOfN}.
+ *
+ * @public
+ */
+export interface LLMRespondBestOfNResult {
+  /**
+   * The result of the best candidate.
+   */
+  best: PredictionResult;
+  /**
+   * The index of the best candidate.
+   */
+  bestIndex: number;
+  /**
+   * All candidates, in order of their index.
+   */
+  candidates: Array<LLMBestOfNCandidate>;
+}
+
+/**
+ * Computes the key that candidates are compared by in a majority vote.
+ */
+function getVoteKey(result: PredictionResult) {
+  if (result instanceof StructuredPredictionResult) {
+    return JSON.stringify(result.parsed, (_key, value) =>
+      typeof value === "object" && value !== null && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)))
+        : value,
+    );
+  }
+  return result.content.trim();
+}
+
+export async function internalRespondBestOfN(
+  model: LLMDynamicHandle,
+  chat: ChatLike,
+  {
+    n,
+    select,
+    temperatures,
+    concurrency = n,
+    onCandidateComplete,
+    signal,
+    preset,
+    ...config
+  }: LLMRespondBestOfNOpts,
+  logger: SimpleLogger,
+): Promise<LLMRespondBestOfNResult> {
+  const stack = getCurrentStack(1);
+  const baseSeed =
+    config.seed === false ? undefined : config.seed ?? Math.floor(Math.random() * 2 ** 30);
+  if (select === "highestMeanLogProb" && config.logProbs === undefined) {
+    config.logProbs = 1;
+  }
+  const candidates = new Array<LLMBestOfNCandidate>(n);
+  const voteCounts = new Map<string, number>();
+  let nextIndex = 0;
+
+  // Follows the signal of the caller, and is also aborted once the majority vote is decided, which
+  // cancels the remaining predictions.
+  const abortController = new AbortController();
+  const onAbort = () => abortController.abort(signal!.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const runCandidate = async (index: number): Promise<LLMBestOfNCandidate> => {
+    const seed = baseSeed === undefined ? undefined : baseSeed + index;
+    const temperature = temperatures?.[index % temperatures.length];
+    const candidateBase = { index, seed, temperature };
+    if (abortController.signal.aborted) {
+      return { type: "cancelled", ...candidateBase, stats: undefined };
+    }
+    const prediction = model.respond(chat, {
+      ...config,
+      ...(seed === undefined ? {} : { seed }),
+      ...(temperature === undefined ? {} : { temperature }),
+      signal: abortController.signal,
+      preset,
+    });
+    try {
+      const result = await prediction;
+      if (result.stats.stopReason === "userStopped") {
+        return { type: "cancelled", ...candidateBase, stats: result.stats };
+      }
+      if (select === "majorityVote") {
+        const key = getVoteKey(result);
+        const count = (voteCounts.get(key) ?? 0) + 1;
+        voteCounts.set(key, count);
+        if (count > n / 2) {
+          abortController.abort();
+        }
+      }
+      return { type: "success", ...candidateBase, result, stats: result.stats };
+    } catch (error: any) {
+      return {
+        type: "error",
+        ...candidateBase,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  };
+
+  const finishOrder: Array<number> = [];
+  const worker = async () => {
+    while (nextIndex < n) {
+      const index = nextIndex++;
+      const candidate = await runCandidate(index);
+      candidates[index] = candidate;
+      if (candidate.type === "success") {
+        finishOrder.push(index);
+      }
+      safeCallCallback(logger, "onCandidateComplete", onCandidateComplete, [candidate]);
+    }
+  };
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, n) }, worker));
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  const successes = finishOrder.map(index => candidates[index] as LLMBestOfNSuccessCandidate);
+  if (successes.length === 0) {
+    const errors = candidates.filter(candidate => candidate.type === "error");
+    throw makeTitledPrettyError(
+      "No candidate succeeded",
+      text`
+        None of the ${n} candidates finished successfully.
+        ${errors.map(({ index, error }) => `Candidate ${index}: ${error.message}`).join("\n")}
+      `,
+      stack,
+    );
+  }
+
+  let bestIndex: number;
+  if (select === "majorityVote") {
+    // Candidates are visited in the order they finished, so ties go to the earliest one.
+    let bestCount = 0;
+    bestIndex = successes[0].index;
+    for (const candidate of successes) {
+      const count = voteCounts.get(getVoteKey(candidate.result))!;
+      if (count > bestCount) {
+        bestCount = count;
+        bestIndex = candidate.index;
+      }
+    }
+  } else if (select === "highestMeanLogProb") {
+    const scores = successes.map(
+      candidate => analyzeLogProbs(candidate.result.tokens).averageLogProb,
+    );
+    bestIndex = successes[scores.indexOf(Math.max(...scores))].index;
+  } else {
+    bestIndex = await select(
+      [...successes].sort((a, b) => a.index - b.index),
+      Chat.from(chat),
+    );
+    if (!successes.some(candidate => candidate.index === bestIndex)) {
+      throw makeTitledPrettyError(
+        "Invalid selection",
+        text`
+          The selector returned ${bestIndex}, which is not the index of a successful candidate.
+          Successful candidates: ${successes.map(({ index }) => index).join(", ")}.
+        `,
+        stack,
+      );
+    }
+  }
+  return {
+    best: (candidates[bestIndex] as LLMBestOfNSuccessCandidate).result,
+    bestIndex,
+    candidates,
+  };
+}
@@ -0,0 +1,54 @@
+import { z, ZodError, type ZodSchema } from "zod";
+
+/**
+ * Options for repairing structured output that does not pass validation. See
+ * {@link LLMRespondOpts#repair}.
+ *
+ * @public
+ */
+export interface StructuredOutputRepairOpts {
+  /**
+   * The maximum number of times the model is asked to correct its response. Setting it to 0
+   * disables repairing.
+   */
+  maxAttempts: number;
+}
+export const structuredOutputRepairOptsSchema = z.object({
+  maxAttempts: z.number().int().min(0),
+}) satisfies ZodSchema<StructuredOutputRepairOpts>;
+
+/**
+ * A response that did not pass validation and was repaired by asking the model again.
+ *
+ * @public
+ */
+export interface StructuredOutputRepairFailure {
+  /**
+   * The content of the response that did not pass validation.
+   */
+  content: string;
+  /**
+   * The error that was thrown when parsing the response.
+   */
+  error: Error;
+}
+
+/**
+ * Creates the message that is sent to the model after a response failed validation. The error is
+ * the one thrown by the structured output parser, which wraps the JSON or zod error.
+ */
+export function getStructuredOutputRepairMessage(error: Error) {
+  const cause = error.cause instanceof Error ? error.cause : error;
+  const problems =
+    cause instanceof ZodError
+      ? cause.issues.map(issue =>
+          issue.path.length === 0 ? issue.message : `${issue.path.join(".")}: ${issue.message}`,
+        )
+      : [`The response is not valid JSON: ${cause.message}`];
+  return [
+    "Your response does not match the required format:",
+    ...problems.map(problem => `- ${problem}`),
+    "",
+    "Respond again with the corrected JSON only.",
+  ].join("\n");
+}
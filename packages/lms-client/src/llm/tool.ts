@@ -4,16 +4,85 @@ import { Validator, type ValidationError } from "jsonschema";
 import { z, type ZodSchema } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 
+/**
+ * Describes how a tool call is retried when the tool implementation throws an error or times out.
+ *
+ * @public
+ */
+export interface ToolRetryPolicy {
+  /**
+   * The maximum number of retries, not including the first attempt.
+   */
+  maxRetries: number;
+  /**
+   * Delay before the first retry in milliseconds. Defaults to 500.
+   */
+  delayMs?: number;
+  /**
+   * The delay is multiplied by this value after every retry. Defaults to 2.
+   */
+  backoffMultiplier?: number;
+  /**
+   * Decides whether an error thrown by the implementation should be retried. `attempt` is the
+   * 0-indexed attempt that failed. If not provided, all errors are retried.
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /**
+   * Whether attempts that exceed the `timeoutMs` of the tool are retried as well. Defaults to
+   * `false`.
+   */
+  retryOnTimeout?: boolean;
+}
+export const toolRetryPolicySchema = z.object({
+  maxRetries: z.number().int().min(0),
+  delayMs: z.number().min(0).optional(),
+  backoffMultiplier: z.number().min(1).optional(),
+  shouldRetry: z.function().returns(z.boolean()).optional(),
+  retryOnTimeout: z.boolean().optional(),
+});
+
+/**
+ * Options that control how `.act` executes a tool.
+ *
+ * @public
+ */
+export interface ToolExecutionOpts {
+  /**
+   * The maximum time in milliseconds a single attempt of a tool call may take. When exceeded, the
+   * `signal` in the {@link ToolCallContext} is aborted. If no retries are left, the model receives
+   * an error as the result of the tool call. If not provided, there is no timeout.
+   */
+  timeoutMs?: number;
+  /**
+   * Retry the tool call if the implementation throws an error, or if it times out and
+   * `retryOnTimeout` is set. If the last attempt throws an error, the `.act` call fails with that
+   * error. If not provided, tool calls are not retried.
+   */
+  retry?: ToolRetryPolicy;
+  /**
+   * The maximum number of calls of this tool that may run at the same time. The limit is shared by
+   * all `.act` calls that use the same tool object. A call that has timed out keeps counting
+   * towards the limit until its implementation settles. If not provided, there is no limit (other
+   * than the one imposed by `allowParallelToolExecution`).
+   */
+  maxConcurrency?: number;
+}
+export const toolExecutionOptsSchema = z.object({
+  timeoutMs: z.number().int().min(1).optional(),
+  retry: toolRetryPolicySchema.optional(),
+  maxConcurrency: z.number().int().min(1).optional(),
+});
+
 /**
  * Shared properties of all tools.
  *
  * @public
  */
-export interface ToolBase {
+export interface ToolBase extends ToolExecutionOpts {
   name: string;
   description: string;
 }
-export const toolBaseSchema = z.object({
+export const toolBaseSchema = toolExecutionOptsSchema.extend({
   name: z.string(),
   description: z.string(),
 });
@@ -48,6 +117,8 @@ export interface ToolCallContext {
    * A signal that should be listened to in order to know when to abort the tool call. Not necessary
    * for simple tools calls, however recommended for long running tools such as those that uses
    * makes multiple network requests.
+   *
+   * The signal is also aborted when the tool call exceeds the `timeoutMs` of the tool.
    */
   signal: AbortSignal;
   /**
@@ -188,7 +259,10 @@ export function tool<const TParameters extends Record<string, { parse(input: any
   description,
   parameters,
   implementation,
-}: {
+  timeoutMs,
+  retry,
+  maxConcurrency,
+}: ToolExecutionOpts & {
   name: string;
   description: string;
   /**
@@ -207,6 +281,12 @@ export function tool<const TParameters extends Record<string, { parse(input: any
    * - https://github.com/colinhacks/zod/issues/3435
    */
   parameters: TParameters;
+  /**
+   * The implementation of the tool. The return value is converted to JSON and given to the model.
+   *
+   * To show images or files to the model (for example, a screenshot), return a `FileHandle`, an
+   * image buffer (`Uint8Array`), or an array containing them along with other values.
+   */
   implementation: (
     params: {
       [K in keyof TParameters]: TParameters[K] extends { parse: (input: any) => infer RReturnType }
@@ -220,6 +300,9 @@ export function tool<const TParameters extends Record<string, { parse(input: any
   return {
     name,
     description,
+    timeoutMs,
+    retry,
+    maxConcurrency,
     type: "function",
     parametersSchema,
     checkParameters(params) {
@@ -268,16 +351,28 @@ export function rawFunctionTool({
   description,
   parametersJsonSchema,
   implementation,
-}: {
+  timeoutMs,
+  retry,
+  maxConcurrency,
+}: ToolExecutionOpts & {
   name: string;
   description: string;
   parametersJsonSchema: any;
+  /**
+   * The implementation of the tool. The return value is converted to JSON and given to the model.
+   *
+   * To show images or files to the model (for example, a screenshot), return a `FileHandle`, an
+   * image buffer (`Uint8Array`), or an array containing them along with other values.
+   */
   implementation: (params: Record<string, unknown>, ctx: ToolCallContext) => any | Promise<any>;
 }): Tool {
   const jsonSchemaValidator = new Validator();
   return {
     name,
     description,
+    timeoutMs,
+    retry,
+    maxConcurrency,
     type: "rawFunction",
     parametersJsonSchema,
     checkParameters(params) {
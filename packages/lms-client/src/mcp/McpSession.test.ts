@@ -0,0 +1,260 @@
+import { silentLogger } from "@lmstudio/lms-communication-mock";
+import { createServer, type Server } from "http";
+import { type AddressInfo } from "net";
+import { type Tool, type ToolCallContext } from "../llm/tool.js";
+import { connectMcpServer, type McpSession } from "./McpSession.js";
+
+/**
+ * A minimal MCP server that communicates over stdio. It is used in place of a real MCP server.
+ */
+const standInServerScript = String.raw`
+const readline = require("readline");
+const send = message => process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+const tools = [
+  { name: "echo", description: "Echo the text", inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] } },
+  { name: "wait", description: "Wait until cancelled", inputSchema: { type: "object" } },
+  { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+  { name: "add_tool", description: "Adds another tool", inputSchema: { type: "object" } },
+];
+const cancelledRequestIds = [];
+readline.createInterface({ input: process.stdin }).on("line", line => {
+  const message = JSON.parse(line);
+  switch (message.method) {
+    case "initialize":
+      send({ id: message.id, result: { protocolVersion: message.params.protocolVersion, capabilities: { tools: { listChanged: true } }, serverInfo: { name: "stand-in", version: "0.1.0" } } });
+      break;
+    case "tools/list": {
+      const pageSize = 2;
+      const start = Number(message.params.cursor ?? 0);
+      const nextCursor = start + pageSize < tools.length ? String(start + pageSize) : undefined;
+      send({ id: message.id, result: { tools: tools.slice(start, start + pageSize), nextCursor } });
+      break;
+    }
+    case "tools/call": {
+      const { name, arguments: args } = message.params;
+      if (name === "echo") {
+        send({ method: "notifications/message", params: { level: "info", data: "echoing" } });
+        send({ id: message.id, result: { content: [{ type: "text", text: args.text }] } });
+      } else if (name === "wait") {
+        send({ method: "notifications/progress", params: { progressToken: message.params._meta.progressToken, progress: 1, total: 2, message: "Waiting" } });
+      } else if (name === "fail") {
+        send({ id: message.id, result: { content: [{ type: "text", text: "Something went wrong" }], isError: true } });
+      } else if (name === "add_tool") {
+        tools.push({ name: "cancelled", description: "Lists cancelled requests", inputSchema: { type: "object" } });
+        send({ method: "notifications/tools/list_changed" });
+        send({ id: message.id, result: { content: [{ type: "text", text: "added" }] } });
+      } else if (name === "cancelled") {
+        send({ id: message.id, result: { content: [], structuredContent: { cancelledRequestIds } } });
+      }
+      break;
+    }
+    case "notifications/cancelled":
+      cancelledRequestIds.push(message.params.requestId);
+      break;
+  }
+});
+`;
+
+function createToolCallContext(signal = new AbortController().signal) {
+  const statuses = new Array<string>();
+  const ctx: ToolCallContext = {
+    status: text => statuses.push(text),
+    warn: () => {},
+    signal,
+    callId: 0,
+  };
+  return { ctx, statuses };
+}
+
+function findTool(session: McpSession, name: string): Tool {
+  const tool = session.tools.find(tool => tool.name === name);
+  if (tool === undefined) {
+    throw new Error(`Tool ${name} not found`);
+  }
+  return tool;
+}
+
+describe("connectMcpServer", () => {
+  let session: McpSession;
+  beforeEach(async () => {
+    session = await connectMcpServer({
+      server: { type: "stdio", command: process.execPath, args: ["-e", standInServerScript] },
+      toolNamePrefix: "standIn_",
+      logger: silentLogger,
+    });
+  });
+  afterEach(async () => {
+    await session.close();
+  });
+
+  test("lists the tools of the server as raw function tools", () => {
+    expect(session.serverInfo).toMatchObject({ name: "stand-in", version: "0.1.0" });
+    expect(session.tools.map(tool => [tool.type, tool.name])).toEqual([
+      ["rawFunction", "standIn_echo"],
+      ["rawFunction", "standIn_wait"],
+      ["rawFunction", "standIn_fail"],
+      ["rawFunction", "standIn_add_tool"],
+    ]);
+  });
+
+  test("calls tools on the server", async () => {
+    const { ctx } = createToolCallContext();
+    await expect(
+      findTool(session, "standIn_echo").implementation({ text: "Hello" }, ctx),
+    ).resolves.toBe("Hello");
+    expect(() => findTool(session, "standIn_echo").checkParameters({})).toThrow();
+  });
+
+  test("returns tool errors in a model readable form", async () => {
+    const { ctx } = createToolCallContext();
+    await expect(findTool(session, "standIn_fail").implementation({}, ctx)).resolves.toEqual({
+      error: "Something went wrong",
+    });
+  });
+
+  test("reports progress and cancels the request when aborted", async () => {
+    const abortController = new AbortController();
+    const { ctx, statuses } = createToolCallContext(abortController.signal);
+    const callPromise = findTool(session, "standIn_wait").implementation({}, ctx);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    abortController.abort(new Error("No longer needed"));
+    await expect(callPromise).rejects.toThrow("No longer needed");
+    expect(statuses).toEqual(["Waiting"]);
+
+    await findTool(session, "standIn_add_tool").implementation({}, createToolCallContext().ctx);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const result = await findTool(session, "standIn_cancelled").implementation(
+      {},
+      createToolCallContext().ctx,
+    );
+    expect(result.cancelledRequestIds).toHaveLength(1);
+  });
+
+  test("updates the tools when the server reports a change", async () => {
+    const onToolsChanged = jest.fn();
+    await session.close();
+    session = await connectMcpServer({
+      server: { type: "stdio", command: process.execPath, args: ["-e", standInServerScript] },
+      onToolsChanged,
+      logger: silentLogger,
+    });
+    await findTool(session, "add_tool").implementation({}, createToolCallContext().ctx);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(onToolsChanged).toHaveBeenCalledTimes(1);
+    expect(session.tools.map(tool => tool.name)).toContain("cancelled");
+  });
+
+  test("rejects tool calls after the session is closed", async () => {
+    const echoTool = findTool(session, "standIn_echo");
+    await session.close();
+    await expect(
+      echoTool.implementation({ text: "Hello" }, createToolCallContext().ctx),
+    ).rejects.toThrow("closed");
+  });
+});
+
+describe("connectMcpServer with an unresponsive server", () => {
+  test("gives up when the server does not answer the initialize request", async () => {
+    await expect(
+      connectMcpServer({
+        server: {
+          type: "stdio",
+          command: process.execPath,
+          args: ["-e", "process.stdin.resume()"],
+        },
+        initializeTimeoutMs: 200,
+        logger: silentLogger,
+      }),
+    ).rejects.toThrow("did not answer the initialize request within 200ms");
+  });
+});
+
+describe("connectMcpServer with the streamable HTTP transport", () => {
+  let server: Server;
+  let url: string;
+  const receivedSessionIds = new Array<string | undefined>();
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      receivedSessionIds.push(request.headers["mcp-session-id"] as string | undefined);
+      if (request.method === "DELETE") {
+        response.writeHead(200).end();
+        return;
+      }
+      let body = "";
+      request.on("data", chunk => (body += chunk));
+      request.on("end", () => {
+        const message = JSON.parse(body);
+        if (message.id === undefined) {
+          response.writeHead(202).end();
+          return;
+        }
+        switch (message.method) {
+          case "initialize":
+            response.writeHead(200, {
+              "Content-Type": "application/json",
+              "Mcp-Session-Id": "session-1",
+            });
+            response.end(
+              JSON.stringify({
+                jsonrpc: "2.0",
+                id: message.id,
+                result: {
+                  protocolVersion: message.params.protocolVersion,
+                  capabilities: { tools: {} },
+                  serverInfo: { name: "http-stand-in", version: "0.1.0" },
+                },
+              }),
+            );
+            break;
+          case "tools/list":
+            response.writeHead(200, { "Content-Type": "application/json" });
+            response.end(
+              JSON.stringify({
+                jsonrpc: "2.0",
+                id: message.id,
+                result: { tools: [{ name: "echo", inputSchema: { type: "object" } }] },
+              }),
+            );
+            break;
+          case "tools/call":
+            response.writeHead(200, { "Content-Type": "text/event-stream" });
+            response.write(
+              `data: ${JSON.stringify({
+                jsonrpc: "2.0",
+                method: "notifications/progress",
+                params: { progressToken: message.params._meta.progressToken, progress: 1 },
+              })}\n\n`,
+            );
+            response.end(
+              `data: ${JSON.stringify({
+                jsonrpc: "2.0",
+                id: message.id,
+                result: { content: [{ type: "text", text: message.params.arguments.text }] },
+              })}\n\n`,
+            );
+            break;
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("calls tools over JSON and event stream responses", async () => {
+    const session = await connectMcpServer({
+      server: { type: "streamableHttp", url },
+      logger: silentLogger,
+    });
+    const { ctx, statuses } = createToolCallContext();
+    await expect(findTool(session, "echo").implementation({ text: "Hi" }, ctx)).resolves.toBe("Hi");
+    expect(statuses).toEqual(["1"]);
+    await session.close();
+    expect(receivedSessionIds[0]).toBeUndefined();
+    expect(receivedSessionIds.slice(1)).toEqual(
+      Array(receivedSessionIds.length - 1).fill("session-1"),
+    );
+  });
+});
@@ -0,0 +1,556 @@
+import {
+  getCurrentStack,
+  IdGiver,
+  makePromise,
+  makeTitledPrettyError,
+  safeCallCallback,
+  SimpleLogger,
+  text,
+  Validator,
+  type LoggerInterface,
+} from "@lmstudio/lms-common";
+import { base64ToUint8Array } from "@lmstudio/lms-isomorphic";
+import { z } from "zod";
+import {
+  rawFunctionTool,
+  toolExecutionOptsSchema,
+  type Tool,
+  type ToolCallContext,
+  type ToolExecutionOpts,
+} from "../llm/tool.js";
+import { type JsonRpcMessage, type McpTransport } from "./McpTransport.js";
+import { StdioMcpTransport } from "./StdioMcpTransport.js";
+import { StreamableHttpMcpTransport } from "./StreamableHttpMcpTransport.js";
+
+/**
+ * The MCP protocol version requested when connecting. The server may answer with an older version
+ * it supports.
+ */
+const requestedProtocolVersion = "2025-06-18";
+
+/**
+ * How long to wait for the server to answer the `initialize` request by default.
+ */
+const defaultInitializeTimeoutMs = 30_000;
+
+/**
+ * Describes how to reach an MCP server.
+ *
+ * - `stdio`: Launches the server as a child process and communicates over its stdin and stdout.
+ *   Only available in Node.js (and compatible runtimes).
+ * - `streamableHttp`: Connects to a server that is already running, using the streamable HTTP
+ *   transport.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export type McpServerSpecifier =
+  | {
+      type: "stdio";
+      /**
+       * The command to run, for example `npx` or `uvx`.
+       */
+      command: string;
+      args?: Array<string>;
+      /**
+       * Additional environment variables for the server process. The environment of the current
+       * process is inherited.
+       */
+      env?: Record<string, string>;
+      cwd?: string;
+    }
+  | {
+      type: "streamableHttp";
+      /**
+       * The URL of the MCP endpoint, for example `http://localhost:8000/mcp`.
+       */
+      url: string;
+      /**
+       * Additional HTTP headers to send with every request, for example for authorization.
+       */
+      headers?: Record<string, string>;
+    };
+export const mcpServerSpecifierSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("stdio"),
+    command: z.string(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string()).optional(),
+    cwd: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("streamableHttp"),
+    url: z.string(),
+    headers: z.record(z.string()).optional(),
+  }),
+]) satisfies z.ZodSchema<McpServerSpecifier>;
+
+/**
+ * Options to use with {@link connectMcpServer}.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export interface ConnectMcpServerOpts {
+  server: McpServerSpecifier;
+  /**
+   * A prefix added to the names of all the tools of the server. Useful to avoid name collisions
+   * when using tools from multiple servers at the same time.
+   */
+  toolNamePrefix?: string;
+  /**
+   * Execution options (such as a timeout) applied to all tools of the server.
+   */
+  toolExecutionOpts?: ToolExecutionOpts;
+  /**
+   * Name and version reported to the server. Defaults to `lmstudio-js`.
+   */
+  clientInfo?: { name: string; version: string };
+  /**
+   * How long to wait, in milliseconds, for the server to answer the `initialize` request. If it
+   * does not answer in time, the connection is closed and `connectMcpServer` rejects. Defaults to
+   * 30 seconds.
+   */
+  initializeTimeoutMs?: number;
+  /**
+   * Called when the server notifies that its tools have changed, after `tools` has been updated.
+   */
+  onToolsChanged?: (tools: Array<Tool>) => void;
+  /**
+   * The logger to forward the log messages of the server to. Defaults to the console.
+   */
+  logger?: LoggerInterface;
+}
+export const connectMcpServerOptsSchema = z.object({
+  server: mcpServerSpecifierSchema,
+  toolNamePrefix: z.string().optional(),
+  toolExecutionOpts: toolExecutionOptsSchema.optional(),
+  clientInfo: z.object({ name: z.string(), version: z.string() }).optional(),
+  initializeTimeoutMs: z.number().int().positive().optional(),
+  onToolsChanged: z.function().optional(),
+  logger: z.any().optional(),
+}) satisfies z.ZodSchema<ConnectMcpServerOpts>;
+
+/**
+ * Information about the MCP server, as reported by itself.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export interface McpServerInfo {
+  name: string;
+  version: string;
+  protocolVersion: string;
+  /**
+   * Instructions on how to use the server, if provided. Can be added to the system prompt.
+   */
+  instructions?: string;
+}
+
+interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: any;
+}
+
+interface McpContentPart {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  resource?: { uri: string; text?: string };
+}
+
+interface McpCallToolResult {
+  content?: Array<McpContentPart>;
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (params: { progress: number; total?: number; message?: string }) => void;
+}
+
+type McpSessionStatus = "initializing" | "ready" | "closed";
+
+/**
+ * Converts the result of an MCP tool call to a value that can be returned from a tool
+ * implementation. Text becomes strings and images become image buffers, which `.act` shows to the
+ * model.
+ */
+function convertCallToolResult(result: McpCallToolResult) {
+  const content = result.content ?? [];
+  if (result.isError) {
+    return {
+      error: content
+        .filter(part => part.type === "text")
+        .map(part => part.text)
+        .join("\n"),
+    };
+  }
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+  const values = content.map(part => {
+    switch (part.type) {
+      case "text":
+        return part.text;
+      case "image":
+        return base64ToUint8Array(part.data ?? "");
+      case "resource":
+        return part.resource?.text ?? part.resource;
+      default:
+        return part;
+    }
+  });
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * A connection to an MCP server. Its tools are exposed as regular tools that can be passed to
+ * `.act`.
+ *
+ * Don't construct this class yourself. Use {@link connectMcpServer} instead.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export class McpSession implements AsyncDisposable {
+  private status: McpSessionStatus = "initializing";
+  /**
+   * Set when the connection is lost. Used to fail any further tool calls.
+   */
+  private poison: Error | null = null;
+  private readonly pendingRequests = new Map<number, PendingRequest>();
+  private readonly requestIdGiver = new IdGiver(0);
+  /**
+   * Information about the server. Available once connected.
+   */
+  public serverInfo!: McpServerInfo;
+  /**
+   * The tools of the server. Kept up to date when the server notifies that its tools have changed.
+   */
+  public tools: Array<Tool> = [];
+  /** @internal */
+  public static async connect(opts: ConnectMcpServerOpts): Promise<McpSession> {
+    const logger = new SimpleLogger("MCP", opts.logger);
+    let transport: McpTransport;
+    switch (opts.server.type) {
+      case "stdio":
+        transport = new StdioMcpTransport(
+          opts.server.command,
+          opts.server.args ?? [],
+          opts.server.env,
+          opts.server.cwd,
+          logger,
+        );
+        break;
+      case "streamableHttp":
+        transport = new StreamableHttpMcpTransport(
+          opts.server.url,
+          opts.server.headers ?? {},
+          logger,
+        );
+        break;
+    }
+    const session = new McpSession(transport, opts, logger);
+    try {
+      await session.init();
+    } catch (error) {
+      await session.close();
+      throw error;
+    }
+    return session;
+  }
+  private constructor(
+    private readonly transport: McpTransport,
+    private readonly opts: ConnectMcpServerOpts,
+    private readonly logger: SimpleLogger,
+  ) {}
+  private async init() {
+    await this.transport.start({
+      onMessage: message => this.handleMessage(message),
+      onClose: error => this.handleConnectionLost(error),
+    });
+    const initializeTimeoutMs = this.opts.initializeTimeoutMs ?? defaultInitializeTimeoutMs;
+    let initializeTimeout: ReturnType<typeof setTimeout> | undefined;
+    let initializeResult: any;
+    try {
+      // The initialize request must not be cancelled, so it is left pending on timeout. `connect`
+      // closes the session, which rejects it and closes the transport.
+      initializeResult = await Promise.race([
+        this.request("initialize", {
+          protocolVersion: requestedProtocolVersion,
+          capabilities: {},
+          clientInfo: this.opts.clientInfo ?? { name: "lmstudio-js", version: "1.0.0" },
+        }),
+        new Promise<never>((_, reject) => {
+          initializeTimeout = setTimeout(() => {
+            reject(
+              new Error(
+                `The MCP server did not answer the initialize request within ${initializeTimeoutMs}ms.`,
+              ),
+            );
+          }, initializeTimeoutMs);
+        }),
+      ]);
+    } finally {
+      clearTimeout(initializeTimeout);
+    }
+    this.serverInfo = {
+      name: initializeResult.serverInfo?.name ?? "",
+      version: initializeResult.serverInfo?.version ?? "",
+      protocolVersion: initializeResult.protocolVersion,
+      instructions: initializeResult.instructions,
+    };
+    this.transport.setProtocolVersion(initializeResult.protocolVersion);
+    await this.notify("notifications/initialized");
+    this.status = "ready";
+    this.tools = await this.listTools();
+  }
+  private handleConnectionLost(error: Error) {
+    if (this.status === "closed") {
+      return;
+    }
+    if (this.status === "ready") {
+      this.logger.error("Lost connection to the MCP server.", error);
+    }
+    this.status = "closed";
+    this.poison = error;
+    this.rejectPendingRequests(error);
+  }
+  private rejectPendingRequests(error: Error) {
+    for (const pendingRequest of this.pendingRequests.values()) {
+      pendingRequest.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+  private handleMessage(message: JsonRpcMessage) {
+    if ("result" in message || "error" in message) {
+      const pendingRequest = this.pendingRequests.get(message.id as number);
+      if (pendingRequest === undefined) {
+        return;
+      }
+      this.pendingRequests.delete(message.id as number);
+      if ("error" in message) {
+        pendingRequest.reject(
+          new Error(`MCP server error ${message.error.code}: ${message.error.message}`),
+        );
+      } else {
+        pendingRequest.resolve(message.result);
+      }
+      return;
+    }
+    if ("id" in message) {
+      this.handleServerRequest(message.id, message.method);
+      return;
+    }
+    this.handleNotification(message.method, message.params);
+  }
+  private handleServerRequest(id: number | string, method: string) {
+    let response: JsonRpcMessage;
+    if (method === "ping") {
+      response = { jsonrpc: "2.0", id, result: {} };
+    } else {
+      // We do not declare any client capabilities (sampling, roots, elicitation), so the server
+      // should not send other requests.
+      response = {
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32601, message: `Method not found: ${method}` },
+      };
+    }
+    this.transport.send(response).catch(error => {
+      this.logger.warn(`Failed to respond to the "${method}" request of the MCP server:`, error);
+    });
+  }
+  private handleNotification(method: string, params: any) {
+    switch (method) {
+      case "notifications/progress": {
+        this.pendingRequests.get(params?.progressToken)?.onProgress?.(params);
+        break;
+      }
+      case "notifications/message": {
+        const data = params?.logger === undefined ? [params?.data] : [params.logger, params.data];
+        switch (params?.level) {
+          case "debug":
+            this.logger.debug(...data);
+            break;
+          case "info":
+          case "notice":
+            this.logger.info(...data);
+            break;
+          case "warning":
+            this.logger.warn(...data);
+            break;
+          default:
+            this.logger.error(...data);
+        }
+        break;
+      }
+      case "notifications/tools/list_changed": {
+        this.listTools()
+          .then(tools => {
+            this.tools = tools;
+            safeCallCallback(this.logger, "onToolsChanged", this.opts.onToolsChanged, [tools]);
+          })
+          .catch(error => {
+            this.logger.warn("Failed to refresh the tools of the MCP server:", error);
+          });
+        break;
+      }
+    }
+  }
+  private async notify(method: string, params?: any) {
+    await this.transport.send({ jsonrpc: "2.0", method, params });
+  }
+  private async request(
+    method: string,
+    params: any,
+    {
+      signal,
+      onProgress,
+    }: { signal?: AbortSignal; onProgress?: PendingRequest["onProgress"] } = {},
+  ): Promise<any> {
+    if (this.poison !== null) {
+      throw this.poison;
+    }
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    const id = this.requestIdGiver.next();
+    const { promise, resolve, reject } = makePromise<any>();
+    this.pendingRequests.set(id, { resolve, reject, onProgress });
+    const onAbort = () => {
+      if (!this.pendingRequests.delete(id)) {
+        return;
+      }
+      reject(signal!.reason);
+      this.notify("notifications/cancelled", {
+        requestId: id,
+        reason: String(signal!.reason?.message ?? signal!.reason),
+      }).catch(error => {
+        this.logger.warn("Failed to cancel the request to the MCP server:", error);
+      });
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      // Not awaited: with the streamable HTTP transport, sending only completes once the server
+      // starts responding, which may be long after the request has been cancelled.
+      this.transport
+        .send({
+          jsonrpc: "2.0",
+          id,
+          method,
+          params: onProgress === undefined ? params : { ...params, _meta: { progressToken: id } },
+        })
+        .catch(reject);
+      return await promise;
+    } finally {
+      this.pendingRequests.delete(id);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+  private async listTools(): Promise<Array<Tool>> {
+    const toolDefinitions: Array<McpToolDefinition> = [];
+    let cursor: string | undefined = undefined;
+    do {
+      const result: { tools: Array<McpToolDefinition>; nextCursor?: string } = await this.request(
+        "tools/list",
+        cursor === undefined ? {} : { cursor },
+      );
+      toolDefinitions.push(...result.tools);
+      cursor = result.nextCursor;
+    } while (cursor !== undefined);
+    return toolDefinitions.map(toolDefinition => this.makeTool(toolDefinition));
+  }
+  private makeTool(toolDefinition: McpToolDefinition): Tool {
+    return rawFunctionTool({
+      ...this.opts.toolExecutionOpts,
+      name: (this.opts.toolNamePrefix ?? "") + toolDefinition.name,
+      description: toolDefinition.description ?? "",
+      parametersJsonSchema: toolDefinition.inputSchema ?? { type: "object" },
+      implementation: async (args, ctx: ToolCallContext) => {
+        const result: McpCallToolResult = await this.request(
+          "tools/call",
+          { name: toolDefinition.name, arguments: args },
+          {
+            signal: ctx.signal,
+            onProgress: ({ progress, total, message }) => {
+              ctx.status(
+                message ?? (total === undefined ? `${progress}` : `${progress} / ${total}`),
+              );
+            },
+          },
+        );
+        return convertCallToolResult(result);
+      },
+    });
+  }
+  /**
+   * Fetches the list of tools from the server again and updates `tools`.
+   */
+  public async refreshTools(): Promise<Array<Tool>> {
+    this.tools = await this.listTools();
+    return this.tools;
+  }
+  /**
+   * Closes the connection to the server. If the server was launched as a child process, it is shut
+   * down. Ongoing tool calls are rejected.
+   */
+  public async close() {
+    if (this.status !== "closed") {
+      this.status = "closed";
+      const error = new Error("The MCP session has been closed.");
+      this.poison = error;
+      this.rejectPendingRequests(error);
+    }
+    await this.transport.close();
+  }
+  public async [Symbol.asyncDispose]() {
+    await this.close();
+  }
+}
+
+/**
+ * Connects to an MCP (Model Context Protocol) server and lists its tools. The returned session
+ * exposes the tools of the server as `tools`, which can be passed to `.act` directly:
+ *
+ * ```ts
+ * await using session = await connectMcpServer({
+ *   server: { type: "stdio", command: "npx", args: ["-y", "@modelcontextprotocol/server-everything"] },
+ * });
+ * await model.act("What tools do you have?", session.tools);
+ * ```
+ *
+ * Progress notifications are reported via the tool call status, aborting the tool call cancels the
+ * request on the server, and log messages of the server are forwarded to the logger.
+ *
+ * Remember to close the session when you are done with it, so the server process is shut down.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export async function connectMcpServer(opts: ConnectMcpServerOpts): Promise<McpSession> {
+  const stack = getCurrentStack(1);
+  opts = new Validator().validateOrThrow(
+    "Invalid parameter(s) for connectMcpServer:",
+    "opts",
+    connectMcpServerOptsSchema,
+    opts,
+    stack,
+  );
+  try {
+    return await McpSession.connect(opts);
+  } catch (error: any) {
+    throw makeTitledPrettyError(
+      "Failed to connect to the MCP server",
+      text`
+        ${error?.message ?? error}
+      `,
+      stack,
+    );
+  }
+}
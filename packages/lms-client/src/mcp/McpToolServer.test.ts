@@ -0,0 +1,303 @@
+import { silentLogger } from "@lmstudio/lms-communication-mock";
+import { PassThrough } from "stream";
+import { z } from "zod";
+import { tool, type ToolCallContext } from "../llm/tool.js";
+import { connectMcpServer } from "./McpSession.js";
+import { createMcpToolServer } from "./McpToolServer.js";
+
+function createToolCallContext(signal = new AbortController().signal) {
+  const statuses = new Array<string>();
+  const ctx: ToolCallContext = {
+    status: text => statuses.push(text),
+    warn: () => {},
+    signal,
+    callId: 0,
+  };
+  return { ctx, statuses };
+}
+
+function createTools() {
+  let waitSignal: AbortSignal | undefined;
+  const tools = [
+    tool({
+      name: "add",
+      description: "Add two numbers",
+      parameters: { a: z.number(), b: z.number() },
+      implementation: ({ a, b }, { status }) => {
+        status("Adding");
+        return a + b;
+      },
+    }),
+    tool({
+      name: "fail",
+      description: "Always fails",
+      parameters: {},
+      implementation: () => {
+        throw new Error("Database unavailable");
+      },
+    }),
+    tool({
+      name: "wait",
+      description: "Waits until aborted",
+      parameters: {},
+      implementation: (_params, { signal }) => {
+        waitSignal = signal;
+        return new Promise(() => {});
+      },
+    }),
+  ];
+  return { tools, getWaitSignal: () => waitSignal };
+}
+
+describe("createMcpToolServer", () => {
+  test("serves tools over streamable HTTP", async () => {
+    const { tools, getWaitSignal } = createTools();
+    const server = createMcpToolServer(tools, { name: "math", logger: silentLogger });
+    const listener = await server.listen();
+    const session = await connectMcpServer({
+      server: { type: "streamableHttp", url: listener.url },
+      logger: silentLogger,
+    });
+    try {
+      expect(session.serverInfo.name).toBe("math");
+      const [addTool, failTool, waitTool] = session.tools;
+      expect(addTool.name).toBe("add");
+      expect(addTool.type === "rawFunction" && addTool.parametersJsonSchema).toMatchObject({
+        type: "object",
+        properties: { a: { type: "number" }, b: { type: "number" } },
+        required: ["a", "b"],
+      });
+
+      const { ctx, statuses } = createToolCallContext();
+      await expect(addTool.implementation({ a: 1, b: 2 }, ctx)).resolves.toBe("3");
+      expect(statuses).toEqual(["Adding"]);
+
+      await expect(failTool.implementation({}, createToolCallContext().ctx)).resolves.toEqual({
+        error: "Error: Database unavailable",
+      });
+
+      const abortController = new AbortController();
+      const waitPromise = waitTool.implementation(
+        {},
+        createToolCallContext(abortController.signal).ctx,
+      );
+      await new Promise(resolve => setTimeout(resolve, 100));
+      abortController.abort(new Error("Stop"));
+      await expect(waitPromise).rejects.toThrow("Stop");
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(getWaitSignal()?.aborted).toBe(true);
+    } finally {
+      await session.close();
+      await server.close();
+    }
+  });
+
+  test("serves tools over stdio", async () => {
+    const { tools } = createTools();
+    const server = createMcpToolServer(tools, { logger: silentLogger });
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const outputLines = new Array<any>();
+    output.on("data", chunk =>
+      outputLines.push(
+        ...chunk
+          .toString()
+          .split("\n")
+          .filter((line: string) => line !== "")
+          .map((line: string) => JSON.parse(line)),
+      ),
+    );
+    const servePromise = server.serveStdio({ input, output });
+
+    const send = (message: object) =>
+      input.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+    send({ id: 0, method: "initialize", params: { protocolVersion: "2025-03-26" } });
+    send({ method: "notifications/initialized" });
+    send({ id: 1, method: "tools/call", params: { name: "add", arguments: { a: 2, b: 3 } } });
+    send({ id: 2, method: "tools/call", params: { name: "add", arguments: { a: "two" } } });
+    send({ id: 3, method: "tools/call", params: { name: "missing" } });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    input.end();
+    await servePromise;
+
+    expect(outputLines.find(message => message.id === 0).result.protocolVersion).toBe("2025-03-26");
+    expect(outputLines).toContainEqual({
+      jsonrpc: "2.0",
+      method: "notifications/message",
+      params: { level: "info", logger: "add", data: "Adding" },
+    });
+    expect(outputLines.find(message => message.id === 1).result).toEqual({
+      content: [{ type: "text", text: "5" }],
+    });
+    expect(outputLines.find(message => message.id === 2).error).toMatchObject({
+      code: -32602,
+      message: expect.stringContaining("Invalid arguments for tool add"),
+    });
+    expect(outputLines.find(message => message.id === 3).error.code).toBe(-32602);
+  });
+
+  test("applies the timeout and the retry policy of the tools", async () => {
+    let flakyAttempts = 0;
+    const server = createMcpToolServer(
+      [
+        tool({
+          name: "slow",
+          description: "Never finishes",
+          parameters: {},
+          timeoutMs: 20,
+          implementation: () => new Promise(() => {}),
+        }),
+        tool({
+          name: "flaky",
+          description: "Fails on the first attempt",
+          parameters: {},
+          retry: { maxRetries: 1, delayMs: 0 },
+          implementation: () => {
+            if (flakyAttempts++ === 0) {
+              throw new Error("Connection reset");
+            }
+            return "ok";
+          },
+        }),
+      ],
+      { logger: silentLogger },
+    );
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const outputLines = new Array<any>();
+    output.on("data", chunk =>
+      outputLines.push(
+        ...chunk
+          .toString()
+          .split("\n")
+          .filter((line: string) => line !== "")
+          .map((line: string) => JSON.parse(line)),
+      ),
+    );
+    const servePromise = server.serveStdio({ input, output });
+
+    const send = (message: object) =>
+      input.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+    send({ id: 0, method: "initialize", params: { protocolVersion: "2025-06-18" } });
+    send({ id: 1, method: "tools/call", params: { name: "slow", arguments: {} } });
+    send({ id: 2, method: "tools/call", params: { name: "flaky", arguments: {} } });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    input.end();
+    await servePromise;
+
+    expect(outputLines.find(message => message.id === 1).result).toEqual({
+      content: [{ type: "text", text: 'Error: Tool "slow" did not finish within 20 ms.' }],
+      isError: true,
+    });
+    expect(outputLines.find(message => message.id === 2).result).toEqual({
+      content: [{ type: "text", text: "ok" }],
+    });
+    expect(flakyAttempts).toBe(2);
+  });
+
+  test("expires idle HTTP sessions", async () => {
+    const { tools } = createTools();
+    const server = createMcpToolServer(tools, { sessionIdleTimeoutMs: 50, logger: silentLogger });
+    const post = (message: object, sessionId?: string) =>
+      server.handleHttpRequest(
+        new Request("http://127.0.0.1/mcp", {
+          method: "POST",
+          headers: sessionId === undefined ? {} : { "Mcp-Session-Id": sessionId },
+          body: JSON.stringify({ jsonrpc: "2.0", ...message }),
+        }),
+      );
+    try {
+      const initializeResponse = await post({
+        id: 0,
+        method: "initialize",
+        params: { protocolVersion: "2025-06-18" },
+      });
+      const sessionId = initializeResponse.headers.get("Mcp-Session-Id")!;
+      await initializeResponse.text();
+
+      const pingResponse = await post({ id: 1, method: "ping" }, sessionId);
+      expect(pingResponse.status).toBe(200);
+      await pingResponse.text();
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect((await post({ id: 2, method: "ping" }, sessionId)).status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("rejects HTTP requests from origins that are not allowed", async () => {
+    const { tools } = createTools();
+    const createRequest = (origin?: string) =>
+      new Request("http://127.0.0.1/mcp", {
+        method: "POST",
+        headers: origin === undefined ? {} : { Origin: origin },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 0, method: "ping" }),
+      });
+    const server = createMcpToolServer(tools, { logger: silentLogger });
+    expect((await server.handleHttpRequest(createRequest("http://evil.example"))).status).toBe(403);
+    expect((await server.handleHttpRequest(createRequest("null"))).status).toBe(403);
+    expect((await server.handleHttpRequest(createRequest("http://localhost:3000"))).status).toBe(
+      400,
+    );
+    expect((await server.handleHttpRequest(createRequest())).status).toBe(400);
+
+    const allowingServer = createMcpToolServer(tools, {
+      allowedOrigins: ["https://app.example"],
+      logger: silentLogger,
+    });
+    expect(
+      (await allowingServer.handleHttpRequest(createRequest("https://app.example"))).status,
+    ).toBe(400);
+    expect(
+      (await allowingServer.handleHttpRequest(createRequest("http://localhost:3000"))).status,
+    ).toBe(403);
+  });
+
+  test("aborts the tool call when the HTTP client disconnects", async () => {
+    const { tools, getWaitSignal } = createTools();
+    const server = createMcpToolServer(tools, { logger: silentLogger });
+    const listener = await server.listen();
+    try {
+      const initializeResponse = await fetch(listener.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 0,
+          method: "initialize",
+          params: { protocolVersion: "2025-06-18" },
+        }),
+      });
+      const sessionId = initializeResponse.headers.get("Mcp-Session-Id")!;
+      await initializeResponse.text();
+
+      const abortController = new AbortController();
+      const callResponse = await fetch(listener.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Mcp-Session-Id": sessionId },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tools/call",
+          params: { name: "wait", arguments: {} },
+        }),
+        signal: abortController.signal,
+      });
+      expect(callResponse.status).toBe(200);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(getWaitSignal()?.aborted).toBe(false);
+
+      abortController.abort();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(getWaitSignal()?.aborted).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("rejects duplicate tool names", () => {
+    const { tools } = createTools();
+    expect(() => createMcpToolServer([...tools, tools[0]])).toThrow("Duplicate tool name");
+  });
+});
@@ -0,0 +1,658 @@
+import {
+  getCurrentStack,
+  IdGiver,
+  makeTitledPrettyError,
+  SimpleLogger,
+  text,
+  Validator,
+  type LoggerInterface,
+} from "@lmstudio/lms-common";
+import {
+  generateRandomBase64,
+  serveHttp,
+  uint8ArrayToBase64,
+  type HttpServerHandle,
+} from "@lmstudio/lms-isomorphic";
+import process from "process";
+import { z } from "zod";
+import { callToolImplementation, getImageExtension } from "../llm/act.js";
+import { toolToLLMTool, type Tool, type ToolCallContext } from "../llm/tool.js";
+import { type JsonRpcMessage } from "./McpTransport.js";
+
+/**
+ * Protocol versions this server can speak, newest first.
+ */
+const supportedProtocolVersions = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const logLevels = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+] as const;
+type LogLevel = (typeof logLevels)[number];
+
+/**
+ * Options to use with {@link createMcpToolServer}.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export interface McpToolServerOpts {
+  /**
+   * The name of the server reported to clients. Defaults to `lmstudio-js-tools`.
+   */
+  name?: string;
+  /**
+   * The version of the server reported to clients. Defaults to `1.0.0`.
+   */
+  version?: string;
+  /**
+   * Instructions on how to use the tools, reported to clients. Clients may add them to the system
+   * prompt.
+   */
+  instructions?: string;
+  /**
+   * The origins (for example `https://example.com`) that may send requests to the server over
+   * HTTP. Requests with an `Origin` header that is not in this list are rejected with 403, which
+   * prevents DNS rebinding attacks from websites opened in a browser. Requests without an `Origin`
+   * header (i.e. not sent by a browser) are always allowed.
+   *
+   * Defaults to allowing only loopback origins (`localhost`, `127.0.0.1` and `[::1]`, on any port).
+   */
+  allowedOrigins?: Array<string>;
+  /**
+   * How long an HTTP session may stay idle (without any request in progress) before it expires.
+   * Requests to an expired session are answered with 404, which tells the client to start a new
+   * session. Defaults to 30 minutes.
+   */
+  sessionIdleTimeoutMs?: number;
+  /**
+   * The logger to report errors to. Defaults to the console. When serving over stdio, make sure the
+   * logger does not write to stdout.
+   */
+  logger?: LoggerInterface;
+}
+export const mcpToolServerOptsSchema = z.object({
+  name: z.string().optional(),
+  version: z.string().optional(),
+  instructions: z.string().optional(),
+  allowedOrigins: z.array(z.string()).optional(),
+  sessionIdleTimeoutMs: z.number().int().positive().optional(),
+  logger: z.any().optional(),
+}) satisfies z.ZodSchema<McpToolServerOpts>;
+
+/**
+ * Options for {@link McpToolServer#listen}.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export interface McpToolServerListenOpts {
+  /**
+   * The port to listen on. Defaults to 0, which picks a free port.
+   */
+  port?: number;
+  /**
+   * The hostname to listen on. Defaults to `127.0.0.1`.
+   */
+  hostname?: string;
+}
+
+/**
+ * A running HTTP listener started with {@link McpToolServer#listen}.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export interface McpToolServerListener {
+  /**
+   * The URL of the MCP endpoint.
+   */
+  url: string;
+  close: () => Promise<void>;
+}
+
+type SendMessage = (message: JsonRpcMessage) => void;
+
+interface HttpSession {
+  connection: McpServerConnection;
+  /**
+   * The number of HTTP requests of this session that are still being handled. The session only
+   * expires while there are none.
+   */
+  activeRequests: number;
+  idleTimeout: ReturnType<typeof setTimeout> | undefined;
+}
+
+const loopbackHostnames = ["localhost", "127.0.0.1", "[::1]"];
+
+function isLoopbackOrigin(origin: string) {
+  try {
+    return loopbackHostnames.includes(new URL(origin).hostname);
+  } catch {
+    // For example the "null" origin of sandboxed pages.
+    return false;
+  }
+}
+
+/**
+ * Converts the return value of a tool implementation to the content of an MCP tool call result.
+ * Image buffers become image content, everything else is converted to JSON (like in `.act`).
+ */
+function convertToolResultToContent(result: any) {
+  const values = Array.isArray(result) && result.some(isImageBuffer) ? result : [result];
+  return values.map(value => {
+    if (isImageBuffer(value)) {
+      const extension = getImageExtension(value)!;
+      return {
+        type: "image",
+        data: uint8ArrayToBase64(value),
+        mimeType: `image/${extension === "jpg" ? "jpeg" : extension}`,
+      };
+    }
+    return {
+      type: "text",
+      text: typeof value === "string" ? value : JSON.stringify(value) ?? "undefined",
+    };
+  });
+}
+
+function isImageBuffer(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array && getImageExtension(value) !== null;
+}
+
+/**
+ * The state of a single MCP session, i.e. one stdio connection or one HTTP session.
+ */
+class McpServerConnection {
+  private readonly ongoingToolCalls = new Map<number | string, AbortController>();
+  private minLogLevel: LogLevel = "debug";
+  public constructor(private readonly server: McpToolServer) {}
+  /**
+   * Handles one incoming message. Resolves once the response (if any) has been sent.
+   */
+  public async handleMessage(message: JsonRpcMessage, send: SendMessage): Promise<void> {
+    if (!("method" in message)) {
+      // We never send requests to the client, so there is nothing to do with responses.
+      return;
+    }
+    if (!("id" in message)) {
+      if (message.method === "notifications/cancelled") {
+        this.ongoingToolCalls
+          .get(message.params?.requestId)
+          ?.abort(new Error(message.params?.reason ?? "The tool call has been cancelled."));
+      }
+      return;
+    }
+    const { id, method, params } = message;
+    try {
+      const result = await this.handleRequest(id, method, params, send);
+      if (result !== undefined) {
+        send({ jsonrpc: "2.0", id, result });
+      }
+    } catch (error: any) {
+      send({
+        jsonrpc: "2.0",
+        id,
+        error: { code: error?.code ?? -32603, message: error?.message ?? String(error) },
+      });
+    }
+  }
+  /**
+   * Returns the result of the request, or `undefined` if no response should be sent.
+   */
+  private async handleRequest(
+    id: number | string,
+    method: string,
+    params: any,
+    send: SendMessage,
+  ): Promise<any> {
+    switch (method) {
+      case "initialize": {
+        const protocolVersion = supportedProtocolVersions.includes(params?.protocolVersion)
+          ? params.protocolVersion
+          : supportedProtocolVersions[0];
+        return {
+          protocolVersion,
+          capabilities: { tools: {}, logging: {} },
+          serverInfo: this.server.serverInfo,
+          instructions: this.server.instructions,
+        };
+      }
+      case "ping":
+        return {};
+      case "logging/setLevel":
+        this.minLogLevel = params?.level;
+        return {};
+      case "tools/list":
+        return {
+          tools: this.server.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: toolToLLMTool(tool).function.parameters ?? { type: "object" },
+          })),
+        };
+      case "tools/call":
+        return await this.callTool(id, params, send);
+      default:
+        throw Object.assign(new Error(`Method not found: ${method}`), { code: -32601 });
+    }
+  }
+  private async callTool(id: number | string, params: any, send: SendMessage) {
+    const tool = this.server.tools.find(tool => tool.name === params?.name);
+    if (tool === undefined) {
+      throw Object.assign(new Error(`Unknown tool: ${params?.name}`), { code: -32602 });
+    }
+    const args = params.arguments ?? {};
+    try {
+      tool.checkParameters(args);
+    } catch (error: any) {
+      throw Object.assign(
+        new Error(`Invalid arguments for tool ${tool.name}: ${error?.message ?? String(error)}`),
+        { code: -32602 },
+      );
+    }
+    const progressToken = params._meta?.progressToken;
+    let progress = 0;
+    const abortController = new AbortController();
+    this.ongoingToolCalls.set(id, abortController);
+    const callId = this.server.callIdGiver.next();
+    const makeContext = (signal: AbortSignal): ToolCallContext => ({
+      status: text => {
+        if (progressToken === undefined) {
+          this.sendLog(send, "info", tool.name, text);
+        } else {
+          progress++;
+          send({
+            jsonrpc: "2.0",
+            method: "notifications/progress",
+            params: { progressToken, progress, message: text },
+          });
+        }
+      },
+      warn: text => this.sendLog(send, "warning", tool.name, text),
+      signal,
+      callId,
+    });
+    try {
+      const callResult = await callToolImplementation(
+        tool,
+        args,
+        makeContext,
+        abortController.signal,
+        this.server.logger,
+      );
+      if (abortController.signal.aborted) {
+        // The client is no longer interested in the result.
+        return undefined;
+      }
+      if (callResult.type === "timeout") {
+        return {
+          content: [{ type: "text", text: `Error: ${callResult.error.message}` }],
+          isError: true,
+        };
+      }
+      return { content: convertToolResultToContent(callResult.result) };
+    } catch (error: any) {
+      if (abortController.signal.aborted) {
+        return undefined;
+      }
+      // Errors are reported in the result, so the model can see them.
+      return {
+        content: [{ type: "text", text: `Error: ${error?.message ?? String(error)}` }],
+        isError: true,
+      };
+    } finally {
+      this.ongoingToolCalls.delete(id);
+    }
+  }
+  private sendLog(send: SendMessage, level: LogLevel, loggerName: string, data: string) {
+    if (logLevels.indexOf(level) < logLevels.indexOf(this.minLogLevel)) {
+      return;
+    }
+    send({
+      jsonrpc: "2.0",
+      method: "notifications/message",
+      params: { level, logger: loggerName, data },
+    });
+  }
+  /**
+   * Aborts the tool calls started by the requests with the given IDs, if they are still running.
+   */
+  public abortRequests(ids: Array<number | string>, reason: Error) {
+    for (const id of ids) {
+      this.ongoingToolCalls.get(id)?.abort(reason);
+    }
+  }
+  /**
+   * Aborts all ongoing tool calls. Called when the session ends.
+   */
+  public abortAll() {
+    for (const abortController of this.ongoingToolCalls.values()) {
+      abortController.abort(new Error("The MCP session has ended."));
+    }
+    this.ongoingToolCalls.clear();
+  }
+}
+
+/**
+ * Serves tools over MCP (Model Context Protocol), so they can be used by other MCP clients. Create
+ * one with {@link createMcpToolServer}.
+ *
+ * The parameters of the tools are converted to JSON schema. Calling `ctx.status` in a tool
+ * implementation sends a progress notification (or an info log message, if the client did not ask
+ * for progress), and `ctx.warn` sends a warning log message. Cancelling a request on the client
+ * aborts `ctx.signal`. The `timeoutMs`, `retry` and `maxConcurrency` of the tools apply like in
+ * `.act`, and a tool call that times out is reported to the client as an error.
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export class McpToolServer {
+  private readonly httpSessions = new Map<string, HttpSession>();
+  private readonly listeners = new Set<HttpServerHandle>();
+  private readonly stdioCleanups = new Set<() => void>();
+  /** @internal */
+  public readonly callIdGiver = new IdGiver(0);
+  /** @internal */
+  public readonly serverInfo: { name: string; version: string };
+  /** @internal */
+  public readonly instructions: string | undefined;
+  private readonly allowedOrigins: Array<string> | undefined;
+  private readonly sessionIdleTimeoutMs: number;
+  /** @internal */
+  public readonly logger: SimpleLogger;
+  /** @internal */
+  public constructor(
+    /** @internal */
+    public readonly tools: Array<Tool>,
+    opts: McpToolServerOpts,
+  ) {
+    this.serverInfo = {
+      name: opts.name ?? "lmstudio-js-tools",
+      version: opts.version ?? "1.0.0",
+    };
+    this.instructions = opts.instructions;
+    this.allowedOrigins = opts.allowedOrigins;
+    this.sessionIdleTimeoutMs = opts.sessionIdleTimeoutMs ?? 30 * 60 * 1000;
+    this.logger = new SimpleLogger("MCP", opts.logger);
+  }
+  /**
+   * Serves the tools over stdio, i.e. reads messages from stdin and writes messages to stdout. Use
+   * this when the server is launched as a child process by the MCP client. Resolves when the input
+   * ends (which is how MCP clients shut down stdio servers) or the server is closed.
+   *
+   * Only available in Node.js (and compatible runtimes).
+   */
+  public serveStdio({
+    input = process.stdin,
+    output = process.stdout,
+  }: {
+    input?: NodeJS.ReadableStream;
+    output?: NodeJS.WritableStream;
+  } = {}): Promise<void> {
+    if (input === undefined || output === undefined) {
+      throw new Error("Serving over stdio is only available in Node.js.");
+    }
+    const connection = new McpServerConnection(this);
+    const send: SendMessage = message => {
+      output.write(JSON.stringify(message) + "\n");
+    };
+    let buffer = "";
+    const onData = (chunk: Buffer | string) => {
+      buffer += chunk.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        if (line.trim() === "") {
+          continue;
+        }
+        let message: JsonRpcMessage;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          send({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+          continue;
+        }
+        connection.handleMessage(message, send).catch(error => {
+          this.logger.error("Failed to handle a message from the MCP client:", error);
+        });
+      }
+    };
+    return new Promise<void>(resolve => {
+      const cleanup = () => {
+        input.off("data", onData);
+        input.off("end", cleanup);
+        connection.abortAll();
+        this.stdioCleanups.delete(cleanup);
+        resolve();
+      };
+      this.stdioCleanups.add(cleanup);
+      input.on("data", onData);
+      input.on("end", cleanup);
+    });
+  }
+  /**
+   * Handles a request to the MCP endpoint using the streamable HTTP transport. Use this to mount
+   * the server in any HTTP framework that supports the web standard `Request` and `Response`. To
+   * start a standalone HTTP server, use {@link McpToolServer#listen} instead.
+   *
+   * Responses to requests are always sent as server-sent event streams, so that progress and log
+   * notifications can be delivered while the tool is running. If the client disconnects before
+   * the response is complete (the signal of the request is aborted, or the response stream is
+   * cancelled), the tool calls started by the request are aborted.
+   *
+   * Requests from origins that are not allowed (see {@link McpToolServerOpts#allowedOrigins}) are
+   * rejected with 403. Sessions expire after being idle for
+   * {@link McpToolServerOpts#sessionIdleTimeoutMs}.
+   */
+  public async handleHttpRequest(request: Request): Promise<Response> {
+    const origin = request.headers.get("Origin");
+    if (origin !== null && !this.isOriginAllowed(origin)) {
+      return new Response("Origin not allowed.", { status: 403 });
+    }
+    const sessionId = request.headers.get("Mcp-Session-Id");
+    if (request.method === "DELETE") {
+      if (sessionId === null || !this.httpSessions.has(sessionId)) {
+        return new Response(null, { status: 404 });
+      }
+      this.endHttpSession(sessionId);
+      return new Response(null, { status: 200 });
+    }
+    if (request.method !== "POST") {
+      return new Response(null, { status: 405, headers: { Allow: "POST, DELETE" } });
+    }
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return Response.json(
+        { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } },
+        { status: 400 },
+      );
+    }
+    const messages: Array<JsonRpcMessage> = Array.isArray(body) ? body : [body];
+    const headers: Record<string, string> = {};
+    let activeSessionId: string;
+    if (messages.some(message => "method" in message && message.method === "initialize")) {
+      activeSessionId = generateRandomBase64(18);
+      this.httpSessions.set(activeSessionId, {
+        connection: new McpServerConnection(this),
+        activeRequests: 0,
+        idleTimeout: undefined,
+      });
+      headers["Mcp-Session-Id"] = activeSessionId;
+    } else if (sessionId === null) {
+      return new Response("Missing Mcp-Session-Id header.", { status: 400 });
+    } else if (this.httpSessions.has(sessionId)) {
+      activeSessionId = sessionId;
+    } else {
+      return new Response("Unknown session.", { status: 404 });
+    }
+    const session = this.httpSessions.get(activeSessionId)!;
+    session.activeRequests++;
+    clearTimeout(session.idleTimeout);
+    const activeConnection = session.connection;
+    if (!messages.some(message => "id" in message && "method" in message)) {
+      // Only notifications and responses, which do not need a response.
+      try {
+        for (const message of messages) {
+          await activeConnection.handleMessage(message, () => {});
+        }
+      } finally {
+        this.finishHttpSessionRequest(activeSessionId, session);
+      }
+      return new Response(null, { status: 202, headers });
+    }
+    const encoder = new TextEncoder();
+    const requestIds = messages
+      .filter(message => "id" in message && "method" in message)
+      .map(message => message.id as number | string);
+    const onDisconnect = () => {
+      activeConnection.abortRequests(requestIds, new Error("The MCP client has disconnected."));
+    };
+    const stream = new ReadableStream<Uint8Array>({
+      start: async controller => {
+        const send: SendMessage = message => {
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+          } catch {
+            // The client has disconnected.
+          }
+        };
+        request.signal.addEventListener("abort", onDisconnect, { once: true });
+        try {
+          await Promise.all(messages.map(message => activeConnection.handleMessage(message, send)));
+        } finally {
+          request.signal.removeEventListener("abort", onDisconnect);
+          this.finishHttpSessionRequest(activeSessionId, session);
+        }
+        try {
+          controller.close();
+        } catch {
+          // The client has disconnected.
+        }
+      },
+      cancel: onDisconnect,
+    });
+    return new Response(stream, {
+      status: 200,
+      headers: { ...headers, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  }
+  /**
+   * Starts the idle timeout of the session once its last active request has been handled.
+   */
+  private finishHttpSessionRequest(sessionId: string, session: HttpSession) {
+    session.activeRequests--;
+    if (session.activeRequests > 0 || this.httpSessions.get(sessionId) !== session) {
+      return;
+    }
+    session.idleTimeout = setTimeout(() => {
+      this.logger.debug(`Session ${sessionId} has expired after being idle.`);
+      this.endHttpSession(sessionId);
+    }, this.sessionIdleTimeoutMs);
+  }
+  private endHttpSession(sessionId: string) {
+    const session = this.httpSessions.get(sessionId);
+    if (session === undefined) {
+      return;
+    }
+    clearTimeout(session.idleTimeout);
+    session.connection.abortAll();
+    this.httpSessions.delete(sessionId);
+  }
+  private isOriginAllowed(origin: string) {
+    if (this.allowedOrigins === undefined) {
+      return isLoopbackOrigin(origin);
+    }
+    return this.allowedOrigins.includes(origin);
+  }
+  /**
+   * Starts an HTTP server that serves the tools using the streamable HTTP transport at `/mcp`.
+   * Requests are subject to the same origin check as {@link McpToolServer#handleHttpRequest}.
+   *
+   * Only available in Node.js (and compatible runtimes).
+   */
+  public async listen({
+    port = 0,
+    hostname = "127.0.0.1",
+  }: McpToolServerListenOpts = {}): Promise<McpToolServerListener> {
+    const listener = await serveHttp({
+      port,
+      hostname,
+      handler: async request => {
+        if (new URL(request.url).pathname !== "/mcp") {
+          return new Response(null, { status: 404 });
+        }
+        return await this.handleHttpRequest(request);
+      },
+      onError: error => this.logger.error("Failed to handle an HTTP request:", error),
+    });
+    this.listeners.add(listener);
+    return {
+      url: `http://${hostname}:${listener.port}/mcp`,
+      close: async () => {
+        this.listeners.delete(listener);
+        await listener.close();
+      },
+    };
+  }
+  /**
+   * Stops serving: ends all sessions (aborting ongoing tool calls), stops all HTTP servers started
+   * with `.listen`, and stops reading from stdio.
+   */
+  public async close() {
+    for (const cleanup of [...this.stdioCleanups]) {
+      cleanup();
+    }
+    for (const sessionId of [...this.httpSessions.keys()]) {
+      this.endHttpSession(sessionId);
+    }
+    await Promise.all([...this.listeners].map(listener => listener.close()));
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Creates an MCP server that serves the given tools, so they can be used by any MCP capable agent.
+ * Use `.serveStdio()`, `.listen()` or `.handleHttpRequest()` on the returned server to start
+ * serving:
+ *
+ * ```ts
+ * const server = createMcpToolServer([getWeatherTool], { name: "weather" });
+ * await server.serveStdio();
+ * ```
+ *
+ * @public
+ * @experimental [EXP-MCP] MCP support is experimental and may change in the future.
+ */
+export function createMcpToolServer(tools: Array<Tool>, opts: McpToolServerOpts = {}) {
+  const stack = getCurrentStack(1);
+  opts = new Validator().validateOrThrow(
+    "Invalid parameter(s) for createMcpToolServer:",
+    "opts",
+    mcpToolServerOptsSchema,
+    opts,
+    stack,
+  );
+  const names = new Set<string>();
+  for (const tool of tools) {
+    if (names.has(tool.name)) {
+      throw makeTitledPrettyError(
+        `Duplicate tool name "${tool.name}"`,
+        text`
+          The tools served by an MCP server must have unique names.
+        `,
+        stack,
+      );
+    }
+    names.add(tool.name);
+  }
+  return new McpToolServer(tools, opts);
+}
@@ -0,0 +1,46 @@
+/**
+ * A JSON-RPC 2.0 message, as exchanged with an MCP server.
+ */
+export type JsonRpcMessage =
+  | {
+      jsonrpc: "2.0";
+      id: number | string;
+      method: string;
+      params?: any;
+    }
+  | {
+      jsonrpc: "2.0";
+      method: string;
+      params?: any;
+    }
+  | {
+      jsonrpc: "2.0";
+      id: number | string;
+      result: any;
+    }
+  | {
+      jsonrpc: "2.0";
+      id: number | string | null;
+      error: { code: number; message: string; data?: any };
+    };
+
+export interface McpTransportHandlers {
+  onMessage: (message: JsonRpcMessage) => void;
+  /**
+   * Called when the connection is lost. Not called if the transport is closed via `.close`.
+   */
+  onClose: (error: Error) => void;
+}
+
+/**
+ * A connection to an MCP server that can exchange JSON-RPC messages.
+ */
+export interface McpTransport {
+  start(handlers: McpTransportHandlers): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  /**
+   * Called once the protocol version has been negotiated with the server.
+   */
+  setProtocolVersion(protocolVersion: string): void;
+  close(): Promise<void>;
+}
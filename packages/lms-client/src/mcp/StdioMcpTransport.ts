@@ -0,0 +1,98 @@
+import { makePromise, type SimpleLogger } from "@lmstudio/lms-common";
+import { spawnChildProcess, type SpawnedChildProcess } from "@lmstudio/lms-isomorphic";
+import {
+  type JsonRpcMessage,
+  type McpTransport,
+  type McpTransportHandlers,
+} from "./McpTransport.js";
+
+/**
+ * How long to wait for the server process to exit after its stdin is closed, before killing it.
+ */
+const gracefulExitTimeoutMs = 2_000;
+
+/**
+ * Launches an MCP server as a child process and exchanges newline delimited JSON-RPC messages over
+ * its stdin and stdout.
+ */
+export class StdioMcpTransport implements McpTransport {
+  private childProcess: SpawnedChildProcess | null = null;
+  private stdoutBuffer = "";
+  private stderrBuffer = "";
+  private closing = false;
+  private readonly exited = makePromise<void>();
+  public constructor(
+    private readonly command: string,
+    private readonly args: Array<string>,
+    private readonly env: Record<string, string> | undefined,
+    private readonly cwd: string | undefined,
+    private readonly logger: SimpleLogger,
+  ) {}
+  public async start({ onMessage, onClose }: McpTransportHandlers) {
+    this.childProcess = spawnChildProcess(this.command, {
+      args: this.args,
+      env: this.env,
+      cwd: this.cwd,
+      onStdout: chunk => {
+        this.stdoutBuffer += chunk;
+        const lines = this.stdoutBuffer.split("\n");
+        this.stdoutBuffer = lines.pop()!;
+        for (const line of lines) {
+          if (line.trim() === "") {
+            continue;
+          }
+          let message: JsonRpcMessage;
+          try {
+            message = JSON.parse(line);
+          } catch {
+            this.logger.warn("Received a line that is not valid JSON from the MCP server:", line);
+            continue;
+          }
+          onMessage(message);
+        }
+      },
+      onStderr: chunk => {
+        // MCP servers use stderr for logging.
+        this.stderrBuffer += chunk;
+        const lines = this.stderrBuffer.split("\n");
+        this.stderrBuffer = lines.pop()!;
+        for (const line of lines) {
+          this.logger.debug(line);
+        }
+      },
+      onError: error => {
+        if (!this.closing) {
+          onClose(error);
+        }
+        this.exited.resolve();
+      },
+      onExit: code => {
+        if (!this.closing) {
+          onClose(new Error(`The MCP server process exited unexpectedly with code ${code}.`));
+        }
+        this.exited.resolve();
+      },
+    });
+  }
+  public async send(message: JsonRpcMessage) {
+    if (this.childProcess === null) {
+      throw new Error("The MCP server process has not been started.");
+    }
+    this.childProcess.writeStdin(JSON.stringify(message) + "\n");
+  }
+  public setProtocolVersion() {
+    // The protocol version is not transmitted out of band over stdio.
+  }
+  public async close() {
+    if (this.childProcess === null || this.closing) {
+      return;
+    }
+    this.closing = true;
+    // As per the MCP specification, close stdin first and give the server a chance to exit by
+    // itself.
+    this.childProcess.endStdin();
+    const timeout = setTimeout(() => this.childProcess?.kill(), gracefulExitTimeoutMs);
+    await this.exited.promise;
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,135 @@
+import { type SimpleLogger } from "@lmstudio/lms-common";
+import {
+  type JsonRpcMessage,
+  type McpTransport,
+  type McpTransportHandlers,
+} from "./McpTransport.js";
+
+/**
+ * Connects to an MCP server using the streamable HTTP transport. Every message is sent as a POST
+ * request. The server responds either with JSON or with a server-sent event stream.
+ *
+ * The optional standalone GET stream for server initiated messages is not used.
+ */
+export class StreamableHttpMcpTransport implements McpTransport {
+  private handlers: McpTransportHandlers | null = null;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private readonly abortController = new AbortController();
+  public constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string>,
+    private readonly logger: SimpleLogger,
+  ) {}
+  public async start(handlers: McpTransportHandlers) {
+    this.handlers = handlers;
+  }
+  private makeHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.headers };
+    if (this.sessionId !== null) {
+      headers["Mcp-Session-Id"] = this.sessionId;
+    }
+    if (this.protocolVersion !== null) {
+      headers["MCP-Protocol-Version"] = this.protocolVersion;
+    }
+    return headers;
+  }
+  public async send(message: JsonRpcMessage) {
+    if (this.handlers === null) {
+      throw new Error("The MCP transport has not been started.");
+    }
+    const { onMessage, onClose } = this.handlers;
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        ...this.makeHeaders(),
+        "Content-Type": "application/json",
+        "Accept": "application/json, text/event-stream",
+      },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    });
+    const sessionId = response.headers.get("Mcp-Session-Id");
+    if (sessionId !== null) {
+      this.sessionId = sessionId;
+    }
+    if (!response.ok) {
+      const error = new Error(
+        `The MCP server responded with HTTP ${response.status}: ${await response.text()}`,
+      );
+      if (response.status === 404 && this.sessionId !== null) {
+        // The server has terminated the session.
+        onClose(error);
+      }
+      throw error;
+    }
+    if (response.status === 202 || response.body === null) {
+      return;
+    }
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      // Responses (and notifications related to the request) arrive later on the stream.
+      this.readEventStream(response.body, onMessage).catch(error => {
+        if (!this.abortController.signal.aborted) {
+          this.logger.warn("Failed to read the event stream from the MCP server:", error);
+        }
+      });
+    } else if (contentType.includes("application/json")) {
+      const data = await response.json();
+      for (const message of Array.isArray(data) ? data : [data]) {
+        onMessage(message);
+      }
+    }
+  }
+  private async readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onMessage: (message: JsonRpcMessage) => void,
+  ) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true }).replace(/\r/g, "");
+      let separatorIndex: number;
+      while ((separatorIndex = buffer.indexOf("\n\n")) !== -1) {
+        const event = buffer.slice(0, separatorIndex);
+        buffer = buffer.slice(separatorIndex + 2);
+        const data = event
+          .split("\n")
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice("data:".length).replace(/^ /, ""))
+          .join("\n");
+        if (data === "") {
+          continue;
+        }
+        let message: JsonRpcMessage;
+        try {
+          message = JSON.parse(data);
+        } catch {
+          this.logger.warn("Received an event that is not valid JSON from the MCP server:", data);
+          continue;
+        }
+        onMessage(message);
+      }
+    }
+  }
+  public setProtocolVersion(protocolVersion: string) {
+    this.protocolVersion = protocolVersion;
+  }
+  public async close() {
+    this.abortController.abort();
+    if (this.sessionId === null) {
+      return;
+    }
+    try {
+      // Let the server know that the session is no longer needed. Servers may not support this.
+      await fetch(this.url, { method: "DELETE", headers: this.makeHeaders() });
+    } catch (error) {
+      this.logger.debug("Failed to terminate the MCP session:", error);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { FakeLMStudio, silentLogger } from "@lmstudio/lms-communication-mock";
+import { z } from "zod";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { tool } from "../llm/tool.js";
+import { ClientMetrics } from "./ClientMetrics.js";
+
+function createFake() {
+  const fake = new FakeLMStudio({ logger: silentLogger });
+  const client = new LMStudioClient({ logger: silentLogger, ...fake.getClientOpts() });
+  return { fake, client };
+}
+
+describe("ClientMetrics", () => {
+  it("renders counters and histograms in the Prometheus text format", () => {
+    const metrics = new ClientMetrics();
+    metrics.recordPrediction("gemma", {
+      stopReason: "eosFound",
+      promptTokensCount: 10,
+      predictedTokensCount: 4,
+      totalTimeSec: 0.3,
+    });
+    metrics.recordPrediction("gemma", {
+      stopReason: "eosFound",
+      promptTokensCount: 5,
+      predictedTokensCount: 2,
+      totalTimeSec: 7,
+    });
+    metrics.recordEndpointError("llm", "rpc", 'say "hi"');
+
+    const lines = metrics.render().split("\n");
+
+    expect(lines).toContain("# TYPE lmstudio_prompt_tokens_total counter");
+    expect(lines).toContain('lmstudio_prompt_tokens_total{model="gemma"} 15');
+    expect(lines).toContain('lmstudio_predicted_tokens_total{model="gemma"} 6');
+    expect(lines).toContain("# TYPE lmstudio_prediction_duration_seconds histogram");
+    expect(lines).toContain(
+      'lmstudio_prediction_duration_seconds_bucket{model="gemma",le="0.25"} 0',
+    );
+    expect(lines).toContain(
+      'lmstudio_prediction_duration_seconds_bucket{model="gemma",le="0.5"} 1',
+    );
+    expect(lines).toContain('lmstudio_prediction_duration_seconds_bucket{model="gemma",le="10"} 2');
+    expect(lines).toContain(
+      'lmstudio_prediction_duration_seconds_bucket{model="gemma",le="+Inf"} 2',
+    );
+    expect(lines).toContain('lmstudio_prediction_duration_seconds_sum{model="gemma"} 7.3');
+    expect(lines).toContain('lmstudio_prediction_duration_seconds_count{model="gemma"} 2');
+    expect(lines).toContain(
+      'lmstudio_rpc_errors_total{namespace="llm",type="rpc",endpoint="say \\"hi\\""} 1',
+    );
+
+    metrics.reset();
+    expect(metrics.render()).not.toContain("gemma");
+  });
+
+  it("records predictions, tool calls and model loads made through the client", async () => {
+    const { fake, client } = createFake();
+    fake.addLLM({ modelKey: "qwen3-4b", loaded: false, trainedForToolUse: true });
+    fake.queuePrediction({
+      events: [
+        { type: "toolCall", id: "call_0", name: "add", arguments: { a: 1, b: 2 } },
+        { type: "toolCall", id: "call_1", name: "subtract", arguments: { a: 1, b: 2 } },
+      ],
+    });
+    fake.queuePrediction("3");
+    fake.queuePrediction("Hello");
+
+    const model = await client.llm.load("qwen3-4b");
+    await model.act("What is 1 + 2?", [
+      tool({
+        name: "add",
+        description: "Adds two numbers",
+        parameters: { a: z.number(), b: z.number() },
+        implementation: ({ a, b }) => a + b,
+      }),
+    ]);
+    await model.respond("Hi");
+
+    const output = client.metrics.render();
+    expect(output).toContain('lmstudio_predicted_tokens_total{model="qwen3-4b"} 6');
+    expect(output).toContain('lmstudio_tool_calls_total{tool="add",outcome="success"} 1');
+    expect(output).toContain('lmstudio_tool_calls_total{tool="subtract",outcome="failure"} 1');
+    expect(output).toContain('lmstudio_model_load_duration_seconds_count{model="qwen3-4b"} 1');
+  });
+
+  it("records the responses that had to be repaired", async () => {
+    const { fake, client } = createFake();
+    fake.addLLM({ modelKey: "gemma" });
+    fake.queuePrediction('{"value": 3}');
+    fake.queuePrediction('{"value": 4}');
+
+    const model = await client.llm.model("gemma");
+    await model.respond("Give me an even number", {
+      structured: z.object({ value: z.number().refine(value => value % 2 === 0) }),
+      repair: { maxAttempts: 1 },
+    });
+
+    expect(client.metrics.render()).toContain('lmstudio_predicted_tokens_total{model="gemma"} 24');
+  });
+});
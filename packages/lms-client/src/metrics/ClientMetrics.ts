@@ -0,0 +1,233 @@
+import { type LLMPredictionStats } from "@lmstudio/lms-shared-types";
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number) {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  if (value === -Infinity) {
+    return "-Inf";
+  }
+  return String(value);
+}
+
+abstract class Metric<TSeries> {
+  /**
+   * The series of the metric, keyed by their formatted labels.
+   */
+  protected readonly series = new Map<string, { labels: Labels; data: TSeries }>();
+  public constructor(
+    public readonly name: string,
+    private readonly help: string,
+    private readonly type: "counter" | "histogram",
+  ) {}
+  protected getSeries(labels: Labels) {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (series === undefined) {
+      series = { labels, data: this.createSeries() };
+      this.series.set(key, series);
+    }
+    return series.data;
+  }
+  protected abstract createSeries(): TSeries;
+  protected abstract renderSeries(labels: Labels, data: TSeries): Array<string>;
+  public render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, data } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, data));
+    }
+    return lines;
+  }
+  public reset() {
+    this.series.clear();
+  }
+}
+
+class Counter extends Metric<{ value: number }> {
+  public constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+  protected override createSeries() {
+    return { value: 0 };
+  }
+  protected override renderSeries(labels: Labels, { value }: { value: number }) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+  public inc(labels: Labels, amount = 1) {
+    this.getSeries(labels).value += amount;
+  }
+}
+
+interface HistogramSeries {
+  /**
+   * The number of observations in each bucket. Not cumulative.
+   */
+  bucketCounts: Array<number>;
+  sum: number;
+  count: number;
+}
+
+class Histogram extends Metric<HistogramSeries> {
+  public constructor(
+    name: string,
+    help: string,
+    private readonly buckets: ReadonlyArray<number>,
+  ) {
+    super(name, help, "histogram");
+  }
+  protected override createSeries() {
+    return { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+  protected override renderSeries(labels: Labels, { bucketCounts, sum, count }: HistogramSeries) {
+    const lines: Array<string> = [];
+    let cumulativeCount = 0;
+    this.buckets.forEach((bucket, index) => {
+      cumulativeCount += bucketCounts[index];
+      const bucketLabels = formatLabels({ ...labels, le: formatValue(bucket) });
+      lines.push(`${this.name}_bucket${bucketLabels} ${cumulativeCount}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    return lines;
+  }
+  public observe(labels: Labels, value: number) {
+    const series = this.getSeries(labels);
+    const bucketIndex = this.buckets.findIndex(bucket => value <= bucket);
+    if (bucketIndex !== -1) {
+      series.bucketCounts[bucketIndex]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+}
+
+/**
+ * Cumulative metrics of everything a client has done since it was created: tokens and latency of
+ * predictions per model, tool calls made by `.act`, model load times and errors returned by the
+ * server, per endpoint.
+ *
+ * Use {@link ClientMetrics#render} to expose them to Prometheus, for example on a `/metrics`
+ * route:
+ *
+ * ```ts
+ * app.get("/metrics", (req, res) => {
+ *   res.type("text/plain; version=0.0.4").send(client.metrics.render());
+ * });
+ * ```
+ *
+ * @public
+ * @experimental [EXP-CLIENT-METRICS] Client metrics are experimental and may change in the future.
+ */
+export class ClientMetrics {
+  /** @internal */
+  private readonly promptTokens = new Counter(
+    "lmstudio_prompt_tokens_total",
+    "Number of prompt tokens processed, per model.",
+  );
+  /** @internal */
+  private readonly predictedTokens = new Counter(
+    "lmstudio_predicted_tokens_total",
+    "Number of tokens predicted, per model.",
+  );
+  /** @internal */
+  private readonly predictionDuration = new Histogram(
+    "lmstudio_prediction_duration_seconds",
+    "Time taken by predictions, per model.",
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  );
+  /** @internal */
+  private readonly timeToFirstToken = new Histogram(
+    "lmstudio_time_to_first_token_seconds",
+    "Time until predictions produced their first token, per model.",
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  );
+  /** @internal */
+  private readonly toolCalls = new Counter(
+    "lmstudio_tool_calls_total",
+    "Number of tool calls made by .act, per tool and outcome.",
+  );
+  /** @internal */
+  private readonly modelLoadDuration = new Histogram(
+    "lmstudio_model_load_duration_seconds",
+    "Time taken to load models, per model.",
+    [1, 2.5, 5, 10, 30, 60, 120, 300],
+  );
+  /** @internal */
+  private readonly endpointErrors = new Counter(
+    "lmstudio_rpc_errors_total",
+    "Number of errors returned by the server, per API namespace and endpoint.",
+  );
+  /** @internal */
+  private readonly metrics: ReadonlyArray<Metric<unknown>> = [
+    this.promptTokens,
+    this.predictedTokens,
+    this.predictionDuration,
+    this.timeToFirstToken,
+    this.toolCalls,
+    this.modelLoadDuration,
+    this.endpointErrors,
+  ];
+
+  /** @internal */
+  public recordPrediction(modelKey: string, stats: LLMPredictionStats) {
+    const labels = { model: modelKey };
+    if (stats.promptTokensCount !== undefined) {
+      this.promptTokens.inc(labels, stats.promptTokensCount);
+    }
+    if (stats.predictedTokensCount !== undefined) {
+      this.predictedTokens.inc(labels, stats.predictedTokensCount);
+    }
+    if (stats.totalTimeSec !== undefined) {
+      this.predictionDuration.observe(labels, stats.totalTimeSec);
+    }
+    if (stats.timeToFirstTokenSec !== undefined) {
+      this.timeToFirstToken.observe(labels, stats.timeToFirstTokenSec);
+    }
+  }
+
+  /** @internal */
+  public recordToolCall(toolName: string, outcome: "success" | "failure") {
+    this.toolCalls.inc({ tool: toolName, outcome });
+  }
+
+  /** @internal */
+  public recordModelLoad(modelKey: string, durationSec: number) {
+    this.modelLoadDuration.observe({ model: modelKey }, durationSec);
+  }
+
+  /** @internal */
+  public recordEndpointError(namespace: string, type: "rpc" | "channel", endpoint: string) {
+    this.endpointErrors.inc({ namespace, type, endpoint });
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format.
+   */
+  public render(): string {
+    return this.metrics.map(metric => metric.render().join("\n")).join("\n") + "\n";
+  }
+
+  /**
+   * Resets all metrics to zero.
+   */
+  public reset() {
+    for (const metric of this.metrics) {
+      metric.reset();
+    }
+  }
+}
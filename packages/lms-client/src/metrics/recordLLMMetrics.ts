@@ -0,0 +1,67 @@
+import { type LLMActBaseOpts } from "../llm/act.js";
+import { type PredictionResult } from "../llm/PredictionResult.js";
+import { type ClientMetrics } from "./ClientMetrics.js";
+
+/**
+ * Records the tokens and timings of a `.respond` or `.complete` call once it succeeds.
+ */
+export function recordOngoingPrediction(
+  metrics: ClientMetrics | null,
+  ongoingPrediction: PromiseLike<PredictionResult>,
+) {
+  if (metrics === null) {
+    return;
+  }
+  ongoingPrediction.then(
+    result => metrics.recordPrediction(result.modelInfo.modelKey, result.stats),
+    () => {}, // Failed predictions are reported by whoever awaits them.
+  );
+}
+
+/**
+ * Records the tokens and timings of every round of an `.act` call, and the outcome of every tool
+ * call.
+ *
+ * A tool call succeeds if its implementation returned a result. Every other tool call (failed to
+ * generate, unknown tool, denied by `guardToolCall`, timed out...) is counted as a failure.
+ */
+export function recordActMetricsOpts<TOpts extends LLMActBaseOpts<PredictionResult>>(
+  metrics: ClientMetrics | null,
+  opts: TOpts,
+): TOpts {
+  if (metrics === null) {
+    return opts;
+  }
+  const toolNames = new Map<number, string>();
+  const recordedCallIds = new Set<number>();
+  const recordToolCall = (callId: number, outcome: "success" | "failure", toolName?: string) => {
+    if (recordedCallIds.has(callId)) {
+      return;
+    }
+    recordedCallIds.add(callId);
+    metrics.recordToolCall(toolName ?? toolNames.get(callId) ?? "unknown", outcome);
+  };
+  return {
+    ...opts,
+    onPredictionCompleted: result => {
+      metrics.recordPrediction(result.modelInfo.modelKey, result.stats);
+      opts.onPredictionCompleted?.(result);
+    },
+    onToolCallRequestNameReceived: (roundIndex, callId, name) => {
+      toolNames.set(callId, name);
+      opts.onToolCallRequestNameReceived?.(roundIndex, callId, name);
+    },
+    onToolCallRequestFailure: (roundIndex, callId, error) => {
+      recordToolCall(callId, "failure");
+      opts.onToolCallRequestFailure?.(roundIndex, callId, error);
+    },
+    onToolCallSuccess: (roundIndex, callId, toolCallResult) => {
+      recordToolCall(callId, "success", toolCallResult.name);
+      opts.onToolCallSuccess?.(roundIndex, callId, toolCallResult);
+    },
+    onToolCallResult: (roundIndex, callId, toolCallResult) => {
+      recordToolCall(callId, "failure", toolCallResult.name);
+      opts.onToolCallResult?.(roundIndex, callId, toolCallResult);
+    },
+  };
+}
@@ -26,6 +26,7 @@ import { z, type ZodSchema } from "zod";
 import { type EmbeddingDynamicHandle } from "../embedding/EmbeddingDynamicHandle.js";
 import { type LLMDynamicHandle } from "../llm/LLMDynamicHandle.js";
 import { type LMStudioClient } from "../LMStudioClient.js";
+import { type ClientMetrics } from "../metrics/ClientMetrics.js";
 import { type DynamicHandle } from "./DynamicHandle.js";
 
 /** @public */
@@ -228,6 +229,8 @@ export abstract class ModelNamespace<
     protected readonly logger: SimpleLogger,
     /** @internal */
     protected readonly validator: Validator,
+    /** @internal */
+    protected readonly metrics: ClientMetrics | null = null,
   ) {}
   /**
    * Load a model for inferencing. The first parameter is the model key. The second parameter is an
@@ -327,6 +330,7 @@ export abstract class ModelNamespace<
                 `,
               );
             }
+            this.metrics?.recordModelLoad(message.info.modelKey, (Date.now() - startTime) / 1000);
             resolve(
               this.createDomainSpecificModel(this.port, message.info, this.validator, this.logger),
             );
@@ -713,6 +717,7 @@ export abstract class ModelNamespace<
                 `,
               );
             }
+            this.metrics?.recordModelLoad(message.info.modelKey, (Date.now() - startTime) / 1000);
             resolve(
               this.createDomainSpecificModel(this.port, message.info, this.validator, this.logger),
             );
@@ -0,0 +1,154 @@
+import { type LLMPromptTemplate, llmPromptTemplateSchema } from "@lmstudio/lms-shared-types";
+import {
+  type RenderPromptTemplateOpts,
+  renderPromptTemplateOptsSchema,
+} from "./renderPromptTemplate.js";
+
+/**
+ * A line of a {@link RenderedPromptDiff}.
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export interface RenderedPromptDiffLine {
+  /**
+   * `"removed"` lines only appear in the expected prompt, `"added"` lines only appear in the actual
+   * prompt.
+   */
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * The line by line difference between two rendered prompts.
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export interface RenderedPromptDiff {
+  identical: boolean;
+  /**
+   * The index of the first character that differs between the prompts, or -1 if they are identical.
+   */
+  firstDifferenceIndex: number;
+  lines: Array<RenderedPromptDiffLine>;
+  /**
+   * The diff formatted for display, with `-` and `+` in front of removed and added lines. Special
+   * characters are escaped, so that differences in whitespace are visible.
+   */
+  formatted: string;
+}
+
+/**
+ * Escapes a line such that whitespace differences are visible.
+ */
+function escapeLine(line: string) {
+  return JSON.stringify(line).slice(1, -1);
+}
+
+/**
+ * Diffs the lines using the longest common subsequence.
+ */
+function diffLines(expected: Array<string>, actual: Array<string>): Array<RenderedPromptDiffLine> {
+  const commonLengths = Array.from({ length: expected.length + 1 }, () =>
+    new Array<number>(actual.length + 1).fill(0),
+  );
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      commonLengths[i][j] =
+        expected[i] === actual[j]
+          ? commonLengths[i + 1][j + 1] + 1
+          : Math.max(commonLengths[i + 1][j], commonLengths[i][j + 1]);
+    }
+  }
+  const lines: Array<RenderedPromptDiffLine> = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expected[i] === actual[j]) {
+      lines.push({ type: "equal", text: expected[i] });
+      i++;
+      j++;
+    } else if (
+      j >= actual.length ||
+      (i < expected.length && commonLengths[i + 1][j] >= commonLengths[i][j + 1])
+    ) {
+      lines.push({ type: "removed", text: expected[i] });
+      i++;
+    } else {
+      lines.push({ type: "added", text: actual[j] });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Compares two rendered prompts line by line, for example a prompt rendered with
+ * {@link renderPromptTemplate} and one rendered by LM Studio.
+ *
+ * ```ts
+ * const diff = diffRenderedPrompts(expectedPrompt, renderPromptTemplate(template, history));
+ * if (!diff.identical) {
+ *   console.log(diff.formatted);
+ * }
+ * ```
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export function diffRenderedPrompts(expected: string, actual: string): RenderedPromptDiff {
+  if (expected === actual) {
+    return {
+      identical: true,
+      firstDifferenceIndex: -1,
+      lines: expected.split("\n").map(text => ({ type: "equal", text })),
+      formatted: "",
+    };
+  }
+  let firstDifferenceIndex = 0;
+  while (expected[firstDifferenceIndex] === actual[firstDifferenceIndex]) {
+    firstDifferenceIndex++;
+  }
+  const lines = diffLines(expected.split("\n"), actual.split("\n"));
+  const prefixes = { equal: " ", added: "+", removed: "-" };
+  return {
+    identical: false,
+    firstDifferenceIndex,
+    lines,
+    formatted: lines.map(({ type, text }) => `${prefixes[type]} ${escapeLine(text)}`).join("\n"),
+  };
+}
+
+/**
+ * Options for {@link LLMDynamicHandle#diffPromptTemplate}.
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export interface LLMDiffPromptTemplateOpts extends RenderPromptTemplateOpts {
+  /**
+   * The template to render locally. Defaults to the prompt template of the model.
+   */
+  template?: LLMPromptTemplate;
+}
+export const llmDiffPromptTemplateOptsSchema = renderPromptTemplateOptsSchema.extend({
+  template: llmPromptTemplateSchema.optional(),
+});
+
+/**
+ * The result of {@link LLMDynamicHandle#diffPromptTemplate}. The server-rendered prompt is the
+ * expected one.
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export interface LLMDiffPromptTemplateResult extends RenderedPromptDiff {
+  localPrompt: string;
+  serverPrompt: string;
+}
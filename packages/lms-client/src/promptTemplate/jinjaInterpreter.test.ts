@@ -0,0 +1,89 @@
+import { JinjaRaisedError, renderJinjaTemplate } from "./jinjaInterpreter.js";
+
+describe("renderJinjaTemplate", () => {
+  test("renders expressions with Python semantics", () => {
+    expect(
+      renderJinjaTemplate(
+        "{{ a + b }} {{ 7 // 2 }} {{ -7 % 3 }} {{ 'x' ~ 1 }} {{ none }} {{ true }} {{ [1, 'a'] }}",
+        { a: 1, b: 2 },
+      ),
+    ).toBe("3 3 2 x1 None True [1, 'a']");
+    expect(renderJinjaTemplate("{{ 'yes' if x else 'no' }}{{ missing }}", { x: [] })).toBe("no");
+    expect(renderJinjaTemplate("{{ s[1:] }}{{ s[-1] }}{{ s[::-1] }}", { s: "abc" })).toBe("bcccba");
+  });
+
+  test("applies trim_blocks, lstrip_blocks and whitespace control", () => {
+    const template = "<s>\n  {% if true %}\n    A\n  {% endif %}\n{{- ' B ' -}}\n  C";
+    expect(renderJinjaTemplate(template, {})).toBe("<s>\n    A\n B C");
+  });
+
+  test("supports loops with loop variables, filters and break", () => {
+    const template =
+      "{% for item in items if item != 'skip' %}" +
+      "{{ loop.index }}:{{ item | upper }}{% if not loop.last %},{% endif %}" +
+      "{% if item == 'stop' %}{% break %}{% endif %}" +
+      "{% else %}empty{% endfor %}";
+    expect(renderJinjaTemplate(template, { items: ["a", "skip", "b"] })).toBe("1:A,2:B");
+    expect(renderJinjaTemplate(template, { items: ["stop", "c"] })).toBe("1:STOP,");
+    expect(renderJinjaTemplate(template, { items: [] })).toBe("empty");
+    expect(
+      renderJinjaTemplate("{% for k, v in d.items() %}{{ k }}={{ v }};{% endfor %}", {
+        d: { x: 1, y: 2 },
+      }),
+    ).toBe("x=1;y=2;");
+  });
+
+  test("keeps assignments in namespaces across loop iterations", () => {
+    const template =
+      "{% set count = 0 %}{% set ns = namespace(count=0) %}" +
+      "{% for i in range(3) %}{% set count = count + 1 %}{% set ns.count = ns.count + 1 %}" +
+      "{% endfor %}{{ count }} {{ ns.count }}";
+    expect(renderJinjaTemplate(template, {})).toBe("0 3");
+  });
+
+  test("supports macros, tests and common filters", () => {
+    const template =
+      "{% macro greet(name, punctuation='!') %}Hi {{ name }}{{ punctuation }}{% endmacro %}" +
+      "{{ greet('Ann') }} {{ greet('Bob', punctuation='?') }} " +
+      "{{ messages | selectattr('role', 'equalto', 'user') | map(attribute='content') | join(',') }} " +
+      "{{ x is defined }} {{ y is none }} {{ 4 is divisibleby 2 }} {{ 'ab' in 'cabd' }} " +
+      "{{ '  pad ' | trim }} {{ missing | default('fallback') }} {{ [3, 1, 2] | sort | first }}";
+    expect(
+      renderJinjaTemplate(template, {
+        messages: [
+          { role: "user", content: "a" },
+          { role: "assistant", content: "b" },
+          { role: "user", content: "c" },
+        ],
+        y: null,
+      }),
+    ).toBe("Hi Ann! Hi Bob? a,c False True True True pad fallback 1");
+  });
+
+  test("serializes values with tojson like transformers", () => {
+    const value = { name: "f", parameters: { b: [1, true, null], a: "é" } };
+    expect(renderJinjaTemplate("{{ value | tojson }}", { value })).toBe(
+      '{"name": "f", "parameters": {"b": [1, true, null], "a": "é"}}',
+    );
+    expect(renderJinjaTemplate("{{ value | tojson(indent=2) }}", { value: { a: [1] } })).toBe(
+      '{\n  "a": [\n    1\n  ]\n}',
+    );
+  });
+
+  test("supports string methods and strftime_now", () => {
+    const template =
+      "{{ text.strip().split(' ')[0] }} {{ text.startswith(' <') }} " +
+      "{{ text.replace('think', 'x') }}|{{ strftime_now('%d %B %Y') }}";
+    expect(
+      renderJinjaTemplate(template, { text: " <think> done" }, { now: new Date(2025, 0, 5) }),
+    ).toBe("<think> True  <x> done|05 January 2025");
+  });
+
+  test("reports errors with the line and passes on raise_exception", () => {
+    expect(() => renderJinjaTemplate("line 1\n{{ x.y }}", {})).toThrow("(at line 2)");
+    expect(() => renderJinjaTemplate("{% if true %}", {})).toThrow('Missing "endif"');
+    expect(() => renderJinjaTemplate("{{ raise_exception('Bad role') }}", {})).toThrow(
+      new JinjaRaisedError("Bad role"),
+    );
+  });
+});
@@ -0,0 +1,1164 @@
+import {
+  parseJinjaTemplate,
+  type JinjaArguments,
+  type JinjaExpression,
+  type JinjaNode,
+  type JinjaSetTarget,
+} from "./jinjaParser.js";
+
+/**
+ * A function that can be called from a template, such as a macro or a built-in global.
+ */
+export class JinjaFunction {
+  public constructor(
+    public readonly name: string,
+    public readonly call: (args: Array<unknown>, kwargs: Record<string, unknown>) => unknown,
+  ) {}
+}
+
+/**
+ * The object created by `namespace()`. Its attributes can be assigned with `{% set ns.x = ... %}`.
+ */
+class JinjaNamespace {
+  public constructor(public readonly values: Record<string, unknown>) {}
+}
+
+/**
+ * An error raised by the template itself, with `raise_exception`.
+ */
+export class JinjaRaisedError extends Error {}
+
+/**
+ * An error with the line of the template it happened at.
+ */
+class JinjaLocatedError extends Error {}
+
+class BreakSignal {}
+class ContinueSignal {}
+
+class Scope {
+  private readonly variables = new Map<string, unknown>();
+
+  public constructor(private readonly parent: Scope | null) {}
+
+  public get(name: string): unknown {
+    if (this.variables.has(name)) {
+      return this.variables.get(name);
+    }
+    return this.parent?.get(name);
+  }
+
+  public set(name: string, value: unknown) {
+    this.variables.set(name, value);
+  }
+
+  public child() {
+    return new Scope(this);
+  }
+}
+
+export interface JinjaRenderOpts {
+  /**
+   * The time returned by `strftime_now`. Defaults to the current time.
+   */
+  now?: Date;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof JinjaFunction) &&
+    !(value instanceof JinjaNamespace)
+  );
+}
+
+function isTruthy(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === 0 || value === "") {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).length > 0;
+  }
+  return true;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => isEqual(item, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const leftKeys = Object.keys(left);
+    return (
+      leftKeys.length === Object.keys(right).length &&
+      leftKeys.every(key => key in right && isEqual(left[key], right[key]))
+    );
+  }
+  return false;
+}
+
+function pythonStringRepr(value: string) {
+  const quote = value.includes("'") && !value.includes('"') ? '"' : "'";
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+  return quote + (quote === "'" ? escaped.replace(/'/g, "\\'") : escaped) + quote;
+}
+
+/**
+ * Formats a value like Python's `repr`, which is how lists and dicts are printed.
+ */
+function pythonRepr(value: unknown): string {
+  if (typeof value === "string") {
+    return pythonStringRepr(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(pythonRepr).join(", ")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${pythonStringRepr(key)}: ${pythonRepr(item)}`,
+    );
+    return `{${entries.join(", ")}}`;
+  }
+  return stringify(value);
+}
+
+/**
+ * Formats a value like Python's `str`, which is how values are printed.
+ */
+function stringify(value: unknown): string {
+  if (value === undefined) {
+    return "";
+  }
+  if (value === null) {
+    return "None";
+  }
+  if (value === true) {
+    return "True";
+  }
+  if (value === false) {
+    return "False";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : value > 0 ? "inf" : value < 0 ? "-inf" : "nan";
+  }
+  if (value instanceof JinjaFunction) {
+    return `<function ${value.name}>`;
+  }
+  if (value instanceof JinjaNamespace) {
+    return `<Namespace ${pythonRepr(value.values)}>`;
+  }
+  return pythonRepr(value);
+}
+
+/**
+ * Serializes a value like the `tojson` filter of Hugging Face transformers, which keeps the order of
+ * keys and uses Python's default separators.
+ */
+function toJson(value: unknown, indent: number | undefined, depth = 0): string {
+  if (value === undefined || value === null || typeof value === "function") {
+    return "null";
+  }
+  if (value instanceof JinjaNamespace) {
+    return toJson(value.values, indent, depth);
+  }
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") {
+    return JSON.stringify(value) ?? "null";
+  }
+  const items: Array<string> = Array.isArray(value)
+    ? value.map(item => toJson(item, indent, depth + 1))
+    : Object.entries(value as Record<string, unknown>)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => `${JSON.stringify(key)}: ${toJson(item, indent, depth + 1)}`);
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+  if (items.length === 0) {
+    return open + close;
+  }
+  if (indent === undefined) {
+    return open + items.join(", ") + close;
+  }
+  const innerPadding = "\n" + " ".repeat(indent * (depth + 1));
+  const outerPadding = "\n" + " ".repeat(indent * depth);
+  return open + innerPadding + items.join("," + innerPadding) + outerPadding + close;
+}
+
+function toIterable(value: unknown): Array<unknown> {
+  if (value === undefined || value === null) {
+    if (value === null) {
+      throw new Error("'NoneType' object is not iterable");
+    }
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    return [...value];
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value);
+  }
+  throw new Error(`${pythonRepr(value)} is not iterable`);
+}
+
+function lengthOf(value: unknown): number {
+  if (typeof value === "string" || Array.isArray(value)) {
+    return value.length;
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).length;
+  }
+  if (value === undefined) {
+    return 0;
+  }
+  throw new Error(`Object of type ${typeNameOf(value)} has no length`);
+}
+
+function typeNameOf(value: unknown) {
+  if (value === null) {
+    return "NoneType";
+  }
+  if (Array.isArray(value)) {
+    return "list";
+  }
+  if (isPlainObject(value)) {
+    return "dict";
+  }
+  switch (typeof value) {
+    case "string":
+      return "str";
+    case "number":
+      return Number.isInteger(value) ? "int" : "float";
+    case "boolean":
+      return "bool";
+    default:
+      return "object";
+  }
+}
+
+function normalizeIndex(index: number, length: number) {
+  return index < 0 ? index + length : index;
+}
+
+function sliceOf(value: unknown, start: unknown, stop: unknown, step: unknown): unknown {
+  if (typeof value !== "string" && !Array.isArray(value)) {
+    throw new Error(`Cannot slice ${typeNameOf(value)}`);
+  }
+  const items = typeof value === "string" ? [...value] : value;
+  const length = items.length;
+  const stepValue = step === null || step === undefined ? 1 : Number(step);
+  if (stepValue === 0) {
+    throw new Error("Slice step cannot be zero");
+  }
+  const clamp = (bound: unknown, fallback: number) => {
+    if (bound === null || bound === undefined) {
+      return fallback;
+    }
+    const index = normalizeIndex(Number(bound), length);
+    return stepValue > 0
+      ? Math.min(Math.max(index, 0), length)
+      : Math.min(Math.max(index, -1), length - 1);
+  };
+  const from = clamp(start, stepValue > 0 ? 0 : length - 1);
+  const to = clamp(stop, stepValue > 0 ? length : -1);
+  const result: Array<unknown> = [];
+  for (let i = from; stepValue > 0 ? i < to : i > to; i += stepValue) {
+    result.push(items[i]);
+  }
+  return typeof value === "string" ? result.join("") : result;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function stripChars(value: string, chars: unknown, side: "both" | "left" | "right") {
+  const pattern =
+    chars === undefined || chars === null ? "\\s" : `[${escapeRegExp(String(chars))}]`;
+  if (side !== "right") {
+    value = value.replace(new RegExp(`^${pattern}+`), "");
+  }
+  if (side !== "left") {
+    value = value.replace(new RegExp(`${pattern}+$`), "");
+  }
+  return value;
+}
+
+function titleCase(value: string) {
+  return value.replace(
+    /[a-zA-Z0-9]+/g,
+    word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase(),
+  );
+}
+
+function pythonSplit(value: string, separator: unknown, maxSplit: unknown) {
+  const limit = maxSplit === undefined || maxSplit === null ? -1 : Number(maxSplit);
+  if (separator === undefined || separator === null) {
+    const parts = value
+      .trim()
+      .split(/\s+/)
+      .filter(part => part !== "");
+    if (limit < 0 || parts.length <= limit + 1) {
+      return parts;
+    }
+    const head = parts.slice(0, limit);
+    let rest = value.trim();
+    for (const part of head) {
+      rest = rest.slice(rest.indexOf(part) + part.length).replace(/^\s+/, "");
+    }
+    return [...head, rest];
+  }
+  const separatorString = String(separator);
+  const parts = value.split(separatorString);
+  if (limit < 0 || parts.length <= limit + 1) {
+    return parts;
+  }
+  return [...parts.slice(0, limit), parts.slice(limit).join(separatorString)];
+}
+
+function pythonReplace(value: string, old: string, replacement: string, count: unknown) {
+  const limit = count === undefined || count === null ? -1 : Number(count);
+  let result = "";
+  let rest = value;
+  let replaced = 0;
+  while (limit < 0 || replaced < limit) {
+    const index = old === "" ? (replaced === 0 ? 0 : rest.length > 0 ? 1 : -1) : rest.indexOf(old);
+    if (index === -1) {
+      break;
+    }
+    result += rest.slice(0, index) + replacement;
+    rest = rest.slice(index + old.length);
+    replaced++;
+    if (old === "" && rest.length === 0) {
+      break;
+    }
+  }
+  return result + rest;
+}
+
+function method(name: string, call: (...args: Array<any>) => unknown) {
+  return new JinjaFunction(name, args => call(...args));
+}
+
+function getStringMethod(value: string, name: string): JinjaFunction | undefined {
+  const methods: Record<string, (...args: Array<any>) => unknown> = {
+    strip: chars => stripChars(value, chars, "both"),
+    lstrip: chars => stripChars(value, chars, "left"),
+    rstrip: chars => stripChars(value, chars, "right"),
+    split: (separator, maxSplit) => pythonSplit(value, separator, maxSplit),
+    startswith: prefix =>
+      (Array.isArray(prefix) ? prefix : [prefix]).some(item => value.startsWith(String(item))),
+    endswith: suffix =>
+      (Array.isArray(suffix) ? suffix : [suffix]).some(item => value.endsWith(String(item))),
+    upper: () => value.toUpperCase(),
+    lower: () => value.toLowerCase(),
+    title: () => titleCase(value),
+    capitalize: () => value.charAt(0).toUpperCase() + value.slice(1).toLowerCase(),
+    replace: (old, replacement, count) =>
+      pythonReplace(value, String(old), String(replacement), count),
+    find: substring => value.indexOf(String(substring)),
+    count: substring => value.split(String(substring)).length - 1,
+    join: items => toIterable(items).map(stringify).join(value),
+    isdigit: () => /^\d+$/.test(value),
+    isspace: () => /^\s+$/.test(value),
+  };
+  const call = methods[name];
+  return call === undefined ? undefined : method(name, call);
+}
+
+function getListMethod(value: Array<unknown>, name: string): JinjaFunction | undefined {
+  const methods: Record<string, (...args: Array<any>) => unknown> = {
+    append: item => {
+      value.push(item);
+      return null;
+    },
+    pop: index => {
+      const [item] = value.splice(index === undefined ? -1 : Number(index), 1);
+      return item;
+    },
+    index: item => value.findIndex(candidate => isEqual(candidate, item)),
+    count: item => value.filter(candidate => isEqual(candidate, item)).length,
+  };
+  const call = methods[name];
+  return call === undefined ? undefined : method(name, call);
+}
+
+function getDictMethod(value: Record<string, unknown>, name: string): JinjaFunction | undefined {
+  const methods: Record<string, (...args: Array<any>) => unknown> = {
+    items: () => Object.entries(value),
+    keys: () => Object.keys(value),
+    values: () => Object.values(value),
+    get: (key, defaultValue = null) =>
+      Object.prototype.hasOwnProperty.call(value, String(key)) ? value[String(key)] : defaultValue,
+  };
+  const call = methods[name];
+  return call === undefined ? undefined : method(name, call);
+}
+
+/**
+ * Looks up `value.name`. Like in Jinja, methods take precedence over dict keys.
+ */
+function getAttribute(value: unknown, name: string): unknown {
+  if (value === undefined || value === null) {
+    throw new Error(`Cannot access attribute "${name}" of ${stringify(value) || "undefined"}`);
+  }
+  if (typeof value === "string") {
+    return getStringMethod(value, name);
+  }
+  if (Array.isArray(value)) {
+    return getListMethod(value, name);
+  }
+  if (value instanceof JinjaNamespace) {
+    return value.values[name];
+  }
+  if (isPlainObject(value)) {
+    return (
+      getDictMethod(value, name) ??
+      (Object.prototype.hasOwnProperty.call(value, name) ? value[name] : undefined)
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Looks up `value[index]`. Like in Jinja, items take precedence over methods.
+ */
+function getItem(value: unknown, index: unknown): unknown {
+  if (value === undefined || value === null) {
+    throw new Error(
+      `Cannot access item ${pythonRepr(index)} of ${stringify(value) || "undefined"}`,
+    );
+  }
+  if ((typeof value === "string" || Array.isArray(value)) && typeof index === "number") {
+    return value[normalizeIndex(index, value.length)];
+  }
+  if (isPlainObject(value) && typeof index === "string") {
+    if (Object.prototype.hasOwnProperty.call(value, index)) {
+      return value[index];
+    }
+  }
+  return typeof index === "string" ? getAttribute(value, index) : undefined;
+}
+
+function getDottedAttribute(value: unknown, path: unknown) {
+  return String(path)
+    .split(".")
+    .reduce<unknown>(
+      (current, part) => (current === undefined ? undefined : getItem(current, part)),
+      value,
+    );
+}
+
+function argument(
+  args: Array<unknown>,
+  kwargs: Record<string, unknown>,
+  index: number,
+  name: string,
+  defaultValue?: unknown,
+) {
+  if (name in kwargs) {
+    return kwargs[name];
+  }
+  return index < args.length ? args[index] : defaultValue;
+}
+
+type JinjaTest = (value: unknown, ...args: Array<unknown>) => boolean;
+
+const tests: Record<string, JinjaTest> = {
+  "defined": value => value !== undefined,
+  "undefined": value => value === undefined,
+  "none": value => value === null,
+  "string": value => typeof value === "string",
+  "number": value => typeof value === "number",
+  "integer": value => typeof value === "number" && Number.isInteger(value),
+  "float": value => typeof value === "number" && !Number.isInteger(value),
+  "boolean": value => typeof value === "boolean",
+  "true": value => value === true,
+  "false": value => value === false,
+  "mapping": value => isPlainObject(value),
+  "iterable": value => typeof value === "string" || Array.isArray(value) || isPlainObject(value),
+  "sequence": value => typeof value === "string" || Array.isArray(value) || isPlainObject(value),
+  "callable": value => value instanceof JinjaFunction,
+  "even": value => Number(value) % 2 === 0,
+  "odd": value => Math.abs(Number(value) % 2) === 1,
+  "divisibleby": (value, divisor) => Number(value) % Number(divisor) === 0,
+  "equalto": (value, other) => isEqual(value, other),
+  "eq": (value, other) => isEqual(value, other),
+  "==": (value, other) => isEqual(value, other),
+  "ne": (value, other) => !isEqual(value, other),
+  "!=": (value, other) => !isEqual(value, other),
+  "in": (value, container) => containsValue(container, value),
+  "lower": value => typeof value === "string" && value === value.toLowerCase(),
+  "upper": value => typeof value === "string" && value === value.toUpperCase(),
+};
+
+function applyTest(name: string, value: unknown, args: Array<unknown>) {
+  const test = tests[name];
+  if (test === undefined) {
+    throw new Error(`Unknown test "${name}"`);
+  }
+  return test(value, ...args);
+}
+
+function containsValue(container: unknown, value: unknown): boolean {
+  if (typeof container === "string") {
+    return container.includes(stringify(value));
+  }
+  if (Array.isArray(container)) {
+    return container.some(item => isEqual(item, value));
+  }
+  if (isPlainObject(container)) {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(container, value);
+  }
+  if (container instanceof JinjaNamespace) {
+    return typeof value === "string" && value in container.values;
+  }
+  if (container === undefined) {
+    return false;
+  }
+  throw new Error(`Argument of type ${typeNameOf(container)} is not iterable`);
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  if (typeof left === "boolean" || typeof right === "boolean") {
+    return Number(left) - Number(right);
+  }
+  throw new Error(`Cannot compare ${typeNameOf(left)} with ${typeNameOf(right)}`);
+}
+
+function roundNumber(value: number, precision: number, roundingMethod: string) {
+  const factor = 10 ** precision;
+  switch (roundingMethod) {
+    case "ceil":
+      return Math.ceil(value * factor) / factor;
+    case "floor":
+      return Math.floor(value * factor) / factor;
+    default:
+      return Math.round(value * factor) / factor;
+  }
+}
+
+type JinjaFilter = (
+  interpreter: JinjaInterpreter,
+  value: unknown,
+  args: Array<unknown>,
+  kwargs: Record<string, unknown>,
+) => unknown;
+
+const filters: Record<string, JinjaFilter> = {
+  trim: (_, value, args, kwargs) =>
+    stripChars(stringify(value), argument(args, kwargs, 0, "chars"), "both"),
+  upper: (_, value) => stringify(value).toUpperCase(),
+  lower: (_, value) => stringify(value).toLowerCase(),
+  title: (_, value) => titleCase(stringify(value)),
+  capitalize: (_, value) => {
+    const text = stringify(value);
+    return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+  },
+  length: (_, value) => lengthOf(value),
+  count: (_, value) => lengthOf(value),
+  first: (_, value) => toIterable(value)[0],
+  last: (_, value) => toIterable(value).at(-1),
+  join: (_, value, args, kwargs) => {
+    const attribute = argument(args, kwargs, 1, "attribute");
+    return toIterable(value)
+      .map(item => (attribute === undefined ? item : getDottedAttribute(item, attribute)))
+      .map(stringify)
+      .join(stringify(argument(args, kwargs, 0, "d", "")));
+  },
+  default: (_, value, args, kwargs) => {
+    const useBoolean = isTruthy(argument(args, kwargs, 1, "boolean", false));
+    const isMissing = useBoolean ? !isTruthy(value) : value === undefined;
+    return isMissing ? argument(args, kwargs, 0, "default_value", "") : value;
+  },
+  tojson: (_, value, args, kwargs) => {
+    const indent = argument(args, kwargs, 0, "indent");
+    return toJson(value, indent === undefined || indent === null ? undefined : Number(indent));
+  },
+  string: (_, value) => stringify(value),
+  int: (_, value, args, kwargs) => {
+    const parsed =
+      typeof value === "number" ? Math.trunc(value) : parseInt(stringify(value).trim(), 10);
+    return Number.isNaN(parsed) ? argument(args, kwargs, 0, "default", 0) : parsed;
+  },
+  float: (_, value, args, kwargs) => {
+    const parsed = typeof value === "number" ? value : parseFloat(stringify(value).trim());
+    return Number.isNaN(parsed) ? argument(args, kwargs, 0, "default", 0) : parsed;
+  },
+  abs: (_, value) => Math.abs(Number(value)),
+  round: (_, value, args, kwargs) =>
+    roundNumber(
+      Number(value),
+      Number(argument(args, kwargs, 0, "precision", 0)),
+      String(argument(args, kwargs, 1, "method", "common")),
+    ),
+  list: (_, value) => [...toIterable(value)],
+  items: (_, value) => (isPlainObject(value) ? Object.entries(value) : []),
+  dictsort: (_, value) =>
+    isPlainObject(value)
+      ? Object.entries(value).sort(([left], [right]) => compareValues(left, right))
+      : [],
+  reverse: (_, value) =>
+    typeof value === "string" ? [...value].reverse().join("") : [...toIterable(value)].reverse(),
+  sort: (_, value, args, kwargs) => {
+    const reverse = isTruthy(argument(args, kwargs, 0, "reverse", false));
+    const attribute = argument(args, kwargs, 2, "attribute");
+    const key = (item: unknown) =>
+      attribute === undefined ? item : getDottedAttribute(item, attribute);
+    const sorted = [...toIterable(value)].sort((left, right) =>
+      compareValues(key(left), key(right)),
+    );
+    return reverse ? sorted.reverse() : sorted;
+  },
+  unique: (_, value) => {
+    const result: Array<unknown> = [];
+    for (const item of toIterable(value)) {
+      if (!result.some(existing => isEqual(existing, item))) {
+        result.push(item);
+      }
+    }
+    return result;
+  },
+  sum: (_, value, args, kwargs) => {
+    const attribute = argument(args, kwargs, 0, "attribute");
+    return toIterable(value).reduce<number>(
+      (sum, item) =>
+        sum + Number(attribute === undefined ? item : getDottedAttribute(item, attribute)),
+      Number(argument(args, kwargs, 1, "start", 0)),
+    );
+  },
+  min: (_, value) =>
+    toIterable(value).reduce((min, item) =>
+      min === undefined || compareValues(item, min) < 0 ? item : min,
+    ),
+  max: (_, value) =>
+    toIterable(value).reduce((max, item) =>
+      max === undefined || compareValues(item, max) > 0 ? item : max,
+    ),
+  map: (interpreter, value, args, kwargs) => {
+    if ("attribute" in kwargs) {
+      return toIterable(value).map(item => {
+        const result = getDottedAttribute(item, kwargs.attribute);
+        return result === undefined && "default" in kwargs ? kwargs.default : result;
+      });
+    }
+    const [filterName, ...filterArgs] = args;
+    return toIterable(value).map(item =>
+      interpreter.applyFilter(String(filterName), item, filterArgs, {}),
+    );
+  },
+  select: (_, value, [testName, ...testArgs]) =>
+    toIterable(value).filter(item =>
+      testName === undefined ? isTruthy(item) : applyTest(String(testName), item, testArgs),
+    ),
+  reject: (_, value, [testName, ...testArgs]) =>
+    toIterable(value).filter(
+      item =>
+        !(testName === undefined ? isTruthy(item) : applyTest(String(testName), item, testArgs)),
+    ),
+  selectattr: (_, value, [attribute, testName, ...testArgs]) =>
+    toIterable(value).filter(item => {
+      const attributeValue = getDottedAttribute(item, attribute);
+      return testName === undefined
+        ? isTruthy(attributeValue)
+        : applyTest(String(testName), attributeValue, testArgs);
+    }),
+  rejectattr: (_, value, [attribute, testName, ...testArgs]) =>
+    toIterable(value).filter(item => {
+      const attributeValue = getDottedAttribute(item, attribute);
+      return !(testName === undefined
+        ? isTruthy(attributeValue)
+        : applyTest(String(testName), attributeValue, testArgs));
+    }),
+  replace: (_, value, args, kwargs) =>
+    pythonReplace(
+      stringify(value),
+      stringify(argument(args, kwargs, 0, "old")),
+      stringify(argument(args, kwargs, 1, "new")),
+      argument(args, kwargs, 2, "count"),
+    ),
+  indent: (_, value, args, kwargs) => {
+    const width = argument(args, kwargs, 0, "width", 4);
+    const padding = typeof width === "string" ? width : " ".repeat(Number(width));
+    const indentFirst = isTruthy(argument(args, kwargs, 1, "first", false));
+    const indentBlank = isTruthy(argument(args, kwargs, 2, "blank", false));
+    return stringify(value)
+      .split("\n")
+      .map((line, index) =>
+        (index === 0 && !indentFirst) || (line === "" && !indentBlank) ? line : padding + line,
+      )
+      .join("\n");
+  },
+  safe: (_, value) => value,
+  escape: (_, value) =>
+    stringify(value)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&#34;")
+      .replace(/'/g, "&#39;"),
+};
+filters.d = filters.default;
+filters.e = filters.escape;
+
+const strftimeDays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const strftimeMonths = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+function strftime(date: Date, format: string) {
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours12 = date.getHours() % 12 === 0 ? 12 : date.getHours() % 12;
+  const directives: Record<string, string> = {
+    "a": strftimeDays[date.getDay()].slice(0, 3),
+    "A": strftimeDays[date.getDay()],
+    "b": strftimeMonths[date.getMonth()].slice(0, 3),
+    "B": strftimeMonths[date.getMonth()],
+    "d": pad(date.getDate()),
+    "H": pad(date.getHours()),
+    "I": pad(hours12),
+    "m": pad(date.getMonth() + 1),
+    "M": pad(date.getMinutes()),
+    "p": date.getHours() < 12 ? "AM" : "PM",
+    "S": pad(date.getSeconds()),
+    "y": pad(date.getFullYear() % 100),
+    "Y": String(date.getFullYear()),
+    "-d": String(date.getDate()),
+    "-m": String(date.getMonth() + 1),
+    "%": "%",
+  };
+  return format.replace(/%(-?.)/g, (match, directive: string) => directives[directive] ?? match);
+}
+
+function createGlobals(opts: JinjaRenderOpts): Record<string, unknown> {
+  return {
+    range: new JinjaFunction("range", args => {
+      const [start, stop, step] =
+        args.length === 1 ? [0, Number(args[0]), 1] : [Number(args[0]), Number(args[1]), 1];
+      const stepValue = args.length === 3 ? Number(args[2]) : step;
+      if (stepValue === 0) {
+        throw new Error("range() step cannot be zero");
+      }
+      const result: Array<number> = [];
+      for (let i = start; stepValue > 0 ? i < stop : i > stop; i += stepValue) {
+        result.push(i);
+      }
+      return result;
+    }),
+    raise_exception: new JinjaFunction("raise_exception", ([message]) => {
+      throw new JinjaRaisedError(stringify(message));
+    }),
+    namespace: new JinjaFunction(
+      "namespace",
+      ([initial], kwargs) =>
+        new JinjaNamespace({ ...(isPlainObject(initial) ? initial : {}), ...kwargs }),
+    ),
+    strftime_now: new JinjaFunction("strftime_now", ([format]) =>
+      strftime(opts.now ?? new Date(), stringify(format)),
+    ),
+    dict: new JinjaFunction("dict", ([initial], kwargs) => ({
+      ...(isPlainObject(initial) ? initial : {}),
+      ...kwargs,
+    })),
+  };
+}
+
+function evaluateBinary(operator: string, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case "==":
+      return isEqual(left, right);
+    case "!=":
+      return !isEqual(left, right);
+    case "<":
+      return compareValues(left, right) < 0;
+    case ">":
+      return compareValues(left, right) > 0;
+    case "<=":
+      return compareValues(left, right) <= 0;
+    case ">=":
+      return compareValues(left, right) >= 0;
+    case "in":
+      return containsValue(right, left);
+    case "not in":
+      return !containsValue(right, left);
+    case "~":
+      return stringify(left) + stringify(right);
+    case "+":
+      if (typeof left === "string" && typeof right === "string") {
+        return left + right;
+      }
+      if (Array.isArray(left) && Array.isArray(right)) {
+        return [...left, ...right];
+      }
+      break;
+    case "*":
+      if (typeof left === "string" && typeof right === "number") {
+        return left.repeat(Math.max(right, 0));
+      }
+      if (Array.isArray(left) && typeof right === "number") {
+        return Array.from({ length: Math.max(right, 0) }, () => left).flat();
+      }
+      break;
+  }
+  if (typeof left !== "number" || typeof right !== "number") {
+    throw new Error(
+      `Unsupported operand types for ${operator}: ${typeNameOf(left)} and ${typeNameOf(right)}`,
+    );
+  }
+  if ((operator === "/" || operator === "//" || operator === "%") && right === 0) {
+    throw new Error("Division by zero");
+  }
+  switch (operator) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return left / right;
+    case "//":
+      return Math.floor(left / right);
+    case "%":
+      return ((left % right) + right) % right;
+    case "**":
+      return left ** right;
+  }
+  throw new Error(`Unknown operator "${operator}"`);
+}
+
+/**
+ * Renders a parsed template. A new interpreter is used for every render.
+ */
+class JinjaInterpreter {
+  public constructor(private readonly opts: JinjaRenderOpts) {}
+
+  public render(nodes: Array<JinjaNode>, variables: Record<string, unknown>) {
+    const globalScope = new Scope(null);
+    for (const [name, value] of Object.entries(createGlobals(this.opts))) {
+      globalScope.set(name, value);
+    }
+    const scope = globalScope.child();
+    for (const [name, value] of Object.entries(variables)) {
+      scope.set(name, value);
+    }
+    const output: Array<string> = [];
+    this.renderNodes(nodes, scope, output);
+    return output.join("");
+  }
+
+  public applyFilter(
+    name: string,
+    value: unknown,
+    args: Array<unknown>,
+    kwargs: Record<string, unknown>,
+  ) {
+    const filter = filters[name];
+    if (filter === undefined) {
+      throw new Error(`Unknown filter "${name}"`);
+    }
+    return filter(this, value, args, kwargs);
+  }
+
+  private evaluateAt(expression: JinjaExpression, scope: Scope, line: number) {
+    try {
+      return this.evaluate(expression, scope);
+    } catch (error: any) {
+      if (error instanceof JinjaLocatedError || error instanceof JinjaRaisedError) {
+        throw error;
+      }
+      throw new JinjaLocatedError(`${error.message} (at line ${line})`);
+    }
+  }
+
+  private renderNodes(nodes: Array<JinjaNode>, scope: Scope, output: Array<string>) {
+    for (const node of nodes) {
+      this.renderNode(node, scope, output);
+    }
+  }
+
+  private renderNode(node: JinjaNode, scope: Scope, output: Array<string>) {
+    switch (node.type) {
+      case "text":
+        output.push(node.value);
+        return;
+      case "output":
+        output.push(stringify(this.evaluateAt(node.expression, scope, node.line)));
+        return;
+      case "if": {
+        for (const branch of node.branches) {
+          if (isTruthy(this.evaluate(branch.condition, scope))) {
+            this.renderNodes(branch.body, scope, output);
+            return;
+          }
+        }
+        this.renderNodes(node.otherwise, scope, output);
+        return;
+      }
+      case "for":
+        this.renderFor(node, scope, output);
+        return;
+      case "set":
+        this.assign(node.target, this.evaluateAt(node.value, scope, node.line), scope);
+        return;
+      case "setBlock": {
+        const body: Array<string> = [];
+        this.renderNodes(node.body, scope, body);
+        this.assign(node.target, body.join(""), scope);
+        return;
+      }
+      case "macro":
+        scope.set(node.name, this.createMacro(node, scope));
+        return;
+      case "filterBlock": {
+        const body: Array<string> = [];
+        this.renderNodes(node.body, scope, body);
+        const { args, kwargs } = this.evaluateArguments(node.args, scope);
+        output.push(stringify(this.applyFilter(node.name, body.join(""), args, kwargs)));
+        return;
+      }
+      case "break":
+        throw new BreakSignal();
+      case "continue":
+        throw new ContinueSignal();
+    }
+  }
+
+  private renderFor(
+    node: Extract<JinjaNode, { type: "for" }>,
+    scope: Scope,
+    output: Array<string>,
+  ) {
+    let items = toIterable(this.evaluateAt(node.iterable, scope, node.line));
+    const bindTargets = (loopScope: Scope, item: unknown) => {
+      if (node.targets.length === 1) {
+        loopScope.set(node.targets[0], item);
+        return;
+      }
+      const values = toIterable(item);
+      if (values.length !== node.targets.length) {
+        throw new JinjaLocatedError(
+          `Cannot unpack ${values.length} values into ${node.targets.length} names ` +
+            `(at line ${node.line})`,
+        );
+      }
+      node.targets.forEach((target, index) => loopScope.set(target, values[index]));
+    };
+    if (node.filter !== null) {
+      items = items.filter(item => {
+        const filterScope = scope.child();
+        bindTargets(filterScope, item);
+        return isTruthy(this.evaluate(node.filter!, filterScope));
+      });
+    }
+    if (items.length === 0) {
+      this.renderNodes(node.otherwise, scope, output);
+      return;
+    }
+    for (let index = 0; index < items.length; index++) {
+      const loopScope = scope.child();
+      bindTargets(loopScope, items[index]);
+      loopScope.set("loop", {
+        index: index + 1,
+        index0: index,
+        revindex: items.length - index,
+        revindex0: items.length - index - 1,
+        first: index === 0,
+        last: index === items.length - 1,
+        length: items.length,
+        previtem: items[index - 1],
+        nextitem: items[index + 1],
+        cycle: new JinjaFunction("cycle", args => args[index % args.length]),
+      });
+      try {
+        this.renderNodes(node.body, loopScope, output);
+      } catch (error) {
+        if (error instanceof BreakSignal) {
+          break;
+        }
+        if (!(error instanceof ContinueSignal)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private assign(target: JinjaSetTarget, value: unknown, scope: Scope) {
+    if (target.type === "name") {
+      scope.set(target.name, value);
+      return;
+    }
+    const object = scope.get(target.object);
+    if (!(object instanceof JinjaNamespace)) {
+      throw new Error(`Cannot assign attribute "${target.name}" on non-namespace object`);
+    }
+    object.values[target.name] = value;
+  }
+
+  private createMacro(node: Extract<JinjaNode, { type: "macro" }>, definitionScope: Scope) {
+    return new JinjaFunction(node.name, (args, kwargs) => {
+      const macroScope = definitionScope.child();
+      node.params.forEach((param, index) => {
+        let value: unknown;
+        if (param.name in kwargs) {
+          value = kwargs[param.name];
+        } else if (index < args.length) {
+          value = args[index];
+        } else if (param.defaultValue !== null) {
+          value = this.evaluate(param.defaultValue, macroScope);
+        }
+        macroScope.set(param.name, value);
+      });
+      const output: Array<string> = [];
+      this.renderNodes(node.body, macroScope, output);
+      return output.join("");
+    });
+  }
+
+  private evaluateArguments(args: JinjaArguments, scope: Scope) {
+    return {
+      args: args.positional.map(arg => this.evaluate(arg, scope)),
+      kwargs: Object.fromEntries(
+        args.keyword.map(([name, value]) => [name, this.evaluate(value, scope)]),
+      ),
+    };
+  }
+
+  private evaluate(expression: JinjaExpression, scope: Scope): unknown {
+    switch (expression.type) {
+      case "literal":
+        return expression.value;
+      case "name":
+        return scope.get(expression.name);
+      case "list":
+      case "tuple":
+        return expression.items.map(item => this.evaluate(item, scope));
+      case "dict":
+        return Object.fromEntries(
+          expression.entries.map(([key, value]) => [
+            stringify(this.evaluate(key, scope)),
+            this.evaluate(value, scope),
+          ]),
+        );
+      case "attribute":
+        return getAttribute(this.evaluate(expression.object, scope), expression.name);
+      case "subscript":
+        return getItem(
+          this.evaluate(expression.object, scope),
+          this.evaluate(expression.index, scope),
+        );
+      case "slice":
+        return sliceOf(
+          this.evaluate(expression.object, scope),
+          expression.start === null ? null : this.evaluate(expression.start, scope),
+          expression.stop === null ? null : this.evaluate(expression.stop, scope),
+          expression.step === null ? null : this.evaluate(expression.step, scope),
+        );
+      case "call": {
+        const callee = this.evaluate(expression.callee, scope);
+        if (!(callee instanceof JinjaFunction)) {
+          throw new Error(`${describeCallee(expression.callee)} is not callable`);
+        }
+        const { args, kwargs } = this.evaluateArguments(expression.args, scope);
+        return callee.call(args, kwargs);
+      }
+      case "filter": {
+        const { args, kwargs } = this.evaluateArguments(expression.args, scope);
+        return this.applyFilter(
+          expression.name,
+          this.evaluate(expression.value, scope),
+          args,
+          kwargs,
+        );
+      }
+      case "test": {
+        const { args } = this.evaluateArguments(expression.args, scope);
+        const result = applyTest(expression.name, this.evaluate(expression.value, scope), args);
+        return expression.negated ? !result : result;
+      }
+      case "unary": {
+        const operand = this.evaluate(expression.operand, scope);
+        if (expression.operator === "not") {
+          return !isTruthy(operand);
+        }
+        if (typeof operand !== "number") {
+          throw new Error(`Bad operand type for unary ${expression.operator}`);
+        }
+        return expression.operator === "-" ? -operand : operand;
+      }
+      case "binary": {
+        const left = this.evaluate(expression.left, scope);
+        if (expression.operator === "and") {
+          return isTruthy(left) ? this.evaluate(expression.right, scope) : left;
+        }
+        if (expression.operator === "or") {
+          return isTruthy(left) ? left : this.evaluate(expression.right, scope);
+        }
+        return evaluateBinary(expression.operator, left, this.evaluate(expression.right, scope));
+      }
+      case "conditional":
+        if (isTruthy(this.evaluate(expression.condition, scope))) {
+          return this.evaluate(expression.then, scope);
+        }
+        return expression.otherwise === null
+          ? undefined
+          : this.evaluate(expression.otherwise, scope);
+    }
+  }
+}
+
+function describeCallee(expression: JinjaExpression): string {
+  switch (expression.type) {
+    case "name":
+      return `"${expression.name}"`;
+    case "attribute":
+      return `"${expression.name}"`;
+    default:
+      return "The expression";
+  }
+}
+
+/**
+ * Renders a Jinja template with the given variables.
+ *
+ * Only the subset of Jinja used by chat templates is supported. The template is rendered with
+ * `trim_blocks` and `lstrip_blocks`, and `tojson` keeps the order of keys, to match how Hugging Face
+ * transformers renders chat templates.
+ */
+export function renderJinjaTemplate(
+  source: string,
+  variables: Record<string, unknown>,
+  opts: JinjaRenderOpts = {},
+): string {
+  return new JinjaInterpreter(opts).render(parseJinjaTemplate(source), variables);
+}
@@ -0,0 +1,868 @@
+/**
+ * Expressions of the supported Jinja subset.
+ */
+export type JinjaExpression =
+  | { type: "literal"; value: unknown }
+  | { type: "name"; name: string }
+  | { type: "list"; items: Array<JinjaExpression> }
+  | { type: "tuple"; items: Array<JinjaExpression> }
+  | { type: "dict"; entries: Array<[JinjaExpression, JinjaExpression]> }
+  | { type: "attribute"; object: JinjaExpression; name: string }
+  | { type: "subscript"; object: JinjaExpression; index: JinjaExpression }
+  | {
+      type: "slice";
+      object: JinjaExpression;
+      start: JinjaExpression | null;
+      stop: JinjaExpression | null;
+      step: JinjaExpression | null;
+    }
+  | { type: "call"; callee: JinjaExpression; args: JinjaArguments }
+  | { type: "filter"; value: JinjaExpression; name: string; args: JinjaArguments }
+  | { type: "test"; value: JinjaExpression; name: string; args: JinjaArguments; negated: boolean }
+  | { type: "unary"; operator: "not" | "-" | "+"; operand: JinjaExpression }
+  | { type: "binary"; operator: string; left: JinjaExpression; right: JinjaExpression }
+  | {
+      type: "conditional";
+      condition: JinjaExpression;
+      then: JinjaExpression;
+      otherwise: JinjaExpression | null;
+    };
+
+export interface JinjaArguments {
+  positional: Array<JinjaExpression>;
+  keyword: Array<[name: string, value: JinjaExpression]>;
+}
+
+export type JinjaSetTarget =
+  | { type: "name"; name: string }
+  | { type: "attribute"; object: string; name: string };
+
+/**
+ * Statements of the supported Jinja subset.
+ */
+export type JinjaNode =
+  | { type: "text"; value: string }
+  | { type: "output"; expression: JinjaExpression; line: number }
+  | {
+      type: "if";
+      branches: Array<{ condition: JinjaExpression; body: Array<JinjaNode> }>;
+      otherwise: Array<JinjaNode>;
+    }
+  | {
+      type: "for";
+      targets: Array<string>;
+      iterable: JinjaExpression;
+      filter: JinjaExpression | null;
+      body: Array<JinjaNode>;
+      otherwise: Array<JinjaNode>;
+      line: number;
+    }
+  | { type: "set"; target: JinjaSetTarget; value: JinjaExpression; line: number }
+  | { type: "setBlock"; target: JinjaSetTarget; body: Array<JinjaNode> }
+  | {
+      type: "macro";
+      name: string;
+      params: Array<{ name: string; defaultValue: JinjaExpression | null }>;
+      body: Array<JinjaNode>;
+    }
+  | { type: "filterBlock"; name: string; args: JinjaArguments; body: Array<JinjaNode> }
+  | { type: "break" }
+  | { type: "continue" };
+
+interface Token {
+  type: "name" | "number" | "string" | "operator";
+  value: string;
+}
+
+type Segment =
+  | { type: "text"; value: string }
+  | {
+      type: "output" | "statement" | "comment";
+      content: string;
+      line: number;
+      stripBefore: boolean;
+      stripAfter: boolean;
+      keepBefore: boolean;
+    };
+
+function lineOf(source: string, index: number) {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (source[i] === "\n") {
+      line++;
+    }
+  }
+  return line;
+}
+
+/**
+ * Splits a template into text and tags. Like the templates in Hugging Face transformers, the
+ * template is processed with `trim_blocks` and `lstrip_blocks` enabled.
+ */
+function splitSegments(source: string): Array<Segment> {
+  const segments: Array<Segment> = [];
+  const tagStart = /\{([{%#])/g;
+  let position = 0;
+  while (position < source.length) {
+    tagStart.lastIndex = position;
+    const match = tagStart.exec(source);
+    if (match === null) {
+      segments.push({ type: "text", value: source.slice(position) });
+      break;
+    }
+    if (match.index > position) {
+      segments.push({ type: "text", value: source.slice(position, match.index) });
+    }
+    const kind = match[1];
+    const closing = kind === "{" ? "}}" : kind === "%" ? "%}" : "#}";
+    let contentStart = match.index + 2;
+    const stripBefore = source[contentStart] === "-";
+    const keepBefore = source[contentStart] === "+";
+    if (stripBefore || keepBefore) {
+      contentStart++;
+    }
+    const end = findTagEnd(source, contentStart, closing, kind === "#");
+    if (end === -1) {
+      throw new Error(`Unclosed tag at line ${lineOf(source, match.index)}`);
+    }
+    let contentEnd = end;
+    const stripAfter = source[end - 1] === "-" && end - 1 >= contentStart;
+    if (stripAfter || (source[end - 1] === "+" && end - 1 >= contentStart)) {
+      contentEnd--;
+    }
+    const content = source.slice(contentStart, contentEnd);
+    const line = lineOf(source, match.index);
+    position = end + 2;
+    const isRaw = kind === "%" && /^\s*raw\s*$/.test(content);
+    // The raw tag itself is handled like a comment.
+    const type = kind === "{" ? "output" : kind === "%" && !isRaw ? "statement" : "comment";
+    segments.push({ type, content, line, stripBefore, stripAfter, keepBefore });
+    if (isRaw) {
+      // Everything until endraw is text.
+      const endRaw = /\{%([-+]?)\s*endraw\s*(-?)%\}/g;
+      endRaw.lastIndex = position;
+      const endMatch = endRaw.exec(source);
+      if (endMatch === null) {
+        throw new Error(`Unclosed raw block at line ${line}`);
+      }
+      segments.push({ type: "text", value: source.slice(position, endMatch.index) });
+      segments.push({
+        type: "comment",
+        content: "",
+        line: lineOf(source, endMatch.index),
+        stripBefore: endMatch[1] === "-",
+        stripAfter: endMatch[2] === "-",
+        keepBefore: endMatch[1] === "+",
+      });
+      position = endMatch.index + endMatch[0].length;
+    }
+  }
+  return applyWhitespaceControl(segments);
+}
+
+/**
+ * Finds the end of a tag, skipping over string literals in the tag.
+ */
+function findTagEnd(source: string, start: number, closing: string, isComment: boolean) {
+  if (isComment) {
+    return source.indexOf(closing, start);
+  }
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote !== null) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (source.startsWith(closing, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function applyWhitespaceControl(segments: Array<Segment>) {
+  return segments.map((segment, index) => {
+    if (segment.type !== "text") {
+      return segment;
+    }
+    let value = segment.value;
+    const previous = segments[index - 1];
+    const next = segments[index + 1];
+    if (previous !== undefined && previous.type !== "text") {
+      if (previous.stripAfter) {
+        value = value.replace(/^\s+/, "");
+      } else if (previous.type !== "output") {
+        // trim_blocks
+        value = value.replace(/^\r?\n/, "");
+      }
+    }
+    if (next !== undefined && next.type !== "text") {
+      if (next.stripBefore) {
+        value = value.replace(/\s+$/, "");
+      } else if (next.type !== "output" && !next.keepBefore) {
+        // lstrip_blocks
+        const lineStart = value.lastIndexOf("\n") + 1;
+        const atTemplateStart = index === 0 || lineStart > 0;
+        if (atTemplateStart && /^[ \t]*$/.test(value.slice(lineStart))) {
+          value = value.slice(0, lineStart);
+        }
+      }
+    }
+    return { type: "text", value } satisfies Segment;
+  });
+}
+
+const operators = [
+  "**",
+  "//",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "~",
+  "|",
+  ".",
+  ",",
+  ":",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  "=",
+];
+
+const stringEscapes: Record<string, string> = {
+  "n": "\n",
+  "t": "\t",
+  "r": "\r",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+function tokenize(content: string, line: number): Array<Token> {
+  const tokens: Array<Token> = [];
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = "";
+      i++;
+      while (i < content.length && content[i] !== char) {
+        if (content[i] === "\\" && i + 1 < content.length) {
+          const escaped = content[i + 1];
+          value += stringEscapes[escaped] ?? `\\${escaped}`;
+          i += 2;
+        } else {
+          value += content[i++];
+        }
+      }
+      if (i >= content.length) {
+        throw new Error(`Unterminated string at line ${line}`);
+      }
+      i++;
+      tokens.push({ type: "string", value });
+      continue;
+    }
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(content.slice(i));
+    if (number !== null) {
+      tokens.push({ type: "number", value: number[0] });
+      i += number[0].length;
+      continue;
+    }
+    const name = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(content.slice(i));
+    if (name !== null) {
+      tokens.push({ type: "name", value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    const operator = operators.find(candidate => content.startsWith(candidate, i));
+    if (operator === undefined) {
+      throw new Error(`Unexpected character "${char}" at line ${line}`);
+    }
+    tokens.push({ type: "operator", value: operator });
+    i += operator.length;
+  }
+  return tokens;
+}
+
+const compareOperators = ["==", "!=", "<", ">", "<=", ">="];
+/**
+ * Names that end a test without parentheses, such as `x is defined and y`.
+ */
+const testArgumentTerminators = ["and", "or", "else", "if", "is", "in", "not"];
+
+/**
+ * Parses the tokens of a single tag.
+ */
+class TagParser {
+  private index = 0;
+
+  public constructor(
+    private readonly tokens: Array<Token>,
+    public readonly line: number,
+  ) {}
+
+  public error(message: string) {
+    return new Error(`${message} at line ${this.line}`);
+  }
+
+  public peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  public isAtEnd() {
+    return this.index >= this.tokens.length;
+  }
+
+  public isName(value: string, offset = 0) {
+    const token = this.peek(offset);
+    return token?.type === "name" && token.value === value;
+  }
+
+  public isOperator(value: string, offset = 0) {
+    const token = this.peek(offset);
+    return token?.type === "operator" && token.value === value;
+  }
+
+  public next(): Token {
+    const token = this.tokens[this.index++];
+    if (token === undefined) {
+      throw this.error("Unexpected end of tag");
+    }
+    return token;
+  }
+
+  public expectOperator(value: string) {
+    const token = this.next();
+    if (token.type !== "operator" || token.value !== value) {
+      throw this.error(`Expected "${value}" but got "${token.value}"`);
+    }
+  }
+
+  public expectName(value?: string) {
+    const token = this.next();
+    if (token.type !== "name" || (value !== undefined && token.value !== value)) {
+      throw this.error(`Expected ${value ?? "a name"} but got "${token.value}"`);
+    }
+    return token.value;
+  }
+
+  public expectEnd() {
+    if (!this.isAtEnd()) {
+      throw this.error(`Unexpected "${this.peek()!.value}"`);
+    }
+  }
+
+  public parseExpression(allowConditional = true): JinjaExpression {
+    const expression = this.parseOr();
+    if (allowConditional && this.isName("if")) {
+      this.next();
+      const condition = this.parseOr();
+      let otherwise: JinjaExpression | null = null;
+      if (this.isName("else")) {
+        this.next();
+        otherwise = this.parseExpression();
+      }
+      return { type: "conditional", condition, then: expression, otherwise };
+    }
+    return expression;
+  }
+
+  /**
+   * Parses an expression that may be an unparenthesized tuple, such as `a, b`.
+   */
+  public parseTupleOrExpression(allowConditional = true): JinjaExpression {
+    const first = this.parseExpression(allowConditional);
+    if (!this.isOperator(",")) {
+      return first;
+    }
+    const items = [first];
+    while (this.isOperator(",")) {
+      this.next();
+      if (this.isAtEnd()) {
+        break;
+      }
+      items.push(this.parseExpression(allowConditional));
+    }
+    return { type: "tuple", items };
+  }
+
+  private parseOr(): JinjaExpression {
+    let left = this.parseAnd();
+    while (this.isName("or")) {
+      this.next();
+      left = { type: "binary", operator: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): JinjaExpression {
+    let left = this.parseNot();
+    while (this.isName("and")) {
+      this.next();
+      left = { type: "binary", operator: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): JinjaExpression {
+    if (this.isName("not")) {
+      this.next();
+      return { type: "unary", operator: "not", operand: this.parseNot() };
+    }
+    return this.parseCompare();
+  }
+
+  private parseCompare(): JinjaExpression {
+    let left = this.parseMath1();
+    for (;;) {
+      const token = this.peek();
+      if (token?.type === "operator" && compareOperators.includes(token.value)) {
+        this.next();
+        left = { type: "binary", operator: token.value, left, right: this.parseMath1() };
+      } else if (this.isName("in")) {
+        this.next();
+        left = { type: "binary", operator: "in", left, right: this.parseMath1() };
+      } else if (this.isName("not") && this.isName("in", 1)) {
+        this.next();
+        this.next();
+        left = { type: "binary", operator: "not in", left, right: this.parseMath1() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseMath1(): JinjaExpression {
+    let left = this.parseConcat();
+    while (this.isOperator("+") || this.isOperator("-")) {
+      const operator = this.next().value;
+      left = { type: "binary", operator, left, right: this.parseConcat() };
+    }
+    return left;
+  }
+
+  private parseConcat(): JinjaExpression {
+    let left = this.parseMath2();
+    while (this.isOperator("~")) {
+      this.next();
+      left = { type: "binary", operator: "~", left, right: this.parseMath2() };
+    }
+    return left;
+  }
+
+  private parseMath2(): JinjaExpression {
+    let left = this.parsePow();
+    while (
+      this.isOperator("*") ||
+      this.isOperator("/") ||
+      this.isOperator("//") ||
+      this.isOperator("%")
+    ) {
+      const operator = this.next().value;
+      left = { type: "binary", operator, left, right: this.parsePow() };
+    }
+    return left;
+  }
+
+  private parsePow(): JinjaExpression {
+    let left = this.parseUnary();
+    while (this.isOperator("**")) {
+      this.next();
+      left = { type: "binary", operator: "**", left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): JinjaExpression {
+    if (this.isOperator("-") || this.isOperator("+")) {
+      const operator = this.next().value as "-" | "+";
+      return { type: "unary", operator, operand: this.parseUnary() };
+    }
+    let expression = this.parsePostfix(this.parsePrimary());
+    for (;;) {
+      if (this.isOperator("|")) {
+        this.next();
+        const name = this.expectName();
+        const args = this.isOperator("(") ? this.parseArguments() : emptyArguments();
+        expression = { type: "filter", value: expression, name, args };
+      } else if (this.isName("is")) {
+        this.next();
+        let negated = false;
+        if (this.isName("not")) {
+          this.next();
+          negated = true;
+        }
+        const name = this.expectName();
+        let args = emptyArguments();
+        if (this.isOperator("(")) {
+          args = this.parseArguments();
+        } else if (this.startsTestArgument()) {
+          args = { positional: [this.parsePostfix(this.parsePrimary())], keyword: [] };
+        }
+        expression = { type: "test", value: expression, name, args, negated };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private startsTestArgument() {
+    const token = this.peek();
+    if (token === undefined) {
+      return false;
+    }
+    if (token.type === "name") {
+      return !testArgumentTerminators.includes(token.value);
+    }
+    return token.type === "number" || token.type === "string" || token.value === "[";
+  }
+
+  private parsePostfix(expression: JinjaExpression): JinjaExpression {
+    for (;;) {
+      if (this.isOperator(".")) {
+        this.next();
+        const token = this.next();
+        if (token.type === "number") {
+          expression = {
+            type: "subscript",
+            object: expression,
+            index: { type: "literal", value: Number(token.value) },
+          };
+        } else if (token.type === "name") {
+          expression = { type: "attribute", object: expression, name: token.value };
+        } else {
+          throw this.error(`Unexpected "${token.value}" after "."`);
+        }
+      } else if (this.isOperator("[")) {
+        this.next();
+        expression = this.parseSubscript(expression);
+      } else if (this.isOperator("(")) {
+        expression = { type: "call", callee: expression, args: this.parseArguments() };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseSubscript(object: JinjaExpression): JinjaExpression {
+    const parts: Array<JinjaExpression | null> = [null];
+    let isSlice = false;
+    while (!this.isOperator("]")) {
+      if (this.isOperator(":")) {
+        this.next();
+        isSlice = true;
+        parts.push(null);
+      } else {
+        parts[parts.length - 1] = this.parseExpression();
+      }
+    }
+    this.next();
+    if (!isSlice) {
+      if (parts[0] === null) {
+        throw this.error("Empty subscript");
+      }
+      return { type: "subscript", object, index: parts[0] };
+    }
+    if (parts.length > 3) {
+      throw this.error("Too many colons in slice");
+    }
+    return {
+      type: "slice",
+      object,
+      start: parts[0] ?? null,
+      stop: parts[1] ?? null,
+      step: parts[2] ?? null,
+    };
+  }
+
+  public parseArguments(): JinjaArguments {
+    this.expectOperator("(");
+    const args = emptyArguments();
+    while (!this.isOperator(")")) {
+      if (this.peek()?.type === "name" && this.isOperator("=", 1)) {
+        const name = this.next().value;
+        this.next();
+        args.keyword.push([name, this.parseExpression()]);
+      } else {
+        args.positional.push(this.parseExpression());
+      }
+      if (!this.isOperator(")")) {
+        this.expectOperator(",");
+      }
+    }
+    this.next();
+    return args;
+  }
+
+  private parsePrimary(): JinjaExpression {
+    const token = this.next();
+    switch (token.type) {
+      case "number":
+        return { type: "literal", value: Number(token.value) };
+      case "string": {
+        let value = token.value;
+        // Adjacent string literals are concatenated.
+        while (this.peek()?.type === "string") {
+          value += this.next().value;
+        }
+        return { type: "literal", value };
+      }
+      case "name":
+        switch (token.value) {
+          case "true":
+          case "True":
+            return { type: "literal", value: true };
+          case "false":
+          case "False":
+            return { type: "literal", value: false };
+          case "none":
+          case "None":
+            return { type: "literal", value: null };
+          default:
+            return { type: "name", name: token.value };
+        }
+    }
+    switch (token.value) {
+      case "(": {
+        if (this.isOperator(")")) {
+          this.next();
+          return { type: "tuple", items: [] };
+        }
+        const expression = this.parseTupleOrExpression();
+        this.expectOperator(")");
+        return expression;
+      }
+      case "[": {
+        const items: Array<JinjaExpression> = [];
+        while (!this.isOperator("]")) {
+          items.push(this.parseExpression());
+          if (!this.isOperator("]")) {
+            this.expectOperator(",");
+          }
+        }
+        this.next();
+        return { type: "list", items };
+      }
+      case "{": {
+        const entries: Array<[JinjaExpression, JinjaExpression]> = [];
+        while (!this.isOperator("}")) {
+          const key = this.parseExpression();
+          this.expectOperator(":");
+          entries.push([key, this.parseExpression()]);
+          if (!this.isOperator("}")) {
+            this.expectOperator(",");
+          }
+        }
+        this.next();
+        return { type: "dict", entries };
+      }
+    }
+    throw this.error(`Unexpected "${token.value}"`);
+  }
+}
+
+function emptyArguments(): JinjaArguments {
+  return { positional: [], keyword: [] };
+}
+
+/**
+ * Parses the segments of a template into nodes.
+ */
+class TemplateParser {
+  private index = 0;
+
+  public constructor(private readonly segments: Array<Segment>) {}
+
+  public parse() {
+    const { body, end } = this.parseBody([]);
+    if (end !== null) {
+      throw end.parser.error(`Unexpected "${end.keyword}"`);
+    }
+    return body;
+  }
+
+  /**
+   * Parses nodes until a statement that starts with one of the given keywords. Returns that
+   * statement's parser, positioned after the keyword.
+   */
+  private parseBody(endKeywords: Array<string>): {
+    body: Array<JinjaNode>;
+    end: { keyword: string; parser: TagParser } | null;
+  } {
+    const body: Array<JinjaNode> = [];
+    while (this.index < this.segments.length) {
+      const segment = this.segments[this.index++];
+      switch (segment.type) {
+        case "text":
+          if (segment.value !== "") {
+            body.push({ type: "text", value: segment.value });
+          }
+          break;
+        case "comment":
+          break;
+        case "output": {
+          const parser = new TagParser(tokenize(segment.content, segment.line), segment.line);
+          const expression = parser.parseTupleOrExpression();
+          parser.expectEnd();
+          body.push({ type: "output", expression, line: segment.line });
+          break;
+        }
+        case "statement": {
+          const parser = new TagParser(tokenize(segment.content, segment.line), segment.line);
+          const keyword = parser.expectName();
+          if (endKeywords.includes(keyword)) {
+            return { body, end: { keyword, parser } };
+          }
+          body.push(this.parseStatement(keyword, parser));
+          break;
+        }
+      }
+    }
+    if (endKeywords.length > 0) {
+      throw new Error(`Missing "${endKeywords.at(-1)}" at the end of the template`);
+    }
+    return { body, end: null };
+  }
+
+  private parseStatement(keyword: string, parser: TagParser): JinjaNode {
+    switch (keyword) {
+      case "if":
+        return this.parseIf(parser);
+      case "for":
+        return this.parseFor(parser);
+      case "set":
+        return this.parseSet(parser);
+      case "macro":
+        return this.parseMacro(parser);
+      case "filter": {
+        const name = parser.expectName();
+        const args = parser.isOperator("(") ? parser.parseArguments() : emptyArguments();
+        parser.expectEnd();
+        const { body } = this.parseBody(["endfilter"]);
+        return { type: "filterBlock", name, args, body };
+      }
+      case "generation": {
+        // Used by some templates to mark the assistant output. It does not affect rendering.
+        parser.expectEnd();
+        const { body } = this.parseBody(["endgeneration"]);
+        return { type: "if", branches: [], otherwise: body };
+      }
+      case "break":
+      case "continue":
+        parser.expectEnd();
+        return { type: keyword };
+      default:
+        throw parser.error(`Unknown statement "${keyword}"`);
+    }
+  }
+
+  private parseIf(parser: TagParser): JinjaNode {
+    const branches: Array<{ condition: JinjaExpression; body: Array<JinjaNode> }> = [];
+    let condition = parser.parseExpression();
+    parser.expectEnd();
+    for (;;) {
+      const { body, end } = this.parseBody(["elif", "else", "endif"]);
+      branches.push({ condition, body });
+      if (end!.keyword === "elif") {
+        condition = end!.parser.parseExpression();
+        end!.parser.expectEnd();
+        continue;
+      }
+      end!.parser.expectEnd();
+      if (end!.keyword === "else") {
+        const { body: otherwise } = this.parseBody(["endif"]);
+        return { type: "if", branches, otherwise };
+      }
+      return { type: "if", branches, otherwise: [] };
+    }
+  }
+
+  private parseFor(parser: TagParser): JinjaNode {
+    const targets = [parser.expectName()];
+    while (parser.isOperator(",")) {
+      parser.next();
+      targets.push(parser.expectName());
+    }
+    parser.expectName("in");
+    const iterable = parser.parseExpression(false);
+    let filter: JinjaExpression | null = null;
+    if (parser.isName("if")) {
+      parser.next();
+      filter = parser.parseExpression(false);
+    }
+    parser.expectEnd();
+    const { body, end } = this.parseBody(["else", "endfor"]);
+    end!.parser.expectEnd();
+    let otherwise: Array<JinjaNode> = [];
+    if (end!.keyword === "else") {
+      otherwise = this.parseBody(["endfor"]).body;
+    }
+    return { type: "for", targets, iterable, filter, body, otherwise, line: parser.line };
+  }
+
+  private parseSet(parser: TagParser): JinjaNode {
+    const name = parser.expectName();
+    let target: JinjaSetTarget = { type: "name", name };
+    if (parser.isOperator(".")) {
+      parser.next();
+      target = { type: "attribute", object: name, name: parser.expectName() };
+    }
+    if (parser.isAtEnd()) {
+      const { body } = this.parseBody(["endset"]);
+      return { type: "setBlock", target, body };
+    }
+    parser.expectOperator("=");
+    const value = parser.parseTupleOrExpression();
+    parser.expectEnd();
+    return { type: "set", target, value, line: parser.line };
+  }
+
+  private parseMacro(parser: TagParser): JinjaNode {
+    const name = parser.expectName();
+    const params: Array<{ name: string; defaultValue: JinjaExpression | null }> = [];
+    parser.expectOperator("(");
+    while (!parser.isOperator(")")) {
+      const paramName = parser.expectName();
+      let defaultValue: JinjaExpression | null = null;
+      if (parser.isOperator("=")) {
+        parser.next();
+        defaultValue = parser.parseExpression();
+      }
+      params.push({ name: paramName, defaultValue });
+      if (!parser.isOperator(")")) {
+        parser.expectOperator(",");
+      }
+    }
+    parser.next();
+    parser.expectEnd();
+    const { body } = this.parseBody(["endmacro"]);
+    return { type: "macro", name, params, body };
+  }
+}
+
+/**
+ * Parses a Jinja template into nodes.
+ */
+export function parseJinjaTemplate(source: string): Array<JinjaNode> {
+  return new TemplateParser(splitSegments(source)).parse();
+}
@@ -0,0 +1,199 @@
+import { type LLMPromptTemplate } from "@lmstudio/lms-shared-types";
+import { Chat } from "../Chat.js";
+import { diffRenderedPrompts } from "./diffRenderedPrompts.js";
+import { renderPromptTemplate } from "./renderPromptTemplate.js";
+
+/**
+ * A simplified version of the Qwen 3 chat template.
+ */
+const chatMlTemplate: LLMPromptTemplate = {
+  type: "jinja",
+  jinjaPromptTemplate: {
+    template: [
+      "{{- bos_token }}",
+      "{%- if tools %}",
+      "{{- '<|im_start|>system\\n' }}",
+      "{%- if messages[0].role == 'system' %}{{- messages[0].content + '\\n\\n' }}{%- endif %}",
+      "{{- 'Tools:' }}",
+      "{%- for tool in tools %}{{- '\\n' + tool | tojson }}{%- endfor %}",
+      "{{- '<|im_end|>\\n' }}",
+      "{%- elif messages[0].role == 'system' %}",
+      "{{- '<|im_start|>system\\n' + messages[0].content + '<|im_end|>\\n' }}",
+      "{%- endif %}",
+      "{%- if persona is defined %}{{- '<|persona|>' + persona + '\\n' }}{%- endif %}",
+      "{%- for message in messages %}",
+      "{%- if message.role == 'user' %}",
+      "{{- '<|im_start|>user\\n' + message.content + '<|im_end|>\\n' }}",
+      "{%- elif message.role == 'assistant' %}",
+      "{{- '<|im_start|>assistant\\n' + message.content }}",
+      "{%- for tool_call in message.tool_calls | default([]) %}",
+      "{{- '<tool_call>' + tool_call.function.name + ' ' + tool_call.function.arguments | tojson }}",
+      "{{- '</tool_call>' }}",
+      "{%- endfor %}",
+      "{{- '<|im_end|>' + eos_token + '\\n' }}",
+      "{%- elif message.role == 'tool' %}",
+      "{{- '<|im_start|>tool ' + message.tool_call_id + '\\n' + message.content }}",
+      "{{- '<|im_end|>\\n' }}",
+      "{%- endif %}",
+      "{%- endfor %}",
+      "{%- if add_generation_prompt %}",
+      "{{- '<|im_start|>assistant\\n' }}",
+      "{%- if enable_thinking is defined and enable_thinking is false %}",
+      "{{- '<think>\\n\\n</think>\\n\\n' }}",
+      "{%- endif %}",
+      "{%- endif %}",
+    ].join("\n"),
+  },
+  stopStrings: [],
+};
+
+describe("renderPromptTemplate", () => {
+  test("renders a Jinja template with the chat template variables", () => {
+    const prompt = renderPromptTemplate(
+      chatMlTemplate,
+      [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+      { bosToken: "<s>", enableThinking: false },
+    );
+
+    expect(prompt).toBe(
+      "<s><|im_start|>system\nBe brief.<|im_end|>\n" +
+        "<|im_start|>user\nHi<|im_end|>\n" +
+        "<|im_start|>assistant\n<think>\n\n</think>\n\n",
+    );
+  });
+
+  test("renders tools, tool calls and tool results", () => {
+    const chat = Chat.from([{ role: "user", content: "Weather?" }]);
+    chat.append({
+      role: "assistant",
+      content: [
+        {
+          type: "toolCallRequest",
+          toolCallRequest: {
+            id: "call-1",
+            type: "function",
+            name: "getWeather",
+            arguments: { city: "Paris" },
+          },
+        },
+      ],
+    });
+    chat.append({
+      role: "tool",
+      content: [{ type: "toolCallResult", content: "Sunny", toolCallId: "call-1" }],
+    });
+
+    const prompt = renderPromptTemplate(chatMlTemplate, chat, {
+      eosToken: "</s>",
+      omitEosToken: true,
+      addGenerationPrompt: false,
+      toolDefinitions: [
+        {
+          type: "function",
+          function: { name: "getWeather", parameters: { type: "object", properties: {} } },
+        },
+      ],
+    });
+
+    expect(prompt).toBe(
+      "<|im_start|>system\nTools:\n" +
+        '{"type": "function", "function": {"name": "getWeather", "parameters": ' +
+        '{"type": "object", "properties": {}}}}<|im_end|>\n' +
+        "<|im_start|>user\nWeather?<|im_end|>\n" +
+        '<|im_start|>assistant\n<tool_call>getWeather {"city": "Paris"}</tool_call><|im_end|>\n' +
+        "<|im_start|>tool call-1\nSunny<|im_end|>\n",
+    );
+  });
+
+  test("applies the effects of virtual model custom fields", () => {
+    const prompt = renderPromptTemplate(chatMlTemplate, [{ role: "user", content: "Hi" }], {
+      customFields: [
+        {
+          key: "persona",
+          defaultValue: "pirate",
+          effects: [{ type: "setJinjaVariable", variable: "persona" }],
+        },
+        {
+          key: "concise",
+          defaultValue: false,
+          effects: [{ type: "appendSystemPrompt", content: "Answer in one line." }],
+        },
+      ],
+      customFieldValues: { concise: true },
+    });
+
+    expect(prompt).toBe(
+      "<|im_start|>system\nAnswer in one line.<|im_end|>\n" +
+        "<|persona|>pirate\n" +
+        "<|im_start|>user\nHi<|im_end|>\n" +
+        "<|im_start|>assistant\n",
+    );
+  });
+
+  test("renders a manual template", () => {
+    const prompt = renderPromptTemplate(
+      {
+        type: "manual",
+        manualPromptTemplate: {
+          beforeSystem: "[SYS]",
+          afterSystem: "[/SYS]\n",
+          beforeUser: "[INST]",
+          afterUser: "[/INST]\n",
+          beforeAssistant: "[ASSISTANT]",
+          afterAssistant: "\n",
+        },
+        stopStrings: [],
+      },
+      [
+        { role: "system", content: "Be kind." },
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Hi!" },
+        { role: "user", content: "Bye" },
+      ],
+    );
+
+    expect(prompt).toBe(
+      "[SYS]Be kind.[/SYS]\n[INST]Hello[/INST]\n[ASSISTANT]Hi!\n[INST]Bye[/INST]\n[ASSISTANT]",
+    );
+  });
+
+  test("reports template errors", () => {
+    expect(() =>
+      renderPromptTemplate(
+        {
+          type: "jinja",
+          jinjaPromptTemplate: { template: "{{ raise_exception('No user message') }}" },
+          stopStrings: [],
+        },
+        [],
+      ),
+    ).toThrow("No user message");
+  });
+});
+
+describe("diffRenderedPrompts", () => {
+  test("reports identical prompts", () => {
+    expect(diffRenderedPrompts("a\nb", "a\nb")).toMatchObject({
+      identical: true,
+      firstDifferenceIndex: -1,
+      formatted: "",
+    });
+  });
+
+  test("diffs prompts line by line", () => {
+    const diff = diffRenderedPrompts("<s>\nuser: hi\nassistant:", "user: hi \nassistant:");
+
+    expect(diff.identical).toBe(false);
+    expect(diff.firstDifferenceIndex).toBe(0);
+    expect(diff.lines).toEqual([
+      { type: "removed", text: "<s>" },
+      { type: "removed", text: "user: hi" },
+      { type: "added", text: "user: hi " },
+      { type: "equal", text: "assistant:" },
+    ]);
+    expect(diff.formatted).toBe("- <s>\n- user: hi\n+ user: hi \n  assistant:");
+  });
+});
@@ -0,0 +1,347 @@
+import {
+  accessMaybeMutableInternals,
+  getCurrentStack,
+  makeTitledPrettyError,
+  text,
+} from "@lmstudio/lms-common";
+import {
+  type ChatMessageData,
+  type LLMManualPromptTemplate,
+  type LLMPromptTemplate,
+  type LLMTool,
+  llmToolSchema,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { Chat, type ChatLike } from "../Chat.js";
+import { renderJinjaTemplate } from "./jinjaInterpreter.js";
+
+/**
+ * A custom field of a virtual model, as far as it affects the prompt template. The `customFields` of
+ * a virtual model definition can be passed as is.
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export interface RenderPromptTemplateCustomField {
+  key: string;
+  defaultValue: boolean | string | number;
+  effects: Array<
+    | { type: "setJinjaVariable"; variable: string }
+    | { type: "prependSystemPrompt"; content: string }
+    | { type: "appendSystemPrompt"; content: string }
+  >;
+}
+const renderPromptTemplateCustomFieldSchema = z.object({
+  key: z.string(),
+  defaultValue: z.union([z.boolean(), z.string(), z.number()]),
+  effects: z.array(
+    z.discriminatedUnion("type", [
+      z.object({ type: z.literal("setJinjaVariable"), variable: z.string() }),
+      z.object({ type: z.literal("prependSystemPrompt"), content: z.string() }),
+      z.object({ type: z.literal("appendSystemPrompt"), content: z.string() }),
+    ]),
+  ),
+});
+
+/**
+ * Options for {@link renderPromptTemplate}.
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export interface RenderPromptTemplateOpts {
+  /**
+   * Tool definitions available to the template as `tools`.
+   */
+  toolDefinitions?: Array<LLMTool>;
+  /**
+   * The value of the `bos_token` variable. Defaults to an empty string.
+   */
+  bosToken?: string;
+  /**
+   * The value of the `eos_token` variable. Defaults to an empty string.
+   */
+  eosToken?: string;
+  /**
+   * Whether to set `bos_token` to an empty string. Mirrors
+   * {@link LLMApplyPromptTemplateOpts#omitBosToken}.
+   *
+   * Default: false
+   */
+  omitBosToken?: boolean;
+  /**
+   * Whether to set `eos_token` to an empty string. Mirrors
+   * {@link LLMApplyPromptTemplateOpts#omitEosToken}.
+   *
+   * Default: false
+   */
+  omitEosToken?: boolean;
+  /**
+   * The value of the `enable_thinking` variable. The variable is left undefined if not set.
+   */
+  enableThinking?: boolean;
+  /**
+   * Whether to add the prompt for the next assistant message at the end.
+   *
+   * Default: true
+   */
+  addGenerationPrompt?: boolean;
+  /**
+   * The custom fields of a virtual model. Their `setJinjaVariable` effects set template variables,
+   * and the system prompt effects of enabled boolean fields modify the system prompt.
+   */
+  customFields?: Array<RenderPromptTemplateCustomField>;
+  /**
+   * The values of the custom fields, by key. Fields without a value use their default value.
+   */
+  customFieldValues?: Record<string, boolean | string | number>;
+  /**
+   * Additional template variables. They take precedence over all other variables.
+   */
+  variables?: Record<string, unknown>;
+  /**
+   * The time used by `strftime_now`. Defaults to the current time.
+   */
+  now?: Date;
+}
+export const renderPromptTemplateOptsSchema = z.object({
+  toolDefinitions: z.array(llmToolSchema).optional(),
+  bosToken: z.string().optional(),
+  eosToken: z.string().optional(),
+  omitBosToken: z.boolean().optional(),
+  omitEosToken: z.boolean().optional(),
+  enableThinking: z.boolean().optional(),
+  addGenerationPrompt: z.boolean().optional(),
+  customFields: z.array(renderPromptTemplateCustomFieldSchema).optional(),
+  customFieldValues: z.record(z.union([z.boolean(), z.string(), z.number()])).optional(),
+  variables: z.record(z.unknown()).optional(),
+  now: z.date().optional(),
+});
+
+/**
+ * Applies the system prompt effects of enabled boolean custom fields.
+ */
+function applySystemPromptEffects(
+  messages: Array<ChatMessageData>,
+  customFields: Array<RenderPromptTemplateCustomField>,
+  customFieldValues: Record<string, boolean | string | number>,
+) {
+  let prepended = "";
+  let appended = "";
+  for (const field of customFields) {
+    if ((customFieldValues[field.key] ?? field.defaultValue) !== true) {
+      continue;
+    }
+    for (const effect of field.effects) {
+      if (effect.type === "prependSystemPrompt") {
+        prepended += effect.content;
+      } else if (effect.type === "appendSystemPrompt") {
+        appended += effect.content;
+      }
+    }
+  }
+  if (prepended === "" && appended === "") {
+    return messages;
+  }
+  const systemIndex = messages.findIndex(message => message.role === "system");
+  if (systemIndex === -1) {
+    return [
+      { role: "system", content: [{ type: "text", text: prepended + appended }] },
+      ...messages,
+    ] satisfies Array<ChatMessageData>;
+  }
+  const systemMessage = messages[systemIndex];
+  const systemText = getMessageText(systemMessage);
+  return messages.map((message, index) =>
+    index === systemIndex
+      ? ({
+          role: "system",
+          content: [{ type: "text", text: prepended + systemText + appended }],
+        } satisfies ChatMessageData)
+      : message,
+  );
+}
+
+function getMessageText(message: ChatMessageData) {
+  return message.content.map(part => (part.type === "text" ? part.text : "")).join("");
+}
+
+/**
+ * Converts messages to the format chat templates expect, which is the one used by Hugging Face
+ * transformers. Every tool call result becomes a separate message with the role "tool".
+ */
+function toTemplateMessages(messages: Array<ChatMessageData>): Array<Record<string, unknown>> {
+  return messages.flatMap((message): Array<Record<string, unknown>> => {
+    if (message.role === "tool") {
+      return message.content
+        .filter(part => part.type === "toolCallResult")
+        .map(part => ({
+          role: "tool",
+          content: part.content,
+          ...(part.toolCallId === undefined ? {} : { tool_call_id: part.toolCallId }),
+          ...(part.name === undefined ? {} : { name: part.name }),
+        }));
+    }
+    const hasImages = message.content.some(
+      part => part.type === "file" && part.fileType === "image",
+    );
+    const content = hasImages
+      ? message.content.flatMap(part => {
+          if (part.type === "text") {
+            return [{ type: "text", text: part.text }];
+          }
+          return part.type === "file" && part.fileType === "image" ? [{ type: "image" }] : [];
+        })
+      : getMessageText(message);
+    const toolCalls = message.content.flatMap(part =>
+      part.type === "toolCallRequest"
+        ? [
+            {
+              ...(part.toolCallRequest.id === undefined ? {} : { id: part.toolCallRequest.id }),
+              type: "function",
+              function: {
+                name: part.toolCallRequest.name,
+                arguments: part.toolCallRequest.arguments ?? {},
+              },
+            },
+          ]
+        : [],
+    );
+    return [
+      {
+        role: message.role,
+        content,
+        ...(toolCalls.length === 0 ? {} : { tool_calls: toolCalls }),
+      },
+    ];
+  });
+}
+
+function renderManualPromptTemplate(
+  template: LLMManualPromptTemplate,
+  messages: Array<ChatMessageData>,
+  addGenerationPrompt: boolean,
+) {
+  const wrappers: Record<ChatMessageData["role"], [before: string, after: string]> = {
+    system: [template.beforeSystem, template.afterSystem],
+    user: [template.beforeUser, template.afterUser],
+    assistant: [template.beforeAssistant, template.afterAssistant],
+    // Manual templates have no role for tool results, so they are formatted as user messages.
+    tool: [template.beforeUser, template.afterUser],
+  };
+  const rendered = messages.map(message => {
+    const [before, after] = wrappers[message.role];
+    const content =
+      message.role === "tool"
+        ? message.content.map(part => (part.type === "toolCallResult" ? part.content : "")).join("")
+        : getMessageText(message);
+    return before + content + after;
+  });
+  return rendered.join("") + (addGenerationPrompt ? template.beforeAssistant : "");
+}
+
+/**
+ * Renders a prompt template locally, without LM Studio. Useful to debug templates and to test them
+ * in CI.
+ *
+ * Jinja templates are rendered with the variables that chat templates expect: `messages`, `tools`,
+ * `bos_token`, `eos_token`, `add_generation_prompt` and `enable_thinking`, plus the variables set by
+ * virtual model custom fields. Only the subset of Jinja used by chat templates is supported.
+ *
+ * ```ts
+ * const prompt = renderPromptTemplate(
+ *   { type: "jinja", jinjaPromptTemplate: { template }, stopStrings: [] },
+ *   [{ role: "user", content: "Hello" }],
+ *   { bosToken: "<s>", enableThinking: false },
+ * );
+ * ```
+ *
+ * The result may differ from the prompt LM Studio renders, for example if the server uses different
+ * BOS/EOS tokens. Use {@link LLMDynamicHandle#diffPromptTemplate} to compare against the server.
+ *
+ * @public
+ * @experimental [EXP-OFFLINE-PROMPT-TEMPLATE] Offline prompt template rendering is experimental and
+ * may change in the future.
+ */
+export function renderPromptTemplate(
+  template: LLMPromptTemplate,
+  history: ChatLike,
+  opts: RenderPromptTemplateOpts = {},
+): string {
+  const stack = getCurrentStack(1);
+  const {
+    toolDefinitions,
+    bosToken = "",
+    eosToken = "",
+    omitBosToken = false,
+    omitEosToken = false,
+    enableThinking,
+    addGenerationPrompt = true,
+    customFields = [],
+    customFieldValues = {},
+    variables = {},
+    now,
+  } = opts;
+  const messages = applySystemPromptEffects(
+    accessMaybeMutableInternals(Chat.from(history))._internalGetData().messages,
+    customFields,
+    customFieldValues,
+  );
+
+  if (template.type === "manual") {
+    if (template.manualPromptTemplate === undefined) {
+      throw makeTitledPrettyError(
+        "Invalid prompt template",
+        text`
+          The prompt template has the type "manual" but no manual prompt template.
+        `,
+        stack,
+      );
+    }
+    return renderManualPromptTemplate(template.manualPromptTemplate, messages, addGenerationPrompt);
+  }
+  if (template.jinjaPromptTemplate === undefined) {
+    throw makeTitledPrettyError(
+      "Invalid prompt template",
+      text`
+        The prompt template has the type "jinja" but no Jinja prompt template.
+      `,
+      stack,
+    );
+  }
+
+  const customFieldVariables: Record<string, unknown> = {};
+  for (const field of customFields) {
+    for (const effect of field.effects) {
+      if (effect.type === "setJinjaVariable") {
+        customFieldVariables[effect.variable] = customFieldValues[field.key] ?? field.defaultValue;
+      }
+    }
+  }
+  try {
+    return renderJinjaTemplate(
+      template.jinjaPromptTemplate.template,
+      {
+        messages: toTemplateMessages(messages),
+        tools: toolDefinitions,
+        bos_token: omitBosToken ? "" : bosToken,
+        eos_token: omitEosToken ? "" : eosToken,
+        add_generation_prompt: addGenerationPrompt,
+        ...(enableThinking === undefined ? {} : { enable_thinking: enableThinking }),
+        ...customFieldVariables,
+        ...variables,
+      },
+      { now },
+    );
+  } catch (error: any) {
+    throw makeTitledPrettyError(
+      "Failed to render the prompt template",
+      text`
+        ${error.message}
+      `,
+      stack,
+    );
+  }
+}
@@ -0,0 +1,273 @@
+import {
+  type LLMInstanceInfo,
+  type LLMPredictionStats,
+  type PromptProcessingDetails,
+} from "@lmstudio/lms-shared-types";
+import { type LLMActBaseOpts } from "../llm/act.js";
+import { type ActResult } from "../llm/ActResult.js";
+import { type PredictionResult, StructuredPredictionResult } from "../llm/PredictionResult.js";
+import { type Tracer, type TracingAttributes, type TracingSpan } from "./tracing.js";
+
+const operationNames = {
+  respond: "chat",
+  complete: "text_completion",
+  act: "invoke_agent",
+} as const;
+
+/**
+ * Starts the span of a `.respond`, `.complete` or `.act` call. Returns `null` if tracing is off.
+ */
+export function startLLMCallSpan(
+  tracer: Tracer | null,
+  method: keyof typeof operationNames,
+): TracingSpan | null {
+  return (
+    tracer?.startSpan(`lmstudio.${method}`, {
+      "gen_ai.system": "lmstudio",
+      "gen_ai.operation.name": operationNames[method],
+    }) ?? null
+  );
+}
+
+function definedAttributes(
+  attributes: Record<string, string | number | boolean | undefined>,
+): TracingAttributes {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined),
+  ) as TracingAttributes;
+}
+
+export function getModelInfoAttributes(modelInfo: LLMInstanceInfo): TracingAttributes {
+  return {
+    "gen_ai.response.model": modelInfo.modelKey,
+    "lmstudio.model.identifier": modelInfo.identifier,
+  };
+}
+
+export function getPredictionStatsAttributes(stats: LLMPredictionStats): TracingAttributes {
+  const { totalDraftTokensCount, acceptedDraftTokensCount } = stats;
+  return definedAttributes({
+    "gen_ai.usage.input_tokens": stats.promptTokensCount,
+    "gen_ai.usage.output_tokens": stats.predictedTokensCount,
+    "lmstudio.usage.total_tokens": stats.totalTokensCount,
+    "lmstudio.stop_reason": stats.stopReason,
+    "lmstudio.tokens_per_second": stats.tokensPerSecond,
+    "lmstudio.time_to_first_token_sec": stats.timeToFirstTokenSec,
+    "lmstudio.total_time_sec": stats.totalTimeSec,
+    "lmstudio.draft.model": stats.usedDraftModelKey,
+    "lmstudio.draft.total_tokens": totalDraftTokensCount,
+    "lmstudio.draft.accepted_tokens": acceptedDraftTokensCount,
+    "lmstudio.draft.rejected_tokens": stats.rejectedDraftTokensCount,
+    "lmstudio.draft.ignored_tokens": stats.ignoredDraftTokensCount,
+    "lmstudio.draft.acceptance_rate":
+      totalDraftTokensCount !== undefined &&
+      acceptedDraftTokensCount !== undefined &&
+      totalDraftTokensCount > 0
+        ? acceptedDraftTokensCount / totalDraftTokensCount
+        : undefined,
+  });
+}
+
+function getPromptProcessingAttributes(
+  progress: number,
+  details: PromptProcessingDetails,
+): TracingAttributes {
+  return {
+    "lmstudio.prompt_processing.progress": progress,
+    "lmstudio.prompt_processing.processed_tokens": details.processedPromptTokenCount,
+    "lmstudio.prompt_processing.total_tokens": details.totalPromptTokenCount,
+  };
+}
+
+/**
+ * Adds the first token and prompt processing events of a `.respond` or `.complete` call to its
+ * span.
+ */
+export function tracePredictionOpts<
+  TOpts extends {
+    onFirstToken?: () => void;
+    onPromptProcessingProgress?: (progress: number, details: PromptProcessingDetails) => void;
+  },
+>(span: TracingSpan | null, opts: TOpts): TOpts {
+  if (span === null) {
+    return opts;
+  }
+  return {
+    ...opts,
+    onFirstToken: () => {
+      span.addEvent("first_token");
+      opts.onFirstToken?.();
+    },
+    onPromptProcessingProgress: (progress, details) => {
+      span.addEvent("prompt_processing_progress", getPromptProcessingAttributes(progress, details));
+      opts.onPromptProcessingProgress?.(progress, details);
+    },
+  };
+}
+
+/**
+ * Adds a response that failed validation, and was sent back to the model to be repaired, to the
+ * span of a `.respond` call. The stats of the final response are set on the span itself.
+ */
+export function traceRepairAttempt(
+  span: TracingSpan | null,
+  attemptIndex: number,
+  error: Error,
+  stats: LLMPredictionStats,
+) {
+  span?.addEvent("repair_attempt", {
+    "lmstudio.repair.attempt": attemptIndex,
+    "lmstudio.repair.error": error.message,
+    ...getPredictionStatsAttributes(stats),
+  });
+}
+
+/**
+ * Ends the span of a `.respond` or `.complete` call when the prediction settles.
+ */
+export function traceOngoingPrediction(
+  span: TracingSpan | null,
+  ongoingPrediction: PromiseLike<PredictionResult>,
+) {
+  if (span === null) {
+    return;
+  }
+  ongoingPrediction.then(
+    result => {
+      span.setAttributes({
+        ...getModelInfoAttributes(result.modelInfo),
+        ...getPredictionStatsAttributes(result.stats),
+        ...(result instanceof StructuredPredictionResult
+          ? { "lmstudio.repair.rounds": result.repairRounds }
+          : {}),
+      });
+      span.end();
+    },
+    error => span.end(error),
+  );
+}
+
+/**
+ * Creates a child span of the span of an `.act` call for every round and every tool call.
+ *
+ * @returns The options with the tracing callbacks, and a function that ends the span of the call,
+ * together with every child span that is still open, when the given `.act` call settles.
+ */
+export function traceActOpts<TOpts extends LLMActBaseOpts<PredictionResult>>(
+  span: TracingSpan | null,
+  opts: TOpts,
+): { opts: TOpts; traceResult: (resultPromise: Promise<ActResult>) => Promise<ActResult> } {
+  if (span === null) {
+    return { opts, traceResult: resultPromise => resultPromise };
+  }
+  const roundSpans = new Map<number, TracingSpan>();
+  const toolCallSpans = new Map<number, TracingSpan>();
+  let inputTokens = 0;
+  let outputTokens = 0;
+  const tracedOpts: TOpts = {
+    ...opts,
+    onRoundStart: roundIndex => {
+      roundSpans.set(
+        roundIndex,
+        span.startChild("lmstudio.act.round", { "lmstudio.act.round_index": roundIndex }),
+      );
+      opts.onRoundStart?.(roundIndex);
+    },
+    onFirstToken: roundIndex => {
+      roundSpans.get(roundIndex)?.addEvent("first_token");
+      opts.onFirstToken?.(roundIndex);
+    },
+    onPromptProcessingProgress: (roundIndex, progress, details) => {
+      roundSpans
+        .get(roundIndex)
+        ?.addEvent("prompt_processing_progress", getPromptProcessingAttributes(progress, details));
+      opts.onPromptProcessingProgress?.(roundIndex, progress, details);
+    },
+    onPredictionCompleted: result => {
+      inputTokens += result.stats.promptTokensCount ?? 0;
+      outputTokens += result.stats.predictedTokensCount ?? 0;
+      span.setAttributes(getModelInfoAttributes(result.modelInfo));
+      roundSpans.get(result.roundIndex)?.setAttributes({
+        ...getModelInfoAttributes(result.modelInfo),
+        ...getPredictionStatsAttributes(result.stats),
+      });
+      opts.onPredictionCompleted?.(result);
+    },
+    onRoundEnd: roundIndex => {
+      roundSpans.get(roundIndex)?.end();
+      roundSpans.delete(roundIndex);
+      opts.onRoundEnd?.(roundIndex);
+    },
+    onToolCallRequestStart: (roundIndex, callId, info) => {
+      const parent = roundSpans.get(roundIndex) ?? span;
+      toolCallSpans.set(
+        callId,
+        parent.startChild("lmstudio.tool_call", {
+          "gen_ai.operation.name": "execute_tool",
+          "lmstudio.act.round_index": roundIndex,
+          "lmstudio.tool_call.call_id": callId,
+        }),
+      );
+      opts.onToolCallRequestStart?.(roundIndex, callId, info);
+    },
+    onToolCallRequestNameReceived: (roundIndex, callId, name) => {
+      toolCallSpans.get(callId)?.setAttributes({ "gen_ai.tool.name": name });
+      opts.onToolCallRequestNameReceived?.(roundIndex, callId, name);
+    },
+    onToolCallRequestEnd: (roundIndex, callId, info) => {
+      toolCallSpans.get(callId)?.setAttributes(
+        definedAttributes({
+          "gen_ai.tool.name": info.toolCallRequest.name,
+          "gen_ai.tool.call.id": info.toolCallRequest.id,
+          "lmstudio.tool_call.queued": info.isQueued,
+        }),
+      );
+      opts.onToolCallRequestEnd?.(roundIndex, callId, info);
+    },
+    onToolCallRequestDequeued: (roundIndex, callId) => {
+      toolCallSpans.get(callId)?.addEvent("dequeued");
+      opts.onToolCallRequestDequeued?.(roundIndex, callId);
+    },
+    onToolCallRequestFailure: (roundIndex, callId, error) => {
+      toolCallSpans.get(callId)?.end(error);
+      toolCallSpans.delete(callId);
+      opts.onToolCallRequestFailure?.(roundIndex, callId, error);
+    },
+    onToolCallSuccess: (roundIndex, callId, toolCallResult) => {
+      toolCallSpans.get(callId)?.setAttributes({ "lmstudio.tool_call.succeeded": true });
+      opts.onToolCallSuccess?.(roundIndex, callId, toolCallResult);
+    },
+    onToolCallResult: (roundIndex, callId, toolCallResult) => {
+      toolCallSpans.get(callId)?.end();
+      toolCallSpans.delete(callId);
+      opts.onToolCallResult?.(roundIndex, callId, toolCallResult);
+    },
+  };
+  const end = (error?: unknown) => {
+    for (const childSpan of [...toolCallSpans.values(), ...roundSpans.values()]) {
+      childSpan.end(error);
+    }
+    span.setAttributes({
+      "gen_ai.usage.input_tokens": inputTokens,
+      "gen_ai.usage.output_tokens": outputTokens,
+    });
+    span.end(error);
+  };
+  return {
+    opts: tracedOpts,
+    traceResult: async resultPromise => {
+      try {
+        const result = await resultPromise;
+        span.setAttributes({
+          "lmstudio.act.rounds": result.rounds,
+          "lmstudio.act.total_execution_time_sec": result.totalExecutionTimeSeconds,
+        });
+        end();
+        return result;
+      } catch (error) {
+        end(error);
+        throw error;
+      }
+    },
+  };
+}
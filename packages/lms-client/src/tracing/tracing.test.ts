@@ -0,0 +1,190 @@
+import { FakeLMStudio, silentLogger } from "@lmstudio/lms-communication-mock";
+import { z } from "zod";
+import { LMStudioClient } from "../LMStudioClient.js";
+import { tool } from "../llm/tool.js";
+import {
+  type LMStudioTracingOpts,
+  type LocalTracingSpan,
+  type OpenTelemetryApiLike,
+  type OpenTelemetrySpanLike,
+  type TracingAttributes,
+} from "./tracing.js";
+
+interface RecordedSpan {
+  name: string;
+  parent: RecordedSpan | null;
+  attributes: TracingAttributes;
+  events: Array<string>;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+function createFakeOpenTelemetry() {
+  const spans: Array<RecordedSpan> = [];
+  const spanObjects = new Map<OpenTelemetrySpanLike, RecordedSpan>();
+  const api: OpenTelemetryApiLike = {
+    trace: {
+      getTracer: () => ({
+        startSpan: (name, options, context) => {
+          const recorded: RecordedSpan = {
+            name,
+            parent: context?.span ?? null,
+            attributes: { ...options?.attributes },
+            events: [],
+            ended: false,
+          };
+          spans.push(recorded);
+          const span: OpenTelemetrySpanLike = {
+            setAttributes: attributes => Object.assign(recorded.attributes, attributes),
+            addEvent: name => recorded.events.push(name),
+            setStatus: status => (recorded.status = status),
+            recordException: () => {},
+            end: () => (recorded.ended = true),
+          };
+          spanObjects.set(span, recorded);
+          return span;
+        },
+      }),
+      setSpan: (_context, span) => ({ span: spanObjects.get(span) }),
+    },
+    context: {
+      active: () => ({ span: null }),
+    },
+  };
+  return { api, spans };
+}
+
+function createClient(tracing: LMStudioTracingOpts) {
+  const fake = new FakeLMStudio({ logger: silentLogger });
+  const client = new LMStudioClient({
+    logger: silentLogger,
+    tracing,
+    ...fake.getClientOpts(),
+  });
+  return { fake, client };
+}
+
+describe("tracing", () => {
+  it("creates a span for every respond call with the prediction stats", async () => {
+    const { api, spans } = createFakeOpenTelemetry();
+    const { fake, client } = createClient({ type: "openTelemetry", api });
+    fake.addLLM({ modelKey: "gemma" });
+    fake.queuePrediction({
+      events: [
+        { type: "promptProcessingProgress", progress: 1 },
+        { type: "fragment", content: "Hello" },
+      ],
+    });
+    fake.queuePrediction({ events: [{ type: "error", error: "Model crashed" }] });
+
+    const model = await client.llm.model("gemma");
+    await model.respond("Hi");
+    await expect(model.respond("Hi")).rejects.toThrow("Model crashed");
+
+    expect(spans).toHaveLength(2);
+    expect(spans[0]).toMatchObject({
+      name: "lmstudio.respond",
+      parent: null,
+      ended: true,
+      attributes: {
+        "gen_ai.operation.name": "chat",
+        "gen_ai.response.model": "gemma",
+        "gen_ai.usage.output_tokens": 5,
+        "lmstudio.stop_reason": "eosFound",
+      },
+      events: ["prompt_processing_progress", "first_token"],
+    });
+    expect(spans[0].status).toBeUndefined();
+    expect(spans[1]).toMatchObject({
+      ended: true,
+      status: { code: 2, message: expect.stringContaining("Model crashed") },
+    });
+  });
+
+  it("creates child spans for act rounds and tool calls", async () => {
+    const { api, spans } = createFakeOpenTelemetry();
+    const { fake, client } = createClient({ type: "openTelemetry", api });
+    fake.addLLM({ modelKey: "qwen3-4b", trainedForToolUse: true });
+    fake.queuePrediction({
+      events: [{ type: "toolCall", id: "call_0", name: "add", arguments: { a: 1, b: 2 } }],
+    });
+    fake.queuePrediction("3");
+
+    const model = await client.llm.model("qwen3-4b");
+    await model.act("What is 1 + 2?", [
+      tool({
+        name: "add",
+        description: "Adds two numbers",
+        parameters: { a: z.number(), b: z.number() },
+        implementation: ({ a, b }) => a + b,
+      }),
+    ]);
+
+    const [actSpan, ...childSpans] = spans;
+    expect(actSpan).toMatchObject({
+      name: "lmstudio.act",
+      ended: true,
+      attributes: { "lmstudio.act.rounds": 2, "gen_ai.usage.output_tokens": 1 },
+    });
+    expect(childSpans.map(({ name, parent }) => [name, parent?.name])).toEqual([
+      ["lmstudio.act.round", "lmstudio.act"],
+      ["lmstudio.tool_call", "lmstudio.act.round"],
+      ["lmstudio.act.round", "lmstudio.act"],
+    ]);
+    expect(childSpans[1]).toMatchObject({
+      ended: true,
+      attributes: {
+        "gen_ai.tool.name": "add",
+        "gen_ai.tool.call.id": "call_0",
+        "lmstudio.tool_call.succeeded": true,
+      },
+    });
+    expect(childSpans[2].events).toContain("first_token");
+    expect(spans.every(span => span.ended)).toBe(true);
+  });
+
+  it("adds an event for every response that had to be repaired", async () => {
+    const { api, spans } = createFakeOpenTelemetry();
+    const { fake, client } = createClient({ type: "openTelemetry", api });
+    fake.addLLM({ modelKey: "gemma" });
+    fake.queuePrediction('{"value": 3}');
+    fake.queuePrediction('{"value": 4}');
+
+    const model = await client.llm.model("gemma");
+    await model.respond("Give me an even number", {
+      structured: z.object({ value: z.number().refine(value => value % 2 === 0) }),
+      repair: { maxAttempts: 1 },
+    });
+
+    expect(spans[0]).toMatchObject({
+      events: ["first_token", "repair_attempt", "first_token"],
+      attributes: { "gen_ai.usage.output_tokens": 12, "lmstudio.repair.rounds": 1 },
+    });
+  });
+
+  it("writes finished spans through the logger with the console destination", async () => {
+    const lines: Array<string> = [];
+    const fake = new FakeLMStudio({ logger: silentLogger });
+    const client = new LMStudioClient({
+      logger: {
+        ...silentLogger,
+        info: (...messages: Array<unknown>) => lines.push(messages.join(" ")),
+      },
+      tracing: { type: "console" },
+      ...fake.getClientOpts(),
+    });
+    fake.addLLM({ modelKey: "gemma" });
+    fake.queuePrediction("Hello");
+
+    const model = await client.llm.model("gemma");
+    await model.complete("Once upon a time");
+
+    const line = lines.find(line => line.includes("lmstudio.complete"))!;
+    const span: LocalTracingSpan = JSON.parse(line.slice(line.indexOf("{")));
+    expect(span).toMatchObject({
+      name: "lmstudio.complete",
+      status: "ok",
+      attributes: { "gen_ai.operation.name": "text_completion", "gen_ai.usage.output_tokens": 5 },
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { type SimpleLogger } from "@lmstudio/lms-common";
+import { appendTextToFile, generateRandomBase64 } from "@lmstudio/lms-isomorphic";
+import { z } from "zod";
+
+/**
+ * The attributes of a span or of a span event.
+ *
+ * @public
+ */
+export type TracingAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of an OpenTelemetry `Span` used by the SDK.
+ *
+ * @public
+ */
+export interface OpenTelemetrySpanLike {
+  setAttributes(attributes: TracingAttributes): unknown;
+  addEvent(name: string, attributes?: TracingAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+/**
+ * The subset of the `@opentelemetry/api` package used by the SDK. Pass the package itself, so the
+ * SDK does not need to depend on it:
+ *
+ * ```ts
+ * import * as otel from "@opentelemetry/api";
+ * const client = new LMStudioClient({ tracing: { type: "openTelemetry", api: otel } });
+ * ```
+ *
+ * @public
+ */
+export interface OpenTelemetryApiLike {
+  trace: {
+    getTracer(
+      name: string,
+      version?: string,
+    ): {
+      startSpan(
+        name: string,
+        options?: { attributes?: TracingAttributes },
+        context?: any,
+      ): OpenTelemetrySpanLike;
+    };
+    setSpan(context: any, span: OpenTelemetrySpanLike): any;
+  };
+  context: {
+    active(): any;
+  };
+}
+
+/**
+ * Where the spans of predictions, `.act` rounds and tool calls are sent.
+ *
+ * - `openTelemetry`: Spans are created with the tracer provider registered with the given
+ *   OpenTelemetry API, and exported by whatever exporter the app has set up. Spans of a call are
+ *   children of the span that is active when the call is made.
+ * - `console`: Every finished span is written as a line of JSON through the logger of the client.
+ * - `file`: Every finished span is appended as a line of JSON to the file at `path`. Not available
+ *   in the browser.
+ *
+ * @public
+ * @experimental [EXP-TRACING] Tracing is experimental and may change in the future.
+ */
+export type LMStudioTracingOpts =
+  | {
+      type: "openTelemetry";
+      api: OpenTelemetryApiLike;
+      /**
+       * The name of the tracer. Defaults to `"@lmstudio/sdk"`.
+       */
+      tracerName?: string;
+    }
+  | {
+      type: "console";
+    }
+  | {
+      type: "file";
+      path: string;
+    };
+export const lmStudioTracingOptsSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("openTelemetry"),
+    api: z.custom<OpenTelemetryApiLike>(
+      api =>
+        typeof (api as any)?.trace?.getTracer === "function" &&
+        typeof (api as any)?.trace?.setSpan === "function" &&
+        typeof (api as any)?.context?.active === "function",
+      { message: "Expected the @opentelemetry/api package" },
+    ),
+    tracerName: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("console"),
+  }),
+  z.object({
+    type: z.literal("file"),
+    path: z.string(),
+  }),
+]);
+
+/**
+ * A finished span, as written by the `console` and `file` tracing destinations.
+ *
+ * @public
+ * @experimental [EXP-TRACING] Tracing is experimental and may change in the future.
+ */
+export interface LocalTracingSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /**
+   * Milliseconds since the epoch.
+   */
+  startTime: number;
+  durationMs: number;
+  attributes: TracingAttributes;
+  events: Array<{ name: string; time: number; attributes?: TracingAttributes }>;
+  status: "ok" | "error";
+  errorMessage?: string;
+}
+
+/**
+ * A span created by the SDK.
+ */
+export interface TracingSpan {
+  setAttributes(attributes: TracingAttributes): void;
+  addEvent(name: string, attributes?: TracingAttributes): void;
+  startChild(name: string, attributes?: TracingAttributes): TracingSpan;
+  /**
+   * Ends the span. If an error is given, the span is marked as failed.
+   */
+  end(error?: unknown): void;
+}
+
+/**
+ * Creates the root spans of SDK calls.
+ */
+export interface Tracer {
+  startSpan(name: string, attributes?: TracingAttributes): TracingSpan;
+}
+
+/**
+ * The `code` of the OpenTelemetry `SpanStatusCode.ERROR` status.
+ */
+const openTelemetryErrorStatusCode = 2;
+
+function toError(error: unknown) {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+class OpenTelemetryTracingSpan implements TracingSpan {
+  private ended = false;
+  public constructor(
+    private readonly api: OpenTelemetryApiLike,
+    private readonly tracer: ReturnType<OpenTelemetryApiLike["trace"]["getTracer"]>,
+    private readonly span: OpenTelemetrySpanLike,
+  ) {}
+  public setAttributes(attributes: TracingAttributes) {
+    this.span.setAttributes(attributes);
+  }
+  public addEvent(name: string, attributes?: TracingAttributes) {
+    this.span.addEvent(name, attributes);
+  }
+  public startChild(name: string, attributes?: TracingAttributes) {
+    const context = this.api.trace.setSpan(this.api.context.active(), this.span);
+    return new OpenTelemetryTracingSpan(
+      this.api,
+      this.tracer,
+      this.tracer.startSpan(name, { attributes }, context),
+    );
+  }
+  public end(error?: unknown) {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    if (error !== undefined) {
+      const exception = toError(error);
+      this.span.recordException(exception);
+      this.span.setStatus({ code: openTelemetryErrorStatusCode, message: exception.message });
+    }
+    this.span.end();
+  }
+}
+
+class LocalTracingSpanImpl implements TracingSpan {
+  private readonly data: LocalTracingSpan;
+  private ended = false;
+  public constructor(
+    private readonly write: (span: LocalTracingSpan) => void,
+    name: string,
+    attributes: TracingAttributes,
+    traceId: string,
+    parentSpanId?: string,
+  ) {
+    this.data = {
+      traceId,
+      spanId: generateRandomBase64(12),
+      parentSpanId,
+      name,
+      startTime: Date.now(),
+      durationMs: 0,
+      attributes: { ...attributes },
+      events: [],
+      status: "ok",
+    };
+  }
+  public setAttributes(attributes: TracingAttributes) {
+    Object.assign(this.data.attributes, attributes);
+  }
+  public addEvent(name: string, attributes?: TracingAttributes) {
+    this.data.events.push({ name, time: Date.now(), attributes });
+  }
+  public startChild(name: string, attributes: TracingAttributes = {}) {
+    return new LocalTracingSpanImpl(
+      this.write,
+      name,
+      attributes,
+      this.data.traceId,
+      this.data.spanId,
+    );
+  }
+  public end(error?: unknown) {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.data.durationMs = Date.now() - this.data.startTime;
+    if (error !== undefined) {
+      this.data.status = "error";
+      this.data.errorMessage = toError(error).message;
+    }
+    this.write(this.data);
+  }
+}
+
+/**
+ * Creates the tracer for the given tracing options.
+ */
+export function createTracer(opts: LMStudioTracingOpts, logger: SimpleLogger): Tracer {
+  switch (opts.type) {
+    case "openTelemetry": {
+      const { api, tracerName = "@lmstudio/sdk" } = opts;
+      const tracer = api.trace.getTracer(tracerName);
+      return {
+        startSpan: (name, attributes) =>
+          new OpenTelemetryTracingSpan(
+            api,
+            tracer,
+            tracer.startSpan(name, { attributes }, api.context.active()),
+          ),
+      };
+    }
+    case "console": {
+      const write = (span: LocalTracingSpan) => logger.info(JSON.stringify(span));
+      return {
+        startSpan: (name, attributes = {}) =>
+          new LocalTracingSpanImpl(write, name, attributes, generateRandomBase64(16)),
+      };
+    }
+    case "file": {
+      const { path } = opts;
+      // Spans are appended one after another, so lines never interleave.
+      let writing = Promise.resolve();
+      const write = (span: LocalTracingSpan) => {
+        const line = JSON.stringify(span) + "\n";
+        writing = writing
+          .then(() => appendTextToFile(path, line))
+          .catch(error => logger.warn(`Failed to write a span to ${path}:`, error));
+      };
+      return {
+        startSpan: (name, attributes = {}) =>
+          new LocalTracingSpanImpl(write, name, attributes, generateRandomBase64(16)),
+      };
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import type { ClientToServerMessage, ServerToClientMessage } from "@lmstudio/lms-communication";
+import { z } from "zod";
+
+/**
+ * The kind of communication an interaction in a cassette represents.
+ *
+ * @public
+ */
+export type CassetteInteractionType = "rpc" | "channel" | "signal" | "writableSignal";
+
+/**
+ * A message exchanged during an interaction, after the interaction was started. The ID of the
+ * communication (`callId`, `channelId` or `subscribeId`) is removed from the message, as it differs
+ * between runs.
+ *
+ * @public
+ */
+export interface CassetteEvent {
+  direction: "toServer" | "toClient";
+  message: Record<string, unknown>;
+}
+
+/**
+ * A single recorded RPC call, channel or signal subscription, together with every message
+ * exchanged during it.
+ *
+ * @public
+ */
+export interface CassetteInteraction {
+  /**
+   * The API namespace the interaction happened in, such as `"llm"` or `"system"`.
+   */
+  namespace: string;
+  type: CassetteInteractionType;
+  endpoint: string;
+  /**
+   * The serialized RPC parameter or creation parameter.
+   */
+  parameter: unknown;
+  events: Array<CassetteEvent>;
+}
+
+/**
+ * Recorded SDK traffic that can be replayed without a server. Cassettes only contain JSON values,
+ * so they can be saved with `JSON.stringify` and loaded with `JSON.parse`.
+ *
+ * @public
+ */
+export interface Cassette {
+  version: 1;
+  interactions: Array<CassetteInteraction>;
+}
+export const cassetteSchema = z.object({
+  version: z.literal(1),
+  interactions: z.array(
+    z.object({
+      namespace: z.string(),
+      type: z.enum(["rpc", "channel", "signal", "writableSignal"]),
+      endpoint: z.string(),
+      parameter: z.unknown(),
+      events: z.array(
+        z.object({
+          direction: z.enum(["toServer", "toClient"]),
+          message: z.record(z.string(), z.unknown()),
+        }),
+      ),
+    }),
+  ),
+});
+
+/**
+ * A request that is matched against the interactions of a cassette during replay.
+ *
+ * @public
+ */
+export interface CassetteRequest {
+  namespace: string;
+  type: CassetteInteractionType;
+  endpoint: string;
+  parameter: unknown;
+}
+
+/**
+ * Controls how requests are matched against recorded interactions during replay. By default, a
+ * request matches the first unused interaction with the same namespace, endpoint and parameter.
+ *
+ * @public
+ */
+export interface CassetteMatchOpts {
+  /**
+   * Keys that are ignored at any depth when comparing parameters and messages, such as
+   * `"clientIdentifier"`.
+   */
+  ignoreKeys?: Array<string>;
+  /**
+   * Dot-separated paths that are ignored when comparing parameters and channel messages. A `*`
+   * segment matches any key or array index. For example, `"history.messages.*.content"`.
+   */
+  ignorePaths?: Array<string>;
+  /**
+   * Replaces the comparison of the parameters. Namespace, type and endpoint are always compared.
+   */
+  matches?: (request: CassetteRequest, interaction: CassetteInteraction) => boolean;
+}
+export const cassetteMatchOptsSchema = z.object({
+  ignoreKeys: z.array(z.string()).optional(),
+  ignorePaths: z.array(z.string()).optional(),
+  matches: z.function().optional(),
+});
+
+const idFields = {
+  rpc: "callId",
+  channel: "channelId",
+  signal: "subscribeId",
+  writableSignal: "subscribeId",
+} as const;
+
+/**
+ * Where a message belongs to. `isStart` is set on the message that starts the interaction and
+ * `isEnd` on the message after which no more messages are exchanged.
+ */
+export interface CassetteCommunication {
+  type: CassetteInteractionType;
+  id: number;
+  isStart: boolean;
+  isEnd: boolean;
+}
+
+export function getCassetteCommunication(
+  message: ClientToServerMessage | ServerToClientMessage,
+): CassetteCommunication | null {
+  const communication = (type: CassetteInteractionType, isStart = false, isEnd = false) => ({
+    type,
+    id: (message as any)[idFields[type]] as number,
+    isStart,
+    isEnd,
+  });
+  switch (message.type) {
+    case "rpcCall":
+      return communication("rpc", true);
+    case "rpcResult":
+    case "rpcError":
+      return communication("rpc", false, true);
+    case "channelCreate":
+      return communication("channel", true);
+    case "channelSend":
+    case "channelAck":
+      return communication("channel");
+    case "channelClose":
+    case "channelError":
+      return communication("channel", false, true);
+    case "signalSubscribe":
+      return communication("signal", true);
+    case "signalUpdate":
+      return communication("signal");
+    case "signalUnsubscribe":
+    case "signalError":
+      return communication("signal", false, true);
+    case "writableSignalSubscribe":
+      return communication("writableSignal", true);
+    case "writableSignalUpdate":
+      return communication("writableSignal");
+    case "writableSignalUnsubscribe":
+    case "writableSignalError":
+      return communication("writableSignal", false, true);
+    default:
+      // Keep alive and communication warnings do not belong to any interaction.
+      return null;
+  }
+}
+
+export function getCassetteParameter(message: ClientToServerMessage) {
+  return toCassetteValue(
+    message.type === "rpcCall" ? message.parameter : (message as any).creationParameter,
+  );
+}
+
+/**
+ * Removes the ID of the communication from a message, so it can be stored in a cassette.
+ */
+export function toCassetteMessage(
+  type: CassetteInteractionType,
+  message: ClientToServerMessage | ServerToClientMessage,
+): Record<string, unknown> {
+  const { [idFields[type]]: _id, ...rest } = message as Record<string, unknown>;
+  return toCassetteValue(rest) as Record<string, unknown>;
+}
+
+/**
+ * Adds the ID of the communication back to a message stored in a cassette.
+ */
+export function fromCassetteMessage(
+  type: CassetteInteractionType,
+  id: number,
+  message: Record<string, unknown>,
+) {
+  return { ...message, [idFields[type]]: id } as unknown as ServerToClientMessage;
+}
+
+/**
+ * Converts a value to what it looks like after a JSON round trip, so recorded and live values
+ * compare equal.
+ */
+export function toCassetteValue(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function omitIgnored(
+  value: unknown,
+  path: Array<string>,
+  ignoreKeys: ReadonlyArray<string>,
+  ignorePaths: ReadonlyArray<Array<string>>,
+): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const entries = Object.entries(value).filter(([key]) => {
+    if (ignoreKeys.includes(key)) {
+      return false;
+    }
+    const childPath = [...path, key];
+    return !ignorePaths.some(
+      ignoredPath =>
+        ignoredPath.length === childPath.length &&
+        ignoredPath.every((segment, index) => segment === "*" || segment === childPath[index]),
+    );
+  });
+  const mapped = entries.map(
+    ([key, child]) => [key, omitIgnored(child, [...path, key], ignoreKeys, ignorePaths)] as const,
+  );
+  return Array.isArray(value) ? mapped.map(([, child]) => child) : Object.fromEntries(mapped);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(key => isDeepEqual((a as any)[key], (b as any)[key]))
+  );
+}
+
+/**
+ * Compares a parameter (or a channel message) to the recorded one, applying the match options.
+ */
+export function cassetteValuesMatch(
+  recorded: unknown,
+  actual: unknown,
+  { ignoreKeys = [], ignorePaths = [] }: CassetteMatchOpts,
+) {
+  const splitPaths = ignorePaths.map(path => path.split("."));
+  return isDeepEqual(
+    omitIgnored(recorded, [], ignoreKeys, splitPaths),
+    omitIgnored(toCassetteValue(actual), [], ignoreKeys, splitPaths),
+  );
+}
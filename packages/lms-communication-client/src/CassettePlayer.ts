@@ -0,0 +1,244 @@
+import { SimpleLogger, text, Validator, type LoggerInterface } from "@lmstudio/lms-common";
+import {
+  ClientTransport,
+  type ClientToServerMessage,
+  type ClientTransportFactory,
+  type ServerToClientMessage,
+} from "@lmstudio/lms-communication";
+import { serializeError } from "@lmstudio/lms-shared-types";
+import {
+  type Cassette,
+  type CassetteInteraction,
+  type CassetteInteractionType,
+  type CassetteMatchOpts,
+  cassetteMatchOptsSchema,
+  type CassetteRequest,
+  cassetteSchema,
+  cassetteValuesMatch,
+  fromCassetteMessage,
+  getCassetteCommunication,
+  getCassetteParameter,
+  toCassetteMessage,
+} from "./Cassette.js";
+
+interface OpenReplay {
+  interaction: CassetteInteraction;
+  type: CassetteInteractionType;
+  id: number;
+  nextEventIndex: number;
+}
+
+function makeErrorMessage(
+  type: CassetteInteractionType,
+  id: number,
+  error: Error,
+): ServerToClientMessage {
+  const serialized = serializeError(error);
+  switch (type) {
+    case "rpc":
+      return { type: "rpcError", callId: id, error: serialized };
+    case "channel":
+      return { type: "channelError", channelId: id, error: serialized };
+    case "signal":
+      return { type: "signalError", subscribeId: id, error: serialized };
+    case "writableSignal":
+      return { type: "writableSignalError", subscribeId: id, error: serialized };
+  }
+}
+
+/**
+ * A transport that answers every request from the interactions of a cassette.
+ */
+class ReplayClientTransport extends ClientTransport {
+  private readonly logger: SimpleLogger;
+  private readonly openReplays = new Map<string, OpenReplay>();
+  public constructor(
+    private readonly player: CassettePlayer,
+    private readonly namespace: string,
+    private readonly receivedMessage: (message: ServerToClientMessage) => void,
+    connected: () => void,
+    parentLogger?: LoggerInterface,
+  ) {
+    super();
+    this.logger = new SimpleLogger("ReplayClientTransport", parentLogger);
+    // There is nothing to connect to.
+    connected();
+  }
+
+  /**
+   * Sends the recorded server messages up to the next message the client is expected to send.
+   */
+  private advance(key: string, replay: OpenReplay) {
+    const { events } = replay.interaction;
+    const messages: Array<ServerToClientMessage> = [];
+    while (
+      replay.nextEventIndex < events.length &&
+      events[replay.nextEventIndex].direction === "toClient"
+    ) {
+      messages.push(
+        fromCassetteMessage(replay.type, replay.id, events[replay.nextEventIndex].message),
+      );
+      replay.nextEventIndex++;
+    }
+    if (replay.nextEventIndex === events.length) {
+      this.openReplays.delete(key);
+    }
+    queueMicrotask(() => {
+      for (const message of messages) {
+        this.receivedMessage(message);
+      }
+    });
+  }
+
+  private fail(type: CassetteInteractionType, id: number, message: string) {
+    this.logger.error(message);
+    queueMicrotask(() => this.receivedMessage(makeErrorMessage(type, id, new Error(message))));
+  }
+
+  protected override sendViaTransport(message: ClientToServerMessage) {
+    const communication = getCassetteCommunication(message);
+    if (communication === null) {
+      return;
+    }
+    const { type, id } = communication;
+    const key = `${type}:${id}`;
+    if (communication.isStart) {
+      const request: CassetteRequest = {
+        namespace: this.namespace,
+        type,
+        endpoint: (message as { endpoint: string }).endpoint,
+        parameter: getCassetteParameter(message),
+      };
+      const interaction = this.player.claimInteraction(request);
+      if (interaction === null) {
+        this.fail(
+          type,
+          id,
+          text`
+            No recorded interaction matches the ${type} request to "${request.endpoint}" in the
+            "${request.namespace}" namespace. Parameter: ${JSON.stringify(request.parameter)}
+          `,
+        );
+        return;
+      }
+      const replay = { interaction, type, id, nextEventIndex: 0 };
+      this.openReplays.set(key, replay);
+      this.advance(key, replay);
+      return;
+    }
+    const replay = this.openReplays.get(key);
+    if (replay === undefined) {
+      return;
+    }
+    if (communication.isEnd) {
+      // The client unsubscribed. Whatever was recorded after that is no longer relevant.
+      this.openReplays.delete(key);
+      return;
+    }
+    const expectedEvent = replay.interaction.events[replay.nextEventIndex];
+    const actualMessage = toCassetteMessage(type, message);
+    if (
+      expectedEvent?.direction !== "toServer" ||
+      !this.player.messagesMatch(expectedEvent.message, actualMessage)
+    ) {
+      this.openReplays.delete(key);
+      this.fail(
+        type,
+        id,
+        text`
+          The client sent a message that was not recorded for the ${type} "${
+            replay.interaction.endpoint
+          }" in the "${this.namespace}" namespace. Expected:
+          ${expectedEvent === undefined ? "nothing" : JSON.stringify(expectedEvent.message)},
+          received: ${JSON.stringify(actualMessage)}
+        `,
+      );
+      return;
+    }
+    replay.nextEventIndex++;
+    this.advance(key, replay);
+  }
+}
+
+/**
+ * Replays a {@link Cassette} recorded with a {@link CassetteRecorder}, without a server.
+ *
+ * Every request is answered by the first unused recorded interaction that matches it (see
+ * {@link CassetteMatchOpts}). Requests that match no interaction fail with an error, as do channel
+ * messages that differ from the recorded ones.
+ *
+ * @public
+ */
+export class CassettePlayer {
+  private readonly cassette: Cassette;
+  private readonly matchOpts: CassetteMatchOpts;
+  private readonly usedInteractions = new Set<CassetteInteraction>();
+
+  public constructor(cassette: Cassette, matchOpts: CassetteMatchOpts = {}) {
+    const validator = new Validator();
+    this.cassette = validator.validateConstructorParamOrThrow(
+      "CassettePlayer",
+      "cassette",
+      cassetteSchema,
+      cassette,
+    ) as Cassette;
+    this.matchOpts = validator.validateConstructorParamOrThrow(
+      "CassettePlayer",
+      "matchOpts",
+      cassetteMatchOptsSchema,
+      matchOpts,
+    ) as CassetteMatchOpts;
+  }
+
+  /**
+   * Creates a transport factory for a client port that serves the interactions recorded in the
+   * given API namespace.
+   */
+  public createTransportFactory(namespace: string): ClientTransportFactory {
+    return (receivedMessage, connected, _errored, parentLogger) =>
+      new ReplayClientTransport(this, namespace, receivedMessage, connected, parentLogger);
+  }
+
+  /**
+   * Finds the first unused interaction that matches the request and marks it as used.
+   *
+   * @internal
+   */
+  public claimInteraction(request: CassetteRequest): CassetteInteraction | null {
+    const interaction = this.cassette.interactions.find(
+      interaction =>
+        !this.usedInteractions.has(interaction) &&
+        interaction.namespace === request.namespace &&
+        interaction.type === request.type &&
+        interaction.endpoint === request.endpoint &&
+        (this.matchOpts.matches !== undefined
+          ? this.matchOpts.matches(request, interaction)
+          : cassetteValuesMatch(interaction.parameter, request.parameter, this.matchOpts)),
+    );
+    if (interaction === undefined) {
+      return null;
+    }
+    this.usedInteractions.add(interaction);
+    return interaction;
+  }
+
+  /**
+   * @internal
+   */
+  public messagesMatch(recorded: Record<string, unknown>, actual: Record<string, unknown>) {
+    if (recorded.type === "channelSend" && actual.type === "channelSend") {
+      return cassetteValuesMatch(recorded.message, actual.message, this.matchOpts);
+    }
+    return cassetteValuesMatch(recorded, actual, { ignoreKeys: this.matchOpts.ignoreKeys });
+  }
+
+  /**
+   * Returns the interactions that have not been replayed yet. Useful to assert that a test made
+   * every recorded request.
+   */
+  public getUnusedInteractions(): Array<CassetteInteraction> {
+    return this.cassette.interactions.filter(
+      interaction => !this.usedInteractions.has(interaction),
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  ClientTransport,
+  type ClientToServerMessage,
+  type ClientTransportFactory,
+  type ServerToClientMessage,
+} from "@lmstudio/lms-communication";
+import {
+  type Cassette,
+  type CassetteEvent,
+  type CassetteInteraction,
+  getCassetteCommunication,
+  getCassetteParameter,
+  toCassetteMessage,
+  toCassetteValue,
+} from "./Cassette.js";
+
+/**
+ * A transport that forwards everything to another transport and reports every message sent to the
+ * server.
+ */
+class RecordingClientTransport extends ClientTransport {
+  public constructor(
+    private readonly innerTransport: ClientTransport,
+    private readonly sending: (message: ClientToServerMessage) => () => void,
+  ) {
+    super();
+  }
+  protected override sendViaTransport(message: ClientToServerMessage) {
+    // Recorded before sending, as the response may arrive synchronously.
+    const forget = this.sending(message);
+    try {
+      this.innerTransport.send(message);
+    } catch (error) {
+      forget();
+      throw error;
+    }
+  }
+  public override onHavingOneOrMoreOpenCommunication() {
+    this.innerTransport.onHavingOneOrMoreOpenCommunication();
+  }
+  public override onHavingNoOpenCommunication() {
+    this.innerTransport.onHavingNoOpenCommunication();
+  }
+  public override ensureConnectedOrStartConnection() {
+    this.innerTransport.ensureConnectedOrStartConnection();
+  }
+  public override async [Symbol.asyncDispose]() {
+    await super[Symbol.asyncDispose]();
+    await this.innerTransport[Symbol.asyncDispose]();
+  }
+}
+
+/**
+ * Records the traffic of client ports into a {@link Cassette} that can later be replayed with a
+ * {@link CassettePlayer}.
+ *
+ * @public
+ */
+export class CassetteRecorder {
+  private readonly interactions: Array<CassetteInteraction> = [];
+
+  /**
+   * Wraps a transport factory so that every RPC call, channel and signal subscription going through
+   * the transports it creates is recorded.
+   *
+   * @param namespace - The API namespace of the port, such as `"llm"`.
+   */
+  public wrapTransportFactory(
+    namespace: string,
+    factory: ClientTransportFactory,
+  ): ClientTransportFactory {
+    return (receivedMessage, connected, errored, parentLogger) => {
+      // IDs are only unique within a transport, so the open interactions are tracked per transport.
+      const openInteractions = new Map<string, CassetteInteraction>();
+      const record = (
+        direction: CassetteEvent["direction"],
+        message: ClientToServerMessage | ServerToClientMessage,
+      ) => {
+        const communication = getCassetteCommunication(message);
+        if (communication === null) {
+          return () => {};
+        }
+        const key = `${communication.type}:${communication.id}`;
+        if (communication.isStart) {
+          const interaction: CassetteInteraction = {
+            namespace,
+            type: communication.type,
+            endpoint: (message as { endpoint: string }).endpoint,
+            parameter: getCassetteParameter(message as ClientToServerMessage),
+            events: [],
+          };
+          this.interactions.push(interaction);
+          openInteractions.set(key, interaction);
+          return () => {
+            openInteractions.delete(key);
+            this.interactions.splice(this.interactions.indexOf(interaction), 1);
+          };
+        }
+        const interaction = openInteractions.get(key);
+        if (interaction === undefined) {
+          return () => {};
+        }
+        const event = { direction, message: toCassetteMessage(communication.type, message) };
+        interaction.events.push(event);
+        if (communication.isEnd) {
+          openInteractions.delete(key);
+        }
+        return () => {
+          interaction.events.splice(interaction.events.indexOf(event), 1);
+        };
+      };
+      const innerTransport = factory(
+        message => {
+          record("toClient", message);
+          receivedMessage(message);
+        },
+        connected,
+        errored,
+        parentLogger,
+      );
+      return new RecordingClientTransport(innerTransport, message => record("toServer", message));
+    };
+  }
+
+  /**
+   * Returns everything recorded so far. The returned cassette is a copy and only contains JSON
+   * values.
+   */
+  public getCassette(): Cassette {
+    return toCassetteValue({ version: 1, interactions: this.interactions }) as Cassette;
+  }
+}
@@ -84,6 +84,15 @@ export interface ClientPortCommunicationWarning {
   warning: string;
 }
 
+/**
+ * An error the server returned for an RPC call or a channel.
+ */
+export interface ClientPortEndpointError {
+  type: "rpc" | "channel";
+  endpoint: string;
+  error: Error;
+}
+
 export class ClientPort<
   TRpcEndpoints extends RpcEndpointsSpecBase,
   TChannelEndpoints extends ChannelEndpointsSpecBase,
@@ -115,6 +124,7 @@ export class ClientPort<
   private readonly onCommunicationWarning?: (
     communicationWarning: ClientPortCommunicationWarning,
   ) => void;
+  private readonly onEndpointError?: (endpointError: ClientPortEndpointError) => void;
 
   public constructor(
     public readonly backendInterface: BackendInterface<
@@ -130,6 +140,7 @@ export class ClientPort<
       errorDeserializer,
       verboseErrorMessage,
       onCommunicationWarning,
+      onEndpointError,
     }: {
       parentLogger?: LoggerInterface;
       errorDeserializer?: (
@@ -139,12 +150,14 @@ export class ClientPort<
       ) => Error;
       verboseErrorMessage?: boolean;
       onCommunicationWarning?: (communicationWarning: ClientPortCommunicationWarning) => void;
+      onEndpointError?: (endpointError: ClientPortEndpointError) => void;
     } = {},
   ) {
     this.logger = new SimpleLogger("ClientPort", parentLogger);
     this.errorDeserializer = errorDeserializer ?? defaultErrorDeserializer;
     this.verboseErrorMessage = verboseErrorMessage ?? true;
     this.onCommunicationWarning = onCommunicationWarning;
+    this.onEndpointError = onEndpointError;
     this.transport = factory(this.receivedMessage, this.onConnected, this.errored, this.logger);
   }
 
@@ -274,6 +287,7 @@ export class ClientPort<
       "Channel Error",
       this.verboseErrorMessage ? openChannel.stack : undefined,
     );
+    this.reportEndpointError({ type: "channel", endpoint: openChannel.endpoint.name, error });
     openChannel.errored(error);
     this.updateOpenCommunicationsCount();
   }
@@ -320,6 +334,7 @@ export class ClientPort<
       "RPC Error",
       this.verboseErrorMessage ? ongoingRpc.stack : undefined,
     );
+    this.reportEndpointError({ type: "rpc", endpoint: ongoingRpc.endpoint.name, error });
     ongoingRpc.reject(error);
     this.ongoingRpcs.delete(message.callId);
     this.updateOpenCommunicationsCount();
@@ -520,6 +535,17 @@ export class ClientPort<
     }
   }
 
+  private reportEndpointError(endpointError: ClientPortEndpointError): void {
+    if (this.onEndpointError === undefined) {
+      return;
+    }
+    try {
+      this.onEndpointError(endpointError);
+    } catch (error) {
+      this.logger.error("Error in onEndpointError callback:", error);
+    }
+  }
+
   private receivedKeepAliveAck(_message: ServerToClientMessage & { type: "keepAliveAck" }) {
     // Do nothing
   }
@@ -1,5 +1,20 @@
 export { AuthenticatedWsClientTransport } from "./AuthenticatedWsClientTransport.js";
-export { ClientPort, type ClientPortCommunicationWarning, InferClientPort } from "./ClientPort.js";
+export type {
+  Cassette,
+  CassetteEvent,
+  CassetteInteraction,
+  CassetteInteractionType,
+  CassetteMatchOpts,
+  CassetteRequest,
+} from "./Cassette.js";
+export { CassettePlayer } from "./CassettePlayer.js";
+export { CassetteRecorder } from "./CassetteRecorder.js";
+export {
+  ClientPort,
+  type ClientPortCommunicationWarning,
+  type ClientPortEndpointError,
+  InferClientPort,
+} from "./ClientPort.js";
 export { GenericClientTransport } from "./GenericClientTransport.js";
 export { LMStudioHostedEnv, getHostedEnv } from "./LMStudioHostedEnv.js";
 export { WsClientTransport } from "./WsClientTransport.js";
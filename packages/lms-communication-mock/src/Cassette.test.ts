@@ -0,0 +1,209 @@
+import { BufferedEvent, Signal, SimpleLogger, type LoggerInterface } from "@lmstudio/lms-common";
+import {
+  BackendInterface,
+  type ClientToServerMessage,
+  type ServerToClientMessage,
+} from "@lmstudio/lms-communication";
+import {
+  type Cassette,
+  CassettePlayer,
+  CassetteRecorder,
+  ClientPort,
+  GenericClientTransport,
+} from "@lmstudio/lms-communication-client";
+import {
+  GenericServerTransport,
+  ServerPort,
+  type Context,
+  type ContextCreator,
+} from "@lmstudio/lms-communication-server";
+import { z } from "zod";
+
+const silentLogger: LoggerInterface = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+};
+
+function createTestContextCreator(): ContextCreator<Context> {
+  return params => ({
+    logger: new SimpleLogger(`Test:${params.endpointName}`, silentLogger),
+  });
+}
+
+function createBackendInterface() {
+  const backendInterface = new BackendInterface()
+    .addRpcEndpoint("add", {
+      parameter: z.object({ a: z.number(), b: z.number(), seed: z.number().optional() }),
+      returns: z.number(),
+    })
+    .addChannelEndpoint("countdown", {
+      creationParameter: z.object({ from: z.number() }),
+      toServerPacket: z.object({ type: z.literal("next") }),
+      toClientPacket: z.object({ value: z.number() }),
+    })
+    .addSignalEndpoint("status", {
+      creationParameter: z.object({ id: z.string() }),
+      signalData: z.object({ value: z.string() }),
+    });
+  backendInterface.handleRpcEndpoint("add", (_ctx, { a, b }) => a + b);
+  backendInterface.handleChannelEndpoint("countdown", async (_ctx, { from }, channel) => {
+    let value = from;
+    channel.send({ value });
+    await new Promise<void>(resolve => {
+      channel.onMessage.subscribe(() => {
+        value--;
+        channel.send({ value });
+        if (value === 0) {
+          resolve();
+        }
+      });
+    });
+  });
+  backendInterface.handleSignalEndpoint(
+    "status",
+    (_ctx, { id }) => Signal.create({ value: `ready:${id}` })[0],
+  );
+  return backendInterface;
+}
+
+/**
+ * Connects a client port, whose traffic is recorded, to a server port.
+ */
+function createRecordedClientPort(recorder: CassetteRecorder) {
+  const backendInterface = createBackendInterface();
+  const [toClientMessageEvent, emitToClientMessageEvent] =
+    BufferedEvent.create<ServerToClientMessage>();
+  const [toServerMessageEvent, emitToServerMessageEvent] =
+    BufferedEvent.create<ClientToServerMessage>();
+  const [clientCloseEvent] = BufferedEvent.create<void>();
+  const [serverCloseEvent] = BufferedEvent.create<void>();
+  new ServerPort(
+    backendInterface,
+    createTestContextCreator(),
+    GenericServerTransport.createFactory(
+      toServerMessageEvent,
+      serverCloseEvent,
+      emitToClientMessageEvent,
+    ),
+    { parentLogger: silentLogger },
+  );
+  return new ClientPort(
+    backendInterface,
+    recorder.wrapTransportFactory(
+      "test",
+      GenericClientTransport.createFactory(
+        toClientMessageEvent,
+        clientCloseEvent,
+        emitToServerMessageEvent,
+      ),
+    ),
+    { parentLogger: silentLogger },
+  );
+}
+
+function createReplayClientPort(player: CassettePlayer) {
+  return new ClientPort(createBackendInterface(), player.createTransportFactory("test"), {
+    parentLogger: silentLogger,
+  });
+}
+
+/**
+ * Counts down from the given value, asking the server for each next value.
+ */
+async function countdown(port: ReturnType<typeof createReplayClientPort>, from: number) {
+  const values: Array<number> = [];
+  await new Promise<void>((resolve, reject) => {
+    const channel = port.createChannel("countdown", { from }, ({ value }) => {
+      values.push(value);
+      if (value === 0) {
+        resolve();
+      } else {
+        channel.send({ type: "next" });
+      }
+    });
+    channel.onError.subscribe(reject);
+  });
+  return values;
+}
+
+async function getStatus(port: ReturnType<typeof createReplayClientPort>, id: string) {
+  const signal = port.createSignal("status", { id });
+  return await new Promise<unknown>(resolve => {
+    const unsubscribe = signal.subscribe(value => {
+      unsubscribe();
+      resolve(value);
+    });
+  });
+}
+
+async function recordCassette(): Promise<Cassette> {
+  const recorder = new CassetteRecorder();
+  const port = createRecordedClientPort(recorder);
+  expect(await port.callRpc("add", { a: 1, b: 2, seed: 42 })).toBe(3);
+  expect(await countdown(port, 2)).toEqual([2, 1, 0]);
+  expect(await getStatus(port, "a")).toEqual({ value: "ready:a" });
+  // Saved to and loaded from a file in practice.
+  return JSON.parse(JSON.stringify(recorder.getCassette()));
+}
+
+describe("Cassettes", () => {
+  it("records every interaction with its messages", async () => {
+    const cassette = await recordCassette();
+
+    expect(cassette.interactions.map(({ type, endpoint }) => `${type}:${endpoint}`)).toEqual([
+      "rpc:add",
+      "channel:countdown",
+      "signal:status",
+    ]);
+    expect(cassette.interactions[0]).toMatchObject({
+      namespace: "test",
+      parameter: { a: 1, b: 2, seed: 42 },
+      events: [{ direction: "toClient", message: { type: "rpcResult", result: 3 } }],
+    });
+    expect(cassette.interactions[1].events.map(({ direction }) => direction)).toEqual([
+      "toClient",
+      "toServer",
+      "toClient",
+      "toServer",
+      "toClient",
+      "toClient",
+    ]);
+  });
+
+  it("replays the interactions without a server", async () => {
+    const player = new CassettePlayer(await recordCassette());
+    const port = createReplayClientPort(player);
+
+    expect(await getStatus(port, "a")).toEqual({ value: "ready:a" });
+    expect(await port.callRpc("add", { a: 1, b: 2, seed: 42 })).toBe(3);
+    expect(await countdown(port, 2)).toEqual([2, 1, 0]);
+    expect(player.getUnusedInteractions()).toEqual([]);
+  });
+
+  it("fails requests that were not recorded", async () => {
+    const player = new CassettePlayer(await recordCassette());
+    const port = createReplayClientPort(player);
+
+    await expect(port.callRpc("add", { a: 1, b: 3, seed: 42 })).rejects.toThrow(
+      'No recorded interaction matches the rpc request to "add"',
+    );
+    await expect(countdown(port, 3)).rejects.toThrow("No recorded interaction matches");
+    expect(player.getUnusedInteractions()).toHaveLength(3);
+  });
+
+  it("ignores the configured keys when matching", async () => {
+    const cassette = await recordCassette();
+
+    const strictPort = createReplayClientPort(new CassettePlayer(cassette));
+    await expect(strictPort.callRpc("add", { a: 1, b: 2, seed: 7 })).rejects.toThrow(
+      "No recorded interaction matches",
+    );
+
+    const lenientPort = createReplayClientPort(
+      new CassettePlayer(cassette, { ignoreKeys: ["seed"] }),
+    );
+    expect(await lenientPort.callRpc("add", { a: 1, b: 2, seed: 7 })).toBe(3);
+  });
+});
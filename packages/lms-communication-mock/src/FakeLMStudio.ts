@@ -0,0 +1,730 @@
+import { SimpleLogger, text, type LoggerInterface } from "@lmstudio/lms-common";
+import { type Context, type ContextCreator } from "@lmstudio/lms-communication-server";
+import {
+  type BaseModelBackendInterface,
+  createEmbeddingBackendInterface,
+  createLlmBackendInterface,
+  createSystemBackendInterface,
+  type EmbeddingPort,
+  type LLMPort,
+  type SystemPort,
+} from "@lmstudio/lms-external-backend-interfaces";
+import {
+  type ChatHistoryData,
+  type EmbeddingModelInfo,
+  type KVConfig,
+  type KVConfigStack,
+  type LLMInfo,
+  type LLMPredictionFragmentReasoningType,
+  type LLMPredictionStopReason,
+  type ModelCompatibilityType,
+  type ModelInfo,
+  type ModelInstanceInfo,
+  type ModelSpecifier,
+  type PromptProcessingDetails,
+} from "@lmstudio/lms-shared-types";
+import { createMockedPorts } from "./createMockedPorts.js";
+
+/**
+ * Options shared by every model registered on a {@link FakeLMStudio}.
+ */
+export interface FakeModelOpts {
+  modelKey: string;
+  displayName?: string;
+  publisher?: string;
+  path?: string;
+  format?: ModelCompatibilityType;
+  sizeBytes?: number;
+  maxContextLength?: number;
+  /**
+   * Whether the model starts loaded, with the model key as its identifier. Defaults to `true`.
+   */
+  loaded?: boolean;
+  /**
+   * The progress updates sent while the model is loaded. Defaults to `[0.5, 1]`.
+   */
+  loadProgress?: Array<number>;
+  /**
+   * If set, loading the model fails with this message after the progress updates are sent.
+   */
+  loadError?: string;
+}
+
+export interface FakeLLMOpts extends FakeModelOpts {
+  vision?: boolean;
+  trainedForToolUse?: boolean;
+}
+
+export interface FakeEmbeddingModelOpts extends FakeModelOpts {
+  /**
+   * Computes the embedding of a string. Defaults to a deterministic, normalized vector of length 8
+   * derived from the characters of the string.
+   */
+  embed?: (input: string) => Array<number>;
+}
+
+/**
+ * A step of a scripted prediction.
+ *
+ * - `fragment`: Streams a piece of the generated text.
+ * - `promptProcessingProgress`: Reports prompt processing progress between 0 and 1.
+ * - `toolCall`: Streams a complete tool call request, from the start to the end of its generation.
+ * - `toolCallFailed`: Reports a tool call whose generation failed.
+ * - `delay`: Waits the given number of milliseconds. The wait ends early if the prediction is
+ *   cancelled, so a long delay can be used to hold a prediction open until the client cancels it.
+ * - `error`: Fails the prediction with the given message.
+ */
+export type FakePredictionEvent =
+  | {
+      type: "fragment";
+      content: string;
+      tokensCount?: number;
+      reasoningType?: LLMPredictionFragmentReasoningType;
+    }
+  | {
+      type: "promptProcessingProgress";
+      progress: number;
+      details?: PromptProcessingDetails;
+    }
+  | {
+      type: "toolCall";
+      name: string;
+      arguments?: Record<string, any>;
+      id?: string;
+      rawContent?: string;
+    }
+  | {
+      type: "toolCallFailed";
+      error: string;
+      rawContent?: string;
+    }
+  | {
+      type: "delay";
+      ms: number;
+    }
+  | {
+      type: "error";
+      error: string;
+    };
+
+export interface FakePredictionScript {
+  events: Array<FakePredictionEvent>;
+  /**
+   * Defaults to `"toolCalls"` if the script contains a tool call and to `"eosFound"` otherwise. A
+   * cancelled prediction always stops with `"userStopped"`.
+   */
+  stopReason?: LLMPredictionStopReason;
+}
+
+/**
+ * A prediction request received by a {@link FakeLMStudio}.
+ */
+export interface FakePredictionRequest {
+  endpoint: "predict" | "completeRawText";
+  modelKey: string;
+  identifier: string;
+  /**
+   * The chat history. Only set for `predict`.
+   */
+  history?: ChatHistoryData;
+  /**
+   * The raw prompt. Only set for `completeRawText`.
+   */
+  rawPrompt?: string;
+  /**
+   * The prediction config stack collapsed into a single config. Later layers win.
+   */
+  predictionConfig: KVConfig;
+  fuzzyPresetIdentifier?: string;
+}
+
+/**
+ * Scripts the next prediction. A string streams as a single fragment. A function is called with the
+ * request when the prediction starts.
+ */
+export type FakePrediction =
+  | string
+  | FakePredictionScript
+  | ((request: FakePredictionRequest) => FakePredictionScript | Promise<FakePredictionScript>);
+
+export interface FakeLMStudioConstructorOpts {
+  /**
+   * Receives the errors of the fake server, such as scripted errors. Defaults to the console.
+   */
+  logger?: LoggerInterface;
+  /**
+   * The LM Studio version reported by the fake. Defaults to `"0.3.0"`.
+   */
+  version?: string;
+}
+
+/**
+ * The internal `LMStudioClient` constructor options that connect a client to a
+ * {@link FakeLMStudio}.
+ */
+export interface FakeLMStudioClientOpts {
+  disableConnection: true;
+  llmPort: LLMPort;
+  embeddingPort: EmbeddingPort;
+  systemPort: SystemPort;
+}
+
+interface FakeModel {
+  info: ModelInfo;
+  loadProgress: Array<number>;
+  loadError?: string;
+  embed?: (input: string) => Array<number>;
+  instance: ModelInstanceInfo | null;
+}
+
+function defaultEmbed(input: string) {
+  const vector = new Array<number>(8).fill(0);
+  Array.from(input).forEach((char, index) => {
+    vector[index % vector.length] += char.codePointAt(0)!;
+  });
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+/**
+ * One token per character, so token counts are easy to predict in tests.
+ */
+function tokenize(input: string) {
+  return Array.from(input).map(char => char.codePointAt(0)!);
+}
+
+function collapseKVConfigStack(stack: KVConfigStack): KVConfig {
+  const fields = new Map<string, any>();
+  for (const layer of stack.layers) {
+    for (const field of layer.config.fields) {
+      fields.set(field.key, field.value);
+    }
+  }
+  return { fields: [...fields].map(([key, value]) => ({ key, value })) };
+}
+
+function historyToText(history: ChatHistoryData) {
+  return history.messages
+    .map(message => {
+      const content = message.content.map(part => (part.type === "text" ? part.text : "")).join("");
+      return `${message.role}: ${content}`;
+    })
+    .join("\n");
+}
+
+function matchesSpecifier(instance: ModelInstanceInfo, specifier: ModelSpecifier) {
+  if (specifier.type === "instanceReference") {
+    return instance.instanceReference === specifier.instanceReference;
+  }
+  const { domain, identifier, path, vision } = specifier.query;
+  return (
+    (domain === undefined || domain === instance.type) &&
+    (identifier === undefined || identifier === instance.identifier) &&
+    (path === undefined || path === instance.path || path === instance.modelKey) &&
+    (vision === undefined || (instance.type === "llm" && instance.vision === vision))
+  );
+}
+
+/**
+ * Waits for the given time, or until the abort signal fires.
+ */
+function delay(ms: number, signal: AbortSignal) {
+  return new Promise<void>(resolve => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * An in-process fake of the LM Studio backend for unit tests. It serves the LLM, embedding and
+ * system APIs from registered models and scripted predictions, so code built on `LMStudioClient`
+ * can be tested deterministically without LM Studio running.
+ *
+ * ```ts
+ * const fake = new FakeLMStudio();
+ * fake.addLLM({ modelKey: "qwen3-4b", trainedForToolUse: true });
+ * fake.queuePrediction({ events: [{ type: "toolCall", name: "add", arguments: { a: 1, b: 2 } }] });
+ * fake.queuePrediction("The answer is 3.");
+ * const client = new LMStudioClient(fake.getClientOpts());
+ * const model = await client.llm.model("qwen3-4b");
+ * await model.act("What is 1 + 2?", [addTool]);
+ * ```
+ *
+ * Each call to `getClientOpts` connects a new set of ports to the same fake, so several clients
+ * share its models and queue.
+ */
+export class FakeLMStudio {
+  private readonly logger: SimpleLogger;
+  private readonly version: string;
+  private readonly models: Array<FakeModel> = [];
+  private readonly queuedPredictions: Array<FakePrediction> = [];
+  private readonly predictionRequests: Array<FakePredictionRequest> = [];
+  private readonly experimentFlags = new Set<string>();
+  private nextInstanceReference = 0;
+
+  public constructor({ logger, version = "0.3.0" }: FakeLMStudioConstructorOpts = {}) {
+    this.logger = new SimpleLogger("FakeLMStudio", logger);
+    this.version = version;
+  }
+
+  public addLLM({ vision = false, trainedForToolUse = false, ...opts }: FakeLLMOpts): LLMInfo {
+    const info: LLMInfo = {
+      type: "llm",
+      ...this.createModelInfoBase(opts),
+      vision,
+      trainedForToolUse,
+      maxContextLength: opts.maxContextLength ?? 4096,
+    };
+    this.addModel(info, opts);
+    return info;
+  }
+
+  public addEmbeddingModel({ embed, ...opts }: FakeEmbeddingModelOpts): EmbeddingModelInfo {
+    const info: EmbeddingModelInfo = {
+      type: "embedding",
+      ...this.createModelInfoBase(opts),
+      maxContextLength: opts.maxContextLength ?? 2048,
+    };
+    this.addModel(info, opts, embed ?? defaultEmbed);
+    return info;
+  }
+
+  /**
+   * Adds a prediction to the queue. Every `predict` and `completeRawText` request takes the next
+   * queued prediction, in order. A request fails if the queue is empty.
+   */
+  public queuePrediction(prediction: FakePrediction) {
+    this.queuedPredictions.push(prediction);
+  }
+
+  /**
+   * Returns the number of queued predictions that have not been requested yet.
+   */
+  public getQueuedPredictionCount() {
+    return this.queuedPredictions.length;
+  }
+
+  /**
+   * Returns every prediction request received so far, in order.
+   */
+  public getPredictionRequests(): Array<FakePredictionRequest> {
+    return [...this.predictionRequests];
+  }
+
+  /**
+   * Returns the loaded model instances, in the order they were loaded.
+   */
+  public getLoadedModels(): Array<ModelInstanceInfo> {
+    return this.models.flatMap(model => (model.instance === null ? [] : [model.instance]));
+  }
+
+  /**
+   * Creates ports connected to this fake. Pass the result to the `LMStudioClient` constructor.
+   */
+  public getClientOpts(): FakeLMStudioClientOpts {
+    const contextCreator: ContextCreator<Context> = ({ endpointName }) => ({
+      logger: new SimpleLogger(endpointName, this.logger),
+    });
+    return {
+      disableConnection: true,
+      llmPort: createMockedPorts(this.createLlmBackendInterface(), contextCreator).clientPort,
+      embeddingPort: createMockedPorts(this.createEmbeddingBackendInterface(), contextCreator)
+        .clientPort,
+      systemPort: createMockedPorts(this.createSystemBackendInterface(), contextCreator).clientPort,
+    };
+  }
+
+  private createModelInfoBase({
+    modelKey,
+    displayName = modelKey,
+    publisher = "lmstudio-community",
+    path = `${publisher}/${modelKey}`,
+    format = "gguf",
+    sizeBytes = 1_000_000_000,
+  }: FakeModelOpts) {
+    return {
+      modelKey,
+      format,
+      displayName,
+      publisher,
+      path,
+      sizeBytes,
+      indexedModelIdentifier: path,
+      deviceIdentifier: null,
+    };
+  }
+
+  private addModel(
+    info: ModelInfo,
+    { loaded = true, loadProgress = [0.5, 1], loadError }: FakeModelOpts,
+    embed?: (input: string) => Array<number>,
+  ) {
+    if (this.models.some(model => model.info.modelKey === info.modelKey)) {
+      throw new Error(`A model with the key "${info.modelKey}" was already added.`);
+    }
+    const model: FakeModel = { info, loadProgress, loadError, embed, instance: null };
+    this.models.push(model);
+    if (loaded) {
+      this.loadInstance(model, info.modelKey);
+    }
+  }
+
+  private loadInstance(model: FakeModel, identifier: string, ttlMs?: number) {
+    model.instance = {
+      ...model.info,
+      identifier,
+      instanceReference: `fake-instance-${this.nextInstanceReference++}`,
+      ttlMs: ttlMs ?? null,
+      lastUsedTime: null,
+      contextLength: model.info.maxContextLength,
+    } as ModelInstanceInfo;
+    return model.instance;
+  }
+
+  private findModel(domain: ModelInfo["type"], modelKey: string) {
+    const model = this.models.find(
+      model => model.info.type === domain && model.info.modelKey === modelKey,
+    );
+    if (model === undefined) {
+      throw new Error(`Cannot find a ${domain} model with the key "${modelKey}".`);
+    }
+    return model;
+  }
+
+  private findLoadedModel(domain: ModelInfo["type"], specifier: ModelSpecifier) {
+    return this.models.find(
+      model =>
+        model.info.type === domain &&
+        model.instance !== null &&
+        matchesSpecifier(model.instance, specifier),
+    );
+  }
+
+  private getLoadedModelOrThrow(domain: ModelInfo["type"], specifier: ModelSpecifier) {
+    const model = this.findLoadedModel(domain, specifier);
+    if (model === undefined) {
+      throw new Error(`No loaded ${domain} model matches ${JSON.stringify(specifier)}.`);
+    }
+    return model as FakeModel & { instance: ModelInstanceInfo };
+  }
+
+  private handleBaseModelEndpoints(
+    backendInterface: BaseModelBackendInterface<any, any>,
+    domain: ModelInfo["type"],
+  ) {
+    backendInterface.handleChannelEndpoint(
+      "loadModel",
+      async (_ctx, { modelKey, identifier, ttlMs }, channel) => {
+        const model = this.findModel(domain, modelKey);
+        channel.send({ type: "resolved", info: model.info });
+        for (const progress of model.loadProgress) {
+          channel.send({ type: "progress", progress });
+        }
+        if (model.loadError !== undefined) {
+          throw new Error(model.loadError);
+        }
+        const info = this.loadInstance(model, identifier ?? modelKey, ttlMs);
+        channel.send({ type: "success", info });
+      },
+    );
+    backendInterface.handleRpcEndpoint("unloadModel", (_ctx, { identifier }) => {
+      const model: FakeModel = this.getLoadedModelOrThrow(domain, {
+        type: "query",
+        query: { identifier },
+      });
+      model.instance = null;
+    });
+    backendInterface.handleRpcEndpoint("listLoaded", () =>
+      this.getLoadedModels().filter(instance => instance.type === domain),
+    );
+    backendInterface.handleRpcEndpoint("getModelInfo", (_ctx, { specifier, throwIfNotFound }) => {
+      if (throwIfNotFound) {
+        return this.getLoadedModelOrThrow(domain, specifier).instance;
+      }
+      return this.findLoadedModel(domain, specifier)?.instance ?? undefined;
+    });
+    backendInterface.handleRpcEndpoint("getLoadConfig", (_ctx, { specifier }) => {
+      this.getLoadedModelOrThrow(domain, specifier);
+      return { fields: [] };
+    });
+    backendInterface.handleRpcEndpoint("getBasePredictionConfig", (_ctx, { specifier }) => {
+      this.getLoadedModelOrThrow(domain, specifier);
+      return { fields: [] };
+    });
+    backendInterface.handleChannelEndpoint(
+      "getOrLoad",
+      async (_ctx, { identifier, loadTtlMs }, channel) => {
+        const loadedModel =
+          this.findLoadedModel(domain, { type: "query", query: { identifier } }) ??
+          this.models.find(
+            model =>
+              model.info.type === domain &&
+              model.instance !== null &&
+              model.info.modelKey === identifier,
+          );
+        if (loadedModel !== undefined) {
+          channel.send({ type: "alreadyLoaded", info: loadedModel.instance });
+          return;
+        }
+        const model = this.findModel(domain, identifier);
+        channel.send({ type: "startLoading", identifier, info: model.info });
+        for (const progress of model.loadProgress) {
+          channel.send({ type: "loadProgress", progress });
+        }
+        if (model.loadError !== undefined) {
+          throw new Error(model.loadError);
+        }
+        const info = this.loadInstance(model, identifier, loadTtlMs);
+        channel.send({ type: "loadSuccess", info });
+      },
+    );
+    backendInterface.handleRpcEndpoint("getInstanceProcessingState", (_ctx, { specifier }) => {
+      this.getLoadedModelOrThrow(domain, specifier);
+      return { status: "idle" as const, queued: 0 };
+    });
+    backendInterface.handleRpcEndpoint("estimateModelUsage", () => {
+      throw new Error("FakeLMStudio does not support estimating the model usage.");
+    });
+  }
+
+  private async takePrediction(request: FakePredictionRequest): Promise<FakePredictionScript> {
+    this.predictionRequests.push(request);
+    const prediction = this.queuedPredictions.shift();
+    if (prediction === undefined) {
+      throw new Error(text`
+        FakeLMStudio received a ${request.endpoint} request for "${request.identifier}", but no
+        prediction is queued. Call queuePrediction before making the request.
+      `);
+    }
+    if (typeof prediction === "string") {
+      return { events: [{ type: "fragment", content: prediction }] };
+    }
+    if (typeof prediction === "function") {
+      return await prediction(request);
+    }
+    return prediction;
+  }
+
+  /**
+   * Plays a prediction script on a channel of the `predict` or `completeRawText` endpoint. Tool call
+   * events are only valid on `predict`.
+   */
+  private async playPrediction(
+    { events, stopReason }: FakePredictionScript,
+    instance: ModelInstanceInfo,
+    prompt: string,
+    predictionConfig: KVConfig,
+    channel: {
+      send: (packet: any) => void;
+      onMessage: { subscribe: (listener: (packet: { type: "cancel" }) => void) => void };
+    },
+  ) {
+    const abortController = new AbortController();
+    channel.onMessage.subscribe(packet => {
+      if (packet.type === "cancel") {
+        abortController.abort();
+      }
+    });
+    const promptTokensCount = tokenize(prompt).length;
+    let predictedTokensCount = 0;
+    for (const event of events) {
+      if (abortController.signal.aborted) {
+        break;
+      }
+      switch (event.type) {
+        case "fragment": {
+          const tokensCount = event.tokensCount ?? tokenize(event.content).length;
+          predictedTokensCount += tokensCount;
+          channel.send({
+            type: "fragment",
+            fragment: {
+              content: event.content,
+              tokensCount,
+              containsDrafted: false,
+              reasoningType: event.reasoningType ?? "none",
+              isStructural: false,
+            },
+          });
+          break;
+        }
+        case "promptProcessingProgress": {
+          const processedPromptTokenCount = Math.round(promptTokensCount * event.progress);
+          channel.send({
+            type: "promptProcessingProgress",
+            progress: event.progress,
+            details: event.details ?? {
+              cachedTokenCount: 0,
+              totalPromptTokenCount: promptTokensCount,
+              processedPromptTokenCount,
+              unprocessedPromptTokenCount: promptTokensCount - processedPromptTokenCount,
+            },
+          });
+          break;
+        }
+        case "toolCall": {
+          const argumentsString = JSON.stringify(event.arguments ?? {});
+          channel.send({ type: "toolCallGenerationStart", toolCallId: event.id });
+          channel.send({ type: "toolCallGenerationNameReceived", name: event.name });
+          channel.send({
+            type: "toolCallGenerationArgumentFragmentGenerated",
+            content: argumentsString,
+          });
+          channel.send({
+            type: "toolCallGenerationEnd",
+            toolCallRequest: {
+              id: event.id,
+              type: "function",
+              name: event.name,
+              arguments: event.arguments ?? {},
+            },
+            rawContent: event.rawContent,
+          });
+          break;
+        }
+        case "toolCallFailed": {
+          channel.send({
+            type: "toolCallGenerationFailed",
+            error: { title: event.error, rootTitle: event.error },
+            rawContent: event.rawContent,
+          });
+          break;
+        }
+        case "delay": {
+          await delay(event.ms, abortController.signal);
+          break;
+        }
+        case "error": {
+          throw new Error(event.error);
+        }
+      }
+    }
+    channel.send({
+      type: "success",
+      stats: {
+        stopReason: abortController.signal.aborted
+          ? "userStopped"
+          : stopReason ??
+            (events.some(event => event.type === "toolCall") ? "toolCalls" : "eosFound"),
+        promptTokensCount,
+        predictedTokensCount,
+        totalTokensCount: promptTokensCount + predictedTokensCount,
+      },
+      modelInfo: instance,
+      loadModelConfig: { fields: [] },
+      predictionConfig,
+    });
+  }
+
+  private createLlmBackendInterface() {
+    const backendInterface = createLlmBackendInterface();
+    this.handleBaseModelEndpoints(
+      backendInterface as any as BaseModelBackendInterface<any, any>,
+      "llm",
+    );
+    backendInterface.handleChannelEndpoint("predict", async (_ctx, param, channel) => {
+      const { instance } = this.getLoadedModelOrThrow("llm", param.modelSpecifier);
+      const predictionConfig = collapseKVConfigStack(param.predictionConfigStack);
+      const script = await this.takePrediction({
+        endpoint: "predict",
+        modelKey: instance.modelKey,
+        identifier: instance.identifier,
+        history: param.history,
+        predictionConfig,
+        fuzzyPresetIdentifier: param.fuzzyPresetIdentifier,
+      });
+      await this.playPrediction(
+        script,
+        instance,
+        historyToText(param.history),
+        predictionConfig,
+        channel,
+      );
+    });
+    backendInterface.handleChannelEndpoint("completeRawText", async (_ctx, param, channel) => {
+      const { instance } = this.getLoadedModelOrThrow("llm", param.modelSpecifier);
+      const predictionConfig = collapseKVConfigStack(param.predictionConfigStack);
+      const script = await this.takePrediction({
+        endpoint: "completeRawText",
+        modelKey: instance.modelKey,
+        identifier: instance.identifier,
+        rawPrompt: param.rawPrompt,
+        predictionConfig,
+        fuzzyPresetIdentifier: param.fuzzyPresetIdentifier,
+      });
+      await this.playPrediction(script, instance, param.rawPrompt, predictionConfig, channel);
+    });
+    backendInterface.handleRpcEndpoint("applyPromptTemplate", (_ctx, { specifier, history }) => {
+      this.getLoadedModelOrThrow("llm", specifier);
+      return { formatted: historyToText(history) };
+    });
+    backendInterface.handleRpcEndpoint("tokenize", (_ctx, { specifier, inputString }) => {
+      this.getLoadedModelOrThrow("llm", specifier);
+      return { tokens: tokenize(inputString) };
+    });
+    backendInterface.handleRpcEndpoint("countTokens", (_ctx, { specifier, inputString }) => {
+      this.getLoadedModelOrThrow("llm", specifier);
+      return { tokenCount: tokenize(inputString).length };
+    });
+    backendInterface.handleRpcEndpoint("preloadDraftModel", (_ctx, { draftModelKey }) => {
+      this.findModel("llm", draftModelKey);
+    });
+    return backendInterface;
+  }
+
+  private createEmbeddingBackendInterface() {
+    const backendInterface = createEmbeddingBackendInterface();
+    this.handleBaseModelEndpoints(
+      backendInterface as any as BaseModelBackendInterface<any, any>,
+      "embedding",
+    );
+    backendInterface.handleRpcEndpoint("embedString", (_ctx, { modelSpecifier, inputString }) => {
+      const model = this.getLoadedModelOrThrow("embedding", modelSpecifier);
+      return { embedding: model.embed!(inputString) };
+    });
+    backendInterface.handleRpcEndpoint("tokenize", (_ctx, { specifier, inputString }) => {
+      this.getLoadedModelOrThrow("embedding", specifier);
+      return { tokens: tokenize(inputString) };
+    });
+    backendInterface.handleRpcEndpoint("countTokens", (_ctx, { specifier, inputString }) => {
+      this.getLoadedModelOrThrow("embedding", specifier);
+      return { tokenCount: tokenize(inputString).length };
+    });
+    return backendInterface;
+  }
+
+  private createSystemBackendInterface() {
+    const backendInterface = createSystemBackendInterface();
+    backendInterface.handleRpcEndpoint("listDownloadedModels", () =>
+      this.models.map(model => model.info),
+    );
+    backendInterface.handleRpcEndpoint("listDownloadedModelVariants", (_ctx, { modelKey }) =>
+      this.models.filter(model => model.info.modelKey === modelKey).map(model => model.info),
+    );
+    backendInterface.handleRpcEndpoint("notify", () => {});
+    backendInterface.handleRpcEndpoint("version", () => ({ version: this.version, build: 1 }));
+    backendInterface.handleRpcEndpoint("setExperimentFlag", (_ctx, { code, value }) => {
+      if (value) {
+        this.experimentFlags.add(code);
+      } else {
+        this.experimentFlags.delete(code);
+      }
+    });
+    backendInterface.handleRpcEndpoint("getExperimentFlags", () => [...this.experimentFlags]);
+    backendInterface.handleRpcEndpoint("startHttpServer", () => {});
+    backendInterface.handleRpcEndpoint("stopHttpServer", () => {});
+    backendInterface.handleRpcEndpoint("info", () => ({
+      pid: 0,
+      isDaemon: false,
+      version: this.version,
+    }));
+    backendInterface.handleRpcEndpoint("requestShutdown", () => {});
+    return backendInterface;
+  }
+}
@@ -0,0 +1,198 @@
+import { makePromise, SimpleLogger, type LoggerInterface } from "@lmstudio/lms-common";
+import {
+  type ExtractBackendInterfaceChannelEndpoints,
+  type InferServerChannelType,
+} from "@lmstudio/lms-communication";
+import { type Context, type ContextCreator } from "@lmstudio/lms-communication-server";
+import {
+  createLlmBackendInterface,
+  type LLMBackendInterface,
+  type LLMPort,
+} from "@lmstudio/lms-external-backend-interfaces";
+import {
+  type LLMInstanceInfo,
+  type LLMPredictionStats,
+  type LLMToken,
+  type ToolCallRequest,
+} from "@lmstudio/lms-shared-types";
+import { createMockedPorts } from "./createMockedPorts.js";
+
+type LLMChannelEndpoints = ExtractBackendInterfaceChannelEndpoints<LLMBackendInterface>;
+type PredictEndpoint = LLMChannelEndpoints["predict"];
+type CompleteRawTextEndpoint = LLMChannelEndpoints["completeRawText"];
+
+/**
+ * The server side of a prediction channel opened on a port created by {@link createFakeLLMPort}.
+ */
+export interface FakeLLMPredictionChannel<TCreationParameter, TToClientPacket> {
+  creationParameter: TCreationParameter;
+  send(packet: TToClientPacket): void;
+  sendFragment(content: string, tokens?: Array<LLMToken>): void;
+  /**
+   * Ends the prediction. The stop reason defaults to `eosFound`.
+   */
+  sendSuccess(stats?: Partial<LLMPredictionStats>): void;
+  /**
+   * Ends the prediction with an error.
+   */
+  fail(error: Error): void;
+  /**
+   * Called with every message the client sends on the channel, such as `{ type: "cancel" }`.
+   */
+  onClientMessage: (message: PredictEndpoint["toServerPacket"]) => void;
+}
+
+/**
+ * The server side of a `predict` channel, opened by `.respond` and by every round of `.act`.
+ */
+export interface FakeLLMPredictChannel
+  extends FakeLLMPredictionChannel<
+    PredictEndpoint["creationParameter"],
+    PredictEndpoint["toClientPacket"]
+  > {
+  /**
+   * Sends the start and the end of the generation of a tool call request.
+   */
+  sendToolCall(toolCallRequest: ToolCallRequest): void;
+}
+
+/**
+ * The server side of a `completeRawText` channel, opened by `.complete`.
+ */
+export type FakeLLMCompleteRawTextChannel = FakeLLMPredictionChannel<
+  CompleteRawTextEndpoint["creationParameter"],
+  CompleteRawTextEndpoint["toClientPacket"]
+>;
+
+export interface FakeLLMPortOpts {
+  logger?: LoggerInterface;
+  /**
+   * Called whenever the client opens a `predict` channel.
+   */
+  onPredict?: (channel: FakeLLMPredictChannel) => void;
+  /**
+   * Called whenever the client opens a `completeRawText` channel.
+   */
+  onCompleteRawText?: (channel: FakeLLMCompleteRawTextChannel) => void;
+  /**
+   * Answers the `tokenize` RPC.
+   */
+  tokenize?: (inputString: string) => Array<number>;
+}
+
+/**
+ * The instance every prediction served by {@link createFakeLLMPort} reports in its result.
+ */
+export const fakeLLMInstanceInfo: LLMInstanceInfo = {
+  type: "llm",
+  modelKey: "test/model",
+  format: "gguf",
+  displayName: "Test Model",
+  publisher: "test",
+  path: "/test/model.gguf",
+  sizeBytes: 0,
+  indexedModelIdentifier: "test/model",
+  deviceIdentifier: null,
+  identifier: "test-instance",
+  instanceReference: "test-instance",
+  ttlMs: null,
+  lastUsedTime: null,
+  vision: false,
+  trainedForToolUse: false,
+  maxContextLength: 4096,
+  contextLength: 4096,
+};
+
+/**
+ * Serves a prediction channel until the prediction succeeds or fails. The caller forwards the
+ * messages of the client to `onClientMessage`.
+ */
+function servePredictionChannel<TCreationParameter>(
+  creationParameter: TCreationParameter,
+  channel: InferServerChannelType<LLMBackendInterface, "completeRawText">,
+) {
+  const { promise, resolve, reject } = makePromise<void>();
+  const predictionChannel: FakeLLMPredictionChannel<
+    TCreationParameter,
+    CompleteRawTextEndpoint["toClientPacket"]
+  > = {
+    creationParameter,
+    send: packet => channel.send(packet),
+    sendFragment: (content, tokens) => {
+      channel.send({
+        type: "fragment",
+        fragment: {
+          content,
+          tokensCount: 1,
+          containsDrafted: false,
+          reasoningType: "none",
+          isStructural: false,
+          ...(tokens === undefined ? {} : { tokens }),
+        },
+      });
+    },
+    sendSuccess: stats => {
+      channel.send({
+        type: "success",
+        stats: { stopReason: "eosFound", ...stats },
+        modelInfo: fakeLLMInstanceInfo,
+        loadModelConfig: { fields: [] },
+        predictionConfig: { fields: [] },
+      });
+      resolve();
+    },
+    fail: reject,
+    onClientMessage: () => {},
+  };
+  return { predictionChannel, finished: promise };
+}
+
+/**
+ * Creates an {@link LLMPort} whose predictions are answered by the given callbacks. Endpoints
+ * without a callback fail.
+ */
+export function createFakeLLMPort({
+  logger,
+  onPredict,
+  onCompleteRawText,
+  tokenize,
+}: FakeLLMPortOpts = {}): LLMPort {
+  const parentLogger = new SimpleLogger("FakeLLMPort", logger);
+  const contextCreator: ContextCreator<Context> = ({ endpointName }) => ({
+    logger: new SimpleLogger(endpointName, parentLogger),
+  });
+  const backendInterface = createLlmBackendInterface();
+  if (onPredict !== undefined) {
+    backendInterface.handleChannelEndpoint("predict", (_ctx, creationParameter, channel) => {
+      const { predictionChannel, finished } = servePredictionChannel(creationParameter, channel);
+      const predictChannel: FakeLLMPredictChannel = {
+        ...predictionChannel,
+        send: packet => channel.send(packet),
+        sendToolCall: toolCallRequest => {
+          channel.send({ type: "toolCallGenerationStart", toolCallId: toolCallRequest.id });
+          channel.send({ type: "toolCallGenerationEnd", toolCallRequest });
+        },
+      };
+      channel.onMessage.subscribe(message => predictChannel.onClientMessage(message));
+      onPredict(predictChannel);
+      return finished;
+    });
+  }
+  if (onCompleteRawText !== undefined) {
+    backendInterface.handleChannelEndpoint(
+      "completeRawText",
+      (_ctx, creationParameter, channel) => {
+        const { predictionChannel, finished } = servePredictionChannel(creationParameter, channel);
+        channel.onMessage.subscribe(message => predictionChannel.onClientMessage(message));
+        onCompleteRawText(predictionChannel);
+        return finished;
+      },
+    );
+  }
+  if (tokenize !== undefined) {
+    backendInterface.handleRpcEndpoint("tokenize", (_ctx, { inputString }) => ({
+      tokens: tokenize(inputString),
+    }));
+  }
+  return createMockedPorts(backendInterface, contextCreator).clientPort;
+}
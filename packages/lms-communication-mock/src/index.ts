@@ -1,5 +1,26 @@
+export {
+  createFakeLLMPort,
+  fakeLLMInstanceInfo,
+  type FakeLLMCompleteRawTextChannel,
+  type FakeLLMPortOpts,
+  type FakeLLMPredictChannel,
+  type FakeLLMPredictionChannel,
+} from "./createFakeLLMPort.js";
 export { createMockedPorts } from "./createMockedPorts.js";
 export {
   createControllableMockedPorts,
   type ControllableMockedPorts,
 } from "./createControllableMockedPorts.js";
+export {
+  FakeLMStudio,
+  type FakeEmbeddingModelOpts,
+  type FakeLLMOpts,
+  type FakeLMStudioClientOpts,
+  type FakeLMStudioConstructorOpts,
+  type FakeModelOpts,
+  type FakePrediction,
+  type FakePredictionEvent,
+  type FakePredictionRequest,
+  type FakePredictionScript,
+} from "./FakeLMStudio.js";
+export { silentLogger } from "./silentLogger.js";
@@ -0,0 +1,11 @@
+import { type LoggerInterface } from "@lmstudio/lms-common";
+
+/**
+ * A logger that discards everything, for tests that expect warnings or errors to be logged.
+ */
+export const silentLogger: LoggerInterface = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+};
@@ -1,4 +1,15 @@
+export { appendTextToFile } from "./browser/appendTextToFile.js";
+export { base64ToUint8Array } from "./browser/base64ToUint8Array.js";
 export { generateRandomBase64 } from "./browser/generateRandomBase64.js";
 export { readFileAsBase64 } from "./browser/readFileAsBase64.js";
+export { readTextFromFile } from "./browser/readTextFromFile.js";
+export { serveHttp, type HttpServerHandle, type ServeHttpOpts } from "./browser/serveHttp.js";
+export {
+  spawnChildProcess,
+  type SpawnChildProcessOpts,
+  type SpawnedChildProcess,
+} from "./browser/spawnChildProcess.js";
 export { terminalSize } from "./browser/terminalSize.js";
+export { uint8ArrayToBase64 } from "./browser/uint8ArrayToBase64.js";
+export { writeTextToFile } from "./browser/writeTextToFile.js";
 export { WebSocket } from "./browser/WebSocket.js";
@@ -0,0 +1,3 @@
+export async function readTextFromFile(_path: string): Promise<string> {
+  throw new Error("Reading files is not supported in the browser.");
+}
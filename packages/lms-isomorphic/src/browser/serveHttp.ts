@@ -0,0 +1,7 @@
+import { type HttpServerHandle, type ServeHttpOpts } from "../index/serveHttp.js";
+
+export type { HttpServerHandle, ServeHttpOpts };
+
+export async function serveHttp(_opts: ServeHttpOpts): Promise<HttpServerHandle> {
+  throw new Error("Starting an HTTP server is not supported in the browser.");
+}
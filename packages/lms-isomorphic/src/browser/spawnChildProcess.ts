@@ -0,0 +1,13 @@
+import {
+  type SpawnChildProcessOpts,
+  type SpawnedChildProcess,
+} from "../index/spawnChildProcess.js";
+
+export type { SpawnChildProcessOpts, SpawnedChildProcess };
+
+export function spawnChildProcess(
+  _command: string,
+  _opts: SpawnChildProcessOpts,
+): SpawnedChildProcess {
+  throw new Error("Spawning child processes is not supported in the browser.");
+}
@@ -0,0 +1,10 @@
+export function uint8ArrayToBase64(data: Uint8Array) {
+  // btoa only accepts "binary strings". Convert in chunks to avoid exceeding the maximum number of
+  // arguments of String.fromCharCode.
+  const chunkSize = 0x8000;
+  let binary = "";
+  for (let i = 0; i < data.length; i += chunkSize) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
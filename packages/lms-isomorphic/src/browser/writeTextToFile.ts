@@ -0,0 +1,3 @@
+export async function writeTextToFile(_path: string, _text: string): Promise<void> {
+  throw new Error("Writing files is not supported in the browser.");
+}
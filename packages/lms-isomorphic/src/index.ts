@@ -1,4 +1,15 @@
+export { appendTextToFile } from "./index/appendTextToFile.js";
+export { base64ToUint8Array } from "./index/base64ToUint8Array.js";
 export { generateRandomBase64 } from "./index/generateRandomBase64.js";
 export { readFileAsBase64 } from "./index/readFileAsBase64.js";
+export { readTextFromFile } from "./index/readTextFromFile.js";
+export { serveHttp, type HttpServerHandle, type ServeHttpOpts } from "./index/serveHttp.js";
+export {
+  spawnChildProcess,
+  type SpawnChildProcessOpts,
+  type SpawnedChildProcess,
+} from "./index/spawnChildProcess.js";
 export { terminalSize } from "./index/terminalSize.js";
+export { uint8ArrayToBase64 } from "./index/uint8ArrayToBase64.js";
+export { writeTextToFile } from "./index/writeTextToFile.js";
 export { WebSocket } from "./index/WebSocket.js";
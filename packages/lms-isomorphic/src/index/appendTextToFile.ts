@@ -0,0 +1,5 @@
+import { appendFile } from "fs/promises";
+
+export async function appendTextToFile(path: string, text: string): Promise<void> {
+  await appendFile(path, text, "utf-8");
+}
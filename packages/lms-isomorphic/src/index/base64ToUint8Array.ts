@@ -0,0 +1,4 @@
+export function base64ToUint8Array(base64: string) {
+  const buffer = Buffer.from(base64, "base64");
+  return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+}
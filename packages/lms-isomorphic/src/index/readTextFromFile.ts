@@ -0,0 +1,5 @@
+import { readFile } from "fs/promises";
+
+export async function readTextFromFile(path: string): Promise<string> {
+  return await readFile(path, "utf-8");
+}
@@ -0,0 +1,100 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { type AddressInfo } from "net";
+
+export interface ServeHttpOpts {
+  /**
+   * The port to listen on. Use 0 to pick a free port.
+   */
+  port: number;
+  hostname?: string;
+  handler: (request: Request) => Promise<Response>;
+  onError: (error: unknown) => void;
+}
+
+export interface HttpServerHandle {
+  port: number;
+  close: () => Promise<void>;
+}
+
+async function toRequest(incomingMessage: IncomingMessage, abortSignal: AbortSignal) {
+  const chunks: Array<Buffer> = [];
+  for await (const chunk of incomingMessage) {
+    chunks.push(chunk);
+  }
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(incomingMessage.headers)) {
+    for (const singleValue of Array.isArray(value) ? value : [value]) {
+      if (singleValue !== undefined) {
+        headers.append(name, singleValue);
+      }
+    }
+  }
+  const method = incomingMessage.method ?? "GET";
+  return new Request(
+    `http://${incomingMessage.headers.host ?? "localhost"}${incomingMessage.url}`,
+    {
+      method,
+      headers,
+      body: method === "GET" || method === "HEAD" ? undefined : Buffer.concat(chunks),
+      signal: abortSignal,
+    },
+  );
+}
+
+async function writeResponse(response: Response, serverResponse: ServerResponse) {
+  serverResponse.writeHead(response.status, Object.fromEntries(response.headers));
+  // Send the headers right away, as streamed responses may not produce a chunk for a while.
+  serverResponse.flushHeaders();
+  if (response.body !== null) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      serverResponse.write(value);
+    }
+  }
+  serverResponse.end();
+}
+
+/**
+ * Starts an HTTP server that handles requests with a function that uses the web standard `Request`
+ * and `Response` classes.
+ */
+export async function serveHttp({
+  port,
+  hostname,
+  handler,
+  onError,
+}: ServeHttpOpts): Promise<HttpServerHandle> {
+  const server = createServer((incomingMessage, serverResponse) => {
+    const abortController = new AbortController();
+    serverResponse.on("close", () => abortController.abort());
+    toRequest(incomingMessage, abortController.signal)
+      .then(handler)
+      .then(response => writeResponse(response, serverResponse))
+      .catch(error => {
+        onError(error);
+        if (!serverResponse.headersSent) {
+          serverResponse.writeHead(500);
+        }
+        serverResponse.end();
+      });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, hostname, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close(error => (error === undefined ? resolve() : reject(error)));
+        server.closeAllConnections();
+      }),
+  };
+}
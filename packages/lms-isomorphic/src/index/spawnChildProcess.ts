@@ -0,0 +1,49 @@
+import { spawn } from "child_process";
+import process from "process";
+
+export interface SpawnChildProcessOpts {
+  args?: Array<string>;
+  env?: Record<string, string>;
+  cwd?: string;
+  onStdout: (chunk: string) => void;
+  onStderr: (chunk: string) => void;
+  onError: (error: Error) => void;
+  onExit: (code: number | null) => void;
+}
+
+export interface SpawnedChildProcess {
+  writeStdin: (data: string) => void;
+  endStdin: () => void;
+  kill: () => void;
+}
+
+export function spawnChildProcess(
+  command: string,
+  { args = [], env, cwd, onStdout, onStderr, onError, onExit }: SpawnChildProcessOpts,
+): SpawnedChildProcess {
+  const childProcess = spawn(command, args, {
+    cwd,
+    env: env === undefined ? process.env : { ...process.env, ...env },
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+  childProcess.stdout.setEncoding("utf8");
+  childProcess.stderr.setEncoding("utf8");
+  childProcess.stdout.on("data", onStdout);
+  childProcess.stderr.on("data", onStderr);
+  // Writing to a process that has already exited emits an error on stdin, which is reported
+  // through `onExit` instead.
+  childProcess.stdin.on("error", () => {});
+  childProcess.on("error", onError);
+  childProcess.on("exit", onExit);
+  return {
+    writeStdin: data => {
+      childProcess.stdin.write(data);
+    },
+    endStdin: () => {
+      childProcess.stdin.end();
+    },
+    kill: () => {
+      childProcess.kill();
+    },
+  };
+}
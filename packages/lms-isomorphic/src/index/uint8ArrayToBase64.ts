@@ -0,0 +1,3 @@
+export function uint8ArrayToBase64(data: Uint8Array) {
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("base64");
+}
@@ -0,0 +1,5 @@
+import { writeFile } from "fs/promises";
+
+export async function writeTextToFile(path: string, text: string): Promise<void> {
+  await writeFile(path, text, "utf-8");
+}
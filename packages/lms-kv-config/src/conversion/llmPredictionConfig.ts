@@ -1,7 +1,7 @@
 import { type KVConfig, type LLMPredictionConfig } from "@lmstudio/lms-shared-types";
 import { collapseKVStackRaw } from "../KVConfig.js";
 import { llmPredictionConfigSchematics } from "../schema.js";
-import { maybeFalseValueToCheckboxValue } from "./utils.js";
+import { maybeFalseValueToCheckboxValue, maybeFalseValueToValue } from "./utils.js";
 
 interface KvConfigToLLMPredictionConfigOpts {
   /**
@@ -106,6 +106,38 @@ export function kvConfigToLLMPredictionConfig(
     result.xtcThreshold = xtcThreshold.checked ? xtcThreshold.value : false;
   }
 
+  const frequencyPenalty = parsed.get("llama.frequencyPenalty");
+  if (frequencyPenalty !== undefined) {
+    result.frequencyPenalty = frequencyPenalty.checked ? frequencyPenalty.value : false;
+  }
+
+  const mirostatSampling = parsed.get("llama.mirostatSampling");
+  if (mirostatSampling !== undefined) {
+    result.mirostatSampling = mirostatSampling.version === 0 ? false : mirostatSampling;
+  }
+
+  const tailFreeSampling = parsed.get("llama.tailFreeSampling");
+  if (tailFreeSampling !== undefined) {
+    result.tailFreeSampling = tailFreeSampling.checked ? tailFreeSampling.value : false;
+  }
+
+  const locallyTypicalSampling = parsed.get("llama.locallyTypicalSampling");
+  if (locallyTypicalSampling !== undefined) {
+    result.locallyTypicalSampling = locallyTypicalSampling.checked
+      ? locallyTypicalSampling.value
+      : false;
+  }
+
+  const logitBias = parsed.get("llama.logitBias");
+  if (logitBias !== undefined) {
+    result.logitBias = logitBias;
+  }
+
+  const seed = parsed.get("seed");
+  if (seed !== undefined) {
+    result.seed = seed.checked ? seed.value : false;
+  }
+
   const logProbs = parsed.get("logProbs");
   if (logProbs !== undefined) {
     result.logProbs = logProbs.checked ? logProbs.value : false;
@@ -195,6 +227,19 @@ export function llmPredictionConfigToKVConfig(config: LLMPredictionConfig): KVCo
     "topPSampling": maybeFalseValueToCheckboxValue(config.topPSampling, 0.95),
     "llama.xtcProbability": maybeFalseValueToCheckboxValue(config.xtcProbability, 0),
     "llama.xtcThreshold": maybeFalseValueToCheckboxValue(config.xtcThreshold, 0),
+    "llama.frequencyPenalty": maybeFalseValueToCheckboxValue(config.frequencyPenalty, 0),
+    "llama.mirostatSampling": maybeFalseValueToValue(config.mirostatSampling, {
+      version: 0,
+      learningRate: 0.1,
+      targetEntropy: 5,
+    }),
+    "llama.tailFreeSampling": maybeFalseValueToCheckboxValue(config.tailFreeSampling, 0.95),
+    "llama.locallyTypicalSampling": maybeFalseValueToCheckboxValue(
+      config.locallyTypicalSampling,
+      0.9,
+    ),
+    "llama.logitBias": config.logitBias,
+    "seed": maybeFalseValueToCheckboxValue(config.seed, -1),
     "logProbs": maybeFalseValueToCheckboxValue(config.logProbs, 0),
     "llama.cpuThreads": config.cpuThreads,
     "reasoning.enableThinking": config.enableThinking,
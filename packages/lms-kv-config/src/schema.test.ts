@@ -1,4 +1,5 @@
 import {
+  type LLMPredictionConfig,
   llmLoadModelConfigSchema,
   llmPredictionConfigInputSchema,
   serializedKVConfigSchematicsSchema,
@@ -833,3 +834,31 @@ describe("globalConfigSchematics", () => {
     });
   });
 });
+
+describe("llmPredictionConfig llama sampling", () => {
+  it("round trips the llama sampling fields", () => {
+    const config: LLMPredictionConfig = {
+      frequencyPenalty: 0.5,
+      mirostatSampling: { version: 2, learningRate: 0.2, targetEntropy: 4 },
+      tailFreeSampling: 0.9,
+      locallyTypicalSampling: false,
+      logitBias: [
+        [15, "-inf"],
+        [42, 2.5],
+      ],
+      seed: 1234,
+    };
+    const roundTripped = kvConfigToLLMPredictionConfig(llmPredictionConfigToKVConfig(config));
+
+    expect(roundTripped).toMatchObject(config);
+  });
+
+  it("disables mirostat sampling with version 0", () => {
+    const kvConfig = llmPredictionConfigToKVConfig({ mirostatSampling: false, seed: false });
+
+    expect(kvConfigToLLMPredictionConfig(kvConfig)).toMatchObject({
+      mirostatSampling: false,
+      seed: false,
+    });
+  });
+});
@@ -135,6 +135,11 @@ export const chatMessageRoleDataSchema = z.enum(["assistant", "user", "system",
 
 /**
  * @public
+ *
+ * @remarks
+ *
+ * Messages with the role "tool" may contain file parts (for example, an image returned by a tool).
+ * A file part belongs to the closest tool call result that precedes it.
  */
 export type ChatMessageData =
   | {
@@ -153,7 +158,7 @@ export type ChatMessageData =
     }
   | {
       role: "tool";
-      content: Array<ChatMessagePartToolCallResultData>;
+      content: Array<ChatMessagePartToolCallResultData | ChatMessagePartFileData>;
     };
 
 export const chatMessageDataSchema = z.discriminatedUnion("role", [
@@ -181,7 +186,12 @@ export const chatMessageDataSchema = z.discriminatedUnion("role", [
   }),
   z.object({
     role: z.literal("tool"),
-    content: z.array(chatMessagePartToolCallResultDataSchema),
+    content: z.array(
+      z.discriminatedUnion("type", [
+        chatMessagePartToolCallResultDataSchema,
+        chatMessagePartFileDataSchema,
+      ]),
+    ),
   }),
 ]);
 
@@ -213,6 +213,8 @@ export {
   llmLlamaMirostatSamplingConfigSchema,
   LLMLlamaSingleLogitBiasModification,
   llmLlamaSingleLogitBiasModificationSchema,
+  LLMLogitBiasInput,
+  llmLogitBiasInputSchema,
   LLMPredictionConfig,
   LLMPredictionConfigInput,
   llmPredictionConfigInputSchema,
@@ -251,6 +253,8 @@ export {
   llmPromptTemplateTypeSchema,
 } from "./llm/LLMPromptTemplate.js";
 export {
+  LLMRegexStructuredPredictionSetting,
+  llmRegexStructuredPredictionSettingSchema,
   LLMStructuredPredictionSetting,
   llmStructuredPredictionSettingSchema,
   LLMStructuredPredictionType,
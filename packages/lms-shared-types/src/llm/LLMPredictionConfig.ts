@@ -4,6 +4,8 @@ import { toolNamingSchema, type ToolNaming } from "../ToolNaming.js";
 import { zodSchemaSchema } from "../Zod.js";
 import { llmPromptTemplateSchema, type LLMPromptTemplate } from "./LLMPromptTemplate.js";
 import {
+  llmRegexStructuredPredictionSettingSchema,
+  type LLMRegexStructuredPredictionSetting,
   llmStructuredPredictionSettingSchema,
   type LLMStructuredPredictionSetting,
 } from "./LLMStructuredPredictionSetting.js";
@@ -118,6 +120,9 @@ export interface LLMPredictionConfigInput<TStructuredOutputType = unknown> {
    *
    * This is particularly useful for extracting specific data points from model responses or when
    * you need the output in a format that can be directly used by your application.
+   *
+   * To constrain the output with a regular expression instead, pass
+   * `{ type: "regex", pattern }`. See {@link LLMRegexStructuredPredictionSetting}.
    */
   structured?:
     | {
@@ -140,7 +145,8 @@ export interface LLMPredictionConfigInput<TStructuredOutputType = unknown> {
          */
         parse: (input: any) => TStructuredOutputType;
       }
-    | LLMStructuredPredictionSetting;
+    | LLMStructuredPredictionSetting
+    | LLMRegexStructuredPredictionSetting;
   /**
    * @deprecated Raw tools are currently not well-supported. It may or may not work. If you want to
    * use tools, use `model.act` instead.
@@ -150,6 +156,10 @@ export interface LLMPredictionConfigInput<TStructuredOutputType = unknown> {
    * How the model should use tools to use when predicting. For example, you can use the type
    * "generic" with mode "none" to disable tool use, or mode "auto" to let the model decide when
    * to use tools, or mode "required" to force the model to use tools.
+   *
+   * You can also use the type "function" with a tool name to force the model to call that specific
+   * tool. When used with `.act()`, the forced tool only applies to the first prediction round, and
+   * the model is free to decide for the remaining rounds.
    */
   toolChoice?: LLMToolChoice;
   /**
@@ -229,6 +239,69 @@ export interface LLMPredictionConfigInput<TStructuredOutputType = unknown> {
    * Only takes effect when xtcProbability is enabled.
    */
   xtcThreshold?: number | false;
+  /**
+   * Applies a penalty to tokens proportional to how often they have already appeared in the
+   * response.
+   *
+   * A value of 0 means no penalty. Unlike `presencePenalty`, which penalizes every token that has
+   * appeared once by the same amount, this penalty grows with each repetition.
+   *
+   * Set to false to disable this penalty. Only supported by llama.cpp based engines.
+   */
+  frequencyPenalty?: number | false;
+  /**
+   * Enables Mirostat sampling, which adjusts the sampling dynamically to keep the perplexity
+   * (the "surprise") of the generated text close to `targetEntropy`. `learningRate` controls how
+   * quickly it adapts.
+   *
+   * When Mirostat is enabled, top-k, top-p and other truncation samplers are ignored.
+   *
+   * Set to false (or `version` to 0) to disable Mirostat. Only supported by llama.cpp based
+   * engines.
+   */
+  mirostatSampling?: LLMLlamaMirostatSamplingConfig | false;
+  /**
+   * Enables tail free sampling, which removes the tokens in the "tail" of the probability
+   * distribution. Lower values remove more tokens. A value of 1 removes nothing.
+   *
+   * Value should be between 0 and 1. Set to false to disable tail free sampling. Only supported by
+   * llama.cpp based engines.
+   */
+  tailFreeSampling?: number | false;
+  /**
+   * Enables locally typical sampling, which only considers tokens whose information content is
+   * close to the expected information content. Lower values make the output more "typical".
+   *
+   * Value should be between 0 and 1. Set to false to disable locally typical sampling. Only
+   * supported by llama.cpp based engines.
+   */
+  locallyTypicalSampling?: number | false;
+  /**
+   * Modifies the likelihood of specific tokens. Each entry is a token and the amount added to its
+   * logit. Use "-inf" to prevent a token from being generated.
+   *
+   * Tokens can be specified as token IDs or as strings. Strings are tokenized with the model, and
+   * the modification applies to every token of the string.
+   *
+   * ```ts
+   * const prediction = model.respond("Name a color", {
+   *   logitBias: [
+   *     [" red", "-inf"],
+   *     [" blue", 5],
+   *   ],
+   * });
+   * ```
+   *
+   * Only supported by llama.cpp based engines.
+   */
+  logitBias?: LLMLogitBiasInput;
+  /**
+   * The seed for the random number generator used for sampling. Predictions with the same seed,
+   * prompt and configuration produce the same output.
+   *
+   * Set to false to use a random seed.
+   */
+  seed?: number | false;
   /**
    * @deprecated We are still working on bringing logProbs to SDK. Stay tuned for updates.
    */
@@ -353,7 +426,13 @@ export const llmPredictionConfigInputSchema = z.object({
   stopStrings: z.array(z.string()).optional(),
   toolCallStopStrings: z.array(z.string()).optional(),
   contextOverflowPolicy: llmContextOverflowPolicySchema.optional(),
-  structured: z.union([zodSchemaSchema, llmStructuredPredictionSettingSchema]).optional(),
+  structured: z
+    .union([
+      zodSchemaSchema,
+      llmStructuredPredictionSettingSchema,
+      llmRegexStructuredPredictionSettingSchema,
+    ])
+    .optional(),
   rawTools: llmToolUseSettingSchema.optional(),
   toolChoice: llmToolChoiceSchema.optional(),
   toolNaming: toolNamingSchema.optional(),
@@ -362,6 +441,15 @@ export const llmPredictionConfigInputSchema = z.object({
   presencePenalty: z.number().optional().or(z.literal(false)),
   minPSampling: z.number().optional().or(z.literal(false)),
   topPSampling: z.number().optional().or(z.literal(false)),
+  frequencyPenalty: z.number().optional().or(z.literal(false)),
+  mirostatSampling: z
+    .lazy(() => llmLlamaMirostatSamplingConfigSchema)
+    .optional()
+    .or(z.literal(false)),
+  tailFreeSampling: z.number().min(0).max(1).optional().or(z.literal(false)),
+  locallyTypicalSampling: z.number().min(0).max(1).optional().or(z.literal(false)),
+  logitBias: z.lazy(() => llmLogitBiasInputSchema).optional(),
+  seed: z.number().int().optional().or(z.literal(false)),
   cpuThreads: z.number().int().optional(),
   enableThinking: z.boolean().optional(),
   promptTemplate: llmPromptTemplateSchema.optional(),
@@ -379,14 +467,27 @@ export const llmPredictionConfigInputSchema = z.object({
 /**
  * @public
  */
-export type LLMPredictionConfig = Omit<LLMPredictionConfigInput<any>, "structured"> & {
+export type LLMPredictionConfig = Omit<
+  LLMPredictionConfigInput<any>,
+  "structured" | "logitBias"
+> & {
   structured?: LLMStructuredPredictionSetting;
+  /**
+   * In a resolved prediction config, tokens in the logit bias are always token IDs.
+   */
+  logitBias?: LLMLlamaLogitBiasConfig;
 };
 export const llmPredictionConfigSchema = z.object({
   ...llmPredictionConfigInputSchema.shape,
   structured: llmStructuredPredictionSettingSchema.optional(),
+  logitBias: z.lazy(() => llmLlamaLogitBiasConfigSchema).optional(),
 }) as ZodSchema<LLMPredictionConfig>;
 
+/**
+ * Configuration for Mirostat sampling. See {@link LLMPredictionConfigInput#mirostatSampling}.
+ *
+ * @public
+ */
 export interface LLMLlamaMirostatSamplingConfig {
   /**
    * 0 = disabled
@@ -404,13 +505,33 @@ export const llmLlamaMirostatSamplingConfigSchema = z.object({
 /**
  * Specify a number to modify the likelihood. Specify "-inf" to prevent the token from being
  * generated.
+ *
+ * @public
  */
 export type LLMLlamaSingleLogitBiasModification = number | "-inf";
 export const llmLlamaSingleLogitBiasModificationSchema = z.union([z.number(), z.literal("-inf")]);
 
+/**
+ * Logit bias with tokens specified as token IDs.
+ *
+ * @public
+ */
 export type LLMLlamaLogitBiasConfig = Array<
   [token: number, modification: LLMLlamaSingleLogitBiasModification]
 >;
 export const llmLlamaLogitBiasConfigSchema = z.array(
   z.tuple([z.number(), llmLlamaSingleLogitBiasModificationSchema]),
 );
+
+/**
+ * Logit bias as passed to a prediction. Tokens can be specified as token IDs or as strings, which
+ * are tokenized with the model before the prediction starts.
+ *
+ * @public
+ */
+export type LLMLogitBiasInput = Array<
+  [token: number | string, modification: LLMLlamaSingleLogitBiasModification]
+>;
+export const llmLogitBiasInputSchema = z.array(
+  z.tuple([z.number().int().or(z.string()), llmLlamaSingleLogitBiasModificationSchema]),
+);
@@ -70,3 +70,28 @@ export const llmStructuredPredictionSettingSchema = z.object({
   jsonSchema: jsonSerializableSchema.optional(),
   gbnfGrammar: z.string().optional(),
 });
+
+/**
+ * A convenience setting for structured prediction that only allows output matching a regular
+ * expression. The regular expression is compiled to a GBNF grammar on the client before the
+ * prediction starts, so it works with every engine that supports GBNF.
+ *
+ * The pattern uses JavaScript regular expression syntax and must match the whole output.
+ * Backreferences, lookarounds and word boundaries are not supported.
+ *
+ * ```ts
+ * const prediction = model.respond("What is the date today?", {
+ *   structured: { type: "regex", pattern: "\\d{4}-\\d{2}-\\d{2}" },
+ * });
+ * ```
+ *
+ * @public
+ */
+export type LLMRegexStructuredPredictionSetting = {
+  type: "regex";
+  pattern: string;
+};
+export const llmRegexStructuredPredictionSettingSchema = z.object({
+  type: z.literal("regex"),
+  pattern: z.string(),
+});
@@ -1,18 +1,35 @@
 import { z } from "zod";
 
 /**
- * TODO: Documentation
+ * How the model should choose which tool to use.
+ *
+ * - `{ type: "generic", mode }`: Lets the model decide (`"auto"`), disables tool use (`"none"`),
+ *   or forces the model to call some tool (`"required"`).
+ * - `{ type: "function", name }`: Forces the model to call the tool with the given name.
  *
  * @public
  */
-export type LLMToolChoice = {
-  type: "generic";
-  mode: "none" | "auto" | "required";
-};
+export type LLMToolChoice =
+  | {
+      type: "generic";
+      mode: "none" | "auto" | "required";
+    }
+  | {
+      type: "function";
+      /**
+       * The name of the tool that must be called. Must match the name of one of the provided
+       * tools.
+       */
+      name: string;
+    };
 
 export const llmToolChoiceSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("generic"),
     mode: z.enum(["none", "auto", "required"]),
   }),
+  z.object({
+    type: z.literal("function"),
+    name: z.string(),
+  }),
 ]);
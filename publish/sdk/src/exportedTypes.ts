@@ -1,5 +1,14 @@
 export type {
+  ActCheckpoint,
   ActResult,
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicMessage,
+  AnthropicMessagesTranscript,
+  AnthropicTextBlock,
+  AnthropicToolResultBlock,
+  AnthropicToolUseBlock,
+  AnthropicUnsupportedBlock,
   ArtifactDownloadPlanner,
   ArtifactDownloadPlannerDownloadOpts,
   ArtifactDownloadPlannerSelectAlreadyOwnedModelOpts,
@@ -7,12 +16,22 @@ export type {
   BaseController,
   BaseLoadModelOpts,
   BasePredictionResult,
+  Cassette,
+  CassetteEvent,
+  CassetteInteraction,
+  CassetteInteractionType,
+  CassetteMatchOpts,
+  CassetteRequest,
   ChatAppendOpts,
+  ChatFormatConversionOpts,
   ChatInput,
   ChatLike,
   ChatMessageInput,
   ChatMessageLike,
+  ChatTreeData,
+  ChatTreeNodeData,
   ConfigSchematics,
+  ConnectMcpServerOpts,
   ConfigSchematicsBuilder,
   ContentBlockAppendTextOpts,
   ContentBlockAppendToolRequestOpts,
@@ -22,41 +41,95 @@ export type {
   CreateModelDownloadPlannerOpts,
   CreateCitationBlockOpts,
   CreateContentBlockOpts,
+  DeepPartial,
   DiagnosticsNamespace,
   DownloadArtifactOpts,
   DownloadOpts,
   DownloadRuntimeExtensionOpts,
   DynamicHandle,
+  EmbeddingIndexData,
+  EmbeddingIndexDocument,
+  EmbeddingIndexEntryData,
+  EmbeddingIndexMetadata,
+  EmbeddingIndexSearchOpts,
+  EmbeddingIndexSearchResult,
   EmbeddingNamespace,
   EnsureAuthenticatedOpts,
   FilesNamespace,
   FuzzyFindStaffPickResult,
   FuzzyFindStaffPicksOpts,
   FunctionTool,
+  GeminiContent,
+  GeminiContentsTranscript,
+  GeminiPart,
   Generator,
   GeneratorController,
   GeneratorPredictionResult,
   GuardToolCallController,
   GuardToolCallResult,
+  HistoryCompactionContext,
+  HistoryCompactionReport,
+  HistoryCompactionStrategy,
+  HistoryCompactor,
   InferParsedConfig,
   InstallLocalPluginOpts,
   LLMActBaseOpts,
   LLMActionOpts,
+  LLMBestOfNCancelledCandidate,
+  LLMBestOfNCandidate,
+  LLMBestOfNFailedCandidate,
+  LLMBestOfNJudge,
+  LLMBestOfNSelector,
+  LLMBestOfNSuccessCandidate,
+  LLMDiffPromptTemplateOpts,
+  LLMDiffPromptTemplateResult,
   LLMGeneratorActOpts,
   LLMGeneratorPredictionOpts,
+  LLMLogProbAnalysis,
+  LLMLogProbAnalysisOpts,
+  LLMLowConfidenceSpan,
   LLMNamespace,
   LLMPredictionFragmentWithRoundIndex,
+  LLMPredictionMiddleware,
+  LLMPredictionMiddlewareRequest,
+  LLMPredictionMiddlewareShortCircuit,
   LLMPredictionOpts,
+  LLMRespondBatchCache,
+  LLMRespondBatchItemFailure,
+  LLMRespondBatchItemResult,
+  LLMRespondBatchItemSuccess,
+  LLMRespondBatchOpts,
+  LLMRespondBatchResult,
+  LLMRespondBatchSummary,
+  LLMRespondBestOfNOpts,
+  LLMRespondBestOfNResult,
   LLMRespondOpts,
+  LLMScoreContinuationOpts,
+  LLMTokenAnalysis,
   LMStudioClientConstructorOpts,
+  LMStudioTracingOpts,
+  LocalTracingSpan,
   LoginWithPreAuthenticatedKeysOpts,
   LoginWithPreAuthenticatedKeysResult,
+  McpServerInfo,
+  McpServerSpecifier,
+  McpSession,
+  McpToolServer,
+  McpToolServerListener,
+  McpToolServerListenOpts,
+  McpToolServerOpts,
   ModelNamespace,
   ModelNamespaceUnloadOpts,
   ModelSearchResultDownloadOption,
   ModelSearchResultEntry,
   OngoingGeneratorPrediction,
   OngoingPrediction,
+  OpenAIChatMessage,
+  OpenAIImageContentPart,
+  OpenAITextContentPart,
+  OpenAIToolCall,
+  OpenTelemetryApiLike,
+  OpenTelemetrySpanLike,
   ParsedConfig,
   ParseDocumentOpts,
   ParseDocumentResult,
@@ -81,6 +154,10 @@ export type {
   RegisterDevelopmentPluginResult,
   RemoteTool,
   RemoteToolUseSession,
+  RenderedPromptDiff,
+  RenderedPromptDiffLine,
+  RenderPromptTemplateCustomField,
+  RenderPromptTemplateOpts,
   RepositoryDownloadPlannerOpts,
   RepositoryDownloadPlannerResolutionPreference,
   RepositoryLMLinkNamespace,
@@ -98,13 +175,18 @@ export type {
   ServiceInfo,
   SpecificModel,
   StartHttpServerOpts,
+  StructuredOutputRepairFailure,
+  StructuredOutputRepairOpts,
   StructuredPredictionResult,
   SystemNamespace,
   Tool,
   ToolBase,
   ToolCallContext,
+  ToolExecutionOpts,
+  ToolRetryPolicy,
   ToolsProvider,
   ToolsProviderController,
+  TracingAttributes,
   UnimplementedRawFunctionTool,
   UnstableRepositoryNamespace,
   VirtualConfigSchematics,
@@ -198,9 +280,13 @@ export type {
   LLMJinjaPromptTemplate,
   LLMLlamaAccelerationOffloadRatio,
   LLMLlamaCacheQuantizationType,
+  LLMLlamaLogitBiasConfig,
+  LLMLlamaMirostatSamplingConfig,
+  LLMLlamaSingleLogitBiasModification,
   LLMLoadModelConfig,
   LLMLoadSpeculativeDecodingConfig,
   LLMLoadSpeculativeDecodingResolution,
+  LLMLogitBiasInput,
   LLMManualPromptTemplate,
   LLMMlxKvCacheBitsType,
   LLMMlxKvCacheGroupSizeType,
@@ -215,6 +301,7 @@ export type {
   LLMPromptTemplate,
   LLMPromptTemplateType,
   LLMReasoningParsing,
+  LLMRegexStructuredPredictionSetting,
   LLMSplitStrategy,
   LLMStructuredPredictionSetting,
   LLMStructuredPredictionType,
@@ -1,12 +1,26 @@
 export {
+  analyzeLogProbs,
+  CassettePlayer,
+  CassetteRecorder,
   Chat,
   ChatMessage,
+  ChatTree,
+  ClientMetrics,
+  connectMcpServer,
   createConfigSchematics,
+  createMcpToolServer,
+  diffRenderedPrompts,
+  dropOldestTurns,
+  dropStaleToolResults,
   FileHandle,
+  jsonSchemaToGbnf,
   LLM,
   LLMGeneratorHandle,
   LMStudioClient,
   rawFunctionTool,
+  regexToGbnf,
+  renderPromptTemplate,
+  summarizeOldTurns,
   tool,
   ToolCallRequestError,
   ToolCallRequestInvalidArgumentsError,
@@ -14,8 +28,10 @@ export {
   ToolCallRequestInvalidNameError,
   LLMDynamicHandle,
   EmbeddingDynamicHandle,
+  EmbeddingIndex,
   EmbeddingModel,
   unimplementedRawFunctionTool,
+  zodToGbnf,
 } from "@lmstudio/lms-client";
 export { MaybeMutable, text } from "@lmstudio/lms-common";
 export { basicKVValueTypesLibrary, kvValueTypesLibrary } from "@lmstudio/lms-kv-config";